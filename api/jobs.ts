@@ -0,0 +1,19 @@
+import type { VercelRequest, VercelResponse } from "@vercel/node";
+import { ENV } from "../server/_core/env";
+import { tickJobs } from "../server/jobs";
+
+// Cron da Vercel (vercel.json): uma rodada do agendador por chamada.
+// A Vercel envia "Authorization: Bearer <CRON_SECRET>".
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  if (!ENV.cronSecret || req.headers.authorization !== `Bearer ${ENV.cronSecret}`) {
+    return res.status(401).json({ error: "Unauthorized" });
+  }
+
+  try {
+    const summary = await tickJobs();
+    res.json({ ok: true, ...summary });
+  } catch (error) {
+    console.error("[Jobs] Erro no cron:", error);
+    res.status(500).json({ error: "Job tick failed" });
+  }
+}
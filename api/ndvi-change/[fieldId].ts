@@ -0,0 +1,9 @@
+import express from "express";
+import { registerNdviRoutes } from "../../server/_core/ndviRoutes";
+
+// Adaptador da Vercel: as mesmas rotas de NDVI do servidor Express (mapa de mudança entre duas datas),
+// servidas pelo provedor de satélite em uso (server/services/satelliteProviders.ts).
+const app = express();
+registerNdviRoutes(app);
+
+export default app;
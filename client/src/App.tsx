@@ -14,9 +14,13 @@ import Fields from "./pages/Fields";
 import FieldDetail from "./pages/FieldDetail";
 import FieldDetailPro from "./pages/FieldDetailPro";
 import FieldDrawNew from "./pages/FieldDrawNew";
+import FieldSplit from "./pages/FieldSplit";
 import Notes from "./pages/Notes";
 import Profile from "./pages/Profile";
 import Auth from "./pages/Auth";
+import ShareAccept from "./pages/ShareAccept";
+import Clients from "./pages/Clients";
+import AdminJobs from "./pages/AdminJobs";
 
 function Router() {
   const [location] = useLocation();
@@ -48,6 +52,13 @@ function Router() {
         <Route path="/fields/:id" component={FieldDetail} />
         <Route path="/fields/:id/pro" component={FieldDetailPro} />
         <Route path="/fields/:id/edit" component={FieldDrawNew} />
+        <Route path="/fields/:id/split" component={FieldSplit} />
+
+        {/* Convites e links de campos compartilhados */}
+        <Route path="/share/:token" component={ShareAccept} />
+
+        {/* Carteira do consultor */}
+        <Route path="/clients" component={Clients} />
 
         {/* Notas */}
         <Route path="/notes" component={Notes} />
@@ -55,6 +66,9 @@ function Router() {
         {/* Perfil */}
         <Route path="/profile" component={Profile} />
 
+        {/* Administração */}
+        <Route path="/admin/jobs" component={AdminJobs} />
+
         {/* 404 */}
         <Route>
           <div className="flex items-center justify-center min-h-[100dvh] bg-gray-50">
@@ -40,9 +40,7 @@ export function useAuth(options?: UseAuthOptions) {
 
   const createGuestMutation = trpc.auth.getOrCreateGuest.useMutation({
     onSuccess: (data) => {
-      if (data.success && data.user?.id) {
-        // Save guest user ID to localStorage
-        localStorage.setItem("campovivo_user_id", String(data.user.id));
+      if (data.success) {
         utils.auth.me.invalidate();
       }
     },
@@ -53,8 +51,6 @@ export function useAuth(options?: UseAuthOptions) {
 
   const logoutMutation = trpc.auth.logout.useMutation({
     onSuccess: () => {
-      // Clear user ID from localStorage
-      localStorage.removeItem("campovivo_user_id");
       utils.auth.me.setData(undefined, null);
       // Reset guest creation flag so a new guest can be created
       guestCreationAttempted.current = false;
@@ -0,0 +1,110 @@
+import { useMemo, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { format } from "date-fns";
+import { History } from "lucide-react";
+import type { FieldGeometry } from "@/lib/fieldGeometry";
+
+interface BoundaryHistoryProps {
+  fieldId: number;
+}
+
+const SIZE = 220;
+
+function polygonsOf(geometry: FieldGeometry | null): number[][][][] {
+  if (!geometry) return [];
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+// Path SVG (regra par-ímpar, para os buracos ficarem vazados)
+function toPath(geometry: FieldGeometry | null, project: (p: number[]) => [number, number]): string {
+  return polygonsOf(geometry)
+    .flatMap(polygon => polygon)
+    .map(ring => ring.map((p, i) => `${i === 0 ? "M" : "L"}${project(p).join(",")}`).join(" ") + " Z")
+    .join(" ");
+}
+
+// Comparação entre a versão escolhida dos limites e a anterior
+export function BoundaryHistory({ fieldId }: BoundaryHistoryProps) {
+  const { data: versions } = trpc.fields.getBoundaryVersions.useQuery({ id: fieldId }, { enabled: !!fieldId });
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(null);
+
+  const index = selectedIndex ?? (versions ? versions.length - 1 : 0);
+  const selected = versions?.[index];
+  const previous = index > 0 ? versions?.[index - 1] : undefined;
+
+  const paths = useMemo(() => {
+    if (!selected) return null;
+    const geometries = [selected.geometry, previous?.geometry ?? null] as (FieldGeometry | null)[];
+    const positions = geometries.flatMap(g => polygonsOf(g).flat(2));
+    if (positions.length === 0) return null;
+
+    const lngs = positions.map(p => p[0]);
+    const lats = positions.map(p => p[1]);
+    const minLng = Math.min(...lngs);
+    const maxLat = Math.max(...lats);
+    const span = Math.max(Math.max(...lngs) - minLng, maxLat - Math.min(...lats)) || 1;
+    const project = (p: number[]): [number, number] => [
+      Number((((p[0] - minLng) / span) * (SIZE - 20) + 10).toFixed(1)),
+      Number((((maxLat - p[1]) / span) * (SIZE - 20) + 10).toFixed(1)),
+    ];
+
+    return {
+      current: toPath(selected.geometry as FieldGeometry | null, project),
+      previous: toPath((previous?.geometry ?? null) as FieldGeometry | null, project),
+      added: toPath((selected.diff?.added ?? null) as FieldGeometry | null, project),
+      removed: toPath((selected.diff?.removed ?? null) as FieldGeometry | null, project),
+    };
+  }, [selected, previous]);
+
+  if (!versions || versions.length < 2 || !selected) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-5">
+      <div className="flex items-center gap-2 mb-4">
+        <History className="h-5 w-5 text-gray-400" />
+        <span className="text-sm font-medium text-gray-700">Histórico de limites</span>
+      </div>
+
+      <div className="flex gap-6">
+        {paths && (
+          <svg width={SIZE} height={SIZE} className="shrink-0 bg-gray-50 rounded-lg">
+            {paths.previous && (
+              <path d={paths.previous} fill="none" stroke="#9CA3AF" strokeWidth={1.5} strokeDasharray="4 3" fillRule="evenodd" />
+            )}
+            <path d={paths.current} fill="#22C55E" fillOpacity={0.15} stroke="#16A34A" strokeWidth={1.5} fillRule="evenodd" />
+            {paths.added && <path d={paths.added} fill="#22C55E" fillOpacity={0.6} fillRule="evenodd" />}
+            {paths.removed && <path d={paths.removed} fill="#EF4444" fillOpacity={0.5} fillRule="evenodd" />}
+          </svg>
+        )}
+
+        <div className="flex-1 space-y-2">
+          {versions.map((version, i) => (
+            <button
+              key={version.id}
+              onClick={() => setSelectedIndex(i)}
+              className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                i === index ? "border-green-500 bg-green-50" : "border-gray-100 hover:border-gray-200"
+              }`}
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-800">
+                  {format(new Date(version.validFrom), "dd/MM/yyyy")}
+                  {" – "}
+                  {version.validTo ? format(new Date(version.validTo), "dd/MM/yyyy") : "atual"}
+                </span>
+                <span className="text-gray-500">{version.areaHectares.toFixed(1)} ha</span>
+              </div>
+              {version.diff && (
+                <p className="text-xs mt-1">
+                  <span className="text-green-600">+{version.diff.addedHectares.toFixed(2)} ha</span>
+                  {"  "}
+                  <span className="text-red-500">−{version.diff.removedHectares.toFixed(2)} ha</span>
+                </p>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,182 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Trees, Upload, Loader2, AlertTriangle, Droplets, Leaf, MapPin } from "lucide-react";
+
+interface CarComplianceDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// CAR da fazenda (perímetro, Reserva Legal e APP) e quanto de cada campo cai nas áreas protegidas
+export function CarComplianceDialog({ open, onOpenChange }: CarComplianceDialogProps) {
+  const [selectedFarmId, setSelectedFarmId] = useState<number | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: farms } = trpc.farms.list.useQuery(undefined, { enabled: open });
+  const farmId = selectedFarmId ?? farms?.[0]?.id ?? null;
+
+  const { data: report, isLoading } = trpc.farms.carCompliance.useQuery(
+    { farmId: farmId ?? 0 },
+    { enabled: open && farmId !== null }
+  );
+
+  const attachCar = trpc.farms.attachCar.useMutation({
+    onSuccess: (data) => {
+      toast.success(`CAR ${data.codigoCar} anexado`);
+      data.warnings.forEach((warning) => toast.warning(warning));
+      utils.farms.carCompliance.invalidate();
+      utils.farms.carLayers.invalidate();
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao importar CAR");
+    },
+  });
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file || farmId === null) return;
+    attachCar.mutate({ farmId, content: await file.text() });
+    e.target.value = "";
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Trees className="h-5 w-5 text-green-500" />
+            CAR da Fazenda
+          </DialogTitle>
+          <DialogDescription>
+            GeoJSON exportado do SICAR com perímetro, Reserva Legal e APP
+          </DialogDescription>
+        </DialogHeader>
+
+        {farms && farms.length === 0 ? (
+          <p className="text-sm text-gray-500 py-6 text-center">
+            Crie uma fazenda para anexar o CAR
+          </p>
+        ) : (
+          <div className="space-y-4">
+            <Select
+              value={farmId?.toString() ?? ""}
+              onValueChange={(value) => setSelectedFarmId(Number(value))}
+            >
+              <SelectTrigger>
+                <SelectValue placeholder="Selecione a fazenda" />
+              </SelectTrigger>
+              <SelectContent>
+                {farms?.map((farm) => (
+                  <SelectItem key={farm.id} value={farm.id.toString()}>
+                    {farm.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 text-green-600 animate-spin" />
+              </div>
+            ) : report ? (
+              <div className="space-y-3">
+                <div>
+                  <p className="font-mono text-xs text-gray-500">{report.codigoCar}</p>
+                  {report.nomePropriedade && (
+                    <p className="text-sm font-medium text-gray-800">{report.nomePropriedade}</p>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Badge variant="outline">
+                    <MapPin className="h-3 w-3 mr-1" />
+                    {report.areas.total.toFixed(1)} ha total
+                  </Badge>
+                  <Badge variant="outline" className="bg-green-100 text-green-800">
+                    <Leaf className="h-3 w-3 mr-1" />
+                    {report.areas.reservaLegal.toFixed(1)} ha RL
+                  </Badge>
+                  <Badge variant="outline" className="bg-blue-100 text-blue-800">
+                    <Droplets className="h-3 w-3 mr-1" />
+                    {report.areas.app.toFixed(1)} ha APP
+                  </Badge>
+                </div>
+
+                <div className="max-h-64 overflow-y-auto space-y-2">
+                  {report.fields.length === 0 && (
+                    <p className="text-sm text-gray-500">Nenhum campo nesta fazenda</p>
+                  )}
+                  {report.fields.map((field) => (
+                    <div
+                      key={field.fieldId}
+                      className={`p-3 rounded-xl border ${
+                        field.warnings.length > 0 ? "border-red-200 bg-red-50" : "border-gray-100 bg-white"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between gap-2">
+                        <p className="font-medium text-gray-900 truncate">{field.name}</p>
+                        <span className="text-sm text-gray-500 whitespace-nowrap">
+                          {field.areaHectares.toFixed(1)} ha
+                        </span>
+                      </div>
+                      <p className="text-xs text-gray-500 mt-1">
+                        APP: {field.appHectares.toFixed(2)} ha · RL: {field.reservaLegalHectares.toFixed(2)} ha
+                        · Consolidada: {field.consolidadaHectares.toFixed(2)} ha
+                      </p>
+                      {field.warnings.map((warning, i) => (
+                        <p key={i} className="text-xs text-red-600 mt-1 flex items-center gap-1">
+                          <AlertTriangle className="h-3 w-3" />
+                          {warning}
+                        </p>
+                      ))}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500 text-center py-2">
+                Nenhum CAR anexado a esta fazenda
+              </p>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          {farmId !== null && (
+            <Button asChild className="bg-green-500 hover:bg-green-600" disabled={attachCar.isPending}>
+              <label className="cursor-pointer">
+                {attachCar.isPending ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <Upload className="h-4 w-4 mr-2" />
+                )}
+                {report ? "Substituir CAR" : "Anexar CAR"}
+                <input type="file" accept=".json,.geojson" onChange={handleFile} className="hidden" />
+              </label>
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,158 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Briefcase, X } from "lucide-react";
+
+interface ConsultantAccessDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Permission = "view" | "comment" | "edit";
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  view: "Ver",
+  comment: "Comentar",
+  edit: "Editar",
+};
+
+// Fazendas liberadas para consultores; o produtor continua dono e pode revogar a qualquer momento
+export function ConsultantAccessDialog({ open, onOpenChange }: ConsultantAccessDialogProps) {
+  const [email, setEmail] = useState("");
+  const [permission, setPermission] = useState<Permission>("comment");
+  const [farmIds, setFarmIds] = useState<number[]>([]);
+
+  const utils = trpc.useUtils();
+  const { data: farms } = trpc.farms.list.useQuery(undefined, { enabled: open });
+  const { data: grants } = trpc.consultants.grants.useQuery(undefined, { enabled: open });
+
+  const toggleFarm = (farmId: number) => {
+    setFarmIds((current) =>
+      current.includes(farmId) ? current.filter((id) => id !== farmId) : [...current, farmId]
+    );
+  };
+
+  const grant = trpc.consultants.grant.useMutation({
+    onSuccess: () => {
+      toast.success(`Fazendas liberadas para ${email}`);
+      setEmail("");
+      setFarmIds([]);
+      utils.consultants.grants.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Erro ao liberar fazendas"),
+  });
+
+  const revoke = trpc.consultants.revoke.useMutation({
+    onSuccess: () => {
+      toast.success("Acesso revogado");
+      utils.consultants.grants.invalidate();
+    },
+    onError: (error) => toast.error(error.message || "Erro ao revogar acesso"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Briefcase className="h-5 w-5 text-green-500" />
+            Consultores
+          </DialogTitle>
+          <DialogDescription>
+            O consultor acompanha as fazendas escolhidas; você continua dono delas
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          {farms?.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-2">Cadastre uma fazenda para liberar a um consultor</p>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {farms?.map((farm) => (
+              <button
+                key={farm.id}
+                type="button"
+                onClick={() => toggleFarm(farm.id)}
+                className={`px-3 py-1.5 rounded-full text-sm border transition-colors ${
+                  farmIds.includes(farm.id)
+                    ? "border-green-500 bg-green-50 text-green-700"
+                    : "border-gray-200 text-gray-600"
+                }`}
+              >
+                {farm.name}
+              </button>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="email@consultor.com"
+            />
+            <Select value={permission} onValueChange={(value) => setPermission(value as Permission)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PERMISSION_LABELS) as Permission[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {PERMISSION_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            className="w-full bg-green-500 hover:bg-green-600"
+            onClick={() => grant.mutate({ email: email.trim(), farmIds, permission })}
+            disabled={!email.trim() || farmIds.length === 0 || grant.isPending}
+          >
+            Liberar {farmIds.length > 0 ? `${farmIds.length} ${farmIds.length === 1 ? "fazenda" : "fazendas"}` : "fazendas"}
+          </Button>
+
+          <div className="max-h-64 overflow-y-auto space-y-2 pt-2">
+            {grants?.map((item) => (
+              <div key={item.id} className="flex items-center gap-3 p-3 rounded-xl border border-gray-100 bg-white">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {item.consultantName || item.consultantEmail}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {item.farmName} · {PERMISSION_LABELS[item.permission]}
+                  </p>
+                </div>
+                <button onClick={() => revoke.mutate({ id: item.id })} title="Revogar">
+                  <X className="h-4 w-4 text-gray-400 hover:text-red-600" />
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
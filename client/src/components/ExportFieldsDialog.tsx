@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Download } from "lucide-react";
+
+type ExportFormat = "geojson" | "kml" | "shapefile" | "isoxml";
+
+const EXPORT_FORMATS: { value: ExportFormat; label: string; description: string }[] = [
+  { value: "shapefile", label: "Shapefile", description: ".zip com .shp, .dbf e .prj (SIRGAS 2000)" },
+  { value: "isoxml", label: "ISOXML", description: "TASKDATA para terminais ISOBUS" },
+  { value: "kml", label: "KML", description: "Google Earth" },
+  { value: "geojson", label: "GeoJSON", description: "Sistemas GIS e web" },
+];
+
+interface ExportFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fieldIds?: number[];
+  farmId?: number;
+  title?: string;
+}
+
+export function downloadBase64(contentBase64: string, fileName: string, mimeType: string) {
+  const binary = atob(contentBase64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  const url = URL.createObjectURL(new Blob([bytes], { type: mimeType }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function ExportFieldsDialog({
+  open,
+  onOpenChange,
+  fieldIds,
+  farmId,
+  title,
+}: ExportFieldsDialogProps) {
+  const [format, setFormat] = useState<ExportFormat>("shapefile");
+
+  const exportFields = trpc.fields.export.useMutation({
+    onSuccess: (file) => {
+      downloadBase64(file.contentBase64, file.fileName, file.mimeType);
+      toast.success("Arquivo exportado");
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao exportar campos");
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Download className="h-5 w-5 text-green-500" />
+            Exportar Limites
+          </DialogTitle>
+          <DialogDescription>
+            {title ?? "Todos os campos"} — nome, área e cultura atual como atributos
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          {EXPORT_FORMATS.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setFormat(option.value)}
+              className={`w-full text-left p-3 rounded-xl border transition-colors ${
+                format === option.value
+                  ? "border-green-500 bg-green-50"
+                  : "border-gray-100 hover:border-gray-200"
+              }`}
+            >
+              <p className="font-medium text-gray-900">{option.label}</p>
+              <p className="text-xs text-gray-500">{option.description}</p>
+            </button>
+          ))}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => exportFields.mutate({ format, fieldIds, farmId })}
+            disabled={exportFields.isPending}
+            className="bg-green-500 hover:bg-green-600"
+          >
+            {exportFields.isPending ? "Exportando..." : "Exportar"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
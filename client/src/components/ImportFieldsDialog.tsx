@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Upload, Loader2, AlertTriangle, MapPin } from "lucide-react";
+
+// Formatos aceitos pelo importador do servidor
+const ACCEPTED_EXTENSIONS = ".zip,.kml,.kmz,.gpx,.json,.geojson";
+
+type CarAreaKey = "total" | "reservaLegal" | "app" | "consolidada";
+
+const TIPO_LABELS: Record<CarAreaKey, string> = {
+  total: "Imóvel",
+  reservaLegal: "Reserva Legal",
+  app: "APP",
+  consolidada: "Área consolidada",
+};
+
+interface ImportFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  farmId?: number;
+  onSuccess?: (createdCount: number) => void;
+}
+
+async function fileToBase64(file: File): Promise<string> {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + chunkSize)));
+  }
+  return btoa(binary);
+}
+
+export function ImportFieldsDialog({
+  open,
+  onOpenChange,
+  farmId,
+  onSuccess,
+}: ImportFieldsDialogProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const utils = trpc.useUtils();
+  const preview = trpc.fields.importPreview.useMutation({
+    onSuccess: (data) => {
+      // O perímetro do imóvel do CAR englobaria os demais polígonos: começa desmarcado
+      const parcels = data.features.filter((f) => f.tipo !== "total");
+      setSelected(new Set((parcels.length > 0 ? parcels : data.features).map((f) => f.index)));
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao ler arquivo");
+    },
+  });
+  const bulkCreate = trpc.fields.bulkCreate.useMutation({
+    onSuccess: (data) => {
+      toast.success(`${data.ids.length} campo(s) importado(s)`);
+      if (data.intruding > 0) {
+        toast.warning(`${data.intruding} campo(s) invadem APP ou Reserva Legal do CAR`);
+      }
+      utils.fields.list.invalidate();
+      onSuccess?.(data.ids.length);
+      preview.reset();
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao criar campos");
+    },
+  });
+
+  const features = preview.data?.features ?? [];
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    preview.mutate({ fileName: file.name, contentBase64: await fileToBase64(file) });
+  };
+
+  const toggle = (index: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(index)) next.delete(index);
+      else next.add(index);
+      return next;
+    });
+  };
+
+  const handleCreate = () => {
+    const chosen = features.filter((f) => selected.has(f.index));
+    if (chosen.length === 0) return;
+
+    // Todos os campos numa única transação; a geometria completa mantém partes e buracos
+    bulkCreate.mutate({
+      farmId,
+      fields: chosen.map((feature) => ({
+        name: feature.name,
+        boundaries: JSON.stringify(feature.geometry),
+      })),
+    });
+  };
+
+  // Tipos de feição do CAR presentes no arquivo, para selecionar uma camada inteira
+  const tipos = Array.from(new Set(features.map((f) => f.tipo).filter((t): t is CarAreaKey => !!t)));
+
+  const selectTipo = (tipo: CarAreaKey) => {
+    setSelected(new Set(features.filter((f) => f.tipo === tipo).map((f) => f.index)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Upload className="h-5 w-5 text-green-500" />
+            Importar Campos
+          </DialogTitle>
+          <DialogDescription>
+            Shapefile (.zip com .shp, .dbf e .prj), KML/KMZ, GPX ou GeoJSON, inclusive exportados do CAR
+          </DialogDescription>
+        </DialogHeader>
+
+        {!preview.data ? (
+          <label className="border-2 border-dashed border-gray-200 hover:border-gray-300 rounded-xl p-8 text-center cursor-pointer block">
+            {preview.isPending ? (
+              <div className="flex flex-col items-center gap-3">
+                <Loader2 className="h-10 w-10 text-green-600 animate-spin" />
+                <p className="text-sm text-gray-500">Processando arquivo...</p>
+              </div>
+            ) : (
+              <>
+                <div className="w-16 h-16 mx-auto mb-4 rounded-full bg-green-100 flex items-center justify-center">
+                  <Upload className="h-8 w-8 text-green-600" />
+                </div>
+                <p className="text-gray-700 font-medium mb-1">Selecione o arquivo</p>
+                <p className="text-xs text-gray-400">
+                  Coordenadas em SIRGAS 2000/UTM são convertidas automaticamente
+                </p>
+              </>
+            )}
+            <input
+              type="file"
+              accept={ACCEPTED_EXTENSIONS}
+              onChange={handleFile}
+              className="hidden"
+            />
+          </label>
+        ) : (
+          <div className="space-y-3">
+            {preview.data.warnings.length > 0 && (
+              <div className="text-xs text-amber-700 space-y-0.5">
+                {preview.data.warnings.map((w, i) => (
+                  <p key={i} className="flex items-center gap-1">
+                    <AlertTriangle className="h-3 w-3" />
+                    {w}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            {tipos.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {tipos.map((tipo) => (
+                  <Button key={tipo} type="button" variant="outline" size="sm" onClick={() => selectTipo(tipo)}>
+                    Só {TIPO_LABELS[tipo]} ({features.filter((f) => f.tipo === tipo).length})
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            <div className="max-h-80 overflow-y-auto space-y-2">
+              {features.map((feature) => (
+                <label
+                  key={feature.index}
+                  className="flex items-start gap-3 p-3 rounded-xl border border-gray-100 bg-white cursor-pointer"
+                >
+                  <Checkbox
+                    checked={selected.has(feature.index)}
+                    onCheckedChange={() => toggle(feature.index)}
+                    className="mt-0.5"
+                  />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center justify-between gap-2">
+                      <p className="font-medium text-gray-900 truncate">
+                        {feature.name}
+                        {feature.tipo && (
+                          <span className="ml-2 text-xs font-normal text-green-700 bg-green-50 px-1.5 py-0.5 rounded">
+                            {TIPO_LABELS[feature.tipo]}
+                          </span>
+                        )}
+                      </p>
+                      <span className="text-sm text-gray-500 whitespace-nowrap flex items-center gap-1">
+                        <MapPin className="h-3 w-3" />
+                        {feature.areaHectares.toFixed(1)} ha
+                      </span>
+                    </div>
+                    <p className="text-xs text-gray-400 truncate">
+                      {Object.entries(feature.properties)
+                        .filter(([, value]) => value !== null && value !== "")
+                        .slice(0, 4)
+                        .map(([key, value]) => `${key}: ${String(value)}`)
+                        .join(" · ")}
+                    </p>
+                  </div>
+                </label>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => (preview.data ? preview.reset() : onOpenChange(false))}
+          >
+            {preview.data ? "Outro arquivo" : "Cancelar"}
+          </Button>
+          {preview.data && (
+            <Button
+              onClick={handleCreate}
+              disabled={bulkCreate.isPending || selected.size === 0}
+              className="bg-green-500 hover:bg-green-600"
+            >
+              {bulkCreate.isPending ? "Criando..." : `Criar ${selected.size} campo(s)`}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Combine, MapPin } from "lucide-react";
+
+interface MergeFieldsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess?: (fieldId: number) => void;
+}
+
+export function MergeFieldsDialog({
+  open,
+  onOpenChange,
+  onSuccess,
+}: MergeFieldsDialogProps) {
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [name, setName] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: fields } = trpc.fields.list.useQuery(undefined, { enabled: open });
+  const mergeFields = trpc.fields.merge.useMutation({
+    onSuccess: (data) => {
+      toast.success("Campos unidos");
+      utils.fields.list.invalidate();
+      setSelected(new Set());
+      setName("");
+      onOpenChange(false);
+      onSuccess?.(data.id);
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao unir campos");
+    },
+  });
+
+  const candidates = (fields ?? []).filter((f) => f.boundaries);
+
+  const toggle = (id: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Combine className="h-5 w-5 text-green-500" />
+            Unir Campos
+          </DialogTitle>
+          <DialogDescription>
+            Cultivos, notas, tarefas e histórico NDVI passam para o novo campo
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Nome do novo campo (opcional)"
+          />
+          <div className="max-h-80 overflow-y-auto space-y-2">
+            {candidates.map((field) => (
+              <label
+                key={field.id}
+                className="flex items-center gap-3 p-3 rounded-xl border border-gray-100 bg-white cursor-pointer"
+              >
+                <Checkbox
+                  checked={selected.has(field.id)}
+                  onCheckedChange={() => toggle(field.id)}
+                />
+                <p className="flex-1 font-medium text-gray-900 truncate">{field.name}</p>
+                <span className="text-sm text-gray-500 whitespace-nowrap flex items-center gap-1">
+                  <MapPin className="h-3 w-3" />
+                  {((field.areaHectares ?? 0) / 100).toFixed(1)} ha
+                </span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => mergeFields.mutate({ fieldIds: Array.from(selected), name: name.trim() || undefined })}
+            disabled={mergeFields.isPending || selected.size < 2}
+            className="bg-green-500 hover:bg-green-600"
+          >
+            {mergeFields.isPending ? "Unindo..." : `Unir ${selected.size} campo(s)`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useMemo, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { format } from "date-fns";
+import { ArrowLeftRight } from "lucide-react";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CHANGE_PALETTE, CHANGE_RANGE } from "@shared/vegetationIndices";
+
+interface NdviCompareProps {
+  fieldId: number;
+  scenes: { id: number; date: Date | string }[]; // leituras gravadas, da mais recente para a mais antiga
+}
+
+const dayOf = (date: Date) => date.toISOString().split("T")[0];
+
+// Escala da paleta divergente, da maior queda (esquerda) ao maior ganho
+const CHANGE_GRADIENT = `linear-gradient(to right, ${CHANGE_PALETTE
+  .map(stop => `rgb(${stop.color.join(", ")}) ${Math.round(stop.value * 100)}%`)
+  .join(", ")})`;
+
+// Duas cenas lado a lado com uma cortina deslizante e o mapa de mudança entre elas
+export function NdviCompare({ fieldId, scenes }: NdviCompareProps) {
+  const dates = useMemo(() => scenes.map(scene => new Date(scene.date)), [scenes]);
+  const [beforeIndex, setBeforeIndex] = useState(1);
+  const [afterIndex, setAfterIndex] = useState(0);
+  const [position, setPosition] = useState(50);
+  const [showChange, setShowChange] = useState(false);
+
+  const before = dates[beforeIndex];
+  const after = dates[afterIndex];
+  const ordered = !!before && !!after && before < after;
+  const { data: change, isFetching, error } = trpc.ndvi.change.useQuery(
+    { fieldId, from: before, to: after },
+    { enabled: ordered }
+  );
+
+  if (dates.length < 2) return null;
+
+  const dateSelect = (value: number, onChange: (value: number) => void) => (
+    <Select value={String(value)} onValueChange={(v) => onChange(parseInt(v))}>
+      <SelectTrigger className="w-36 h-8 text-xs">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {dates.map((date, i) => (
+          <SelectItem key={scenes[i].id} value={String(i)}>{format(date, "dd/MM/yyyy")}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm p-5">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <ArrowLeftRight className="h-5 w-5 text-gray-400" />
+          <span className="text-sm font-medium text-gray-700">Comparar datas</span>
+        </div>
+        <div className="flex items-center gap-2">
+          {dateSelect(beforeIndex, setBeforeIndex)}
+          <span className="text-xs text-gray-400">→</span>
+          {dateSelect(afterIndex, setAfterIndex)}
+          <button
+            onClick={() => setShowChange(prev => !prev)}
+            disabled={!ordered}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border disabled:opacity-50 ${
+              showChange ? "bg-green-600 text-white border-green-600" : "bg-white text-gray-700 border-gray-200"
+            }`}
+          >
+            Mudança
+          </button>
+        </div>
+      </div>
+
+      {!ordered ? (
+        <p className="text-sm text-gray-500">Escolha uma primeira data anterior à segunda.</p>
+      ) : (
+        <div className="flex gap-6">
+          <div className="flex-1">
+            <div className="relative h-72 bg-gray-50 rounded-lg overflow-hidden">
+              {showChange ? (
+                change && <img src={change.imageUrl} alt="Mudança do NDVI" className="absolute inset-0 w-full h-full object-contain [image-rendering:pixelated]" />
+              ) : (
+                <>
+                  <img src={`/api/ndvi-image/${fieldId}?date=${dayOf(before)}`} alt={format(before, "dd/MM/yyyy")} className="absolute inset-0 w-full h-full object-contain" />
+                  <img
+                    src={`/api/ndvi-image/${fieldId}?date=${dayOf(after)}`}
+                    alt={format(after, "dd/MM/yyyy")}
+                    className="absolute inset-0 w-full h-full object-contain"
+                    style={{ clipPath: `inset(0 0 0 ${position}%)` }}
+                  />
+                  <div className="absolute inset-y-0 w-0.5 bg-white shadow" style={{ left: `${position}%` }} />
+                  <span className="absolute left-2 top-2 text-[11px] bg-white/90 rounded px-1.5 py-0.5 text-gray-700">{format(before, "dd/MM")}</span>
+                  <span className="absolute right-2 top-2 text-[11px] bg-white/90 rounded px-1.5 py-0.5 text-gray-700">{format(after, "dd/MM")}</span>
+                </>
+              )}
+            </div>
+            {showChange ? (
+              <div className="mt-3">
+                <div className="h-2 rounded-full" style={{ background: CHANGE_GRADIENT }} />
+                <div className="flex justify-between text-[11px] text-gray-500 mt-1">
+                  <span>−{CHANGE_RANGE.toFixed(1)}</span>
+                  <span>0</span>
+                  <span>+{CHANGE_RANGE.toFixed(1)}</span>
+                </div>
+              </div>
+            ) : (
+              <Slider className="mt-3" value={[position]} onValueChange={([value]) => setPosition(value)} min={0} max={100} step={1} />
+            )}
+          </div>
+
+          <div className="w-44 space-y-2 text-sm">
+            {isFetching && <p className="text-xs text-gray-500">Calculando mudança...</p>}
+            {error && <p className="text-xs text-red-500">{error.message}</p>}
+            {change && (
+              <>
+                {([
+                  { label: "Melhorou", hectares: change.summary.improvedHectares, percent: change.summary.improvedPercent, color: "text-green-600" },
+                  { label: "Estável", hectares: change.summary.stableHectares, percent: change.summary.stablePercent, color: "text-gray-700" },
+                  { label: "Piorou", hectares: change.summary.declinedHectares, percent: change.summary.declinedPercent, color: "text-red-500" },
+                ]).map(row => (
+                  <div key={row.label} className="flex items-center justify-between">
+                    <span className={`font-medium ${row.color}`}>{row.label}</span>
+                    <span className="text-gray-600">{row.hectares.toFixed(1)} ha · {row.percent}%</span>
+                  </div>
+                ))}
+                {change.summary.meanChange !== null && (
+                  <p className="text-xs text-gray-500">
+                    Variação média {change.summary.meanChange > 0 ? "+" : ""}{change.summary.meanChange.toFixed(3)}
+                  </p>
+                )}
+                {change.summary.noDataHectares > 0.05 && (
+                  <p className="text-xs text-gray-500">{change.summary.noDataHectares.toFixed(1)} ha sem dado (nuvens)</p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Users, UserPlus, X, Check } from "lucide-react";
+
+interface OrganizationDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Role = "owner" | "agronomist" | "operator" | "viewer";
+
+const ROLE_LABELS: Record<Role, string> = {
+  owner: "Gestor",
+  agronomist: "Agrônomo",
+  operator: "Operador",
+  viewer: "Visualizador",
+};
+
+// Organização ativa, troca entre organizações e membros com seus papéis
+export function OrganizationDialog({ open, onOpenChange }: OrganizationDialogProps) {
+  const [email, setEmail] = useState("");
+  const [role, setRole] = useState<Role>("operator");
+
+  const utils = trpc.useUtils();
+  const { data: current } = trpc.organizations.current.useQuery(undefined, { enabled: open });
+  const { data: organizations } = trpc.organizations.list.useQuery(undefined, { enabled: open });
+  const { data: members } = trpc.organizations.members.useQuery(undefined, { enabled: open });
+  const canManage = current?.permissions.includes("members:manage") ?? false;
+
+  const onError = (error: { message: string }) => toast.error(error.message);
+
+  const switchOrganization = trpc.organizations.switch.useMutation({
+    onSuccess: () => {
+      // Campos, notas, tarefas e painel mudam junto com a organização
+      utils.invalidate();
+      toast.success("Organização alterada");
+    },
+    onError,
+  });
+
+  const addMember = trpc.organizations.addMember.useMutation({
+    onSuccess: () => {
+      toast.success(`${email} adicionado à equipe`);
+      setEmail("");
+      utils.organizations.members.invalidate();
+    },
+    onError,
+  });
+
+  const updateRole = trpc.organizations.updateMemberRole.useMutation({
+    onSuccess: () => utils.organizations.members.invalidate(),
+    onError,
+  });
+
+  const removeMember = trpc.organizations.removeMember.useMutation({
+    onSuccess: () => {
+      toast.success("Membro removido");
+      utils.organizations.members.invalidate();
+    },
+    onError,
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5 text-green-500" />
+            {current?.name || "Equipe"}
+          </DialogTitle>
+          <DialogDescription>
+            {current ? `Seu papel: ${current.roleLabel}` : "Membros e papéis da organização"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {organizations && organizations.length > 1 && (
+            <div className="flex flex-wrap gap-2">
+              {organizations.map((organization) => (
+                <Button
+                  key={organization.id}
+                  size="sm"
+                  variant={organization.isActive ? "default" : "outline"}
+                  className={organization.isActive ? "bg-green-500 hover:bg-green-600" : ""}
+                  disabled={organization.isActive || switchOrganization.isPending}
+                  onClick={() => switchOrganization.mutate({ organizationId: organization.id })}
+                >
+                  {organization.isActive && <Check className="h-3 w-3 mr-1" />}
+                  {organization.name}
+                </Button>
+              ))}
+            </div>
+          )}
+
+          {canManage && (
+            <div className="flex gap-2">
+              <Input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="email@equipe.com"
+              />
+              <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(ROLE_LABELS) as Role[]).map((key) => (
+                    <SelectItem key={key} value={key}>
+                      {ROLE_LABELS[key]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                onClick={() => addMember.mutate({ email: email.trim(), role })}
+                disabled={!email.trim() || addMember.isPending}
+                className="bg-green-500 hover:bg-green-600"
+              >
+                <UserPlus className="h-4 w-4" />
+              </Button>
+            </div>
+          )}
+
+          <div className="max-h-72 overflow-y-auto space-y-2">
+            {members?.map((member) => (
+              <div key={member.userId} className="flex items-center gap-3 p-3 rounded-xl border border-gray-100 bg-white">
+                <div className="flex-1 min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">{member.name || member.email}</p>
+                  {member.name && <p className="text-xs text-gray-500 truncate">{member.email}</p>}
+                </div>
+                {canManage ? (
+                  <>
+                    <Select
+                      value={member.role}
+                      onValueChange={(value) => updateRole.mutate({ userId: member.userId, role: value as Role })}
+                    >
+                      <SelectTrigger className="w-36 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(ROLE_LABELS) as Role[]).map((key) => (
+                          <SelectItem key={key} value={key}>
+                            {ROLE_LABELS[key]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <button onClick={() => removeMember.mutate({ userId: member.userId })} title="Remover">
+                      <X className="h-4 w-4 text-gray-400 hover:text-red-600" />
+                    </button>
+                  </>
+                ) : (
+                  <span className="text-xs text-gray-500">{member.roleLabel}</span>
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { toast } from "sonner";
+import { Download, SprayCan } from "lucide-react";
+import { zoneColor } from "@shared/vegetationIndices";
+import { downloadBase64 } from "./ExportFieldsDialog";
+
+type RateUnit = "kg/ha" | "L/ha" | "sementes/ha";
+type RateMode = "zones" | "linear";
+
+const RATE_UNITS: RateUnit[] = ["kg/ha", "L/ha", "sementes/ha"];
+
+interface PrescriptionDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  fieldId: number;
+  fieldName: string;
+  zones: { zone: number; meanIndex: number; areaHectares: number }[];
+}
+
+export function PrescriptionDialog({ open, onOpenChange, fieldId, fieldName, zones }: PrescriptionDialogProps) {
+  const [productName, setProductName] = useState("");
+  const [unit, setUnit] = useState<RateUnit>("kg/ha");
+  const [selectedMode, setMode] = useState<RateMode>("zones");
+  const mode: RateMode = zones.length === 0 ? "linear" : selectedMode; // sem zonas geradas, só a taxa linear
+  const [zoneRates, setZoneRates] = useState<Record<number, string>>({});
+  const [minRate, setMinRate] = useState("");
+  const [maxRate, setMaxRate] = useState("");
+  const [cellMeters, setCellMeters] = useState("20");
+
+  const utils = trpc.useUtils();
+  const { data: history } = trpc.prescriptions.listByField.useQuery({ fieldId }, { enabled: open });
+  const latest = history?.[0];
+  const latestSummary = latest?.summary as
+    | { areaHectares: number; totalProduct: number; averageRate: number; minRate: number; maxRate: number }
+    | undefined;
+
+  const createPrescription = trpc.prescriptions.create.useMutation({
+    onSuccess: () => {
+      toast.success("Prescrição gerada");
+      utils.prescriptions.listByField.invalidate({ fieldId });
+    },
+    onError: (error) => toast.error(error.message || "Erro ao gerar prescrição"),
+  });
+
+  const exportPrescription = trpc.prescriptions.export.useMutation({
+    onSuccess: (file) => downloadBase64(file.contentBase64, file.fileName, file.mimeType),
+    onError: (error) => toast.error(error.message || "Erro ao exportar prescrição"),
+  });
+
+  const logApplication = trpc.prescriptions.logApplication.useMutation({
+    onSuccess: () => {
+      toast.success("Aplicação registrada nas notas do campo");
+      utils.prescriptions.listByField.invalidate({ fieldId });
+      utils.notes.listByField.invalidate({ fieldId });
+    },
+    onError: (error) => toast.error(error.message || "Erro ao registrar aplicação"),
+  });
+
+  const handleSubmit = () => {
+    const rule = mode === "zones"
+      ? { mode, rates: zones.map(zone => ({ zone: zone.zone, rate: parseFloat(zoneRates[zone.zone] || "0") })) }
+      : { mode, minRate: parseFloat(minRate || "0"), maxRate: parseFloat(maxRate || "0") };
+    createPrescription.mutate({
+      fieldId,
+      productName: productName.trim(),
+      unit,
+      cellMeters: parseInt(cellMeters) || 20,
+      rule,
+    });
+  };
+
+  const canSubmit = productName.trim().length > 0 && (mode === "linear"
+    ? minRate !== "" && maxRate !== ""
+    : zones.length > 0 && zones.every(zone => zoneRates[zone.zone]));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <SprayCan className="h-5 w-5 text-green-500" />
+            Prescrição em taxa variável
+          </DialogTitle>
+          <DialogDescription>{fieldName}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="col-span-2 space-y-1">
+              <Label htmlFor="prescription-product">Produto</Label>
+              <Input
+                id="prescription-product"
+                value={productName}
+                onChange={(e) => setProductName(e.target.value)}
+                placeholder="Ex.: Ureia, KCl, semente de soja"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Unidade</Label>
+              <Select value={unit} onValueChange={(value: RateUnit) => setUnit(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {RATE_UNITS.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            {([
+              { value: "zones", label: "Por zona de manejo", disabled: zones.length === 0 },
+              { value: "linear", label: "Linear pelo NDVI", disabled: false },
+            ] as const).map(option => (
+              <button
+                key={option.value}
+                type="button"
+                disabled={option.disabled}
+                onClick={() => setMode(option.value)}
+                className={`p-2 rounded-xl border text-sm transition-colors disabled:opacity-50 ${
+                  mode === option.value ? "border-green-500 bg-green-50" : "border-gray-100 hover:border-gray-200"
+                }`}
+              >
+                {option.label}
+              </button>
+            ))}
+          </div>
+
+          {mode === "zones" ? (
+            <div className="space-y-2">
+              {zones.map(zone => (
+                <div key={zone.zone} className="flex items-center gap-3">
+                  <span className="w-3 h-3 rounded-sm" style={{ background: zoneColor(zone.zone, zones.length) }} />
+                  <span className="text-sm text-gray-700 w-20">Zona {zone.zone}</span>
+                  <span className="text-xs text-gray-500 w-28">
+                    NDVI {zone.meanIndex.toFixed(2)} · {zone.areaHectares.toFixed(1)} ha
+                  </span>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={zoneRates[zone.zone] ?? ""}
+                    onChange={(e) => setZoneRates(prev => ({ ...prev, [zone.zone]: e.target.value }))}
+                    placeholder={unit}
+                    className="flex-1"
+                  />
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="prescription-min">Taxa no menor NDVI</Label>
+                <Input id="prescription-min" type="number" min={0} value={minRate} onChange={(e) => setMinRate(e.target.value)} placeholder={unit} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="prescription-max">Taxa no maior NDVI</Label>
+                <Input id="prescription-max" type="number" min={0} value={maxRate} onChange={(e) => setMaxRate(e.target.value)} placeholder={unit} />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-1">
+            <Label htmlFor="prescription-cell">Tamanho da célula (m)</Label>
+            <Input id="prescription-cell" type="number" min={5} max={100} value={cellMeters} onChange={(e) => setCellMeters(e.target.value)} />
+          </div>
+
+          {latest && latestSummary && (
+            <div className="p-3 rounded-xl bg-gray-50 space-y-2">
+              <p className="text-sm font-medium text-gray-900">
+                {latest.productName}: {latestSummary.totalProduct.toLocaleString("pt-BR")} {latest.unit.replace("/ha", "")} em{" "}
+                {latestSummary.areaHectares.toLocaleString("pt-BR")} ha
+              </p>
+              <p className="text-xs text-gray-500">
+                Taxa média {latestSummary.averageRate.toLocaleString("pt-BR")} {latest.unit} (de {latestSummary.minRate} a {latestSummary.maxRate})
+                {latest.appliedAt && ` · aplicada em ${new Date(latest.appliedAt).toLocaleDateString("pt-BR")}`}
+              </p>
+              <div className="flex gap-2">
+                {(["shapefile", "isoxml"] as const).map(format => (
+                  <Button
+                    key={format}
+                    size="sm"
+                    variant="outline"
+                    className="gap-1"
+                    disabled={exportPrescription.isPending}
+                    onClick={() => exportPrescription.mutate({ id: latest.id, format })}
+                  >
+                    <Download className="h-3 w-3" />
+                    {format === "shapefile" ? "Shapefile" : "ISOXML"}
+                  </Button>
+                ))}
+                <Button
+                  size="sm"
+                  variant="outline"
+                  disabled={!!latest.appliedAt || logApplication.isPending}
+                  onClick={() => logApplication.mutate({ id: latest.id })}
+                >
+                  Registrar aplicação
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!canSubmit || createPrescription.isPending}
+            className="bg-green-500 hover:bg-green-600"
+          >
+            {createPrescription.isPending ? "Gerando..." : "Gerar prescrição"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
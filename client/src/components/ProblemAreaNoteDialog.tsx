@@ -0,0 +1,133 @@
+import { useEffect, useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { MapPin } from "lucide-react";
+
+type Severity = "low" | "medium" | "high" | "critical";
+
+export const SEVERITY_LABELS: Record<Severity, string> = {
+  low: "Baixa",
+  medium: "Média",
+  high: "Alta",
+  critical: "Crítica",
+};
+
+export const SEVERITY_COLORS: Record<Severity, string> = {
+  low: "#facc15",
+  medium: "#f97316",
+  high: "#ef4444",
+  critical: "#7f1d1d",
+};
+
+export interface ProblemAreaTarget {
+  id: number;
+  areaHectares: number;
+  meanNdvi: number;
+  medianNdvi: number;
+  deficit: number;
+  severity: Severity;
+  center: { lat: number; lng: number };
+}
+
+interface ProblemAreaNoteDialogProps {
+  area: ProblemAreaTarget | null;
+  onOpenChange: (open: boolean) => void;
+  fieldId: number;
+  captureDate: Date | null;
+}
+
+// Nota de vistoria já apontada para a mancha: local, severidade e o NDVI da cena
+export function ProblemAreaNoteDialog({ area, onOpenChange, fieldId, captureDate }: ProblemAreaNoteDialogProps) {
+  const [title, setTitle] = useState("");
+  const [content, setContent] = useState("");
+
+  useEffect(() => {
+    if (!area) return;
+    const day = captureDate ? new Date(captureDate).toLocaleDateString("pt-BR") : "";
+    setTitle(`Vistoriar área problema ${area.id}`);
+    setContent(
+      `NDVI ${area.meanNdvi.toFixed(2)} contra ${area.medianNdvi.toFixed(2)} no restante do campo ` +
+      `(${Math.round(area.deficit * 100)}% abaixo) em ${area.areaHectares.toLocaleString("pt-BR")} ha` +
+      (day ? `, imagem de ${day}.` : ".")
+    );
+  }, [area, captureDate]);
+
+  const utils = trpc.useUtils();
+  const createNote = trpc.notes.create.useMutation({
+    onSuccess: () => {
+      toast.success("Vistoria registrada nas notas do campo");
+      utils.notes.listByField.invalidate({ fieldId });
+      utils.notes.listAll.invalidate();
+      onOpenChange(false);
+    },
+    onError: (error) => toast.error(error.message || "Erro ao registrar vistoria"),
+  });
+
+  const handleSubmit = () => {
+    if (!area) return;
+    createNote.mutate({
+      fieldId,
+      title: title.trim() || undefined,
+      content: content.trim(),
+      noteType: "problem",
+      severity: area.severity,
+      latitude: String(area.center.lat),
+      longitude: String(area.center.lng),
+    });
+  };
+
+  return (
+    <Dialog open={!!area} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MapPin className="h-5 w-5 text-red-500" />
+            Área problema {area?.id}
+          </DialogTitle>
+          {area && (
+            <DialogDescription className="flex items-center gap-2">
+              <span className="w-3 h-3 rounded-sm" style={{ background: SEVERITY_COLORS[area.severity] }} />
+              Severidade {SEVERITY_LABELS[area.severity].toLowerCase()} · {area.center.lat.toFixed(5)}, {area.center.lng.toFixed(5)}
+            </DialogDescription>
+          )}
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <Label htmlFor="problem-note-title">Título</Label>
+            <Input id="problem-note-title" value={title} onChange={(e) => setTitle(e.target.value)} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="problem-note-content">Observação</Label>
+            <Textarea id="problem-note-content" rows={4} value={content} onChange={(e) => setContent(e.target.value)} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={!content.trim() || createNote.isPending}
+            className="bg-green-500 hover:bg-green-600"
+          >
+            {createNote.isPending ? "Salvando..." : "Criar nota de vistoria"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
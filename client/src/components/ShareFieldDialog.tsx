@@ -0,0 +1,208 @@
+import { useState } from "react";
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Share2, Link2, Mail, Copy, X, Loader2 } from "lucide-react";
+
+interface ShareFieldDialogProps {
+  fieldId: number;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type Permission = "view" | "comment" | "edit";
+
+const PERMISSION_LABELS: Record<Permission, string> = {
+  view: "Ver",
+  comment: "Comentar",
+  edit: "Editar",
+};
+
+const STATUS_LABELS = {
+  pending: { label: "Pendente", className: "bg-yellow-100 text-yellow-800" },
+  active: { label: "Ativo", className: "bg-green-100 text-green-800" },
+  expired: { label: "Expirado", className: "bg-gray-100 text-gray-600" },
+  revoked: { label: "Revogado", className: "bg-red-100 text-red-700" },
+} as const;
+
+// Convites por e-mail e links do campo, com permissão, validade e revogação
+export function ShareFieldDialog({ fieldId, open, onOpenChange }: ShareFieldDialogProps) {
+  const [email, setEmail] = useState("");
+  const [permission, setPermission] = useState<Permission>("view");
+  const [expiresOn, setExpiresOn] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: shares, isLoading } = trpc.sharing.getByField.useQuery({ fieldId }, { enabled: open });
+
+  // Válido até o fim do dia escolhido
+  const expiresAt = expiresOn ? new Date(`${expiresOn}T23:59:59`) : undefined;
+
+  const copyLink = async (link: string) => {
+    await navigator.clipboard.writeText(link);
+    toast.success("Link copiado");
+  };
+
+  const invite = trpc.sharing.create.useMutation({
+    onSuccess: async (data) => {
+      // Sem conta no app o convite não chega sozinho: o link vai para a área de transferência
+      if (data.notified) {
+        toast.success(`Convite enviado para ${email} nas notificações do app`);
+      } else {
+        await navigator.clipboard.writeText(data.link);
+        toast.success(`${email} ainda não tem conta: link do convite copiado para você enviar`);
+      }
+      setEmail("");
+      utils.sharing.getByField.invalidate({ fieldId });
+    },
+    onError: (error) => toast.error(error.message || "Erro ao enviar convite"),
+  });
+
+  const createLink = trpc.sharing.getShareLink.useMutation({
+    onSuccess: (data) => {
+      copyLink(data.link);
+      utils.sharing.getByField.invalidate({ fieldId });
+    },
+    onError: (error) => toast.error(error.message || "Erro ao criar link"),
+  });
+
+  const revoke = trpc.sharing.delete.useMutation({
+    onSuccess: () => {
+      toast.success("Acesso revogado");
+      utils.sharing.getByField.invalidate({ fieldId });
+    },
+    onError: (error) => toast.error(error.message || "Erro ao revogar acesso"),
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Share2 className="h-5 w-5 text-green-500" />
+            Compartilhar Campo
+          </DialogTitle>
+          <DialogDescription>
+            Agrônomos e parceiros acessam o campo com a permissão escolhida
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex gap-2">
+            <Select value={permission} onValueChange={(value) => setPermission(value as Permission)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(PERMISSION_LABELS) as Permission[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {PERMISSION_LABELS[key]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              type="date"
+              value={expiresOn}
+              onChange={(e) => setExpiresOn(e.target.value)}
+              title="Válido até (opcional)"
+            />
+          </div>
+          <div className="flex gap-2">
+            <Input
+              type="email"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+              placeholder="email@agronomo.com"
+            />
+            <Button
+              onClick={() => invite.mutate({ fieldId, email: email.trim(), permission, expiresAt })}
+              disabled={!email.trim() || invite.isPending}
+              className="bg-green-500 hover:bg-green-600"
+            >
+              <Mail className="h-4 w-4 mr-2" />
+              Convidar
+            </Button>
+          </div>
+
+          <div className="max-h-64 overflow-y-auto space-y-2 pt-2">
+            {isLoading && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-5 w-5 text-green-600 animate-spin" />
+              </div>
+            )}
+            {shares?.length === 0 && (
+              <p className="text-sm text-gray-500 text-center py-2">Campo ainda não compartilhado</p>
+            )}
+            {shares?.map((share) => {
+              const status = STATUS_LABELS[share.status];
+              const canRevoke = share.status === "pending" || share.status === "active";
+              return (
+                <div key={share.id} className="flex items-center gap-3 p-3 rounded-xl border border-gray-100 bg-white">
+                  {share.isLink ? (
+                    <Link2 className="h-4 w-4 text-gray-400 shrink-0" />
+                  ) : (
+                    <Mail className="h-4 w-4 text-gray-400 shrink-0" />
+                  )}
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">
+                      {share.isLink ? "Link de acesso" : share.sharedWithName ?? share.email}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {PERMISSION_LABELS[share.permission]}
+                      {share.expiresAt && ` · até ${format(new Date(share.expiresAt), "dd/MM/yyyy")}`}
+                    </p>
+                  </div>
+                  <Badge variant="outline" className={status.className}>
+                    {status.label}
+                  </Badge>
+                  {canRevoke && (share.isLink || share.status === "pending") && (
+                    <button onClick={() => copyLink(share.link)} title="Copiar link">
+                      <Copy className="h-4 w-4 text-gray-400 hover:text-gray-700" />
+                    </button>
+                  )}
+                  {canRevoke && (
+                    <button onClick={() => revoke.mutate({ id: share.id })} title="Revogar">
+                      <X className="h-4 w-4 text-gray-400 hover:text-red-600" />
+                    </button>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+            Fechar
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => createLink.mutate({ fieldId, permission, expiresAt })}
+            disabled={createLink.isPending}
+          >
+            <Link2 className="h-4 w-4 mr-2" />
+            Criar link
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
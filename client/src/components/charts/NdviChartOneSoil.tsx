@@ -18,6 +18,7 @@ import html2canvas from "html2canvas";
 interface NdviDataPoint {
   date: string; // formato "yyyy-MM-dd"
   ndvi: number;
+  interpolated?: boolean; // ponto da curva suavizada sem cena limpa próxima
 }
 
 interface NdviChartOneSoilProps {
@@ -54,6 +55,7 @@ function CustomTooltip({ active, payload, label }: any) {
   const value = payload[0].value;
   const date = label;
   const color = getNdviColor(value);
+  const interpolated = payload[0].payload?.interpolated;
 
   return (
     <div className="bg-gray-900 text-white rounded-lg shadow-xl p-3 min-w-[140px]">
@@ -68,6 +70,7 @@ function CustomTooltip({ active, payload, label }: any) {
         <span className="text-xl font-bold">{value.toFixed(2)}</span>
         <span className="text-xs text-gray-400">NDVI</span>
       </div>
+      {interpolated && <p className="text-[10px] text-gray-400 mt-1">Interpolado (sem imagem limpa)</p>}
     </div>
   );
 }
@@ -79,6 +82,11 @@ function CustomDot(props: any) {
   
   const color = getNdviColor(payload.ndvi);
   const isLast = index === totalPoints - 1;
+
+  // Pontos interpolados: menores e cinzas, para não parecerem medições
+  if (payload.interpolated && !isLast) {
+    return <circle cx={cx} cy={cy} r={2} fill="white" stroke="#d1d5db" strokeWidth={1.5} />;
+  }
   
   return (
     <circle
@@ -0,0 +1,92 @@
+import * as turf from "@turf/turf";
+
+// Geometria canônica dos campos (GeoJSON, [lng, lat]) calculada pelo servidor
+export type FieldPolygon = { type: "Polygon"; coordinates: number[][][] };
+export type FieldMultiPolygon = { type: "MultiPolygon"; coordinates: number[][][][] };
+export type FieldGeometry = FieldPolygon | FieldMultiPolygon;
+
+// Anel desenhado no mapa: contorno de uma parte ou área de exclusão (buraco)
+export interface DrawnRing {
+  kind: "outer" | "hole";
+  points: [number, number][]; // [lng, lat], sem repetir o primeiro ponto
+}
+
+function parseJson(value: unknown): unknown {
+  if (typeof value !== "string") return value;
+  try {
+    return JSON.parse(value);
+  } catch {
+    return null;
+  }
+}
+
+function closeRing(points: [number, number][]): [number, number][] {
+  const first = points[0];
+  const last = points[points.length - 1];
+  return first[0] === last[0] && first[1] === last[1] ? points : [...points, first];
+}
+
+/**
+ * Geometria de um campo: usa a coluna `geometry` e, em campos antigos,
+ * o contorno legado em `boundaries` ([{lat, lng}])
+ */
+export function getFieldGeometry(field: { geometry?: unknown; boundaries?: unknown }): FieldGeometry | null {
+  const geometry = parseJson(field.geometry) as FieldGeometry | null;
+  if (geometry && (geometry.type === "Polygon" || geometry.type === "MultiPolygon")) {
+    return geometry;
+  }
+
+  const boundaries = parseJson(field.boundaries);
+  if (!Array.isArray(boundaries) || boundaries.length < 3) return null;
+  const points = boundaries.map((p: any) => [p.lng, p.lat] as [number, number]);
+  return { type: "Polygon", coordinates: [closeRing(points)] };
+}
+
+/**
+ * Monta a geometria a partir dos anéis desenhados: cada contorno é uma parte e
+ * cada exclusão vira buraco da parte que a contém
+ */
+export function ringsToGeometry(rings: DrawnRing[]): FieldGeometry | null {
+  const closed = rings
+    .filter(ring => ring.points.length >= 3)
+    .map(ring => ({ kind: ring.kind, ring: closeRing(ring.points) }));
+  const polygons = closed.filter(r => r.kind === "outer").map(r => [r.ring]);
+
+  for (const { kind, ring } of closed) {
+    if (kind !== "hole") continue;
+    const owner = polygons.find(([outer]) =>
+      turf.booleanPointInPolygon(turf.point(ring[0]), turf.polygon([outer]))
+    );
+    owner?.push(ring);
+  }
+
+  if (polygons.length === 0) return null;
+  return polygons.length === 1
+    ? { type: "Polygon", coordinates: polygons[0] }
+    : { type: "MultiPolygon", coordinates: polygons };
+}
+
+/**
+ * Separa a geometria salva em anéis editáveis
+ */
+export function geometryToRings(geometry: FieldGeometry): DrawnRing[] {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  return polygons.flatMap(polygon =>
+    polygon.map((ring, i) => ({
+      kind: i === 0 ? "outer" as const : "hole" as const,
+      points: ring.slice(0, -1).map(([lng, lat]) => [lng, lat] as [number, number]),
+    }))
+  );
+}
+
+/**
+ * Área em hectares descontando as exclusões
+ */
+export function geometryAreaHectares(geometry: FieldGeometry | null): number {
+  if (!geometry) return 0;
+  try {
+    return turf.area(geometry) / 10000;
+  } catch {
+    return 0;
+  }
+}
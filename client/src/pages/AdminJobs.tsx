@@ -0,0 +1,164 @@
+import { trpc } from "@/lib/trpc";
+import { useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import { Activity, Loader2, Play, RotateCcw } from "lucide-react";
+
+type RunStatus = "pending" | "running" | "succeeded" | "failed";
+
+const STATUS_LABELS: Record<RunStatus, string> = {
+  pending: "Na fila",
+  running: "Executando",
+  succeeded: "Concluído",
+  failed: "Falhou",
+};
+
+const STATUS_COLORS: Record<RunStatus, string> = {
+  pending: "bg-gray-100 text-gray-600",
+  running: "bg-blue-50 text-blue-700",
+  succeeded: "bg-green-50 text-green-700",
+  failed: "bg-red-50 text-red-700",
+};
+
+// Painel do administrador: situação de cada job agendado e as últimas execuções
+export default function AdminJobs() {
+  const [statusFilter, setStatusFilter] = useState<RunStatus | undefined>(undefined);
+
+  const utils = trpc.useUtils();
+  const { data: jobs, isLoading, error } = trpc.jobs.status.useQuery(undefined, { retry: false });
+  const { data: runs } = trpc.jobs.runs.useQuery({ status: statusFilter, limit: 50 }, { enabled: !!jobs });
+
+  const refresh = () => {
+    utils.jobs.status.invalidate();
+    utils.jobs.runs.invalidate();
+  };
+
+  const trigger = trpc.jobs.trigger.useMutation({
+    onSuccess: (result) => {
+      toast.success(`${result.runs} ${result.runs === 1 ? "execução agendada" : "execuções agendadas"}`);
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const retry = trpc.jobs.retry.useMutation({
+    onSuccess: () => {
+      toast.success("Execução voltou para a fila");
+      refresh();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const labelOf = (name: string) => jobs?.find((job) => job.name === name)?.label ?? name;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 pb-[calc(80px+env(safe-area-inset-bottom))]">
+      <div
+        className="bg-white sticky top-0 z-20 border-b border-gray-100"
+        style={{ paddingTop: 'env(safe-area-inset-top)' }}
+      >
+        <div className="px-4 py-4">
+          <h1 className="text-2xl font-bold text-gray-900">Jobs agendados</h1>
+        </div>
+      </div>
+
+      <div className="px-4 py-4 space-y-6">
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 text-green-600 animate-spin" />
+          </div>
+        )}
+
+        {error && (
+          <div className="text-center py-12">
+            <Activity className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <p className="text-gray-500">Disponível apenas para administradores</p>
+          </div>
+        )}
+
+        {jobs?.map((job) => (
+          <div key={job.name} className="bg-white rounded-2xl p-4 shadow-sm border border-gray-100">
+            <div className="flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <h3 className="font-semibold text-gray-900">{job.label}</h3>
+                <p className="text-xs text-gray-500">
+                  {job.schedule} (UTC) · próxima {format(new Date(job.nextRunAt), "dd/MM HH:mm")}
+                </p>
+              </div>
+              <button
+                onClick={() => trigger.mutate({ jobName: job.name })}
+                disabled={trigger.isPending}
+                className="text-sm font-medium text-green-700 flex items-center gap-1 disabled:opacity-50"
+              >
+                <Play className="h-4 w-4" />
+                Executar
+              </button>
+            </div>
+            {job.lastSlot && job.lastCounts && (
+              <div className="flex flex-wrap gap-2 mt-3">
+                <span className="text-xs text-gray-500">{format(new Date(job.lastSlot), "dd/MM HH:mm")}</span>
+                {(Object.keys(STATUS_LABELS) as RunStatus[])
+                  .filter((status) => job.lastCounts![status] > 0)
+                  .map((status) => (
+                    <span key={status} className={`text-xs font-medium rounded-full px-2 py-0.5 ${STATUS_COLORS[status]}`}>
+                      {job.lastCounts![status]} {STATUS_LABELS[status].toLowerCase()}
+                    </span>
+                  ))}
+              </div>
+            )}
+          </div>
+        ))}
+
+        {jobs && (
+          <div>
+            <div className="flex gap-2 mb-3 overflow-x-auto">
+              {([undefined, "failed", "pending", "running", "succeeded"] as Array<RunStatus | undefined>).map((status) => (
+                <button
+                  key={status ?? "all"}
+                  onClick={() => setStatusFilter(status)}
+                  className={`px-3 py-1.5 rounded-full text-sm border whitespace-nowrap ${
+                    statusFilter === status
+                      ? "border-green-500 bg-green-50 text-green-700"
+                      : "border-gray-200 text-gray-600"
+                  }`}
+                >
+                  {status ? STATUS_LABELS[status] : "Todas"}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              {runs?.map((run) => (
+                <div key={run.id} className="bg-white rounded-xl p-3 border border-gray-100 flex gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900">
+                      {labelOf(run.jobName)}
+                      {run.userId > 0 && <span className="text-gray-500 font-normal"> · usuário {run.userId}</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">
+                      {format(new Date(run.scheduledFor), "dd/MM HH:mm")} · tentativa {run.attempts}/{run.maxAttempts}
+                      {run.status === "pending" && run.attempts > 0 && ` · nova tentativa ${format(new Date(run.nextAttemptAt), "HH:mm")}`}
+                    </p>
+                    {run.lastError && <p className="text-xs text-red-600 mt-1 break-words">{run.lastError}</p>}
+                  </div>
+                  <div className="flex flex-col items-end gap-2">
+                    <span className={`text-xs font-medium rounded-full px-2 py-0.5 ${STATUS_COLORS[run.status]}`}>
+                      {STATUS_LABELS[run.status]}
+                    </span>
+                    {run.status === "failed" && (
+                      <button onClick={() => retry.mutate({ id: run.id })} title="Tentar de novo">
+                        <RotateCcw className="h-4 w-4 text-gray-400 hover:text-green-600" />
+                      </button>
+                    )}
+                  </div>
+                </div>
+              ))}
+              {runs?.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-2">Nenhuma execução</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -34,18 +34,11 @@ export default function Auth() {
   const utils = trpc.useUtils();
 
   const loginMutation = trpc.auth.login.useMutation({
-    onSuccess: (data) => {
-      // Save user ID to localStorage for auth header
-      if (data.user?.id) {
-        localStorage.setItem("campovivo_user_id", String(data.user.id));
-        console.log("[Auth] Saved user ID to localStorage:", data.user.id);
-      }
+    onSuccess: () => {
+      // O servidor já gravou o cookie de sessão
       toast.success("Login realizado com sucesso!");
-      // Force refetch of auth.me with new header
-      setTimeout(() => {
-        utils.auth.me.invalidate();
-        setLocation("/");
-      }, 100);
+      utils.auth.me.invalidate();
+      setLocation("/");
     },
     onError: (error) => {
       toast.error(error.message || "Erro ao fazer login");
@@ -53,18 +46,11 @@ export default function Auth() {
   });
 
   const registerMutation = trpc.auth.register.useMutation({
-    onSuccess: (data) => {
-      // Save user ID to localStorage for auth header
-      if (data.user?.id) {
-        localStorage.setItem("campovivo_user_id", String(data.user.id));
-        console.log("[Auth] Saved user ID to localStorage:", data.user.id);
-      }
+    onSuccess: () => {
+      // Conta criada já entra com sessão
       toast.success("Conta criada com sucesso!");
-      // Force refetch then login
-      setTimeout(() => {
-        utils.auth.me.invalidate();
-        loginMutation.mutate({ email, password });
-      }, 100);
+      utils.auth.me.invalidate();
+      setLocation("/");
     },
     onError: (error) => {
       toast.error(error.message || "Erro ao criar conta");
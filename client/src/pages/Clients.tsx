@@ -0,0 +1,233 @@
+import { trpc } from "@/lib/trpc";
+import { useLocation } from "wouter";
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { toast } from "sonner";
+import {
+  Briefcase,
+  ChevronRight,
+  FileText,
+  Loader2,
+  Send,
+  Trash2,
+} from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { downloadBase64 } from "@/components/ExportFieldsDialog";
+
+const ACCESS_LABELS = {
+  view: "Ver",
+  comment: "Comentar",
+  edit: "Editar",
+} as const;
+
+// Carteira do consultor: clientes que liberaram fazendas, painel somado e detalhes de cada cliente
+export default function Clients() {
+  const [, setLocation] = useLocation();
+  const [producerId, setProducerId] = useState<number | null>(null);
+  const [note, setNote] = useState("");
+
+  const utils = trpc.useUtils();
+  const { data: portfolio, isLoading } = trpc.consultants.portfolio.useQuery();
+  const clients = portfolio?.clients ?? [];
+
+  // Primeiro cliente selecionado por padrão
+  useEffect(() => {
+    if (producerId === null && clients.length > 0) setProducerId(clients[0].producerId);
+  }, [clients, producerId]);
+
+  const selected = clients.find((client) => client.producerId === producerId);
+  const { data: fields } = trpc.consultants.clientFields.useQuery(
+    { producerId: producerId ?? 0 },
+    { enabled: producerId !== null }
+  );
+  const { data: notes } = trpc.consultants.notes.list.useQuery(
+    { producerId: producerId ?? 0 },
+    { enabled: producerId !== null }
+  );
+
+  const createNote = trpc.consultants.notes.create.useMutation({
+    onSuccess: () => {
+      setNote("");
+      utils.consultants.notes.list.invalidate();
+    },
+    onError: (error) => toast.error(error.message),
+  });
+
+  const deleteNote = trpc.consultants.notes.delete.useMutation({
+    onSuccess: () => utils.consultants.notes.list.invalidate(),
+    onError: (error) => toast.error(error.message),
+  });
+
+  const report = trpc.consultants.report.useMutation({
+    onSuccess: (file) => {
+      downloadBase64(file.contentBase64, file.fileName, file.mimeType);
+      toast.success("Relatório gerado");
+    },
+    onError: (error) => toast.error(error.message || "Erro ao gerar relatório"),
+  });
+
+  const totals = portfolio?.totals;
+  const stats = selected?.stats;
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 pb-[calc(80px+env(safe-area-inset-bottom))]">
+      {/* Header */}
+      <div
+        className="bg-white sticky top-0 z-20 border-b border-gray-100"
+        style={{ paddingTop: 'env(safe-area-inset-top)' }}
+      >
+        <div className="px-4 py-4">
+          <h1 className="text-2xl font-bold text-gray-900 mb-4">Meus Clientes</h1>
+          {clients.length > 0 && (
+            <Select
+              value={producerId !== null ? String(producerId) : undefined}
+              onValueChange={(value) => setProducerId(Number(value))}
+            >
+              <SelectTrigger className="w-full">
+                <SelectValue placeholder="Escolha um cliente" />
+              </SelectTrigger>
+              <SelectContent>
+                {clients.map((client) => (
+                  <SelectItem key={client.producerId} value={String(client.producerId)}>
+                    {client.name} · {client.farmCount} {client.farmCount === 1 ? "fazenda" : "fazendas"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </div>
+
+      <div className="px-4 py-4 space-y-6">
+        {isLoading && (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 text-green-600 animate-spin" />
+          </div>
+        )}
+
+        {!isLoading && clients.length === 0 && (
+          <div className="text-center py-12">
+            <Briefcase className="h-16 w-16 text-gray-300 mx-auto mb-4" />
+            <h2 className="text-xl font-semibold text-gray-900 mb-2">Nenhum cliente ainda</h2>
+            <p className="text-gray-500">
+              Quando um produtor liberar fazendas para o seu e-mail, elas aparecem aqui
+            </p>
+          </div>
+        )}
+
+        {/* Carteira */}
+        {totals && clients.length > 0 && (
+          <div className="bg-green-50 rounded-2xl p-4">
+            <p className="text-xs font-semibold text-green-700 mb-3">
+              Carteira · {clients.length} {clients.length === 1 ? "cliente" : "clientes"}
+            </p>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              <div>
+                <p className="text-xl font-bold text-green-700">{totals.totalFields}</p>
+                <p className="text-xs text-green-600">Campos</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold text-green-700">{totals.activeCrops}</p>
+                <p className="text-xs text-green-600">Cultivos</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold text-green-700">{totals.pendingTasks}</p>
+                <p className="text-xs text-green-600">Tarefas</p>
+              </div>
+              <div>
+                <p className="text-xl font-bold text-green-700">{totals.unreadAlerts}</p>
+                <p className="text-xs text-green-600">Alertas</p>
+              </div>
+            </div>
+          </div>
+        )}
+
+        {selected && stats && (
+          <div>
+            <div className="flex items-center justify-between mb-3">
+              <h2 className="text-sm font-semibold text-gray-700">{selected.name}</h2>
+              <button
+                onClick={() => report.mutate({ producerId: selected.producerId })}
+                disabled={report.isPending}
+                className="text-sm font-medium text-green-700 flex items-center gap-1"
+              >
+                {report.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+                Relatório
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mb-3">
+              {stats.totalFields} campos · {stats.activeCrops} cultivos em andamento · {stats.pendingTasks} tarefas pendentes
+            </p>
+            <div className="space-y-2">
+              {fields?.map((field) => (
+                <button
+                  key={field.id}
+                  onClick={() => setLocation(`/fields/${field.id}`)}
+                  className="w-full bg-white rounded-2xl p-4 shadow-sm border border-gray-100 text-left flex items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-gray-900 truncate">{field.name}</h3>
+                    <p className="text-sm text-gray-500 truncate">
+                      {field.farmName}
+                      {field.areaHectares ? ` • ${(field.areaHectares / 100).toFixed(1)} ha` : ""}
+                    </p>
+                  </div>
+                  <span className="text-xs font-medium text-green-700 bg-green-50 rounded-full px-2 py-1">
+                    {ACCESS_LABELS[field.access]}
+                  </span>
+                  <ChevronRight className="h-4 w-4 text-gray-400" />
+                </button>
+              ))}
+              {fields?.length === 0 && (
+                <p className="text-sm text-gray-500 text-center py-2">As fazendas liberadas ainda não têm campos</p>
+              )}
+            </div>
+          </div>
+        )}
+
+        {/* Anotações do consultor sobre o cliente */}
+        {selected && (
+          <div>
+            <h2 className="text-sm font-semibold text-gray-700 mb-3">Anotações</h2>
+            <div className="flex gap-2 mb-3">
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                placeholder="Anotação sobre o cliente..."
+                className="flex-1 px-4 py-3 bg-white border border-gray-100 rounded-xl text-gray-900 placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-green-500"
+              />
+              <button
+                onClick={() => createNote.mutate({ producerId: selected.producerId, content: note.trim() })}
+                disabled={!note.trim() || createNote.isPending}
+                className="w-12 bg-green-500 rounded-xl flex items-center justify-center disabled:opacity-50"
+              >
+                <Send className="h-5 w-5 text-white" />
+              </button>
+            </div>
+            <div className="space-y-2">
+              {notes?.map((item) => (
+                <div key={item.id} className="bg-white rounded-xl p-3 border border-gray-100 flex gap-3">
+                  <div className="flex-1 min-w-0">
+                    {item.title && <p className="text-sm font-medium text-gray-900">{item.title}</p>}
+                    <p className="text-sm text-gray-700 whitespace-pre-wrap">{item.content}</p>
+                    <p className="text-xs text-gray-400 mt-1">{format(new Date(item.createdAt), "dd/MM/yyyy HH:mm")}</p>
+                  </div>
+                  <button onClick={() => deleteNote.mutate({ id: item.id })} title="Excluir">
+                    <Trash2 className="h-4 w-4 text-gray-400 hover:text-red-600" />
+                  </button>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
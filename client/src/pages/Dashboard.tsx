@@ -1,6 +1,5 @@
 import { trpc } from "@/lib/trpc";
 import { MapboxMap, useMapbox } from "@/components/MapboxMap";
-import { clipImageToPolygon, generateClippedNdviGradient } from "@/utils/clipImageToPolygon";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -808,7 +807,6 @@ export default function Dashboard() {
         const minLat = Math.min(...lats);
         const maxLat = Math.max(...lats);
 
-        const bounds = { minLng, maxLng, minLat, maxLat };
         const boundsArray: [[number, number], [number, number], [number, number], [number, number]] = [
           [minLng, maxLat],
           [maxLng, maxLat],
@@ -816,41 +814,11 @@ export default function Dashboard() {
           [minLng, minLat],
         ];
 
-        let ndviLoaded = false;
-
+        // Imagem já recortada pelo limite e colorida no servidor
         if (proxyImageUrl) {
-          try {
-            const clippedImageUrl = await clipImageToPolygon(
-              proxyImageUrl + "?t=" + Date.now(),
-              coordinates,
-              bounds
-            );
-            
-            ndviMapInstance.addSource("ndvi-image", {
-              type: "image",
-              url: clippedImageUrl,
-              coordinates: boundsArray,
-            });
-
-            ndviMapInstance.addLayer({
-              id: "ndvi-image",
-              type: "raster",
-              source: "ndvi-image",
-              paint: { "raster-opacity": 1.0 },
-            });
-            ndviLoaded = true;
-          } catch (e) {
-            console.warn("Falha ao carregar NDVI:", e);
-          }
-        }
-
-        if (!ndviLoaded) {
-          const ndviValue = selectedField.currentNdvi ? selectedField.currentNdvi / 100 : 0.65;
-          const gradientUrl = generateClippedNdviGradient(ndviValue, coordinates, bounds);
-          
           ndviMapInstance.addSource("ndvi-image", {
             type: "image",
-            url: gradientUrl,
+            url: proxyImageUrl,
             coordinates: boundsArray,
           });
 
@@ -26,6 +26,7 @@ import { useState, useEffect, useRef, useCallback } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import mapboxgl from "mapbox-gl";
 import { MapboxMap, useMapbox } from "@/components/MapboxMap";
+import { ShareFieldDialog } from "@/components/ShareFieldDialog";
 
 type TabType = "overview" | "ndvi" | "weather" | "notes";
 
@@ -34,6 +35,7 @@ export default function FieldDetail() {
   const [, setLocation] = useLocation();
   const [activeTab, setActiveTab] = useState<TabType>("overview");
   const [showMenu, setShowMenu] = useState(false);
+  const [showShare, setShowShare] = useState(false);
   const [mapInstance, setMapInstance] = useState<mapboxgl.Map | null>(null);
   const { setMap } = useMapbox();
 
@@ -125,6 +127,10 @@ export default function FieldDetail() {
     }
   };
 
+  // Campos compartilhados: só o dono exclui e compartilha; "ver" e "comentar" não editam
+  const isOwner = field?.access === "owner";
+  const canEdit = isOwner || field?.access === "edit";
+
   const ndvi = field?.currentNdvi || 65;
   const getHealthColor = () => {
     if (ndvi >= 60) return { bg: "bg-green-500", text: "text-green-600", light: "bg-green-100" };
@@ -180,15 +186,22 @@ export default function FieldDetail() {
             </button>
 
             <div className="flex gap-2">
-              <button className="w-10 h-10 bg-black/30 backdrop-blur-md rounded-full flex items-center justify-center">
-                <Share2 className="h-5 w-5 text-white" />
-              </button>
-              <button
-                onClick={() => setShowMenu(!showMenu)}
-                className="w-10 h-10 bg-black/30 backdrop-blur-md rounded-full flex items-center justify-center"
-              >
-                <MoreVertical className="h-5 w-5 text-white" />
-              </button>
+              {isOwner && (
+                <button
+                  onClick={() => setShowShare(true)}
+                  className="w-10 h-10 bg-black/30 backdrop-blur-md rounded-full flex items-center justify-center"
+                >
+                  <Share2 className="h-5 w-5 text-white" />
+                </button>
+              )}
+              {canEdit && (
+                <button
+                  onClick={() => setShowMenu(!showMenu)}
+                  className="w-10 h-10 bg-black/30 backdrop-blur-md rounded-full flex items-center justify-center"
+                >
+                  <MoreVertical className="h-5 w-5 text-white" />
+                </button>
+              )}
             </div>
           </div>
         </div>
@@ -213,16 +226,18 @@ export default function FieldDetail() {
                 <Edit className="h-4 w-4" />
                 <span>Editar campo</span>
               </button>
-              <button
-                onClick={() => {
-                  setShowMenu(false);
-                  handleDelete();
-                }}
-                className="flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 w-full border-t"
-              >
-                <Trash2 className="h-4 w-4" />
-                <span>Excluir campo</span>
-              </button>
+              {isOwner && (
+                <button
+                  onClick={() => {
+                    setShowMenu(false);
+                    handleDelete();
+                  }}
+                  className="flex items-center gap-3 px-4 py-3 text-red-600 hover:bg-red-50 w-full border-t"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  <span>Excluir campo</span>
+                </button>
+              )}
             </motion.div>
           )}
         </AnimatePresence>
@@ -601,6 +616,8 @@ export default function FieldDetail() {
           )}
         </div>
       </div>
+
+      {isOwner && <ShareFieldDialog fieldId={field.id} open={showShare} onOpenChange={setShowShare} />}
     </div>
   );
 }
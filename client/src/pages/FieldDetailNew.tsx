@@ -40,7 +40,6 @@ export default function FieldDetailNew() {
     addNdviTileOverlay,
     removeAllOverlays,
     calculateBoundsFromPolygon,
-    generateNdviGradientOverlay,
   } = useNdviOverlay();
 
   const { data: field, isLoading } = trpc.fields.getById.useQuery({ id: fieldId });
@@ -74,8 +73,8 @@ export default function FieldDetailNew() {
 
   // URLs do proxy local para evitar CORS (usando Copernicus Sentinel-2)
   const proxyImageUrl = useMemo(() => `/api/copernicus-ndvi/${fieldId}?palette=onesoil`, [fieldId]);
-  // Copernicus não usa tiles, apenas imagem única
-  const proxyTileUrl = useMemo(() => `/api/copernicus-ndvi/${fieldId}?palette=onesoil`, [fieldId]);
+  // Tiles XYZ recortados pelo limite do campo no servidor
+  const proxyTileUrl = useMemo(() => `/api/ndvi-tiles/${fieldId}/{z}/{x}/{y}.png?palette=onesoil`, [fieldId]);
 
   // Draw field on map with NDVI overlay
   useEffect(() => {
@@ -166,7 +165,7 @@ export default function FieldDetailNew() {
                 console.error("[NDVI] Erro ao pré-carregar imagem: falha no carregamento");
                 reject(new Error("Failed to preload image"));
               };
-              img.src = proxyImageUrl + "?t=" + Date.now();
+              img.src = proxyImageUrl + "&t=" + Date.now();
             });
             
             // Adicionar source de imagem com proxy local
@@ -233,14 +232,6 @@ export default function FieldDetailNew() {
           }
         }
 
-        // 3) Fallback final: gradiente sintético usando NDVI atual
-        if (!ndviLoaded) {
-          const currentNdvi = field.currentNdvi ? field.currentNdvi / 100 : 0.5;
-          console.log("[NDVI] Usando gradiente sintético, NDVI:", currentNdvi);
-          generateNdviGradientOverlay(mapInstance, "ndvi-fallback-layer", currentNdvi, boundsArray);
-          ndviLoaded = true;
-        }
-
         // Base fill para percepção de área - cores estilo OneSoil
         // PRIMEIRO adicionar o fill layer (camada de fundo)
         const currentNdvi = field.currentNdvi ? field.currentNdvi / 100 : 0.5;
@@ -305,7 +296,7 @@ export default function FieldDetailNew() {
     return () => {
       mapInstance.off("error", errorHandler);
     };
-  }, [mapInstance, field, fieldId, ndviImage, proxyImageUrl, proxyTileUrl, addNdviTileOverlay, addNdviImageOverlay, removeAllOverlays, calculateBoundsFromPolygon, generateNdviGradientOverlay]);
+  }, [mapInstance, field, fieldId, ndviImage, proxyImageUrl, proxyTileUrl, addNdviTileOverlay, addNdviImageOverlay, removeAllOverlays, calculateBoundsFromPolygon]);
 
 
   const handleMapReady = useCallback((map: mapboxgl.Map) => {
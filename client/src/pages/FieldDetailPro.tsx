@@ -3,6 +3,12 @@ import { MapboxMap, useMapbox } from "@/components/MapboxMap";
 import { useNdviOverlay } from "@/hooks/useNdviOverlay";
 import { Button } from "@/components/ui/button";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ExportFieldsDialog } from "@/components/ExportFieldsDialog";
+import { BoundaryHistory } from "@/components/BoundaryHistory";
+import { NdviCompare } from "@/components/NdviCompare";
+import { PrescriptionDialog } from "@/components/PrescriptionDialog";
+import { ProblemAreaNoteDialog, SEVERITY_COLORS, type ProblemAreaTarget } from "@/components/ProblemAreaNoteDialog";
 import {
   NdviChart as NdviChartComponent,
   NdviChartOneSoil,
@@ -30,12 +36,22 @@ import {
   Wind,
   List,
   Grid3X3,
+  Scissors,
+  AlertTriangle,
 } from "lucide-react";
 import { useState, useCallback, useEffect, useMemo } from "react";
 import { useLocation, useParams } from "wouter";
 import { format, subDays, subMonths, startOfYear, differenceInDays } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import mapboxgl from "mapbox-gl";
+import {
+  INDEX_PALETTES,
+  VEGETATION_INDEX_INFO,
+  VEGETATION_INDICES,
+  zoneColor,
+  type VegetationIndex,
+} from "@shared/vegetationIndices";
+import { toast } from "sonner";
 
 // Cor do ponto baseada no valor NDVI (como OneSoil)
 function getNdviPointColor(ndvi: number): string {
@@ -229,16 +245,37 @@ export default function FieldDetailPro() {
   const fieldId = parseInt(params.id || "0");
   const [, setLocation] = useLocation();
   const [currentImageIndex, setCurrentImageIndex] = useState(0);
+  const [vegetationIndex, setVegetationIndex] = useState<VegetationIndex>("ndvi");
+  const indexInfo = VEGETATION_INDEX_INFO[vegetationIndex];
+  const [showExport, setShowExport] = useState(false);
   const [mapInstance, setMapInstance] = useState<mapboxgl.Map | null>(null);
   const [satMapInstance, setSatMapInstance] = useState<mapboxgl.Map | null>(null);
+  const [showZones, setShowZones] = useState(false);
+  const [showPrescription, setShowPrescription] = useState(false);
+  const [showProblemAreas, setShowProblemAreas] = useState(false);
+  const [scoutingArea, setScoutingArea] = useState<ProblemAreaTarget | null>(null);
   const { setMap } = useMapbox();
   const {
     removeAllOverlays,
     calculateBoundsFromPolygon,
-    generateNdviGradientOverlay,
   } = useNdviOverlay();
 
+  const utils = trpc.useUtils();
   const { data: field, isLoading } = trpc.fields.getById.useQuery({ id: fieldId });
+  const { data: zoneSet } = trpc.zones.latest.useQuery({ fieldId }, { enabled: !!fieldId });
+  const generateZones = trpc.zones.generate.useMutation({
+    onSuccess: (result) => {
+      utils.zones.latest.invalidate({ fieldId });
+      setShowZones(true);
+      toast.success(`${result.zones.length} zonas de manejo a partir de ${result.sceneDates.length} cenas`);
+    },
+    onError: (error) => toast.error(error.message),
+  });
+  const { data: problemScene } = trpc.ndvi.problemAreas.useQuery({ fieldId }, { enabled: !!fieldId });
+  const { data: lineage } = trpc.fields.getLineage.useQuery(
+    { id: fieldId },
+    { enabled: !!fieldId }
+  );
   const { data: ndviHistory } = trpc.ndvi.history.useQuery(
     { fieldId, days: 365, maxCloudCoverage: 30 },
     { enabled: !!fieldId }
@@ -280,22 +317,59 @@ export default function FieldDetailPro() {
       startDate: format(startOfYear(new Date()), "yyyy-MM-dd") + "T00:00:00Z",
       endDate: format(new Date(), "yyyy-MM-dd") + "T23:59:59Z",
       aggregationInterval: "P10D", // Intervalos de 10 dias
+      index: vegetationIndex,
     },
     { enabled: !!fieldId }
   );
 
-  const proxyImageUrl = useMemo(() => `/api/ndvi-image/${fieldId}`, [fieldId]);
+  const proxyImageUrl = useMemo(
+    () => `/api/ndvi-image/${fieldId}` + (vegetationIndex === "ndvi" ? "" : `?index=${vegetationIndex}`),
+    [fieldId, vegetationIndex]
+  );
+
+  // Escala de cores do mapa: paleta padrão do índice, do maior valor (topo) ao menor
+  const indexLegend = useMemo(() => {
+    const stops = INDEX_PALETTES[indexInfo.palette];
+    const gradient = [...stops]
+      .reverse()
+      .map(stop => `rgb(${stop.color.join(", ")}) ${Math.round((1 - stop.value) * 100)}%`)
+      .join(", ");
+    return { background: `linear-gradient(to bottom, ${gradient})`, min: indexInfo.range[0], max: indexInfo.range[1] };
+  }, [indexInfo]);
+
+  // Zonas de manejo salvas (coluna JSON): da mais fraca à mais forte
+  const managementZones = useMemo(() => {
+    if (!zoneSet) return [];
+    return zoneSet.zones as {
+      zone: number;
+      areaHectares: number;
+      meanIndex: number;
+      geometry: { type: "MultiPolygon"; coordinates: number[][][][] };
+    }[];
+  }, [zoneSet]);
+
+  // Manchas de NDVI baixo da última cena analisada
+  const problemAreas = useMemo(() => {
+    if (!problemScene) return [];
+    return problemScene.problemAreas as (ProblemAreaTarget & {
+      geometry: { type: "MultiPolygon"; coordinates: number[][][][] };
+    })[];
+  }, [problemScene]);
 
   // Dados para gráficos - USAR DADOS REAIS DO SENTINEL HUB
-  const ndviChartData = useMemo(() => {
-    // Priorizar dados reais do Sentinel Hub
-    if (ndviRealData && ndviRealData.length > 0) {
-      return ndviRealData.map((d: any) => ({
+  const ndviChartData = useMemo((): { date: Date; ndvi: number; interpolated?: boolean }[] => {
+    // Priorizar a curva limpa (sem nuvens e valores fora da curva) do provedor de satélite
+    if (ndviRealData && ndviRealData.smoothed.length > 0) {
+      return ndviRealData.smoothed.map(d => ({
         date: new Date(d.date),
         ndvi: d.ndvi,
+        interpolated: d.interpolated,
       }));
     }
 
+    // Os fallbacks abaixo são de NDVI
+    if (vegetationIndex !== "ndvi") return [];
+
     // Fallback para dados do banco (se houver)
     if (ndviHistory?.length) {
       return ndviHistory.map((n: any) => ({
@@ -312,7 +386,7 @@ export default function FieldDetailPro() {
       mockData.push({ date, ndvi: Math.max(0, Math.min(1, baseNdvi + Math.random() * 0.1)) });
     }
     return mockData;
-  }, [ndviRealData, ndviHistory]);
+  }, [ndviRealData, ndviHistory, vegetationIndex]);
 
   // Prepare chart data from real weather data
   const precipitationChartData = useMemo(() => {
@@ -410,7 +484,7 @@ export default function FieldDetailPro() {
         const minLat = Math.min(...lats);
         const maxLat = Math.max(...lats);
 
-        // Tentar carregar imagem NDVI
+        // Imagem do índice já recortada e colorida no servidor; sem cena, só o contorno
         try {
           const img = new Image();
           img.crossOrigin = "anonymous";
@@ -418,7 +492,7 @@ export default function FieldDetailPro() {
           await new Promise<void>((resolve, reject) => {
             img.onload = () => resolve();
             img.onerror = () => reject(new Error("Failed to load"));
-            img.src = proxyImageUrl + "?t=" + Date.now();
+            img.src = proxyImageUrl + (proxyImageUrl.includes("?") ? "&" : "?") + "t=" + Date.now();
           });
           
           mapInstance.addSource("ndvi-image-layer-source", {
@@ -432,10 +506,9 @@ export default function FieldDetailPro() {
             type: "raster",
             source: "ndvi-image-layer-source",
             paint: { "raster-opacity": 1.0, "raster-fade-duration": 0 },
-          });
+          }, ["management-zones-fill", "problem-areas-fill"].find(id => mapInstance.getLayer(id)));
         } catch {
-          const ndvi = field.currentNdvi ? field.currentNdvi / 100 : 0.5;
-          generateNdviGradientOverlay(mapInstance, "ndvi-fallback", ndvi, boundsArray);
+          console.warn("[NDVI] Imagem do campo indisponível");
         }
 
         mapInstance.addSource(sourceId, {
@@ -464,7 +537,103 @@ export default function FieldDetailPro() {
 
     if (mapInstance.isStyleLoaded()) drawField();
     else mapInstance.on("style.load", drawField);
-  }, [mapInstance, field, proxyImageUrl, removeAllOverlays, calculateBoundsFromPolygon, generateNdviGradientOverlay]);
+  }, [mapInstance, field, proxyImageUrl, removeAllOverlays, calculateBoundsFromPolygon]);
+
+  // Zonas de manejo sobre o mapa do índice
+  useEffect(() => {
+    if (!mapInstance) return;
+
+    const drawZones = () => {
+      ["management-zones-outline", "management-zones-fill", "management-zones"].forEach((id) => {
+        if (mapInstance.getLayer(id)) mapInstance.removeLayer(id);
+        if (mapInstance.getSource(id)) mapInstance.removeSource(id);
+      });
+      if (!showZones || managementZones.length === 0) return;
+
+      mapInstance.addSource("management-zones", {
+        type: "geojson",
+        data: {
+          type: "FeatureCollection",
+          features: managementZones.map(zone => ({
+            type: "Feature" as const,
+            properties: { zone: zone.zone, color: zoneColor(zone.zone, managementZones.length) },
+            geometry: zone.geometry,
+          })),
+        },
+      });
+      mapInstance.addLayer({
+        id: "management-zones-fill",
+        type: "fill",
+        source: "management-zones",
+        paint: { "fill-color": ["get", "color"], "fill-opacity": 0.85 },
+      }, mapInstance.getLayer("problem-areas-fill") ? "problem-areas-fill" : undefined);
+      mapInstance.addLayer({
+        id: "management-zones-outline",
+        type: "line",
+        source: "management-zones",
+        paint: { "line-color": "#FFFFFF", "line-width": 1, "line-opacity": 0.8 },
+      }, mapInstance.getLayer("problem-areas-fill") ? "problem-areas-fill" : undefined);
+    };
+
+    if (mapInstance.isStyleLoaded()) drawZones();
+    else mapInstance.once("style.load", drawZones);
+  }, [mapInstance, managementZones, showZones]);
+
+  // Áreas problema por cima de tudo; o clique numa delas abre a nota de vistoria
+  useEffect(() => {
+    if (!mapInstance) return;
+
+    const openScouting = (e: mapboxgl.MapLayerMouseEvent) => {
+      const id = e.features?.[0]?.properties?.id;
+      const area = problemAreas.find(candidate => candidate.id === id);
+      if (area) setScoutingArea(area);
+    };
+    const pointer = () => { mapInstance.getCanvas().style.cursor = "pointer"; };
+    const resetPointer = () => { mapInstance.getCanvas().style.cursor = ""; };
+
+    const drawProblemAreas = () => {
+      ["problem-areas-outline", "problem-areas-fill", "problem-areas"].forEach((id) => {
+        if (mapInstance.getLayer(id)) mapInstance.removeLayer(id);
+        if (mapInstance.getSource(id)) mapInstance.removeSource(id);
+      });
+      if (!showProblemAreas || problemAreas.length === 0) return;
+
+      mapInstance.addSource("problem-areas", {
+        type: "geojson",
+        data: {
+          type: "FeatureCollection",
+          features: problemAreas.map(area => ({
+            type: "Feature" as const,
+            properties: { id: area.id, color: SEVERITY_COLORS[area.severity] },
+            geometry: area.geometry,
+          })),
+        },
+      });
+      mapInstance.addLayer({
+        id: "problem-areas-fill",
+        type: "fill",
+        source: "problem-areas",
+        paint: { "fill-color": ["get", "color"], "fill-opacity": 0.35 },
+      });
+      mapInstance.addLayer({
+        id: "problem-areas-outline",
+        type: "line",
+        source: "problem-areas",
+        paint: { "line-color": ["get", "color"], "line-width": 2 },
+      });
+    };
+
+    if (mapInstance.isStyleLoaded()) drawProblemAreas();
+    else mapInstance.once("style.load", drawProblemAreas);
+    mapInstance.on("click", "problem-areas-fill", openScouting);
+    mapInstance.on("mouseenter", "problem-areas-fill", pointer);
+    mapInstance.on("mouseleave", "problem-areas-fill", resetPointer);
+    return () => {
+      mapInstance.off("click", "problem-areas-fill", openScouting);
+      mapInstance.off("mouseenter", "problem-areas-fill", pointer);
+      mapInstance.off("mouseleave", "problem-areas-fill", resetPointer);
+    };
+  }, [mapInstance, problemAreas, showProblemAreas]);
 
   // Draw satellite map
   useEffect(() => {
@@ -591,6 +760,41 @@ export default function FieldDetailPro() {
                   {field.areaHectares ? `${(field.areaHectares / 100).toFixed(1)} ha` : "Área não definida"}
                   {currentCrop ? `, ${currentCrop.cropType}` : ", No crop"}
                 </p>
+                {lineage && (lineage.parents.length > 0 || lineage.children.length > 0) && (
+                  <p className="text-xs text-gray-400">
+                    {lineage.parents.length > 0 ? (
+                      <>
+                        {lineage.parents[0].operation === "merge" ? "União de " : "Dividido de "}
+                        {lineage.parents.map((p, i) => (
+                          <span key={p.id}>
+                            {i > 0 && ", "}
+                            <button
+                              onClick={() => setLocation(`/fields/${p.id}/pro`)}
+                              className="underline hover:text-gray-600"
+                            >
+                              {p.name}
+                            </button>
+                          </span>
+                        ))}
+                      </>
+                    ) : (
+                      <>
+                        {lineage.children[0].operation === "merge" ? "Unido em " : "Dividido em "}
+                        {lineage.children.map((c, i) => (
+                          <span key={c.id}>
+                            {i > 0 && ", "}
+                            <button
+                              onClick={() => setLocation(`/fields/${c.id}/pro`)}
+                              className="underline hover:text-gray-600"
+                            >
+                              {c.name}
+                            </button>
+                          </span>
+                        ))}
+                      </>
+                    )}
+                  </p>
+                )}
               </div>
             </div>
             
@@ -608,6 +812,26 @@ export default function FieldDetailPro() {
                 <Upload className="h-4 w-4" />
                 Upload data
               </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                className="gap-2 text-gray-600"
+                onClick={() => setShowExport(true)}
+              >
+                <Download className="h-4 w-4" />
+                Exportar
+              </Button>
+              {field.isActive && field.access === "owner" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2 text-gray-600"
+                  onClick={() => setLocation(`/fields/${fieldId}/split`)}
+                >
+                  <Scissors className="h-4 w-4" />
+                  Dividir
+                </Button>
+              )}
             </div>
           </div>
         </div>
@@ -677,7 +901,21 @@ export default function FieldDetailPro() {
           <div className="bg-white rounded-xl shadow-sm overflow-hidden">
             {/* Card Header */}
             <div className="px-4 py-3 flex items-center justify-between border-b border-gray-100">
-              <span className="text-sm font-medium text-gray-700">NDVI, {ndviDate}</span>
+              <div className="flex items-center gap-2">
+                <Select value={vegetationIndex} onValueChange={(value: VegetationIndex) => setVegetationIndex(value)}>
+                  <SelectTrigger size="sm" className="text-sm font-medium text-gray-700">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {VEGETATION_INDICES.map(index => (
+                      <SelectItem key={index} value={index} title={VEGETATION_INDEX_INFO[index].description}>
+                        {VEGETATION_INDEX_INFO[index].label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <span className="text-sm font-medium text-gray-700">{ndviDate}</span>
+              </div>
               <div className="flex items-center gap-1">
                 <button 
                   onClick={goToPrevImage}
@@ -715,22 +953,68 @@ export default function FieldDetailPro() {
                 style="satellite"
               />
               
-              {/* NDVI Color Scale - Vertical, inside map - Cores OneSoil */}
+              {/* Escala de cores do índice - vertical, dentro do mapa */}
               <div className="absolute left-4 top-1/2 -translate-y-1/2 flex flex-col items-center">
-                <span className="text-[11px] text-white font-semibold mb-1 drop-shadow-lg">1.0</span>
+                <span className="text-[11px] text-white font-semibold mb-1 drop-shadow-lg">{indexLegend.max.toFixed(1)}</span>
                 <div 
                   className="w-4 h-36 rounded-sm shadow-lg"
-                  style={{
-                    background: 'linear-gradient(to bottom, #378C37 0%, #5FB944 20%, #78CD4E 35%, #91DA58 50%, #A5E15F 65%, #C3DC5F 80%, #E6DC5A 90%, #A56437 100%)'
-                  }}
+                  style={{ background: indexLegend.background }}
                 />
-                <span className="text-[11px] text-white font-semibold mt-1 drop-shadow-lg">0.0</span>
+                <span className="text-[11px] text-white font-semibold mt-1 drop-shadow-lg">{indexLegend.min.toFixed(1)}</span>
               </div>
               
+              {/* Zonas de manejo: média e área de cada uma */}
+              {showZones && managementZones.length > 0 && (
+                <div className="absolute right-3 top-3 bg-white/90 backdrop-blur-sm rounded-lg shadow-sm p-2 space-y-1">
+                  {[...managementZones].reverse().map(zone => (
+                    <div key={zone.zone} className="flex items-center gap-2 text-[11px] text-gray-700">
+                      <span className="w-3 h-3 rounded-sm" style={{ background: zoneColor(zone.zone, managementZones.length) }} />
+                      <span className="font-medium">Zona {zone.zone}</span>
+                      <span>{zone.meanIndex.toFixed(2)}</span>
+                      <span className="text-gray-500">{zone.areaHectares.toFixed(1)} ha</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {/* Bottom controls */}
               <div className="absolute bottom-3 left-4 flex gap-2">
-                <button className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-lg text-xs font-medium text-gray-700 shadow-sm flex items-center gap-1">
+                <button
+                  onClick={() => setShowZones(prev => !prev)}
+                  disabled={managementZones.length === 0}
+                  title={managementZones.length === 0 ? "Nenhuma zona de manejo gerada" : "Mostrar zonas de manejo"}
+                  className={`backdrop-blur-sm px-3 py-1.5 rounded-lg text-xs font-medium shadow-sm flex items-center gap-1 disabled:opacity-50 ${
+                    showZones ? "bg-green-600 text-white" : "bg-white/90 text-gray-700"
+                  }`}
+                >
                   <Layers className="h-3 w-3" />
+                  Zonas
+                </button>
+                <button
+                  onClick={() => generateZones.mutate({ fieldId, index: vegetationIndex })}
+                  disabled={generateZones.isPending}
+                  className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-lg text-xs font-medium text-gray-700 shadow-sm disabled:opacity-50"
+                >
+                  {generateZones.isPending ? "Calculando zonas..." : managementZones.length > 0 ? "Recalcular zonas" : "Gerar zonas"}
+                </button>
+                <button
+                  onClick={() => setShowProblemAreas(prev => !prev)}
+                  disabled={problemAreas.length === 0}
+                  title={problemScene
+                    ? `${problemAreas.length} áreas problema na imagem de ${format(new Date(problemScene.captureDate), "dd/MM/yyyy")}`
+                    : "Nenhuma imagem analisada"}
+                  className={`backdrop-blur-sm px-3 py-1.5 rounded-lg text-xs font-medium shadow-sm flex items-center gap-1 disabled:opacity-50 ${
+                    showProblemAreas ? "bg-red-600 text-white" : "bg-white/90 text-gray-700"
+                  }`}
+                >
+                  <AlertTriangle className="h-3 w-3" />
+                  Áreas problema{problemAreas.length > 0 && ` (${problemAreas.length})`}
+                </button>
+                <button
+                  onClick={() => setShowPrescription(true)}
+                  className="bg-white/90 backdrop-blur-sm px-3 py-1.5 rounded-lg text-xs font-medium text-gray-700 shadow-sm"
+                >
+                  Prescrição
                 </button>
               </div>
             </div>
@@ -781,12 +1065,12 @@ export default function FieldDetailPro() {
           {/* NDVI Chart - Estilo OneSoil */}
           <div className="bg-white rounded-xl shadow-sm overflow-hidden">
             <NdviChartOneSoil
-              data={ndviChartData.map(d => ({ date: format(d.date, "yyyy-MM-dd"), ndvi: d.ndvi }))}
-              currentValue={parseFloat(currentNdviValue)}
+              data={ndviChartData.map(d => ({ date: format(d.date, "yyyy-MM-dd"), ndvi: d.ndvi, interpolated: d.interpolated }))}
+              currentValue={vegetationIndex === "ndvi" ? parseFloat(currentNdviValue) : undefined}
               lastUpdateDate={ndviChartData.length > 0 ? format(ndviChartData[ndviChartData.length - 1].date, "yyyy-MM-dd") : undefined}
               height={200}
               showDownload={true}
-              title="Índice NDVI"
+              title={`Índice ${indexInfo.label}`}
             />
           </div>
 
@@ -857,8 +1141,36 @@ export default function FieldDetailPro() {
               </div>
             </div>
           )}
+
+          {/* Comparação entre duas cenas gravadas */}
+          <NdviCompare fieldId={fieldId} scenes={ndviHistory ?? []} />
+
+          {/* Histórico de limites */}
+          <BoundaryHistory fieldId={fieldId} />
         </div>
       </div>
+
+      <ExportFieldsDialog
+        open={showExport}
+        onOpenChange={setShowExport}
+        fieldIds={[field.id]}
+        title={field.name}
+      />
+
+      <PrescriptionDialog
+        open={showPrescription}
+        onOpenChange={setShowPrescription}
+        fieldId={field.id}
+        fieldName={field.name}
+        zones={managementZones}
+      />
+
+      <ProblemAreaNoteDialog
+        area={scoutingArea}
+        onOpenChange={(open) => !open && setScoutingArea(null)}
+        fieldId={field.id}
+        captureDate={problemScene?.captureDate ?? null}
+      />
     </div>
   );
 }
@@ -19,13 +19,22 @@ import {
   Square,
   Check,
   Locate,
-  Crown
+  Crown,
+  Plus,
+  MinusCircle
 } from "lucide-react";
 import { useState, useCallback, useEffect, useRef, useMemo } from "react";
 import { useLocation, useParams, useSearch } from "wouter";
 import { toast } from "sonner";
 import mapboxgl from "mapbox-gl";
 import * as turf from "@turf/turf";
+import {
+  getFieldGeometry,
+  ringsToGeometry,
+  geometryToRings,
+  geometryAreaHectares,
+  type DrawnRing,
+} from "@/lib/fieldGeometry";
 
 type DrawMode = "select" | "draw";
 
@@ -59,11 +68,13 @@ export default function FieldDrawNew() {
   const [, setLocation] = useLocation();
   const { user, isGuest } = useAuth();
   const [mode, setMode] = useState<DrawMode>("draw");
-  const [points, setPoints] = useState<[number, number][]>([]); // [lng, lat]
-  const [area, setArea] = useState<number>(0);
+  const [points, setPoints] = useState<[number, number][]>([]); // [lng, lat] do anel em edição
+  const [activeKind, setActiveKind] = useState<DrawnRing["kind"]>("outer");
+  const [rings, setRings] = useState<DrawnRing[]>([]); // partes e exclusões já concluídas
   const [showNameDialog, setShowNameDialog] = useState(false);
   const [showLimitDialog, setShowLimitDialog] = useState(false);
   const [fieldName, setFieldName] = useState("");
+  const [validFrom, setValidFrom] = useState(() => new Date().toISOString().split("T")[0]);
   const [mapInstance, setMapInstance] = useState<mapboxgl.Map | null>(null);
   const { setMap, getUserLocation, watchUserLocation, clearWatchLocation } = useMapbox();
   const markersRef = useRef<mapboxgl.Marker[]>([]);
@@ -93,31 +104,25 @@ export default function FieldDrawNew() {
   useEffect(() => {
     if (isEditMode && existingField && !isLoaded) {
       setFieldName(existingField.name);
-      if (existingField.boundaries) {
-        try {
-          const boundaries = typeof existingField.boundaries === 'string'
-            ? JSON.parse(existingField.boundaries)
-            : existingField.boundaries;
-          if (Array.isArray(boundaries) && boundaries.length > 0) {
-            const loadedPoints: [number, number][] = boundaries.map((p: any) => [p.lng, p.lat]);
-            setPoints(loadedPoints);
-            setMode("select");
-            setIsLoaded(true);
-
-            // Center map on field
-            if (mapInstance && loadedPoints.length > 0) {
-              const avgLng = loadedPoints.reduce((sum, p) => sum + p[0], 0) / loadedPoints.length;
-              const avgLat = loadedPoints.reduce((sum, p) => sum + p[1], 0) / loadedPoints.length;
-              initialCenterRef.current = [avgLng, avgLat];
-              mapInstance.flyTo({
-                center: [avgLng, avgLat],
-                zoom: 16,
-                duration: 1500,
-              });
-            }
-          }
-        } catch (e) {
-          console.error('Error parsing boundaries:', e);
+      const geometry = getFieldGeometry(existingField);
+      if (geometry) {
+        // O primeiro contorno fica editável; as demais partes e exclusões entram como concluídas
+        const [first, ...others] = geometryToRings(geometry);
+        setPoints(first.points);
+        setActiveKind(first.kind);
+        setRings(others);
+        setMode("select");
+        setIsLoaded(true);
+
+        // Center map on field
+        if (mapInstance) {
+          const [centerLng, centerLat] = turf.centerOfMass(geometry).geometry.coordinates;
+          initialCenterRef.current = [centerLng, centerLat];
+          mapInstance.flyTo({
+            center: [centerLng, centerLat],
+            zoom: 16,
+            duration: 1500,
+          });
         }
       }
     }
@@ -175,10 +180,12 @@ export default function FieldDrawNew() {
   const createField = trpc.fields.create.useMutation({
     onSuccess: (data) => {
       toast.success("Campo criado com sucesso!");
+      // Sobreposição com APP/Reserva Legal do CAR não bloqueia, mas precisa ser vista
+      data.carWarnings?.forEach((warning) => toast.warning(warning, { duration: 10000 }));
       setLocation(`/fields/${data.id}`);
     },
-    onError: () => {
-      toast.error("Erro ao criar campo");
+    onError: (error) => {
+      toast.error(error.message || "Erro ao criar campo");
     },
   });
 
@@ -187,27 +194,18 @@ export default function FieldDrawNew() {
       toast.success("Campo atualizado com sucesso!");
       setLocation(`/fields/${editId}`);
     },
-    onError: () => {
-      toast.error("Erro ao atualizar campo");
+    onError: (error) => {
+      toast.error(error.message || "Erro ao atualizar campo");
     },
   });
 
-  // Calculate area when points change
-  useEffect(() => {
-    if (points.length >= 3) {
-      try {
-        const closedPoints = [...points, points[0]];
-        const polygon = turf.polygon([closedPoints]);
-        const areaM2 = turf.area(polygon);
-        const areaHa = areaM2 / 10000;
-        setArea(areaHa);
-      } catch (e) {
-        setArea(0);
-      }
-    } else {
-      setArea(0);
-    }
-  }, [points]);
+  // Geometria completa (partes + exclusões) e área já descontando os buracos
+  const drawnGeometry = useMemo(
+    () => ringsToGeometry([...rings, { kind: activeKind, points }]),
+    [rings, activeKind, points]
+  );
+  const area = useMemo(() => geometryAreaHectares(drawnGeometry), [drawnGeometry]);
+  const ringColor = activeKind === "hole" ? "#EF4444" : "#22C55E";
 
   // Update polygon and lines on map
   useEffect(() => {
@@ -230,7 +228,9 @@ export default function FieldDrawNew() {
       points.forEach((point, index) => {
         const el = document.createElement("div");
         el.className = `w-6 h-6 rounded-full border-3 shadow-lg cursor-move flex items-center justify-center text-xs font-bold ${
-          index === 0 ? "bg-green-500 border-white text-white" : "bg-white border-green-500 text-green-600"
+          activeKind === "hole"
+            ? index === 0 ? "bg-red-500 border-white text-white" : "bg-white border-red-500 text-red-600"
+            : index === 0 ? "bg-green-500 border-white text-white" : "bg-white border-green-500 text-green-600"
         }`;
         el.textContent = String(index + 1);
         
@@ -274,51 +274,46 @@ export default function FieldDrawNew() {
           type: "line",
           source: "draw-line",
           paint: {
-            "line-color": "#22C55E",
+            "line-color": ringColor,
             "line-width": 3,
             "line-dasharray": points.length < 3 ? [2, 2] : [1, 0],
           },
         });
       }
+    }
 
-      // Draw polygon fill only if we have at least 3 points
-      if (points.length >= 3) {
-        const closedPoints = [...points, points[0]];
-        
-        mapInstance.addSource("draw-polygon", {
-          type: "geojson",
-          data: {
-            type: "Feature",
-            properties: {},
-            geometry: {
-              type: "Polygon",
-              coordinates: [closedPoints],
-            },
-          },
-        });
+    // Preenchimento de todas as partes, com as exclusões vazadas
+    if (drawnGeometry) {
+      mapInstance.addSource("draw-polygon", {
+        type: "geojson",
+        data: {
+          type: "Feature",
+          properties: {},
+          geometry: drawnGeometry,
+        },
+      });
 
-        mapInstance.addLayer({
-          id: "draw-polygon",
-          type: "fill",
-          source: "draw-polygon",
-          paint: {
-            "fill-color": "#22C55E",
-            "fill-opacity": 0.3,
-          },
-        });
+      mapInstance.addLayer({
+        id: "draw-polygon",
+        type: "fill",
+        source: "draw-polygon",
+        paint: {
+          "fill-color": "#22C55E",
+          "fill-opacity": 0.3,
+        },
+      });
 
-        mapInstance.addLayer({
-          id: "draw-polygon-outline",
-          type: "line",
-          source: "draw-polygon",
-          paint: {
-            "line-color": "#FFFFFF",
-            "line-width": 2,
-          },
-        });
-      }
+      mapInstance.addLayer({
+        id: "draw-polygon-outline",
+        type: "line",
+        source: "draw-polygon",
+        paint: {
+          "line-color": "#FFFFFF",
+          "line-width": 2,
+        },
+      });
     }
-  }, [points, mode, mapInstance]);
+  }, [points, mode, mapInstance, drawnGeometry, activeKind, ringColor]);
 
   const handleMapReady = useCallback((map: mapboxgl.Map) => {
     setMap(map);
@@ -362,22 +357,10 @@ export default function FieldDrawNew() {
     existingFields.forEach((field) => {
       // Não mostrar o campo que está sendo editado
       if (isEditMode && field.id === editId) return;
-      if (!field.boundaries) return;
+      const geometry = getFieldGeometry(field);
+      if (!geometry) return;
       
       try {
-        const fieldPoints = typeof field.boundaries === 'string' 
-          ? JSON.parse(field.boundaries) 
-          : field.boundaries;
-        
-        if (!Array.isArray(fieldPoints) || fieldPoints.length < 3) return;
-        
-        const coordinates = fieldPoints.map((p: any) => [p.lng, p.lat] as [number, number]);
-        // Fechar o polígono
-        if (coordinates[0][0] !== coordinates[coordinates.length - 1][0] || 
-            coordinates[0][1] !== coordinates[coordinates.length - 1][1]) {
-          coordinates.push(coordinates[0]);
-        }
-        
         const sourceId = `existing-field-${field.id}`;
         
         // Adicionar source
@@ -386,10 +369,7 @@ export default function FieldDrawNew() {
           data: {
             type: "Feature",
             properties: { name: field.name },
-            geometry: {
-              type: "Polygon",
-              coordinates: [coordinates],
-            },
+            geometry,
           },
         });
         
@@ -417,8 +397,7 @@ export default function FieldDrawNew() {
         });
         
         // Adicionar label com nome do campo
-        const centerLng = coordinates.reduce((sum, c) => sum + c[0], 0) / coordinates.length;
-        const centerLat = coordinates.reduce((sum, c) => sum + c[1], 0) / coordinates.length;
+        const [centerLng, centerLat] = turf.centerOfMass(geometry).geometry.coordinates;
         
         const labelEl = document.createElement("div");
         labelEl.className = "bg-blue-500/80 text-white text-xs px-2 py-1 rounded-full whitespace-nowrap pointer-events-none";
@@ -451,11 +430,31 @@ export default function FieldDrawNew() {
   }, [mapInstance, mode]);
 
   const handleUndo = () => {
+    // Sem pontos no anel atual, reabre a última parte/exclusão concluída
+    if (points.length === 0 && rings.length > 0) {
+      const last = rings[rings.length - 1];
+      setRings(prev => prev.slice(0, -1));
+      setActiveKind(last.kind);
+      setPoints(last.points);
+      return;
+    }
     setPoints(prev => prev.slice(0, -1));
   };
 
-  const handleFinish = () => {
+  // Conclui o anel atual e começa uma nova parte ou uma área de exclusão
+  const handleStartRing = (kind: DrawnRing["kind"]) => {
     if (points.length < 3) {
+      toast.error("Conclua o contorno atual com pelo menos 3 pontos");
+      return;
+    }
+    setRings(prev => [...prev, { kind: activeKind, points }]);
+    setPoints([]);
+    setActiveKind(kind);
+    setMode("draw");
+  };
+
+  const handleFinish = () => {
+    if (!drawnGeometry || (points.length > 0 && points.length < 3)) {
       toast.error("Desenhe pelo menos 3 pontos para criar um campo");
       return;
     }
@@ -475,31 +474,20 @@ export default function FieldDrawNew() {
       return;
     }
 
-    // Calculate center point
-    const lngSum = points.reduce((sum, p) => sum + p[0], 0);
-    const latSum = points.reduce((sum, p) => sum + p[1], 0);
-    const centerLng = lngSum / points.length;
-    const centerLat = latSum / points.length;
-
-    // Convert to lat/lng format for storage
-    const boundariesForStorage = points.map(p => ({ lat: p[1], lng: p[0] }));
+    // Área, perímetro e centro são calculados pelo servidor a partir da geometria
+    const boundaries = JSON.stringify(drawnGeometry);
 
     if (isEditMode && editId) {
       updateField.mutate({
         id: editId,
         name: fieldName,
-        areaHectares: Math.round(area * 100), // Store as integer (hectares * 100)
-        latitude: centerLat.toString(),
-        longitude: centerLng.toString(),
-        boundaries: JSON.stringify(boundariesForStorage),
+        boundaries,
+        boundaryValidFrom: validFrom,
       });
     } else {
       createField.mutate({
         name: fieldName,
-        areaHectares: Math.round(area * 100), // Store as integer (hectares * 100)
-        latitude: centerLat.toString(),
-        longitude: centerLng.toString(),
-        boundaries: JSON.stringify(boundariesForStorage),
+        boundaries,
       });
     }
   };
@@ -610,9 +598,10 @@ export default function FieldDrawNew() {
         style={{ paddingBottom: 'max(16px, env(safe-area-inset-bottom))' }}
       >
         {/* Area info and point count */}
-        {points.length > 0 && (
+        {(points.length > 0 || rings.length > 0) && (
           <div className="flex items-center justify-between mb-3 pointer-events-none">
             <span className="bg-black/70 text-white px-3 py-1.5 rounded-full text-sm font-medium">
+              {activeKind === "hole" ? "Exclusão: " : ""}
               {points.length} {points.length === 1 ? 'ponto' : 'pontos'}
             </span>
             {area > 0 && (
@@ -629,12 +618,34 @@ export default function FieldDrawNew() {
             variant="secondary"
             className="pointer-events-auto bg-white/90 text-gray-800 hover:bg-white rounded-full px-4 h-12 gap-2 shadow-lg"
             onClick={handleUndo}
-            disabled={points.length === 0}
+            disabled={points.length === 0 && rings.length === 0}
           >
             <Undo2 className="h-5 w-5" />
             <span>Desfazer</span>
           </Button>
 
+          {/* Nova parte / área de exclusão (sede, reserva, lagoa...) */}
+          <div className="flex gap-2">
+            <Button
+              variant="secondary"
+              className="pointer-events-auto bg-white/90 text-gray-800 hover:bg-white rounded-full px-3 h-12 gap-1 shadow-lg"
+              onClick={() => handleStartRing("outer")}
+              disabled={points.length < 3}
+            >
+              <Plus className="h-4 w-4" />
+              <span className="text-sm">Nova parte</span>
+            </Button>
+            <Button
+              variant="secondary"
+              className="pointer-events-auto bg-white/90 text-red-600 hover:bg-white rounded-full px-3 h-12 gap-1 shadow-lg"
+              onClick={() => handleStartRing("hole")}
+              disabled={points.length < 3}
+            >
+              <MinusCircle className="h-4 w-4" />
+              <span className="text-sm">Exclusão</span>
+            </Button>
+          </div>
+
           {/* Location Button */}
           <Button
             variant="secondary"
@@ -649,12 +660,12 @@ export default function FieldDrawNew() {
         {/* Finish Button - Always visible and prominent */}
         <Button
           className={`pointer-events-auto w-full mt-3 text-white rounded-2xl h-16 text-lg font-bold shadow-xl transition-all ${
-            points.length >= 3 
+            drawnGeometry 
               ? 'bg-green-500 hover:bg-green-600 active:scale-[0.98]' 
               : 'bg-gray-400 cursor-not-allowed'
           }`}
           onClick={handleFinish}
-          disabled={points.length < 3}
+          disabled={!drawnGeometry}
         >
           <Check className="h-6 w-6 mr-2" />
           {isEditMode ? 'Salvar Alterações' : 'Confirmar Área'}
@@ -688,6 +699,20 @@ export default function FieldDrawNew() {
             <p className="text-sm text-gray-500 mt-2">
               Área: {area.toFixed(1)} hectares
             </p>
+            {isEditMode && (
+              <div className="mt-4">
+                <label className="text-sm text-gray-600">Novos limites valem a partir de</label>
+                <Input
+                  type="date"
+                  value={validFrom}
+                  onChange={(e) => setValidFrom(e.target.value)}
+                  className="mt-1"
+                />
+                <p className="text-xs text-gray-400 mt-1">
+                  Antes dessa data, o NDVI e o clima continuam usando o limite anterior
+                </p>
+              </div>
+            )}
           </div>
           <div className="flex justify-end gap-2">
             <Button variant="outline" onClick={() => setShowNameDialog(false)}>
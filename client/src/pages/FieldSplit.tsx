@@ -0,0 +1,164 @@
+import { trpc } from "@/lib/trpc";
+import { MapboxMap } from "@/components/MapboxMap";
+import { Button } from "@/components/ui/button";
+import { X, Undo2, Scissors } from "lucide-react";
+import { useState, useCallback, useEffect } from "react";
+import { useLocation, useParams } from "wouter";
+import { toast } from "sonner";
+import mapboxgl from "mapbox-gl";
+import * as turf from "@turf/turf";
+import { getFieldGeometry } from "@/lib/fieldGeometry";
+
+// Dividir um talhão desenhando uma linha que o atravesse de lado a lado
+export default function FieldSplit() {
+  const params = useParams<{ id: string }>();
+  const fieldId = parseInt(params.id || "0");
+  const [, setLocation] = useLocation();
+  const [mapInstance, setMapInstance] = useState<mapboxgl.Map | null>(null);
+  const [line, setLine] = useState<[number, number][]>([]); // [lng, lat]
+
+  const { data: field } = trpc.fields.getById.useQuery({ id: fieldId }, { enabled: !!fieldId });
+  const utils = trpc.useUtils();
+
+  const splitField = trpc.fields.split.useMutation({
+    onSuccess: (data) => {
+      toast.success(`Campo dividido em ${data.fieldIds.length} partes`);
+      utils.fields.list.invalidate();
+      setLocation("/fields");
+    },
+    onError: (error) => {
+      toast.error(error.message || "Erro ao dividir campo");
+    },
+  });
+
+  const handleMapReady = useCallback((map: mapboxgl.Map) => {
+    setMapInstance(map);
+  }, []);
+
+  // Contorno do campo e enquadramento
+  useEffect(() => {
+    if (!mapInstance || !field) return;
+    const geometry = getFieldGeometry(field);
+    if (!geometry) return;
+
+    const draw = () => {
+      if (mapInstance.getSource("split-field")) return;
+      mapInstance.addSource("split-field", {
+        type: "geojson",
+        data: { type: "Feature", properties: {}, geometry },
+      });
+      mapInstance.addLayer({
+        id: "split-field-fill",
+        type: "fill",
+        source: "split-field",
+        paint: { "fill-color": "#22C55E", "fill-opacity": 0.25 },
+      });
+      mapInstance.addLayer({
+        id: "split-field-outline",
+        type: "line",
+        source: "split-field",
+        paint: { "line-color": "#FFFFFF", "line-width": 2 },
+      });
+
+      const [minLng, minLat, maxLng, maxLat] = turf.bbox(geometry);
+      mapInstance.fitBounds([[minLng, minLat], [maxLng, maxLat]], { padding: 60, duration: 0 });
+    };
+
+    if (mapInstance.isStyleLoaded()) draw();
+    else mapInstance.once("load", draw);
+  }, [mapInstance, field]);
+
+  // Linha de corte
+  useEffect(() => {
+    if (!mapInstance || !mapInstance.isStyleLoaded()) return;
+
+    if (mapInstance.getLayer("split-line")) mapInstance.removeLayer("split-line");
+    if (mapInstance.getSource("split-line")) mapInstance.removeSource("split-line");
+    if (line.length === 0) return;
+
+    mapInstance.addSource("split-line", {
+      type: "geojson",
+      data: {
+        type: "Feature",
+        properties: {},
+        geometry: line.length === 1
+          ? { type: "Point", coordinates: line[0] }
+          : { type: "LineString", coordinates: line },
+      },
+    });
+    mapInstance.addLayer({
+      id: "split-line",
+      type: line.length === 1 ? "circle" : "line",
+      source: "split-line",
+      paint: line.length === 1
+        ? { "circle-color": "#EF4444", "circle-radius": 5 }
+        : { "line-color": "#EF4444", "line-width": 3, "line-dasharray": [2, 1] },
+    });
+  }, [mapInstance, line]);
+
+  useEffect(() => {
+    if (!mapInstance) return;
+    const handleClick = (e: mapboxgl.MapMouseEvent) => {
+      setLine(prev => [...prev, [e.lngLat.lng, e.lngLat.lat]]);
+    };
+    mapInstance.on("click", handleClick);
+    return () => {
+      mapInstance.off("click", handleClick);
+    };
+  }, [mapInstance]);
+
+  return (
+    <div className="relative h-screen w-full">
+      <MapboxMap
+        onMapReady={handleMapReady}
+        style="satellite"
+        className="absolute inset-0"
+      />
+
+      {/* Header */}
+      <div className="absolute top-0 left-0 right-0 p-4 flex items-center justify-between pointer-events-none z-10">
+        <Button
+          variant="secondary"
+          size="icon"
+          className="pointer-events-auto bg-white hover:bg-gray-100 rounded-full h-10 w-10 shadow-md"
+          onClick={() => setLocation(`/fields/${fieldId}/pro`)}
+        >
+          <X className="h-5 w-5" />
+        </Button>
+        <span className="bg-gray-800/90 text-white px-4 py-2 rounded-full text-sm">
+          Dividir {field?.name ?? "campo"}
+        </span>
+        <div className="w-10" />
+      </div>
+
+      {/* Bottom Controls */}
+      <div
+        className="absolute bottom-0 left-0 right-0 p-4 pointer-events-none z-10 bg-gradient-to-t from-black/50 to-transparent"
+        style={{ paddingBottom: 'max(16px, env(safe-area-inset-bottom))' }}
+      >
+        <p className="text-center text-white/80 text-sm mb-3">
+          Toque fora do campo e desenhe a linha atravessando-o até o outro lado
+        </p>
+        <div className="flex items-center gap-3">
+          <Button
+            variant="secondary"
+            className="pointer-events-auto bg-white/90 text-gray-800 hover:bg-white rounded-full px-4 h-12 gap-2 shadow-lg"
+            onClick={() => setLine(prev => prev.slice(0, -1))}
+            disabled={line.length === 0}
+          >
+            <Undo2 className="h-5 w-5" />
+            <span>Desfazer</span>
+          </Button>
+          <Button
+            className="pointer-events-auto flex-1 bg-green-500 hover:bg-green-600 text-white rounded-2xl h-12 font-bold shadow-xl"
+            onClick={() => splitField.mutate({ id: fieldId, line })}
+            disabled={line.length < 2 || splitField.isPending}
+          >
+            <Scissors className="h-5 w-5 mr-2" />
+            {splitField.isPending ? "Dividindo..." : "Dividir campo"}
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
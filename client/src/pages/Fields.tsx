@@ -12,15 +12,30 @@ import {
   Edit,
   MapPin,
   TrendingUp,
-  TrendingDown
+  TrendingDown,
+  Upload,
+  Download,
+  Combine,
+  Trees,
+  Users
 } from "lucide-react";
 import { useState, useMemo } from "react";
 import { motion, AnimatePresence } from "framer-motion";
 import { Button } from "@/components/ui/button";
+import { ImportFieldsDialog } from "@/components/ImportFieldsDialog";
+import { ExportFieldsDialog } from "@/components/ExportFieldsDialog";
+import { MergeFieldsDialog } from "@/components/MergeFieldsDialog";
+import { CarComplianceDialog } from "@/components/CarComplianceDialog";
 
 type SortOption = "name" | "area" | "ndvi" | "recent";
 type FilterOption = "all" | "healthy" | "attention" | "critical";
 
+const SHARED_ACCESS_LABELS = {
+  view: "Ver",
+  comment: "Comentar",
+  edit: "Editar",
+} as const;
+
 export default function Fields() {
   const [, setLocation] = useLocation();
   const [searchQuery, setSearchQuery] = useState("");
@@ -28,8 +43,13 @@ export default function Fields() {
   const [filterBy, setFilterBy] = useState<FilterOption>("all");
   const [showFilters, setShowFilters] = useState(false);
   const [selectedField, setSelectedField] = useState<number | null>(null);
+  const [showImport, setShowImport] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showMerge, setShowMerge] = useState(false);
+  const [showCar, setShowCar] = useState(false);
 
   const { data: fields, isLoading } = trpc.fields.list.useQuery();
+  const { data: sharedFields } = trpc.sharing.sharedWithMe.useQuery();
   const deleteMutation = trpc.fields.delete.useMutation();
   const utils = trpc.useUtils();
 
@@ -105,12 +125,42 @@ export default function Fields() {
         <div className="px-4 py-4">
           <div className="flex items-center justify-between mb-4">
             <h1 className="text-2xl font-bold text-gray-900">Meus Campos</h1>
-            <button
-              onClick={() => setLocation('/fields/new')}
-              className="w-10 h-10 bg-green-500 rounded-full flex items-center justify-center shadow-md"
-            >
-              <Plus className="h-5 w-5 text-white" />
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setShowCar(true)}
+                className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center"
+                title="CAR da fazenda"
+              >
+                <Trees className="h-5 w-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setShowMerge(true)}
+                className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center"
+                title="Unir campos"
+              >
+                <Combine className="h-5 w-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setShowExport(true)}
+                className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center"
+                title="Exportar campos"
+              >
+                <Download className="h-5 w-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setShowImport(true)}
+                className="w-10 h-10 bg-gray-100 rounded-full flex items-center justify-center"
+                title="Importar campos"
+              >
+                <Upload className="h-5 w-5 text-gray-600" />
+              </button>
+              <button
+                onClick={() => setLocation('/fields/new')}
+                className="w-10 h-10 bg-green-500 rounded-full flex items-center justify-center shadow-md"
+              >
+                <Plus className="h-5 w-5 text-white" />
+              </button>
+            </div>
           </div>
 
           {/* Search Bar */}
@@ -345,6 +395,37 @@ export default function Fields() {
           </div>
         )}
 
+        {/* Campos de outros produtores compartilhados comigo */}
+        {sharedFields && sharedFields.length > 0 && (
+          <div className="mt-6">
+            <h2 className="text-sm font-semibold text-gray-700 mb-3 flex items-center gap-2">
+              <Users className="h-4 w-4" />
+              Compartilhados comigo
+            </h2>
+            <div className="space-y-2">
+              {sharedFields.map((field) => (
+                <button
+                  key={field.id}
+                  onClick={() => setLocation(`/fields/${field.id}`)}
+                  className="w-full bg-white rounded-2xl p-4 shadow-sm border border-gray-100 text-left flex items-center gap-3"
+                >
+                  <div className="flex-1 min-w-0">
+                    <h3 className="font-semibold text-gray-900 truncate">{field.name}</h3>
+                    <p className="text-sm text-gray-500 truncate">
+                      {field.ownerName ?? "Outro produtor"}
+                      {field.areaHectares ? ` • ${(field.areaHectares / 100).toFixed(1)} ha` : ""}
+                    </p>
+                  </div>
+                  <span className="text-xs font-medium text-green-700 bg-green-50 rounded-full px-2 py-1">
+                    {SHARED_ACCESS_LABELS[field.access]}
+                  </span>
+                  <ChevronRight className="h-4 w-4 text-gray-400" />
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Summary */}
         {fields && fields.length > 0 && (
           <div className="mt-6 bg-green-50 rounded-2xl p-4">
@@ -369,6 +450,15 @@ export default function Fields() {
           </div>
         )}
       </div>
+
+      <ImportFieldsDialog open={showImport} onOpenChange={setShowImport} />
+      <ExportFieldsDialog open={showExport} onOpenChange={setShowExport} />
+      <MergeFieldsDialog
+        open={showMerge}
+        onOpenChange={setShowMerge}
+        onSuccess={(id) => setLocation(`/fields/${id}`)}
+      />
+      <CarComplianceDialog open={showCar} onOpenChange={setShowCar} />
     </div>
   );
 }
@@ -1,7 +1,6 @@
 import { trpc } from "@/lib/trpc";
 import { MapboxMap, useMapbox } from "@/components/MapboxMap";
 import { useNdviOverlay } from "@/hooks/useNdviOverlay";
-import { clipImageToPolygon, generateClippedNdviGradient } from "@/utils/clipImageToPolygon";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
@@ -236,42 +235,12 @@ export default function FieldsOneSoil() {
 
         // Bounds for image positioning
         const boundsArray = calculateBoundsFromPolygon(coordinates);
-        let ndviLoaded = false;
 
+        // Imagem do índice já recortada pelo limite e colorida no servidor
         if (proxyImageUrl) {
-          try {
-            // Usar a imagem NDVI diretamente do Copernicus (já vem recortada)
-            // Adicionar timestamp para evitar cache
-            const imageUrl = proxyImageUrl + "&t=" + Date.now();
-            
-            ndviMapInstance.addSource("ndvi-image", {
-              type: "image",
-              url: imageUrl,
-              coordinates: boundsArray,
-            });
-
-            ndviMapInstance.addLayer({
-              id: "ndvi-image",
-              type: "raster",
-              source: "ndvi-image",
-              paint: { "raster-opacity": 0.95 },
-            });
-            ndviLoaded = true;
-            console.log("[NDVI] Imagem Copernicus carregada com sucesso");
-          } catch (e) {
-            console.warn("Falha ao carregar imagem NDVI:", e);
-          }
-        }
-
-        // Fallback: usar gradiente sintético recortado pelo polígono
-        if (!ndviLoaded) {
-          const bounds = { minLng, maxLng, minLat, maxLat };
-          const ndviValue = selectedField.currentNdvi ? selectedField.currentNdvi / 100 : 0.65;
-          const gradientUrl = generateClippedNdviGradient(ndviValue, coordinates, bounds);
-          
           ndviMapInstance.addSource("ndvi-image", {
             type: "image",
-            url: gradientUrl,
+            url: proxyImageUrl,
             coordinates: boundsArray,
           });
 
@@ -279,7 +248,7 @@ export default function FieldsOneSoil() {
             id: "ndvi-image",
             type: "raster",
             source: "ndvi-image",
-            paint: { "raster-opacity": 1.0 },
+            paint: { "raster-opacity": 0.95 },
           });
         }
 
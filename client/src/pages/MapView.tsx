@@ -7,6 +7,7 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
+import { Switch } from "@/components/ui/switch";
 import {
   Sheet,
   SheetContent,
@@ -28,9 +29,16 @@ import { useState, useCallback, useEffect, useRef } from "react";
 import { useLocation } from "wouter";
 import { toast } from "sonner";
 import mapboxgl from "mapbox-gl";
-import { clipImageToPolygon } from "@/utils/clipImageToPolygon";
+import { getFieldGeometry } from "@/lib/fieldGeometry";
 
 type MapLayer = "satellite" | "crop" | "vegetation";
+
+// Camadas do CAR desenhadas sob os campos: APP em azul, Reserva Legal em verde, perímetro tracejado
+const CAR_LAYERS = [
+  { key: "app", label: "APP", color: "#3B82F6" },
+  { key: "reservaLegal", label: "Reserva Legal", color: "#16A34A" },
+  { key: "total", label: "Perímetro do imóvel", color: "#FACC15" },
+] as const;
 type NdviType = "basic" | "contrasted" | "average" | "heterogenity";
 
 export default function MapView() {
@@ -46,8 +54,73 @@ export default function MapView() {
   const userMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const watchIdRef = useRef<number | null>(null);
   const [userLocation, setUserLocation] = useState<[number, number] | null>(null);
+  const [showCarLayers, setShowCarLayers] = useState(true);
 
   const { data: fields } = trpc.fields.list.useQuery();
+  const { data: carLayers } = trpc.farms.carLayers.useQuery();
+
+  // Camadas do CAR das fazendas do usuário
+  useEffect(() => {
+    if (!mapInstance || !carLayers || carLayers.length === 0) return;
+
+    const draw = () => {
+      CAR_LAYERS.forEach(({ key, color }) => {
+        const sourceId = `car-${key}`;
+        const data: GeoJSON.FeatureCollection = {
+          type: "FeatureCollection",
+          features: carLayers
+            .filter((car) => car[key])
+            .map((car) => ({
+              type: "Feature" as const,
+              properties: { farmId: car.farmId, codigoCar: car.codigoCar },
+              geometry: car[key]!,
+            })),
+        };
+
+        const source = mapInstance.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+        if (source) {
+          source.setData(data);
+          return;
+        }
+        mapInstance.addSource(sourceId, { type: "geojson", data });
+        if (key === "total") {
+          mapInstance.addLayer({
+            id: `${sourceId}-line`,
+            type: "line",
+            source: sourceId,
+            paint: { "line-color": color, "line-width": 2, "line-dasharray": [3, 2] },
+          });
+        } else {
+          mapInstance.addLayer({
+            id: `${sourceId}-fill`,
+            type: "fill",
+            source: sourceId,
+            paint: { "fill-color": color, "fill-opacity": 0.35 },
+          });
+          mapInstance.addLayer({
+            id: `${sourceId}-line`,
+            type: "line",
+            source: sourceId,
+            paint: { "line-color": color, "line-width": 1.5 },
+          });
+        }
+      });
+    };
+
+    if (mapInstance.isStyleLoaded()) draw();
+    else mapInstance.once("load", draw);
+  }, [mapInstance, carLayers]);
+
+  useEffect(() => {
+    if (!mapInstance) return;
+    CAR_LAYERS.forEach(({ key }) => {
+      [`car-${key}-fill`, `car-${key}-line`].forEach((layerId) => {
+        if (mapInstance.getLayer(layerId)) {
+          mapInstance.setLayoutProperty(layerId, "visibility", showCarLayers ? "visible" : "none");
+        }
+      });
+    });
+  }, [mapInstance, carLayers, showCarLayers]);
 
   // Watch user location continuously
   useEffect(() => {
@@ -122,29 +195,22 @@ export default function MapView() {
   // Função para carregar overlay NDVI de um campo específico
   const loadNdviOverlayForField = useCallback(async (
     map: mapboxgl.Map,
-    field: { id: number; boundaries: string | null; agroPolygonId?: string | null; currentNdvi?: number | null; areaHectares?: number | null; name: string }
+    field: { id: number; boundaries: string | null; geometry?: unknown; agroPolygonId?: string | null; currentNdvi?: number | null; areaHectares?: number | null; name: string }
   ) => {
-    if (!field.boundaries || loadedOverlaysRef.current.has(field.id)) return;
+    const geometry = getFieldGeometry(field);
+    if (!geometry || loadedOverlaysRef.current.has(field.id)) return;
     
     try {
-      const points = (typeof field.boundaries === 'string' ? JSON.parse(field.boundaries) : field.boundaries) as { lat: number; lng: number }[];
-      if (points.length < 3) return;
-
-      const coordinates = points.map(p => [p.lng, p.lat] as [number, number]);
-      if (coordinates[0][0] !== coordinates[coordinates.length - 1][0] || 
-          coordinates[0][1] !== coordinates[coordinates.length - 1][1]) {
-        coordinates.push(coordinates[0]);
-      }
-
       const sourceId = `field-${field.id}`;
       const ndviImageSourceId = `field-ndvi-image-${field.id}`;
       const ndviImageLayerId = `field-ndvi-layer-${field.id}`;
       const fillLayerId = `field-fill-${field.id}`;
       const outlineLayerId = `field-outline-${field.id}`;
 
-      // Calcular bounds
-      const lngs = coordinates.map(c => c[0]);
-      const lats = coordinates.map(c => c[1]);
+      // Calcular bounds de todas as partes
+      const allPositions = geometry.type === "Polygon" ? geometry.coordinates.flat() : geometry.coordinates.flat(2);
+      const lngs = allPositions.map(c => c[0]);
+      const lats = allPositions.map(c => c[1]);
       const minLng = Math.min(...lngs);
       const maxLng = Math.max(...lngs);
       const minLat = Math.min(...lats);
@@ -164,10 +230,7 @@ export default function MapView() {
         data: {
           type: "Feature",
           properties: { id: field.id, name: field.name },
-          geometry: {
-            type: "Polygon",
-            coordinates: [coordinates],
-          },
+          geometry,
         },
       });
 
@@ -176,17 +239,18 @@ export default function MapView() {
         try {
           const proxyUrl = `/api/copernicus-ndvi/${field.id}?palette=onesoil`;
           
-          // Carregar e recortar a imagem NDVI para seguir o contorno do polígono (estilo OneSoil)
-          const clippedImageUrl = await clipImageToPolygon(
-            proxyUrl,
-            coordinates,
-            { minLng, maxLng, minLat, maxLat }
-          );
+          // A imagem já vem recortada pelo contorno do campo; pré-carregar só para cair no preenchimento se faltar
+          await new Promise<void>((resolve, reject) => {
+            const img = new Image();
+            img.onload = () => resolve();
+            img.onerror = () => reject(new Error("Failed to load"));
+            img.src = proxyUrl;
+          });
 
           // Adicionar source da imagem NDVI recortada
           map.addSource(ndviImageSourceId, {
             type: "image",
-            url: clippedImageUrl,
+            url: proxyUrl,
             coordinates: [
               [minLng, maxLat], // top-left
               [maxLng, maxLat], // top-right
@@ -505,6 +569,23 @@ export default function MapView() {
               />
             </div>
 
+            {carLayers && carLayers.length > 0 && (
+              <div className="flex items-center justify-between px-4 py-3 mb-4 rounded-xl bg-gray-50">
+                <div>
+                  <p className="text-sm font-medium">Áreas do CAR</p>
+                  <div className="flex gap-3 mt-1">
+                    {CAR_LAYERS.map(({ key, label, color }) => (
+                      <span key={key} className="flex items-center gap-1 text-xs text-gray-500">
+                        <span className="h-2.5 w-2.5 rounded-sm" style={{ background: color }} />
+                        {label}
+                      </span>
+                    ))}
+                  </div>
+                </div>
+                <Switch checked={showCarLayers} onCheckedChange={setShowCarLayers} />
+              </div>
+            )}
+
             {mapLayer === "vegetation" && (
               <div className="space-y-2">
                 <NdviOption
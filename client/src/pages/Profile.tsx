@@ -19,11 +19,16 @@ import {
   Settings,
   Star,
   Crown,
-  Lock
+  Lock,
+  Users,
+  Briefcase,
+  Activity
 } from "lucide-react";
 import { useState, useMemo } from "react";
 import { motion } from "framer-motion";
 import { toast } from "sonner";
+import { OrganizationDialog } from "@/components/OrganizationDialog";
+import { ConsultantAccessDialog } from "@/components/ConsultantAccessDialog";
 
 interface MenuItem {
   icon: React.ElementType;
@@ -43,6 +48,8 @@ export default function Profile() {
   const { user, logout } = useAuth();
   const [, setLocation] = useLocation();
   const [showLogoutConfirm, setShowLogoutConfirm] = useState(false);
+  const [showOrganization, setShowOrganization] = useState(false);
+  const [showConsultants, setShowConsultants] = useState(false);
 
   const { data: fields } = trpc.fields.list.useQuery(undefined, {
     enabled: !!user && !user.isGuest,
@@ -52,6 +59,13 @@ export default function Profile() {
     enabled: !!user,
   });
 
+  const { data: organization } = trpc.organizations.current.useQuery(undefined, {
+    enabled: !!user && !user.isGuest,
+  });
+  const { data: clients } = trpc.consultants.clients.useQuery(undefined, {
+    enabled: !!user && !user.isGuest,
+  });
+
   const stats = useMemo(() => {
     if (!fields) return null;
     return {
@@ -174,6 +188,11 @@ export default function Profile() {
       section: 'Conta',
       items: [
         { icon: User, label: 'Editar Perfil', action: () => toast.info("Em breve") },
+        { icon: Users, label: 'Equipe', value: organization?.roleLabel, action: () => setShowOrganization(true) },
+        { icon: Briefcase, label: 'Consultores', action: () => setShowConsultants(true) },
+        ...(clients && clients.length > 0
+          ? [{ icon: Briefcase, label: 'Meus Clientes', value: String(clients.length), action: () => setLocation('/clients') }]
+          : []),
         { icon: Bell, label: 'Notificações', action: () => toast.info("Em breve") },
         { icon: Shield, label: 'Privacidade', action: () => toast.info("Em breve") },
       ]
@@ -195,6 +214,12 @@ export default function Profile() {
         { icon: Star, label: 'Avaliar o App', action: () => toast.info("Em breve") },
       ]
     },
+    ...(user?.role === 'admin'
+      ? [{
+          section: 'Administração',
+          items: [{ icon: Activity, label: 'Jobs agendados', action: () => setLocation('/admin/jobs') }],
+        }]
+      : []),
   ];
 
   return (
@@ -323,6 +348,9 @@ export default function Profile() {
         </p>
       </div>
 
+      <OrganizationDialog open={showOrganization} onOpenChange={setShowOrganization} />
+      <ConsultantAccessDialog open={showConsultants} onOpenChange={setShowConsultants} />
+
       {/* Logout Confirmation Modal */}
       {showLogoutConfirm && (
         <motion.div
@@ -0,0 +1,46 @@
+import { trpc } from "@/lib/trpc";
+import { Button } from "@/components/ui/button";
+import { Loader2, Share2 } from "lucide-react";
+import { useEffect } from "react";
+import { useLocation, useParams } from "wouter";
+import { toast } from "sonner";
+
+// Abertura de um convite ou link de campo compartilhado
+export default function ShareAccept() {
+  const { token } = useParams<{ token: string }>();
+  const [, setLocation] = useLocation();
+  const utils = trpc.useUtils();
+
+  const accept = trpc.sharing.accept.useMutation({
+    onSuccess: (data) => {
+      utils.sharing.sharedWithMe.invalidate();
+      if (data.permission !== "owner") toast.success("Campo compartilhado com você");
+      setLocation(`/fields/${data.fieldId}`);
+    },
+  });
+
+  useEffect(() => {
+    if (token) accept.mutate({ token });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [token]);
+
+  return (
+    <div className="min-h-[100dvh] bg-gray-50 flex flex-col items-center justify-center p-4 text-center">
+      {accept.error ? (
+        <>
+          <Share2 className="h-16 w-16 text-gray-300 mb-4" />
+          <h2 className="text-xl font-semibold text-gray-900 mb-2">Não foi possível abrir o convite</h2>
+          <p className="text-gray-500 mb-6">{accept.error.message}</p>
+          <Button variant="outline" onClick={() => setLocation("/fields")}>
+            Voltar para campos
+          </Button>
+        </>
+      ) : (
+        <>
+          <Loader2 className="h-8 w-8 text-green-600 animate-spin mb-4" />
+          <p className="text-gray-500">Abrindo campo compartilhado...</p>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,21 @@
+-- Fazendas: agrupam os campos de um usuário
+CREATE TABLE IF NOT EXISTS farms (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  userId INT NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT NULL,
+  city VARCHAR(100) NULL,
+  state VARCHAR(100) NULL,
+  country VARCHAR(100) DEFAULT 'Brasil',
+  color VARCHAR(20) NULL,
+  isActive BOOLEAN DEFAULT TRUE,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_farms_user ON farms(userId);
+
+-- Campos passam a pertencer (opcionalmente) a uma fazenda
+ALTER TABLE fields ADD COLUMN farmId INT NULL;
+
+CREATE INDEX idx_fields_farm ON fields(farmId);
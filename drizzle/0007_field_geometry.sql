@@ -0,0 +1,3 @@
+-- Geometria canônica dos campos (GeoJSON WGS84) e perímetro calculado no servidor
+ALTER TABLE fields ADD COLUMN geometry JSON NULL;
+ALTER TABLE fields ADD COLUMN perimeterMeters INT NULL;
@@ -0,0 +1,12 @@
+-- Histórico de divisão/união de campos: liga os campos de origem aos resultantes
+CREATE TABLE IF NOT EXISTS fieldLineage (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  userId INT NOT NULL,
+  parentFieldId INT NOT NULL,
+  childFieldId INT NOT NULL,
+  operation ENUM('split', 'merge') NOT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_fieldLineage_parent ON fieldLineage(parentFieldId);
+CREATE INDEX idx_fieldLineage_child ON fieldLineage(childFieldId);
@@ -0,0 +1,20 @@
+-- Versões dos limites dos campos com período de vigência
+CREATE TABLE IF NOT EXISTS fieldBoundaryVersions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  fieldId INT NOT NULL,
+  userId INT NOT NULL,
+  geometry JSON NOT NULL,
+  areaHectares INT NULL,
+  perimeterMeters INT NULL,
+  validFrom TIMESTAMP NOT NULL,
+  validTo TIMESTAMP NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_fieldBoundaryVersions_field ON fieldBoundaryVersions(fieldId, validFrom);
+
+-- Versão inicial para os campos que já têm geometria
+INSERT INTO fieldBoundaryVersions (fieldId, userId, geometry, areaHectares, perimeterMeters, validFrom)
+SELECT id, userId, geometry, areaHectares, perimeterMeters, createdAt
+FROM fields
+WHERE geometry IS NOT NULL;
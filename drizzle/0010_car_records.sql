@@ -0,0 +1,18 @@
+-- CAR (Cadastro Ambiental Rural) anexado à fazenda: perímetro, Reserva Legal, APP e área consolidada
+CREATE TABLE IF NOT EXISTS carRecords (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  farmId INT NOT NULL UNIQUE,
+  userId INT NOT NULL,
+  codigoCar VARCHAR(100),
+  nomePropriedade VARCHAR(255),
+  municipio VARCHAR(100),
+  uf VARCHAR(2),
+  perimeter JSON,
+  reservaLegal JSON,
+  app JSON,
+  consolidada JSON,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_carRecords_user ON carRecords(userId);
@@ -0,0 +1,18 @@
+-- Compartilhamento de campos com permissões (ver/comentar/editar), convites por e-mail e links que expiram
+CREATE TABLE IF NOT EXISTS fieldShares (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  fieldId INT NOT NULL,
+  ownerId INT NOT NULL,
+  email VARCHAR(320),
+  sharedWithUserId INT,
+  parentShareId INT,
+  permission ENUM('view', 'comment', 'edit') DEFAULT 'view' NOT NULL,
+  token VARCHAR(64) NOT NULL UNIQUE,
+  expiresAt TIMESTAMP NULL,
+  acceptedAt TIMESTAMP NULL,
+  revokedAt TIMESTAMP NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_fieldShares_field ON fieldShares(fieldId);
+CREATE INDEX idx_fieldShares_user ON fieldShares(sharedWithUserId);
@@ -0,0 +1,43 @@
+-- Organizações (equipes) com papéis: owner, agronomist, operator, viewer
+CREATE TABLE IF NOT EXISTS organizations (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  name VARCHAR(255) NOT NULL,
+  ownerId INT NOT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS organizationMembers (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  organizationId INT NOT NULL,
+  userId INT NOT NULL,
+  role ENUM('owner', 'agronomist', 'operator', 'viewer') DEFAULT 'viewer' NOT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  UNIQUE KEY organizationMembers_org_user (organizationId, userId)
+);
+
+CREATE INDEX idx_organizationMembers_user ON organizationMembers(userId);
+
+ALTER TABLE users ADD COLUMN activeOrganizationId INT NULL;
+ALTER TABLE fields ADD COLUMN organizationId INT NULL;
+ALTER TABLE crops ADD COLUMN organizationId INT NULL;
+ALTER TABLE fieldNotes ADD COLUMN organizationId INT NULL;
+ALTER TABLE tasks ADD COLUMN organizationId INT NULL;
+
+CREATE INDEX idx_fields_organization ON fields(organizationId);
+CREATE INDEX idx_crops_organization ON crops(organizationId);
+CREATE INDEX idx_fieldNotes_organization ON fieldNotes(organizationId);
+CREATE INDEX idx_tasks_organization ON tasks(organizationId);
+
+-- Cada usuário existente ganha uma organização própria, como gestor, com os seus dados
+INSERT INTO organizations (name, ownerId)
+  SELECT COALESCE(NULLIF(company, ''), name, 'Minha organização'), id FROM users;
+
+INSERT INTO organizationMembers (organizationId, userId, role)
+  SELECT id, ownerId, 'owner' FROM organizations;
+
+UPDATE users u JOIN organizations o ON o.ownerId = u.id SET u.activeOrganizationId = o.id;
+UPDATE fields f JOIN organizations o ON o.ownerId = f.userId SET f.organizationId = o.id;
+UPDATE crops c JOIN organizations o ON o.ownerId = c.userId SET c.organizationId = o.id;
+UPDATE fieldNotes n JOIN organizations o ON o.ownerId = n.userId SET n.organizationId = o.id;
+UPDATE tasks t JOIN organizations o ON o.ownerId = t.userId SET t.organizationId = o.id;
@@ -0,0 +1,26 @@
+-- Consultores: produtores liberam fazendas para um consultor, que acompanha vários clientes
+CREATE TABLE IF NOT EXISTS consultantGrants (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  farmId INT NOT NULL,
+  producerId INT NOT NULL,
+  consultantId INT NOT NULL,
+  permission ENUM('view', 'comment', 'edit') DEFAULT 'comment' NOT NULL,
+  revokedAt TIMESTAMP NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  UNIQUE KEY uq_consultantGrants_farm_consultant (farmId, consultantId)
+);
+
+CREATE INDEX idx_consultantGrants_consultant ON consultantGrants(consultantId);
+CREATE INDEX idx_consultantGrants_producer ON consultantGrants(producerId);
+
+CREATE TABLE IF NOT EXISTS consultantNotes (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  consultantId INT NOT NULL,
+  producerId INT NOT NULL,
+  title VARCHAR(255),
+  content TEXT NOT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_consultantNotes_client ON consultantNotes(consultantId, producerId);
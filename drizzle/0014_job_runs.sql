@@ -0,0 +1,20 @@
+-- Execuções dos jobs agendados (ingestão de NDVI, coleta de clima, alertas)
+CREATE TABLE IF NOT EXISTS jobRuns (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  jobName VARCHAR(64) NOT NULL,
+  userId INT DEFAULT 0 NOT NULL,
+  scheduledFor TIMESTAMP NOT NULL,
+  status ENUM('pending', 'running', 'succeeded', 'failed') DEFAULT 'pending' NOT NULL,
+  attempts INT DEFAULT 0 NOT NULL,
+  maxAttempts INT DEFAULT 3 NOT NULL,
+  nextAttemptAt TIMESTAMP NOT NULL,
+  startedAt TIMESTAMP NULL,
+  finishedAt TIMESTAMP NULL,
+  lastError TEXT,
+  result JSON,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL,
+  updatedAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP ON UPDATE CURRENT_TIMESTAMP NOT NULL,
+  UNIQUE KEY uq_jobRuns_slot (jobName, scheduledFor, userId)
+);
+
+CREATE INDEX idx_jobRuns_due ON jobRuns(status, nextAttemptAt);
@@ -0,0 +1,14 @@
+-- Zonas de manejo calculadas a partir de cenas sem nuvens (server/services/managementZones.ts)
+CREATE TABLE IF NOT EXISTS managementZones (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  fieldId INT NOT NULL,
+  userId INT NOT NULL,
+  vegetationIndex VARCHAR(16) DEFAULT 'ndvi' NOT NULL,
+  zoneCount INT NOT NULL,
+  method VARCHAR(32) DEFAULT 'jenks' NOT NULL,
+  sceneDates JSON NOT NULL,
+  zones JSON NOT NULL,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_managementZones_field ON managementZones(fieldId, createdAt);
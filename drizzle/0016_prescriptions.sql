@@ -0,0 +1,20 @@
+-- Prescrições em taxa variável geradas das zonas de manejo ou do índice de vegetação
+CREATE TABLE IF NOT EXISTS prescriptions (
+  id INT AUTO_INCREMENT PRIMARY KEY,
+  fieldId INT NOT NULL,
+  userId INT NOT NULL,
+  managementZoneId INT,
+  productName VARCHAR(255) NOT NULL,
+  unit VARCHAR(16) NOT NULL,
+  mode ENUM('zones', 'linear') NOT NULL,
+  rule JSON NOT NULL,
+  cellMeters INT NOT NULL,
+  geometry JSON NOT NULL,
+  grid JSON NOT NULL,
+  summary JSON NOT NULL,
+  appliedAt TIMESTAMP NULL,
+  applicationNoteId INT,
+  createdAt TIMESTAMP DEFAULT CURRENT_TIMESTAMP NOT NULL
+);
+
+CREATE INDEX idx_prescriptions_field ON prescriptions(fieldId, createdAt);
@@ -0,0 +1,10 @@
+-- Fazendas pertencem à organização, como os campos: quem vê os campos vê a fazenda
+ALTER TABLE farms ADD COLUMN organizationId INT NULL;
+
+CREATE INDEX idx_farms_organization ON farms(organizationId);
+
+-- A organização dos campos da fazenda ou, sem campos, a primeira do criador
+UPDATE farms f SET f.organizationId = COALESCE(
+  (SELECT MIN(fl.organizationId) FROM fields fl WHERE fl.farmId = f.id),
+  (SELECT MIN(o.id) FROM organizations o WHERE o.ownerId = f.userId)
+);
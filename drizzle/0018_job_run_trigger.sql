@@ -0,0 +1,5 @@
+-- Disparos manuais ficam fora da busca do último horário agendado de cada job
+ALTER TABLE jobRuns ADD COLUMN triggeredBy ENUM('schedule', 'manual') DEFAULT 'schedule' NOT NULL;
+
+-- Horários da agenda caem no minuto cheio; com segundos, foi disparo manual
+UPDATE jobRuns SET triggeredBy = 'manual' WHERE SECOND(scheduledFor) <> 0;
@@ -20,6 +20,7 @@ export const users = mysqlTable("users", {
   // Status
   isGuest: boolean("isGuest").default(false).notNull(), // Usuário anônimo/guest
   deviceId: varchar("deviceId", { length: 64 }), // Para identificar dispositivo guest
+  activeOrganizationId: int("activeOrganizationId"), // organização em que o usuário está trabalhando
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
   lastSignedIn: timestamp("lastSignedIn").defaultNow().notNull(),
@@ -28,16 +29,84 @@ export const users = mysqlTable("users", {
 export type User = typeof users.$inferSelect;
 export type InsertUser = typeof users.$inferInsert;
 
+// ==================== ORGANIZATIONS (Equipes) ====================
+export const organizations = mysqlTable("organizations", {
+  id: int("id").autoincrement().primaryKey(),
+  name: varchar("name", { length: 255 }).notNull(),
+  ownerId: int("ownerId").notNull(), // usuário que criou a organização
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Organization = typeof organizations.$inferSelect;
+export type InsertOrganization = typeof organizations.$inferInsert;
+
+// Papéis: owner (gestor), agronomist, operator, viewer (server/services/organizations.ts)
+export const organizationMembers = mysqlTable("organizationMembers", {
+  id: int("id").autoincrement().primaryKey(),
+  organizationId: int("organizationId").notNull(),
+  userId: int("userId").notNull(),
+  role: mysqlEnum("role", ["owner", "agronomist", "operator", "viewer"]).default("viewer").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type OrganizationMember = typeof organizationMembers.$inferSelect;
+export type InsertOrganizationMember = typeof organizationMembers.$inferInsert;
+
+// ==================== FARMS (Fazendas) ====================
+export const farms = mysqlTable("farms", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  organizationId: int("organizationId"), // organização dona da fazenda
+  name: varchar("name", { length: 255 }).notNull(),
+  description: text("description"),
+  city: varchar("city", { length: 100 }),
+  state: varchar("state", { length: 100 }),
+  country: varchar("country", { length: 100 }).default("Brasil"),
+  color: varchar("color", { length: 20 }), // cor usada para agrupar os campos no mapa
+  isActive: boolean("isActive").default(true),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type Farm = typeof farms.$inferSelect;
+export type InsertFarm = typeof farms.$inferInsert;
+
+// ==================== CAR RECORDS (Cadastro Ambiental Rural da Fazenda) ====================
+export const carRecords = mysqlTable("carRecords", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull().unique(), // um CAR por fazenda (novo upload substitui)
+  userId: int("userId").notNull(),
+  codigoCar: varchar("codigoCar", { length: 100 }),
+  nomePropriedade: varchar("nomePropriedade", { length: 255 }),
+  municipio: varchar("municipio", { length: 100 }),
+  uf: varchar("uf", { length: 2 }),
+  // Camadas em GeoJSON Polygon/MultiPolygon (server/services/carIntegration.ts)
+  perimeter: json("perimeter"), // área do imóvel
+  reservaLegal: json("reservaLegal"),
+  app: json("app"), // Área de Preservação Permanente
+  consolidada: json("consolidada"), // área rural consolidada
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type CarRecord = typeof carRecords.$inferSelect;
+export type InsertCarRecord = typeof carRecords.$inferInsert;
+
 // ==================== FIELDS (Campos Agrícolas) ====================
 export const fields = mysqlTable("fields", {
   id: int("id").autoincrement().primaryKey(),
   userId: int("userId").notNull(),
+  organizationId: int("organizationId"), // organização dona do campo
+  farmId: int("farmId"), // fazenda à qual o campo pertence (opcional)
   name: varchar("name", { length: 255 }).notNull(),
   description: text("description"),
   areaHectares: int("areaHectares"), // área em hectares * 100 para precisão
   latitude: varchar("latitude", { length: 20 }),
   longitude: varchar("longitude", { length: 20 }),
-  boundaries: json("boundaries"), // GeoJSON polygon coordinates
+  boundaries: json("boundaries"), // anel externo [{lat, lng}] (formato legado lido pelos mapas)
+  geometry: json("geometry"), // GeoJSON Polygon/MultiPolygon normalizado (server/services/geometry.ts)
+  perimeterMeters: int("perimeterMeters"), // perímetro geodésico em metros
   address: text("address"),
   city: varchar("city", { length: 100 }),
   state: varchar("state", { length: 100 }),
@@ -54,11 +123,88 @@ export const fields = mysqlTable("fields", {
 export type Field = typeof fields.$inferSelect;
 export type InsertField = typeof fields.$inferInsert;
 
+// ==================== FIELD BOUNDARY VERSIONS (Versões dos Limites) ====================
+export const fieldBoundaryVersions = mysqlTable("fieldBoundaryVersions", {
+  id: int("id").autoincrement().primaryKey(),
+  fieldId: int("fieldId").notNull(),
+  userId: int("userId").notNull(),
+  geometry: json("geometry").notNull(), // GeoJSON Polygon/MultiPolygon vigente no período
+  areaHectares: int("areaHectares"), // área em hectares * 100
+  perimeterMeters: int("perimeterMeters"),
+  validFrom: timestamp("validFrom").notNull(),
+  validTo: timestamp("validTo"), // null = versão atual
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type FieldBoundaryVersion = typeof fieldBoundaryVersions.$inferSelect;
+export type InsertFieldBoundaryVersion = typeof fieldBoundaryVersions.$inferInsert;
+
+// ==================== FIELD SHARES (Compartilhamento de Campos) ====================
+export const fieldShares = mysqlTable("fieldShares", {
+  id: int("id").autoincrement().primaryKey(),
+  fieldId: int("fieldId").notNull(),
+  ownerId: int("ownerId").notNull(), // dono do campo que compartilhou
+  email: varchar("email", { length: 320 }), // convite por e-mail (null = link aberto)
+  sharedWithUserId: int("sharedWithUserId"), // usuário que aceitou o convite/link
+  parentShareId: int("parentShareId"), // link aberto de onde veio este acesso
+  permission: mysqlEnum("permission", ["view", "comment", "edit"]).default("view").notNull(),
+  token: varchar("token", { length: 64 }).notNull().unique(),
+  expiresAt: timestamp("expiresAt"), // null = não expira
+  acceptedAt: timestamp("acceptedAt"),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type FieldShare = typeof fieldShares.$inferSelect;
+export type InsertFieldShare = typeof fieldShares.$inferInsert;
+
+// ==================== CONSULTANT GRANTS (Acesso de Consultores às Fazendas) ====================
+export const consultantGrants = mysqlTable("consultantGrants", {
+  id: int("id").autoincrement().primaryKey(),
+  farmId: int("farmId").notNull(),
+  producerId: int("producerId").notNull(), // dono da fazenda, que continua dono
+  consultantId: int("consultantId").notNull(),
+  permission: mysqlEnum("permission", ["view", "comment", "edit"]).default("comment").notNull(),
+  revokedAt: timestamp("revokedAt"),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ConsultantGrant = typeof consultantGrants.$inferSelect;
+export type InsertConsultantGrant = typeof consultantGrants.$inferInsert;
+
+// Anotações do consultor sobre cada cliente (visíveis só para o consultor)
+export const consultantNotes = mysqlTable("consultantNotes", {
+  id: int("id").autoincrement().primaryKey(),
+  consultantId: int("consultantId").notNull(),
+  producerId: int("producerId").notNull(),
+  title: varchar("title", { length: 255 }),
+  content: text("content").notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type ConsultantNote = typeof consultantNotes.$inferSelect;
+export type InsertConsultantNote = typeof consultantNotes.$inferInsert;
+
+// ==================== FIELD LINEAGE (Divisão e União de Campos) ====================
+export const fieldLineage = mysqlTable("fieldLineage", {
+  id: int("id").autoincrement().primaryKey(),
+  userId: int("userId").notNull(),
+  parentFieldId: int("parentFieldId").notNull(), // campo de origem (fica inativo)
+  childFieldId: int("childFieldId").notNull(), // campo resultante
+  operation: mysqlEnum("operation", ["split", "merge"]).notNull(),
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type FieldLineage = typeof fieldLineage.$inferSelect;
+export type InsertFieldLineage = typeof fieldLineage.$inferInsert;
+
 // ==================== CROPS (Cultivos) ====================
 export const crops = mysqlTable("crops", {
   id: int("id").autoincrement().primaryKey(),
   fieldId: int("fieldId").notNull(),
   userId: int("userId").notNull(),
+  organizationId: int("organizationId"),
   cropType: varchar("cropType", { length: 100 }).notNull(), // soja, milho, trigo, etc.
   variety: varchar("variety", { length: 100 }),
   plantingDate: timestamp("plantingDate"),
@@ -82,6 +228,7 @@ export const fieldNotes = mysqlTable("fieldNotes", {
   id: int("id").autoincrement().primaryKey(),
   fieldId: int("fieldId").notNull(),
   userId: int("userId").notNull(),
+  organizationId: int("organizationId"),
   title: varchar("title", { length: 255 }),
   content: text("content").notNull(),
   noteType: mysqlEnum("noteType", ["observation", "problem", "task", "harvest", "application"]).default("observation"),
@@ -181,6 +328,7 @@ export const tasks = mysqlTable("tasks", {
   id: int("id").autoincrement().primaryKey(),
   fieldId: int("fieldId"),
   userId: int("userId").notNull(),
+  organizationId: int("organizationId"),
   title: varchar("title", { length: 255 }).notNull(),
   description: text("description"),
   taskType: mysqlEnum("taskType", ["planting", "irrigation", "fertilization", "spraying", "harvest", "maintenance", "inspection", "other"]).default("other"),
@@ -188,7 +336,7 @@ export const tasks = mysqlTable("tasks", {
   status: mysqlEnum("status", ["pending", "in_progress", "completed", "cancelled"]).default("pending"),
   dueDate: timestamp("dueDate"),
   completedAt: timestamp("completedAt"),
-  assignedTo: int("assignedTo"),
+  assignedTo: int("assignedTo"), // usuário membro da organização
   createdAt: timestamp("createdAt").defaultNow().notNull(),
   updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
 });
@@ -228,3 +376,65 @@ export const offlineSyncQueue = mysqlTable("offlineSyncQueue", {
 
 export type OfflineSyncQueue = typeof offlineSyncQueue.$inferSelect;
 export type InsertOfflineSyncQueue = typeof offlineSyncQueue.$inferInsert;
+
+// ==================== JOB RUNS (Tarefas Agendadas do Servidor) ====================
+// Uma execução por job, horário agendado e usuário (userId 0 = job global)
+export const jobRuns = mysqlTable("jobRuns", {
+  id: int("id").autoincrement().primaryKey(),
+  jobName: varchar("jobName", { length: 64 }).notNull(),
+  userId: int("userId").default(0).notNull(),
+  scheduledFor: timestamp("scheduledFor").notNull(),
+  triggeredBy: mysqlEnum("triggeredBy", ["schedule", "manual"]).default("schedule").notNull(), // disparo manual não conta como horário da agenda
+  status: mysqlEnum("status", ["pending", "running", "succeeded", "failed"]).default("pending").notNull(),
+  attempts: int("attempts").default(0).notNull(),
+  maxAttempts: int("maxAttempts").default(3).notNull(),
+  nextAttemptAt: timestamp("nextAttemptAt").notNull(), // próxima tentativa (backoff após falha)
+  startedAt: timestamp("startedAt"),
+  finishedAt: timestamp("finishedAt"),
+  lastError: text("lastError"),
+  result: json("result"), // resumo devolvido pelo job
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+  updatedAt: timestamp("updatedAt").defaultNow().onUpdateNow().notNull(),
+});
+
+export type JobRun = typeof jobRuns.$inferSelect;
+export type InsertJobRun = typeof jobRuns.$inferInsert;
+
+// ==================== MANAGEMENT ZONES (Zonas de Manejo) ====================
+// Uma linha por cálculo; a mais recente é a zona vigente do campo
+export const managementZones = mysqlTable("managementZones", {
+  id: int("id").autoincrement().primaryKey(),
+  fieldId: int("fieldId").notNull(),
+  userId: int("userId").notNull(), // quem gerou
+  vegetationIndex: varchar("vegetationIndex", { length: 16 }).default("ndvi").notNull(),
+  zoneCount: int("zoneCount").notNull(),
+  method: varchar("method", { length: 32 }).default("jenks").notNull(),
+  sceneDates: json("sceneDates").notNull(), // datas ISO das cenas usadas
+  zones: json("zones").notNull(), // [{zone, areaHectares, meanIndex, relativeIndex, geometry}]
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type ManagementZoneSet = typeof managementZones.$inferSelect;
+export type InsertManagementZoneSet = typeof managementZones.$inferInsert;
+
+// ==================== PRESCRIPTIONS (Prescrições em Taxa Variável) ====================
+export const prescriptions = mysqlTable("prescriptions", {
+  id: int("id").autoincrement().primaryKey(),
+  fieldId: int("fieldId").notNull(),
+  userId: int("userId").notNull(),
+  managementZoneId: int("managementZoneId"), // zonas usadas (modo por zonas)
+  productName: varchar("productName", { length: 255 }).notNull(),
+  unit: varchar("unit", { length: 16 }).notNull(), // kg/ha, L/ha, sementes/ha
+  mode: mysqlEnum("mode", ["zones", "linear"]).notNull(),
+  rule: json("rule").notNull(), // taxas por zona ou mínima/máxima do modo linear
+  cellMeters: int("cellMeters").notNull(),
+  geometry: json("geometry").notNull(), // limite do campo usado na grade
+  grid: json("grid").notNull(), // grade regular com a taxa de cada célula (services/prescriptions.ts)
+  summary: json("summary").notNull(), // área, total de produto e taxas média, mínima e máxima
+  appliedAt: timestamp("appliedAt"), // aplicação registrada
+  applicationNoteId: int("applicationNoteId"), // nota do tipo "application" do registro
+  createdAt: timestamp("createdAt").defaultNow().notNull(),
+});
+
+export type Prescription = typeof prescriptions.$inferSelect;
+export type InsertPrescription = typeof prescriptions.$inferInsert;
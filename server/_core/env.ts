@@ -7,7 +7,13 @@ export const ENV = {
   isProduction: process.env.NODE_ENV === "production",
   forgeApiUrl: process.env.BUILT_IN_FORGE_API_URL ?? "",
   forgeApiKey: process.env.BUILT_IN_FORGE_API_KEY ?? "",
+  appUrl: process.env.APP_URL ?? "",
+  cronSecret: process.env.CRON_SECRET ?? "",
+  jobsEnabled: process.env.JOBS_ENABLED !== "false",
   agromonitoringApiKey: process.env.AGROMONITORING_API_KEY ?? "",
   COPERNICUS_CLIENT_ID: process.env.COPERNICUS_CLIENT_ID ?? "",
   COPERNICUS_CLIENT_SECRET: process.env.COPERNICUS_CLIENT_SECRET ?? "",
+  satelliteProvider: process.env.SATELLITE_PROVIDER ?? "",
+  tileCacheStore: process.env.TILE_CACHE_STORE ?? "", // filesystem, storage ou off (padrão: storage quando configurado)
+  tileCacheDir: process.env.TILE_CACHE_DIR ?? "",
 };
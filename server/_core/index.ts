@@ -2,12 +2,12 @@ import "dotenv/config";
 import express from "express";
 import { createServer } from "http";
 import net from "net";
-import { createExpressMiddleware } from "@trpc/server/adapters/express";
 import { registerOAuthRoutes } from "./oauth";
-import { appRouter } from "../routers";
-import { createContext } from "./context";
+import { registerTrpcRoutes } from "./trpcRoutes";
+import { registerNdviRoutes } from "./ndviRoutes";
+import { ENV } from "./env";
+import { startJobScheduler } from "../jobs";
 import { serveStatic, setupVite } from "./vite";
-import * as db from "../db";
 
 function isPortAvailable(port: number): Promise<boolean> {
   return new Promise(resolve => {
@@ -37,142 +37,11 @@ async function startServer() {
   // OAuth callback under /api/oauth/callback
   registerOAuthRoutes(app);
 
-  // ==================== NDVI IMAGE PROXY ====================
-  // Proxy para imagens NDVI (evita CORS)
-  app.get("/api/ndvi-image/:fieldId", async (req, res) => {
-    try {
-      const fieldId = parseInt(req.params.fieldId);
-      console.log(`[NDVI Proxy] Requisição para campo ${fieldId}`);
-      
-      const field = await db.getFieldById(fieldId);
-      
-      if (!field || !field.agroPolygonId) {
-        console.log(`[NDVI Proxy] Campo ${fieldId} não encontrado ou sem polígono`);
-        return res.status(404).send("Field not found or no polygon configured");
-      }
-      
-      console.log(`[NDVI Proxy] Campo ${fieldId} tem polígono: ${field.agroPolygonId}`);
-      
-      // Buscar a URL da imagem NDVI mais recente
-      const { searchSatelliteImages } = await import("../services/agromonitoring");
-      const endDate = new Date();
-      const startDate = new Date(endDate.getTime() - 60 * 24 * 60 * 60 * 1000);
-      
-      const images = await searchSatelliteImages(field.agroPolygonId, startDate, endDate);
-      console.log(`[NDVI Proxy] ${images.length} imagens encontradas`);
-      
-      if (images.length > 0) {
-        console.log(`[NDVI Proxy] Primeira imagem:`, {
-          dt: images[0].dt,
-          cl: images[0].cl,
-          ndviUrl: images[0]?.image?.ndvi?.substring(0, 80) + "..."
-        });
-      }
-      
-      const sortedImages = images
-        .filter(img => img.cl < 50)
-        .sort((a, b) => {
-          const cloudDiff = a.cl - b.cl;
-          if (Math.abs(cloudDiff) > 15) return cloudDiff;
-          return b.dt - a.dt;
-        });
-      
-      const image = sortedImages[0] || images.sort((a, b) => a.cl - b.cl)[0];
-      
-      if (!image?.image?.ndvi) {
-        console.log(`[NDVI Proxy] Nenhuma imagem NDVI disponível`);
-        return res.status(404).send("No NDVI image available");
-      }
-      
-      // Fazer proxy da imagem
-      const imageUrl = image.image.ndvi.replace("http://", "https://");
-      console.log(`[NDVI Proxy] Buscando imagem: ${imageUrl.substring(0, 80)}...`);
-      
-      const response = await fetch(imageUrl);
-      
-      if (!response.ok) {
-        console.log(`[NDVI Proxy] Erro ao buscar imagem: ${response.status}`);
-        return res.status(response.status).send("Failed to fetch NDVI image");
-      }
-      
-      const buffer = await response.arrayBuffer();
-      console.log(`[NDVI Proxy] Imagem carregada: ${buffer.byteLength} bytes`);
-      
-      res.set("Content-Type", response.headers.get("content-type") || "image/png");
-      res.set("Cache-Control", "public, max-age=3600");
-      res.set("Access-Control-Allow-Origin", "*");
-      res.send(Buffer.from(buffer));
-    } catch (error) {
-      console.error("[NDVI Proxy] Error:", error);
-      res.status(500).send("Internal server error");
-    }
-  });
-
-  // Proxy para tiles NDVI ({z}/{x}/{y}) evitando CORS
-  app.get("/api/ndvi-tiles/:fieldId/:z/:x/:y.png", async (req, res) => {
-    try {
-      const fieldId = parseInt(req.params.fieldId);
-      const { z, x, y } = req.params;
-      console.log(`[NDVI Tile Proxy] Campo ${fieldId} tile z${z}/${x}/${y}`);
-
-      const field = await db.getFieldById(fieldId);
-      if (!field || !field.agroPolygonId) {
-        console.log(`[NDVI Tile Proxy] Campo ${fieldId} não encontrado ou sem polígono`);
-        return res.status(404).send("Field not found");
-      }
-
-      const { searchSatelliteImages } = await import("../services/agromonitoring");
-      const endDate = new Date();
-      const startDate = new Date(endDate.getTime() - 60 * 24 * 60 * 60 * 1000);
-      const images = await searchSatelliteImages(field.agroPolygonId, startDate, endDate);
-
-      const sortedImages = images
-        .filter(img => img.cl < 50)
-        .sort((a, b) => {
-          const cloudDiff = a.cl - b.cl;
-          if (Math.abs(cloudDiff) > 15) return cloudDiff;
-          return b.dt - a.dt;
-        });
-
-      const image = sortedImages[0] || images.sort((a, b) => a.cl - b.cl)[0];
-      const baseTile = image?.tile?.ndvi;
-      if (!baseTile) {
-        console.log(`[NDVI Tile Proxy] Nenhum tile NDVI disponível`);
-        return res.status(404).send("No NDVI tile available");
-      }
-
-      // Garantir https e substituir placeholders
-      const tileUrl = baseTile
-        .replace("http://", "https://")
-        .replace("{z}", z)
-        .replace("{x}", x)
-        .replace("{y}", y);
-
-      const response = await fetch(tileUrl);
-      if (!response.ok) {
-        console.log(`[NDVI Tile Proxy] Erro ao buscar tile: ${response.status}`);
-        return res.status(response.status).send("Failed to fetch NDVI tile");
-      }
-
-      const buffer = await response.arrayBuffer();
-      res.set("Content-Type", response.headers.get("content-type") || "image/png");
-      res.set("Cache-Control", "public, max-age=3600");
-      res.set("Access-Control-Allow-Origin", "*");
-      res.send(Buffer.from(buffer));
-    } catch (error) {
-      console.error("[NDVI Tile Proxy] Error:", error);
-      res.status(500).send("Internal server error");
-    }
-  });
+  // Imagens, tiles e histórico de NDVI (provedor de satélite em uso)
+  registerNdviRoutes(app);
 
   // tRPC API
-  app.use(
-    "/api/trpc",
-    createExpressMiddleware({
-      router: appRouter,
-      createContext,
-    })
-  );
+  registerTrpcRoutes(app);
   // development mode uses Vite, production mode uses static files
   if (process.env.NODE_ENV === "development") {
     await setupVite(app, server);
@@ -190,6 +59,11 @@ async function startServer() {
   server.listen(port, () => {
     console.log(`Server running on http://localhost:${port}/`);
   });
+
+  // Jobs agendados (NDVI, clima, alertas) rodam no próprio processo
+  if (ENV.jobsEnabled) {
+    startJobScheduler();
+  }
 }
 
 startServer().catch(console.error);
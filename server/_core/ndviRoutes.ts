@@ -0,0 +1,225 @@
+import type { Express, Request, Response } from "express";
+import { TRPCError } from "@trpc/server";
+import { HttpError } from "@shared/_core/errors";
+import { isVegetationIndex, type VegetationIndex } from "@shared/vegetationIndices";
+import * as db from "../db";
+import { getFieldWithAccess } from "../authorization";
+import { sdk } from "./sdk";
+import { getSatelliteProvider } from "../services/satelliteProviders";
+import { satelliteTarget, type RenderedImage, type SatelliteTarget, type TileCoords } from "../services/satellite";
+import * as ndviChange from "../services/ndviChange";
+import * as indexRendering from "../services/indexRendering";
+import * as tileCache from "../services/tileCache";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function parseDate(value: unknown): Date | undefined {
+  if (typeof value !== "string" || !/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  return new Date(`${value}T00:00:00Z`);
+}
+
+// ?index= escolhe o índice de vegetação (padrão: NDVI)
+function parseIndex(value: unknown): VegetationIndex {
+  if (value === undefined) return "ndvi";
+  if (!isVegetationIndex(value)) throw new HttpError(400, "Invalid index");
+  return value;
+}
+
+// ?format= (ou a extensão do tile) escolhe PNG (padrão) ou WebP
+function parseFormat(value: unknown): indexRendering.ImageFormat {
+  if (value === undefined) return "png";
+  if (!indexRendering.IMAGE_FORMATS.includes(value as indexRendering.ImageFormat)) throw new HttpError(400, "Invalid format");
+  return value as indexRendering.ImageFormat;
+}
+
+// ?from= e ?to= (AAAA-MM-DD): as duas cenas do mapa de mudança
+function parseChangeQuery(query: Request["query"]): ndviChange.ChangeQuery {
+  const from = parseDate(query.from);
+  const to = parseDate(query.to);
+  if (!from || !to) throw new HttpError(400, "Invalid dates");
+  return { index: parseIndex(query.index), from, to };
+}
+
+function parseTile(params: Request["params"]): TileCoords {
+  const [z, x, y] = [params.z, params.x, params.y].map(Number);
+  if (![z, x, y].every(Number.isInteger) || z < 0 || z > 22 || x < 0 || y < 0 || x >= 2 ** z || y >= 2 ** z) {
+    throw new HttpError(400, "Invalid tile");
+  }
+  return { z, x, y };
+}
+
+/**
+ * Campo da rota com o mesmo controle de acesso dos procedimentos do tRPC: exige a
+ * sessão e ao menos acesso de visualização (organização, compartilhamento ou consultor)
+ */
+async function loadTarget(req: Request): Promise<SatelliteTarget> {
+  const user = await sdk.authenticateRequest(req).catch(() => null);
+  if (!user) throw new HttpError(401, "Unauthorized");
+  const member = await db.resolveMembership(user);
+  if (!member) throw new HttpError(503, "Database not available");
+
+  let field;
+  try {
+    ({ field } = await getFieldWithAccess(parseInt(req.params.fieldId), member, "view"));
+  } catch (error) {
+    // Sem acesso o campo "não existe", como no tRPC
+    if (error instanceof TRPCError) throw new HttpError(404, "Field not found");
+    throw error;
+  }
+  const target = satelliteTarget(field);
+  if (!target) throw new HttpError(400, "Field has no valid boundaries");
+  return target;
+}
+
+function sendImage(res: Response, image: RenderedImage) {
+  res.set("Content-Type", image.contentType);
+  res.set("Cache-Control", "private, max-age=3600");
+  res.send(image.data);
+}
+
+// Tiles do cache: o ETag pelo conteúdo permite ao navegador revalidar com 304
+function sendTile(req: Request, res: Response, tile: tileCache.CachedTile) {
+  res.set("ETag", tile.etag);
+  res.set("Cache-Control", "private, max-age=3600");
+  res.set("X-Tile-Cache", tile.hit ? "hit" : "miss");
+  if (req.fresh) {
+    res.status(304).end();
+    return;
+  }
+  res.set("Content-Type", tile.contentType);
+  res.send(tile.data);
+}
+
+function sendError(res: Response, label: string, error: unknown) {
+  if (error instanceof HttpError) {
+    return res.status(error.statusCode).send(error.message);
+  }
+  console.error(`[${label}] Error:`, error);
+  res.status(500).send("Internal server error");
+}
+
+/**
+ * Imagens, tiles e histórico de NDVI servidos pelo provedor de satélite em uso
+ * (services/satelliteProviders.ts). Usado pelo servidor Express e pelas funções
+ * da Vercel, que respondem nos mesmos caminhos.
+ */
+export function registerNdviRoutes(app: Express) {
+  app.use([
+    "/api/ndvi-image",
+    "/api/ndvi-tiles",
+    "/api/ndvi-change",
+    "/api/ndvi-change-tiles",
+    "/api/copernicus-ndvi",
+    "/api/copernicus-ndvi-history",
+  ], (req, res, next) => {
+    res.set("Access-Control-Allow-Origin", "*");
+    res.set("Access-Control-Allow-Methods", "GET, OPTIONS");
+    res.set("Access-Control-Allow-Headers", "Content-Type");
+    if (req.method === "OPTIONS") return res.status(200).end();
+    next();
+  });
+
+  // Imagem do campo: ?date=AAAA-MM-DD escolhe a cena; sem data, a mais limpa recente.
+  // Desenhada aqui dos valores da cena, já recortada pelo limite e na paleta pedida
+  const imageHandler = async (req: Request, res: Response) => {
+    try {
+      const index = parseIndex(req.query.index);
+      const format = parseFormat(req.query.format);
+      const target = await loadTarget(req);
+      const palette = typeof req.query.palette === "string" ? req.query.palette : undefined;
+      const provider = getSatelliteProvider();
+      const date = parseDate(req.query.date) ?? parseDate(req.query.dateTo) ?? await indexRendering.recentSceneDate(provider, target, index);
+
+      sendImage(res, await indexRendering.renderSceneImage(provider, target, { index, date, palette, format }));
+    } catch (error) {
+      sendError(res, "NDVI Image", error);
+    }
+  };
+  app.get("/api/ndvi-image/:fieldId", imageHandler);
+  app.get("/api/copernicus-ndvi/:fieldId", imageHandler);
+
+  // Tiles XYZ (.png ou .webp) recortados pela geometria do campo (várias partes e áreas de exclusão),
+  // guardados no cache de tiles por campo, cena, índice, paleta e z/x/y
+  app.get("/api/ndvi-tiles/:fieldId/:z/:x/:y.:format", async (req, res) => {
+    try {
+      const tile = parseTile(req.params);
+      const format = parseFormat(req.params.format);
+      const index = parseIndex(req.query.index);
+      const target = await loadTarget(req);
+      const palette = typeof req.query.palette === "string" ? req.query.palette : undefined;
+      const provider = getSatelliteProvider();
+      const date = parseDate(req.query.date) ?? await indexRendering.recentSceneDate(provider, target, index);
+
+      const query = { index, date, palette, format };
+      sendTile(req, res, await tileCache.cachedTile(
+        { target, tile, ...query },
+        () => indexRendering.renderSceneTile(provider, target, tile, query)
+      ));
+    } catch (error) {
+      sendError(res, "NDVI Tiles", error);
+    }
+  });
+
+  // Mapa de mudança entre duas cenas: imagem sobre a caixa do campo e tiles XYZ recortados
+  app.get("/api/ndvi-change/:fieldId", async (req, res) => {
+    try {
+      const query = parseChangeQuery(req.query);
+      const format = parseFormat(req.query.format);
+      const target = await loadTarget(req);
+      const change = await ndviChange.loadChange(getSatelliteProvider(), target, query);
+      sendImage(res, await indexRendering.renderRasterImage(change, target.geometry, ndviChange.changeColor, format));
+    } catch (error) {
+      sendError(res, "NDVI Change", error);
+    }
+  });
+
+  app.get("/api/ndvi-change-tiles/:fieldId/:z/:x/:y.:format", async (req, res) => {
+    try {
+      const tile = parseTile(req.params);
+      const format = parseFormat(req.params.format);
+      const query = parseChangeQuery(req.query);
+      const target = await loadTarget(req);
+      const change = await ndviChange.loadChange(getSatelliteProvider(), target, query);
+      sendImage(res, await indexRendering.renderRasterTile(change, target.geometry, tile, ndviChange.changeColor, format));
+    } catch (error) {
+      sendError(res, "NDVI Change Tiles", error);
+    }
+  });
+
+  // Série do índice nos últimos `days` dias (padrão: um ano), uma leitura por cena
+  app.get("/api/copernicus-ndvi-history/:fieldId", async (req, res) => {
+    try {
+      const index = parseIndex(req.query.index);
+      const target = await loadTarget(req);
+      const days = Math.min(Math.max(parseInt((req.query.days as string) || "365") || 365, 1), 3650);
+      const to = new Date();
+      const from = new Date(to.getTime() - days * DAY_MS);
+      const stats = await getSatelliteProvider().indexStats(target, { index, from, to, interval: "P5D" });
+      // Só o NDVI descarta médias negativas (água, solo encharcado); no NDMI elas são estresse hídrico
+      const history = stats
+        .filter(point => index !== "ndvi" || point.mean > 0)
+        .sort((a, b) => a.captureDate.getTime() - b.captureDate.getTime())
+        .map(point => ({
+          date: point.captureDate.toISOString(),
+          ndvi: point.mean,
+          ndviMin: point.min,
+          ndviMax: point.max,
+          cloudCoverage: point.cloudCoverage === null ? null : Math.round(point.cloudCoverage),
+          source: point.source,
+        }));
+
+      res.set("Cache-Control", "private, max-age=3600");
+      res.json({
+        fieldId: target.fieldId,
+        index,
+        period: { from: from.toISOString(), to: to.toISOString(), days },
+        dataPoints: history.length,
+        history,
+      });
+    } catch (error) {
+      if (error instanceof HttpError) return res.status(error.statusCode).json({ error: error.message });
+      console.error("[NDVI History] Error:", error);
+      res.status(500).json({ error: "Internal server error" });
+    }
+  });
+}
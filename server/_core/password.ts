@@ -0,0 +1,22 @@
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+/**
+ * Hash for local (email/password) accounts, stored as "scrypt$salt$hash"
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  return `scrypt$${salt}$${hash.toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string | null | undefined): Promise<boolean> {
+  const [scheme, salt, expected] = stored?.split("$") ?? [];
+  if (scheme !== "scrypt" || !salt || !expected) return false;
+  const hash = await scryptAsync(password, salt, KEY_LENGTH);
+  const expectedHash = Buffer.from(expected, "hex");
+  return expectedHash.length === hash.length && timingSafeEqual(hash, expectedHash);
+}
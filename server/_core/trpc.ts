@@ -2,8 +2,17 @@ import { NOT_ADMIN_ERR_MSG, UNAUTHED_ERR_MSG } from '@shared/const';
 import { initTRPC, TRPCError } from "@trpc/server";
 import superjson from "superjson";
 import type { TrpcContext } from "./context";
+import * as db from "../db";
+import { can, ROLE_LABELS, type OrgPermission } from "../services/organizations";
 
-const t = initTRPC.context<TrpcContext>().create({
+// Permissão exigida do papel do usuário na organização: .meta({ permission: "fields:write" }).
+// Só para ações da organização; registros de um campo seguem o acesso ao campo (get*WithAccess),
+// que também vale para campos compartilhados e de consultoria.
+type ProcedureMeta = {
+  permission?: OrgPermission;
+};
+
+const t = initTRPC.context<TrpcContext>().meta<ProcedureMeta>().create({
   transformer: superjson,
 });
 
@@ -11,16 +20,29 @@ export const router = t.router;
 export const publicProcedure = t.procedure;
 
 const requireUser = t.middleware(async opts => {
-  const { ctx, next } = opts;
+  const { ctx, meta, next } = opts;
 
   if (!ctx.user) {
     throw new TRPCError({ code: "UNAUTHORIZED", message: UNAUTHED_ERR_MSG });
   }
 
+  // Organização ativa e papel do usuário nela
+  const member = await db.resolveMembership(ctx.user);
+  if (!member) {
+    throw new TRPCError({ code: "SERVICE_UNAVAILABLE", message: "Banco de dados indisponível" });
+  }
+  if (meta?.permission && !can(member.role, meta.permission)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `O papel ${ROLE_LABELS[member.role]} não permite esta ação`,
+    });
+  }
+
   return next({
     ctx: {
       ...ctx,
       user: ctx.user,
+      member,
     },
   });
 });
@@ -0,0 +1,19 @@
+import type { Express } from "express";
+import { createExpressMiddleware } from "@trpc/server/adapters/express";
+import { appRouter } from "../routers";
+import { createContext } from "./context";
+
+/**
+ * Mounts the single tRPC router. Used by the Express server and by the
+ * Vercel function, so both deployments serve the same procedures with the
+ * same session-cookie authentication.
+ */
+export function registerTrpcRoutes(app: Express) {
+  app.use(
+    "/api/trpc",
+    createExpressMiddleware({
+      router: appRouter,
+      createContext,
+    })
+  );
+}
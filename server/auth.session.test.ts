@@ -0,0 +1,109 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import { COOKIE_NAME } from "../shared/const";
+import type { TrpcContext } from "./_core/context";
+import { sdk } from "./_core/sdk";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+
+vi.hoisted(() => {
+  process.env.JWT_SECRET = "test-secret";
+  process.env.VITE_APP_ID = "campovivo-test";
+});
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+function createContext(user: TrpcContext["user"] = null) {
+  const cookies: Array<{ name: string; value: string; options: Record<string, unknown> }> = [];
+  const ctx: TrpcContext = {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: {
+      cookie: (name: string, value: string, options: Record<string, unknown>) => {
+        cookies.push({ name, value, options });
+      },
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+  return { ctx, cookies };
+}
+
+describe("auth sessions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+  });
+
+  it("registers with a salted hash and signs the same session cookie the OAuth flow uses", async () => {
+    const { ctx, cookies } = createContext();
+    const result = await appRouter.createCaller(ctx).auth.register({
+      name: "João",
+      email: " Joao@Example.com ",
+      password: "segredo123",
+    });
+
+    expect(result.user).toMatchObject({ email: "joao@example.com", isGuest: false });
+    expect(result.user).not.toHaveProperty("passwordHash");
+    expect(tables.users[0].passwordHash).toMatch(/^scrypt\$/);
+    expect(tables.users[0].passwordHash).not.toContain("segredo123");
+
+    expect(cookies).toHaveLength(1);
+    expect(cookies[0]).toMatchObject({ name: COOKIE_NAME, options: { httpOnly: true, secure: true } });
+    await expect(sdk.verifySession(cookies[0].value)).resolves.toMatchObject({ openId: "local_joao_example_com" });
+
+    await expect(appRouter.createCaller(createContext().ctx).auth.register({
+      name: "Outro",
+      email: "joao@example.com",
+      password: "segredo123",
+    })).rejects.toMatchObject({ code: "CONFLICT" });
+  });
+
+  it("logs in only with the right password", async () => {
+    await appRouter.createCaller(createContext().ctx).auth.register({ name: "Maria", email: "maria@example.com", password: "segredo123" });
+
+    const wrong = createContext();
+    await expect(appRouter.createCaller(wrong.ctx).auth.login({ email: "maria@example.com", password: "errada" }))
+      .rejects.toMatchObject({ code: "UNAUTHORIZED", message: "Email ou senha incorretos" });
+    expect(wrong.cookies).toHaveLength(0);
+
+    const right = createContext();
+    const result = await appRouter.createCaller(right.ctx).auth.login({ email: "MARIA@example.com", password: "segredo123" });
+    expect(result.user.id).toBe(1);
+    expect(right.cookies[0].name).toBe(COOKIE_NAME);
+  });
+
+  it("reuses the guest of a device and keeps its data when the guest registers", async () => {
+    const first = await appRouter.createCaller(createContext().ctx).auth.getOrCreateGuest({ deviceId: "device_1" });
+    const again = await appRouter.createCaller(createContext().ctx).auth.getOrCreateGuest({ deviceId: "device_1" });
+    expect(first).toMatchObject({ isNew: true, user: { isGuest: true } });
+    expect(again).toMatchObject({ isNew: false, user: { id: first.user.id } });
+    expect(db.createGuestUser).toHaveBeenCalledTimes(1);
+
+    const guest = tables.users[0];
+    const result = await appRouter.createCaller(createContext(guest).ctx).auth.register({
+      name: "Ana",
+      email: "ana@example.com",
+      password: "segredo123",
+    });
+    expect(result.user).toMatchObject({ id: guest.id, isGuest: false, maxFields: 5 });
+    expect(db.createUserWithPassword).not.toHaveBeenCalled();
+  });
+
+  it("reports the field limit of the signed-in user", async () => {
+    const { user } = await appRouter.createCaller(createContext().ctx).auth.getOrCreateGuest({ deviceId: "device_2" });
+    seed.field({ userId: user.id, name: "Talhão 1" });
+
+    const limit = await appRouter.createCaller(createContext(tables.users[0]).ctx).auth.checkFieldLimit();
+    expect(user.maxFields).toBe(1);
+    expect(limit).toEqual({
+      currentCount: 1,
+      maxFields: 1,
+      canCreateMore: false,
+      isGuest: true,
+      needsAccount: true,
+      needsUpgrade: false,
+      plan: "free",
+    });
+    await expect(appRouter.createCaller(createContext().ctx).auth.checkFieldLimit()).rejects.toMatchObject({ code: "UNAUTHORIZED" });
+  });
+});
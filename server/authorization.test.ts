@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+// Usuário 1 gestor da organização 1 (campo 1); usuário 2 gestor da organização 2 (campo 2).
+// Usuário 3 operador da organização 1.
+function seedTenants() {
+  seed.organization({ id: 1, name: "Sede", ownerId: 1 });
+  seed.organization({ id: 2, name: "Vizinho", ownerId: 2 });
+  seed.member({ organizationId: 1, userId: 1, role: "owner" });
+  seed.member({ organizationId: 2, userId: 2, role: "owner" });
+  seed.member({ organizationId: 1, userId: 3, role: "operator" });
+
+  seed.field({ id: 1, userId: 1, organizationId: 1, name: "Talhão Sede" });
+  seed.field({ id: 2, userId: 2, organizationId: 2, name: "Talhão Vizinho" });
+  seed.crop({ id: 10, fieldId: 1, userId: 1, cropType: "soja" });
+  seed.crop({ id: 20, fieldId: 2, userId: 2, cropType: "milho" });
+  seed.fieldNote({ id: 10, fieldId: 1, userId: 1, content: "Nota do gestor" });
+  seed.fieldNote({ id: 11, fieldId: 1, userId: 3, content: "Nota do operador" });
+  seed.fieldNote({ id: 20, fieldId: 2, userId: 2, content: "Nota do vizinho" });
+  seed.rotationPlan({ id: 20, fieldId: 2, userId: 2, season: "2026/2027", plannedCrop: "soja" });
+  seed.task({ id: 20, userId: 2, organizationId: 2, assignedTo: 2, title: "Vistoria" });
+  seed.weatherAlert({ id: 20, fieldId: 2, userId: 2, alertType: "frost", title: "Geada" });
+  seed.notification({ id: 20, userId: 2, title: "Aviso" });
+  seed.farm({ id: 20, userId: 2, organizationId: 2, name: "Fazenda Vizinha" });
+  seed.fieldShare({ id: 20, fieldId: 2, ownerId: 2, token: "vizinho" });
+}
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(userId: number): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: `user${userId}@example.com`,
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+const WRITES = [
+  "updateCrop", "deleteCrop", "updateFieldNote", "deleteFieldNote", "updateCropRotationPlan", "updateTask",
+  "deleteTask", "dismissWeatherAlert", "markNotificationAsRead", "updateFarm", "deleteFarm", "revokeFieldShare",
+] as const;
+
+describe("authorization", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    seedTenants();
+  });
+
+  it("rejects every mutation on another tenant's records as not found", async () => {
+    const caller = appRouter.createCaller(createAuthContext(1));
+    const attempts: Array<[string, () => Promise<unknown>]> = [
+      ["Cultivo não encontrado", () => caller.crops.update({ id: 20, status: "harvested" })],
+      ["Cultivo não encontrado", () => caller.crops.delete({ id: 20 })],
+      ["Nota não encontrada", () => caller.notes.update({ id: 20, isResolved: true })],
+      ["Nota não encontrada", () => caller.notes.delete({ id: 20 })],
+      ["Plano de rotação não encontrado", () => caller.rotation.update({ id: 20, isConfirmed: true })],
+      ["Tarefa não encontrada", () => caller.tasks.update({ id: 20, status: "cancelled" })],
+      ["Tarefa não encontrada", () => caller.tasks.complete({ id: 20 })],
+      ["Tarefa não encontrada", () => caller.tasks.delete({ id: 20 })],
+      ["Alerta não encontrado", () => caller.weather.dismissAlert({ id: 20 })],
+      ["Notificação não encontrada", () => caller.notifications.markAsRead({ id: 20 })],
+      ["Fazenda não encontrada", () => caller.farms.update({ id: 20, name: "Minha" })],
+      ["Fazenda não encontrada", () => caller.farms.delete({ id: 20 })],
+      ["Compartilhamento não encontrado", () => caller.sharing.delete({ id: 20 })],
+    ];
+
+    for (const [message, attempt] of attempts) {
+      await expect(attempt()).rejects.toMatchObject({ code: "NOT_FOUND", message });
+    }
+    // Ids inexistentes respondem igual aos de outro usuário
+    await expect(caller.crops.delete({ id: 999 })).rejects.toMatchObject({ code: "NOT_FOUND", message: "Cultivo não encontrado" });
+
+    for (const write of WRITES) {
+      expect(db[write]).not.toHaveBeenCalled();
+    }
+  });
+
+  it("lets the owning tenant act on the same records", async () => {
+    const caller = appRouter.createCaller(createAuthContext(2));
+    await caller.crops.delete({ id: 20 });
+    await caller.notes.update({ id: 20, isResolved: true });
+    await caller.rotation.update({ id: 20, isConfirmed: true });
+    await caller.tasks.complete({ id: 20 });
+    await caller.weather.dismissAlert({ id: 20 });
+    await caller.notifications.markAsRead({ id: 20 });
+
+    expect(db.deleteCrop).toHaveBeenCalledWith(20);
+    expect(db.updateFieldNote).toHaveBeenCalledWith(20, { isResolved: true });
+    expect(db.updateCropRotationPlan).toHaveBeenCalledWith(20, { isConfirmed: true });
+    expect(db.updateTask).toHaveBeenCalledWith(20, expect.objectContaining({ status: "completed" }));
+    expect(db.dismissWeatherAlert).toHaveBeenCalledWith(20);
+    expect(db.markNotificationAsRead).toHaveBeenCalledWith(20);
+
+    expect(tables.crops.map(crop => crop.id)).toEqual([10]);
+    expect(tables.tasks[0]).toMatchObject({ id: 20, status: "completed" });
+    expect(tables.weatherAlerts[0].isDismissed).toBe(true);
+  });
+
+  it("returns forbidden when the field is visible but the access is not enough", async () => {
+    // Compartilhado só para visualização: enxerga o cultivo, mas não altera
+    seed.fieldShare({ fieldId: 2, ownerId: 2, sharedWithUserId: 1, permission: "view", token: "para-o-vizinho" });
+    const viewer = appRouter.createCaller(createAuthContext(1));
+    await expect(viewer.crops.update({ id: 20, status: "failed" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(viewer.notes.delete({ id: 20 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(db.updateCrop).not.toHaveBeenCalled();
+    expect(db.deleteFieldNote).not.toHaveBeenCalled();
+  });
+
+  it("lets commenters change only their own notes", async () => {
+    const operator = appRouter.createCaller(createAuthContext(3));
+    await operator.notes.update({ id: 11, content: "Corrigido" });
+    expect(db.updateFieldNote).toHaveBeenCalledWith(11, { content: "Corrigido" });
+
+    await expect(operator.notes.delete({ id: 10 })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: "Só o autor pode alterar esta nota",
+    });
+    await appRouter.createCaller(createAuthContext(1)).notes.delete({ id: 11 });
+    expect(db.deleteFieldNote).toHaveBeenCalledWith(11);
+    expect(tables.fieldNotes.map(note => note.id)).toEqual([10, 20]);
+  });
+});
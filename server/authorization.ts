@@ -0,0 +1,227 @@
+/**
+ * Autorização por recurso
+ * Carrega a entidade, resolve o campo ou usuário dono e decide o acesso.
+ * Sem acesso nenhum o recurso "não existe" (NOT_FOUND); com acesso insuficiente, FORBIDDEN.
+ */
+
+import { TRPCError } from "@trpc/server";
+import * as db from "./db";
+import * as fieldSharing from "./services/fieldSharing";
+import * as organizations from "./services/organizations";
+import type { Farm, Field } from "../drizzle/schema";
+
+const NOT_FOUND_MESSAGES = {
+  field: "Campo não encontrado",
+  farm: "Fazenda não encontrada",
+  crop: "Cultivo não encontrado",
+  note: "Nota não encontrada",
+  rotation: "Plano de rotação não encontrado",
+  task: "Tarefa não encontrada",
+  weatherAlert: "Alerta não encontrado",
+  notification: "Notificação não encontrada",
+  share: "Compartilhamento não encontrado",
+  client: "Cliente não encontrado",
+  consultantGrant: "Acesso de consultor não encontrado",
+  consultantNote: "Anotação não encontrada",
+  prescription: "Prescrição não encontrada",
+} as const;
+
+export type Resource = keyof typeof NOT_FOUND_MESSAGES;
+
+export function notFound(resource: Resource): TRPCError {
+  return new TRPCError({ code: "NOT_FOUND", message: NOT_FOUND_MESSAGES[resource] });
+}
+
+// Registro que pertence a um único usuário (alertas, notificações)
+function ownedBy<T>(resource: Resource, row: T | undefined, ownerId: number | undefined, userId: number): T {
+  if (!row || ownerId !== userId) throw notFound(resource);
+  return row;
+}
+
+// ==================== CAMPOS ====================
+
+/**
+ * Acesso que o papel na organização dá ao campo.
+ * Campos antigos sem organização continuam só do usuário que os criou.
+ */
+export function organizationFieldAccess(field: Field, member: organizations.Membership): fieldSharing.AccessLevel | null {
+  if (field.organizationId == null) return field.userId === member.userId ? "owner" : null;
+  return field.organizationId === member.organizationId ? organizations.fieldAccessForRole(member.role) : null;
+}
+
+/**
+ * Campo da organização, compartilhado com o usuário ou de uma fazenda liberada para ele
+ * como consultor, com o nível de acesso exigido (vale o maior dos acessos)
+ */
+export async function getFieldWithAccess(fieldId: number, member: organizations.Membership, required: fieldSharing.AccessLevel = "view") {
+  const field = await db.getFieldById(fieldId);
+  if (!field) throw notFound("field");
+  let access = organizationFieldAccess(field, member);
+  if (access !== "owner") {
+    const shared = fieldSharing.strongestPermission(await db.getFieldSharesForUser(fieldId, member.userId));
+    if (shared && (!access || fieldSharing.hasAccess(shared, access))) access = shared;
+  }
+  if (access !== "owner" && field.farmId != null) {
+    const grant = await db.getConsultantGrant(field.farmId, member.userId);
+    if (grant && (!access || fieldSharing.hasAccess(grant.permission, access))) access = grant.permission;
+  }
+  if (!access) throw notFound("field");
+  if (!fieldSharing.hasAccess(access, required)) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `Seu acesso a este campo permite apenas ${fieldSharing.ACCESS_LABELS[access]}`,
+    });
+  }
+  return { field, access };
+}
+
+// Registro ligado a um campo: herda o acesso do campo, mas quem não vê o campo não vê o registro
+async function fieldRecordWithAccess<T extends { fieldId: number }>(
+  resource: Resource,
+  row: T | undefined,
+  member: organizations.Membership,
+  required: fieldSharing.AccessLevel
+) {
+  if (!row) throw notFound(resource);
+  try {
+    const { field, access } = await getFieldWithAccess(row.fieldId, member, required);
+    return { record: row, field, access };
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === "NOT_FOUND") throw notFound(resource);
+    throw error;
+  }
+}
+
+export async function getCropWithAccess(cropId: number, member: organizations.Membership, required: fieldSharing.AccessLevel = "edit") {
+  const { record, field } = await fieldRecordWithAccess("crop", await db.getCropById(cropId), member, required);
+  return { crop: record, field };
+}
+
+export async function getRotationPlanWithAccess(planId: number, member: organizations.Membership, required: fieldSharing.AccessLevel = "edit") {
+  const { record, field } = await fieldRecordWithAccess("rotation", await db.getCropRotationPlanById(planId), member, required);
+  return { plan: record, field };
+}
+
+/**
+ * Notas: quem comenta no campo altera só as próprias notas; quem edita o campo altera todas
+ */
+export async function getNoteWithAccess(noteId: number, member: organizations.Membership) {
+  const { record, field, access } = await fieldRecordWithAccess("note", await db.getFieldNoteById(noteId), member, "comment");
+  if (record.userId !== member.userId && !fieldSharing.hasAccess(access, "edit")) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Só o autor pode alterar esta nota" });
+  }
+  return { note: record, field };
+}
+
+// Compartilhamento do campo: quem é dono do campo gerencia todos, não só os que criou
+export async function getShareWithAccess(shareId: number, member: organizations.Membership) {
+  const { record, field } = await fieldRecordWithAccess("share", await db.getFieldShareById(shareId), member, "owner");
+  return { share: record, field };
+}
+
+export async function getPrescriptionWithAccess(prescriptionId: number, member: organizations.Membership, required: fieldSharing.AccessLevel = "view") {
+  const { record, field } = await fieldRecordWithAccess("prescription", await db.getPrescriptionById(prescriptionId), member, required);
+  return { prescription: record, field };
+}
+
+// ==================== FAZENDAS ====================
+
+/**
+ * Fazenda da organização ativa (fazendas antigas sem organização: só o criador).
+ * "manage" (editar, excluir, mover campos, CAR e consultores) exige poder editar os campos.
+ */
+export async function getFarmWithAccess(farmId: number, member: organizations.Membership, required: "view" | "manage" = "view") {
+  const farm = await db.getFarmById(farmId);
+  const visible = farm && (farm.organizationId == null
+    ? farm.userId === member.userId
+    : farm.organizationId === member.organizationId);
+  if (!farm || !visible) throw notFound("farm");
+  if (required === "manage" && !organizations.can(member.role, "fields:write")) {
+    throw new TRPCError({
+      code: "FORBIDDEN",
+      message: `O papel ${organizations.ROLE_LABELS[member.role]} não permite alterar fazendas`,
+    });
+  }
+  return farm;
+}
+
+// O campo só entra numa fazenda da própria organização
+export function assertFarmOfFieldOrganization(farm: Farm, field: { organizationId: number | null }) {
+  if (farm.organizationId !== field.organizationId) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "A fazenda é de outra organização" });
+  }
+}
+
+// Tarefas ficam na organização ativa: o campo precisa ser dela, não só compartilhado com o usuário
+export function assertFieldOfOrganization(field: Field, member: organizations.Membership) {
+  if (!organizationFieldAccess(field, member)) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "O campo é de outra organização" });
+  }
+}
+
+// ==================== TAREFAS ====================
+
+/**
+ * Tarefa da organização ativa (tarefas antigas sem organização: só o criador).
+ * "work" exige que a tarefa seja do usuário ou que ele gerencie tarefas; "manage" exige gerenciar.
+ */
+export async function getTaskWithAccess(taskId: number, member: organizations.Membership, required: "view" | "work" | "manage" = "view") {
+  const task = await db.getTaskById(taskId);
+  const visible = task && (task.organizationId == null
+    ? task.userId === member.userId
+    : task.organizationId === member.organizationId);
+  if (!task || !visible) throw notFound("task");
+  if (required === "work" && !organizations.canWorkOnTask(member, task)) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Esta tarefa não está atribuída a você" });
+  }
+  if (required === "manage" && !organizations.can(member.role, "tasks:manage")) {
+    throw new TRPCError({ code: "FORBIDDEN", message: "Só gestores e agrônomos podem gerenciar tarefas" });
+  }
+  return task;
+}
+
+// ==================== REGISTROS DO USUÁRIO ====================
+
+export async function getWeatherAlertForUser(alertId: number, userId: number) {
+  const alert = await db.getWeatherAlertById(alertId);
+  return ownedBy("weatherAlert", alert, alert?.userId, userId);
+}
+
+export async function getNotificationForUser(notificationId: number, userId: number) {
+  const notification = await db.getNotificationById(notificationId);
+  return ownedBy("notification", notification, notification?.userId, userId);
+}
+
+export async function getConsultantNoteForConsultant(noteId: number, userId: number) {
+  const note = await db.getConsultantNoteById(noteId);
+  return ownedBy("consultantNote", note, note?.consultantId, userId);
+}
+
+// ==================== CONSULTORES ====================
+
+// Acesso de consultor: quem gerencia a fazenda na organização gerencia o acesso, não só quem liberou
+export async function getConsultantGrantWithAccess(grantId: number, member: organizations.Membership) {
+  const grant = await db.getConsultantGrantById(grantId);
+  if (!grant || grant.revokedAt) throw notFound("consultantGrant");
+  try {
+    const farm = await getFarmWithAccess(grant.farmId, member, "manage");
+    return { grant, farm };
+  } catch (error) {
+    if (error instanceof TRPCError && error.code === "NOT_FOUND") throw notFound("consultantGrant");
+    throw error;
+  }
+}
+
+/**
+ * Cliente do consultor: o produtor e as fazendas que ele liberou (sem nenhuma, o cliente não existe)
+ */
+export async function getClientForConsultant(producerId: number, consultantId: number) {
+  const rows = await db.getConsultantGrantsByConsultantId(consultantId);
+  const farms = rows.filter(row => row.grant.producerId === producerId);
+  if (farms.length === 0) throw notFound("client");
+  return {
+    producerId,
+    name: farms[0].producerName || farms[0].producerEmail || `Produtor ${producerId}`,
+    farms: farms.map(row => ({ ...row.farm, permission: row.grant.permission })),
+  };
+}
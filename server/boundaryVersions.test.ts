@@ -0,0 +1,130 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import type { Position } from "./services/geometry";
+import { boundaryPeriods, diffBoundaries } from "./services/boundaryVersions";
+
+function square(lng: number, lat: number, size: number): Position[] {
+  return [
+    [lng, lat],
+    [lng + size, lat],
+    [lng + size, lat + size],
+    [lng, lat + size],
+    [lng, lat],
+  ];
+}
+
+const SMALL = { type: "Polygon" as const, coordinates: [square(-47.8, -15.81, 0.01)] };
+const LARGE = { type: "Polygon" as const, coordinates: [square(-47.8, -15.81, 0.02)] };
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(userId = 1): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("field boundary versions", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    seed.field({
+      id: 1,
+      userId: 1,
+      name: "Talhão 1",
+      geometry: SMALL,
+      areaHectares: 11900,
+      perimeterMeters: 4300,
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+    });
+    seed.boundaryVersion({ id: 5, fieldId: 1, userId: 1, geometry: SMALL, validFrom: new Date("2024-01-01T00:00:00Z") });
+  });
+
+  it("splits a date range at each version's effective dates", () => {
+    const periods = boundaryPeriods(
+      [
+        { geometry: LARGE, validFrom: new Date("2025-03-01"), validTo: null },
+        { geometry: SMALL, validFrom: new Date("2024-06-01"), validTo: new Date("2025-03-01") },
+      ],
+      new Date("2024-01-01"),
+      new Date("2025-06-01"),
+      null
+    );
+
+    expect(periods).toHaveLength(2);
+    // A primeira versão cobre também as datas anteriores ao seu início
+    expect(periods[0]).toMatchObject({ geometry: SMALL, from: new Date("2024-01-01"), to: new Date("2025-03-01") });
+    expect(periods[1]).toMatchObject({ geometry: LARGE, from: new Date("2025-03-01"), to: new Date("2025-06-01") });
+
+    expect(boundaryPeriods([], new Date("2024-01-01"), new Date("2024-02-01"), SMALL)).toEqual([
+      { geometry: SMALL, from: new Date("2024-01-01"), to: new Date("2024-02-01") },
+    ]);
+  });
+
+  it("measures the area added and removed between versions", () => {
+    const grown = diffBoundaries(SMALL, LARGE);
+    expect(grown.removed).toBeNull();
+    // O quadrado maior tem 4x a área: entram ~3x os ~119 ha do menor
+    expect(grown.addedHectares).toBeGreaterThan(350);
+    expect(grown.addedHectares).toBeLessThan(365);
+
+    const shrunk = diffBoundaries(LARGE, SMALL);
+    expect(shrunk.added).toBeNull();
+    expect(shrunk.removedHectares).toBeCloseTo(grown.addedHectares, 1);
+  });
+
+  it("closes the current version when new boundaries take effect", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    await caller.fields.update({ id: 1, boundaries: JSON.stringify(LARGE), boundaryValidFrom: "2025-03-01" });
+
+    const [fieldId, data, version, initial] = vi.mocked(db.replaceFieldBoundary).mock.calls[0];
+    expect(fieldId).toBe(1);
+    expect(data.geometry).toEqual(LARGE);
+    expect(version).toMatchObject({ fieldId: 1, validFrom: new Date("2025-03-01") });
+    expect(initial).toBeUndefined();
+    expect(tables.fieldBoundaryVersions.map(v => [v.validFrom, v.validTo])).toEqual([
+      [new Date("2024-01-01T00:00:00Z"), new Date("2025-03-01")],
+      [new Date("2025-03-01"), null],
+    ]);
+    expect(tables.fields[0].geometry).toEqual(LARGE);
+  });
+
+  it("seeds the first version for fields created before versioning", async () => {
+    tables.fieldBoundaryVersions.length = 0;
+    const caller = appRouter.createCaller(createAuthContext());
+    await caller.fields.update({ id: 1, boundaries: JSON.stringify(LARGE), boundaryValidFrom: "2025-03-01" });
+
+    const initial = vi.mocked(db.replaceFieldBoundary).mock.calls[0][3];
+    expect(initial).toMatchObject({ geometry: SMALL, validFrom: new Date("2024-01-01T00:00:00Z") });
+  });
+
+  it("corrects same-day edits and rejects boundaries effective before the current version", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    await caller.fields.update({ id: 1, boundaries: JSON.stringify(LARGE), boundaryValidFrom: "2024-01-01" });
+    expect(db.correctFieldBoundary).toHaveBeenCalledWith(1, 5, expect.anything(), expect.objectContaining({ geometry: LARGE }));
+
+    await expect(
+      caller.fields.update({ id: 1, boundaries: JSON.stringify(LARGE), boundaryValidFrom: "2023-12-01" })
+    ).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    expect(db.replaceFieldBoundary).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,184 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import type { Position } from "./services/geometry";
+import { carOverlap, carOverlapWarnings, parseCarLayers } from "./services/carIntegration";
+
+function square(lng: number, lat: number, size: number): Position[] {
+  return [
+    [lng, lat],
+    [lng + size, lat],
+    [lng + size, lat + size],
+    [lng, lat + size],
+    [lng, lat],
+  ];
+}
+
+// Imóvel de 0,04° com APP na faixa oeste e Reserva Legal no canto nordeste
+const PERIMETER = { type: "Polygon" as const, coordinates: [square(-47.8, -15.8, 0.04)] };
+const APP = { type: "Polygon" as const, coordinates: [square(-47.8, -15.8, 0.005)] };
+const RESERVA = { type: "Polygon" as const, coordinates: [square(-47.77, -15.77, 0.01)] };
+
+const CAR_GEOJSON = JSON.stringify({
+  type: "FeatureCollection",
+  features: [
+    { type: "Feature", properties: { tipo: "area_imovel", cod_imovel: "MT-5107909-ABCDEF0123456789" }, geometry: PERIMETER },
+    { type: "Feature", properties: { tipo: "app" }, geometry: APP },
+    { type: "Feature", properties: { tipo: "reserva_legal" }, geometry: RESERVA },
+  ],
+});
+
+// Campo que avança metade sobre a APP
+const FIELD = { type: "Polygon" as const, coordinates: [square(-47.8025, -15.8, 0.005)] };
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(userId = 1): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    maxFields: 5,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("CAR compliance", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    seed.organization({ id: 1, name: "Boa Vista", ownerId: 1 });
+    seed.organization({ id: 2, name: "Vizinha", ownerId: 2 });
+    seed.member({ organizationId: 1, userId: 1, role: "owner" });
+    seed.member({ organizationId: 2, userId: 2, role: "owner" });
+    seed.farm({ id: 10, userId: 1, organizationId: 1, name: "Fazenda Boa Vista" });
+    seed.farm({ id: 20, userId: 2, organizationId: 2, name: "Vizinha" });
+    seed.carRecord({
+      farmId: 10,
+      userId: 1,
+      codigoCar: "MT-5107909-ABCDEF0123456789",
+      perimeter: PERIMETER,
+      reservaLegal: RESERVA,
+      app: APP,
+    });
+    // O usuário já tem 3 campos
+    seed.field({ id: 1, userId: 1, organizationId: 1, farmId: 10, name: "Talhão Rio", geometry: FIELD, areaHectares: 2900 });
+    seed.field({ id: 2, userId: 1, organizationId: 1, name: "Talhão 2" });
+    seed.field({ id: 3, userId: 1, organizationId: 1, name: "Talhão 3" });
+  });
+
+  it("separates the CAR layers by feature type", () => {
+    const { data, layers, warnings } = parseCarLayers(CAR_GEOJSON);
+    expect(data.codigoCar).toBe("MT-5107909-ABCDEF0123456789");
+    expect(layers.total).toEqual(PERIMETER);
+    expect(layers.app).toEqual(APP);
+    expect(layers.reservaLegal).toEqual(RESERVA);
+    expect(warnings).toEqual([]);
+  });
+
+  it("measures the hectares of a field inside APP and Reserva Legal", () => {
+    const overlap = carOverlap(FIELD, { app: APP, reservaLegal: RESERVA });
+    // Metade do campo (~15 ha) está na APP e nada na Reserva Legal
+    expect(overlap.appHectares).toBeGreaterThan(14);
+    expect(overlap.appHectares).toBeLessThan(16);
+    expect(overlap.reservaLegalHectares).toBe(0);
+    expect(carOverlapWarnings(overlap, "MT-1")).toEqual([
+      `O campo invade ${overlap.appHectares.toFixed(2)} ha de APP do CAR MT-1`,
+    ]);
+  });
+
+  it("attaches the CAR layers to an owned farm", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const result = await caller.farms.attachCar({ farmId: 10, content: CAR_GEOJSON });
+
+    expect(result.areas.total).toBeGreaterThan(1800);
+    expect(db.saveCarRecord).toHaveBeenCalledWith(
+      expect.objectContaining({ farmId: 10, userId: 1, app: APP, reservaLegal: RESERVA, consolidada: null })
+    );
+    // Um CAR por fazenda: o novo upload substitui o anterior
+    expect(tables.carRecords).toHaveLength(1);
+
+    await expect(caller.farms.attachCar({ farmId: 20, content: CAR_GEOJSON })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.farms.attachCar({ farmId: 10, content: "{}" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+
+  it("reports the overlap of each farm field", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const report = await caller.farms.carCompliance({ farmId: 10 });
+
+    expect(report?.fields).toHaveLength(1);
+    expect(report?.fields[0]).toMatchObject({ fieldId: 1, reservaLegalHectares: 0 });
+    expect(report?.fields[0].appHectares).toBeGreaterThan(14);
+    expect(report?.fields[0].warnings).toHaveLength(1);
+  });
+
+  it("warns when a new field intrudes into protected areas", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const intruding = await caller.fields.create({ name: "Talhão Rio", farmId: 10, boundaries: JSON.stringify(FIELD) });
+    expect(tables.fields.find(field => field.id === intruding.id)).toMatchObject({ name: "Talhão Rio", farmId: 10 });
+    expect(intruding.carWarnings).toHaveLength(1);
+    expect(intruding.carWarnings[0]).toContain("APP");
+
+    const outside = { type: "Polygon", coordinates: [square(-47.79, -15.79, 0.005)] };
+    const clean = await caller.fields.create({ name: "Talhão Centro", boundaries: JSON.stringify(outside) });
+    expect(clean.carWarnings).toEqual([]);
+  });
+
+  it("bulk-creates the chosen CAR features in one call within the plan limit", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const parcel = { type: "Polygon", coordinates: [square(-47.79, -15.79, 0.005)] };
+
+    const result = await caller.fields.bulkCreate({
+      farmId: 10,
+      fields: [
+        { name: "Área consolidada 1", boundaries: JSON.stringify(parcel) },
+        { name: "APP 1", boundaries: JSON.stringify(FIELD) },
+      ],
+    });
+
+    expect(tables.fields.filter(field => result.ids.includes(field.id)).map(field => field.name)).toEqual(["Área consolidada 1", "APP 1"]);
+    expect(result.intruding).toBe(1);
+    const rows = vi.mocked(db.createFields).mock.calls[0][0];
+    expect(rows.map(r => r.name)).toEqual(["Área consolidada 1", "APP 1"]);
+    expect(rows.every(r => r.farmId === 10 && r.userId === 1 && (r.areaHectares ?? 0) > 0)).toBe(true);
+  });
+
+  it("refuses a bulk import beyond the remaining field quota", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const parcel = JSON.stringify({ type: "Polygon", coordinates: [square(-47.79, -15.79, 0.005)] });
+
+    await expect(
+      caller.fields.bulkCreate({ fields: [1, 2, 3].map(n => ({ name: `Talhão ${n}`, boundaries: parcel })) })
+    ).rejects.toMatchObject({ code: "FORBIDDEN", message: "Seu plano permite 5 campos. Você pode criar mais 2." });
+    expect(vi.mocked(db.createFields).mock.calls[0][1]).toBe(5);
+    expect(tables.fields).toHaveLength(3);
+  });
+
+  it("applies the same limit to a single new field", async () => {
+    const context = createAuthContext();
+    context.user!.maxFields = 3;
+    const caller = appRouter.createCaller(context);
+
+    await expect(caller.fields.create({ name: "Talhão 4" })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: "Seu plano permite 3 campos. Você pode criar mais 0.",
+    });
+    expect(tables.fields).toHaveLength(3);
+    await expect(caller.auth.checkFieldLimit()).resolves.toMatchObject({ currentCount: 3, maxFields: 3, canCreateMore: false });
+  });
+});
@@ -0,0 +1,171 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import type { InsertConsultantGrant } from "../drizzle/schema";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import { clientReportCsv, sumStats } from "./services/consultants";
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+// Produtor 1 (fazendas 10 e 11) e produtor 2 (fazenda 20) liberam fazendas para a consultora 5.
+// Usuário 3 é agrônomo e 4 é visualizador na organização do produtor 1.
+function seedClients() {
+  seed.user({ id: 1, name: "João Produtor", email: "joao@example.com" });
+  seed.user({ id: 2, name: "Maria Produtora", email: "maria@example.com" });
+  seed.user({ id: 3, name: "Agrônomo", email: "agro@example.com" });
+  seed.user({ id: 4, name: "Visualizador", email: "ver@example.com" });
+  seed.user({ id: 5, name: "Ana Consultora", email: "ana@example.com", userType: "consultant" });
+  seed.organization({ id: 1, name: "Boa Vista", ownerId: 1 });
+  seed.organization({ id: 2, name: "Esperança", ownerId: 2 });
+  seed.member({ organizationId: 1, userId: 1, role: "owner" });
+  seed.member({ organizationId: 2, userId: 2, role: "owner" });
+  seed.member({ organizationId: 1, userId: 3, role: "agronomist" });
+  seed.member({ organizationId: 1, userId: 4, role: "viewer" });
+
+  seed.farm({ id: 10, userId: 1, organizationId: 1, name: "Fazenda Boa Vista" });
+  seed.farm({ id: 11, userId: 1, organizationId: 1, name: "Fazenda Retiro" });
+  seed.farm({ id: 20, userId: 2, organizationId: 2, name: "Sítio Esperança" });
+  seed.field({ id: 100, userId: 1, organizationId: 1, farmId: 10, name: "Talhão Sede", areaHectares: 1250 });
+  seed.field({ id: 200, userId: 2, organizationId: 2, farmId: 20, name: "Talhão Esperança", areaHectares: 800 });
+  seed.crop({ fieldId: 100, userId: 1, cropType: "soja", status: "growing" });
+  seed.task({ fieldId: 100, userId: 1, organizationId: 1, title: "Vistoria" });
+  seed.ndvi({ fieldId: 100, captureDate: new Date("2026-09-30T12:00:00Z"), ndviAverage: 712 });
+}
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(userId: number): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: `user${userId}@example.com`,
+    name: `User ${userId}`,
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+function grant(overrides: Partial<InsertConsultantGrant>) {
+  return seed.consultantGrant({ farmId: 10, producerId: 1, consultantId: 5, permission: "comment", ...overrides });
+}
+
+describe("consultant workspace", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    seedClients();
+  });
+
+  it("lets producers grant only their own farms to a registered consultant", async () => {
+    const producer = appRouter.createCaller(createAuthContext(1));
+    await producer.consultants.grant({ email: " Ana@Example.com ", farmIds: [10, 11], permission: "view" });
+
+    expect(db.grantConsultantAccess).toHaveBeenCalledTimes(2);
+    expect(vi.mocked(db.grantConsultantAccess).mock.calls[0][0]).toEqual({
+      farmId: 10,
+      producerId: 1,
+      consultantId: 5,
+      permission: "view",
+    });
+    expect(vi.mocked(db.createNotification).mock.calls[0][0]).toMatchObject({ userId: 5, actionUrl: "/clients" });
+    expect(tables.consultantGrants.map(g => [g.farmId, g.permission])).toEqual([[10, "view"], [11, "view"]]);
+
+    vi.clearAllMocks();
+    await expect(producer.consultants.grant({ email: "ana@example.com", farmIds: [10, 20] }))
+      .rejects.toMatchObject({ code: "NOT_FOUND", message: "Fazenda não encontrada" });
+    await expect(producer.consultants.grant({ email: "ninguem@example.com", farmIds: [10] }))
+      .rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.grantConsultantAccess).not.toHaveBeenCalled();
+  });
+
+  it("opens the granted farm's fields with the granted permission, without ownership", async () => {
+    grant({});
+    const consultant = appRouter.createCaller(createAuthContext(5));
+
+    await expect(consultant.fields.getById({ id: 100 })).resolves.toMatchObject({ access: "comment" });
+    await consultant.notes.create({ fieldId: 100, content: "Ferrugem no baixio" });
+    expect(tables.fieldNotes.map(n => [n.fieldId, n.userId, n.content])).toEqual([[100, 5, "Ferrugem no baixio"]]);
+    await expect(consultant.fields.update({ id: 100, name: "Outro" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(consultant.consultants.revoke({ id: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    // Revogado, o campo some para o consultor
+    tables.consultantGrants[0].revokedAt = new Date();
+    await expect(consultant.fields.getById({ id: 100 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("lists and revokes grants by the farm's organization, not by who granted them", async () => {
+    grant({});
+    grant({ farmId: 20, producerId: 2 });
+    const agronomist = appRouter.createCaller(createAuthContext(3));
+
+    await expect(agronomist.consultants.grants()).resolves.toMatchObject([
+      { id: 1, farmName: "Fazenda Boa Vista", consultantName: "Ana Consultora" },
+    ]);
+    await expect(agronomist.consultants.revoke({ id: 2 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(appRouter.createCaller(createAuthContext(4)).consultants.revoke({ id: 1 }))
+      .rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(db.revokeConsultantGrant).not.toHaveBeenCalled();
+
+    await agronomist.consultants.revoke({ id: 1 });
+    expect(db.revokeConsultantGrant).toHaveBeenCalledWith(1);
+    expect(tables.consultantGrants.map(g => g.revokedAt !== null)).toEqual([true, false]);
+  });
+
+  it("aggregates the dashboard across clients", async () => {
+    grant({ farmId: 10 });
+    grant({ farmId: 11 });
+    grant({ farmId: 20, producerId: 2, permission: "edit" });
+    const consultant = appRouter.createCaller(createAuthContext(5));
+
+    const clients = await consultant.consultants.clients();
+    expect(clients.map(c => [c.name, c.farms.length])).toEqual([["João Produtor", 2], ["Maria Produtora", 1]]);
+
+    const portfolio = await consultant.consultants.portfolio();
+    expect(portfolio.clients[0]).toMatchObject({ producerId: 1, farmCount: 2, stats: { totalFields: 1, activeCrops: 1, pendingTasks: 1 } });
+    expect(portfolio.totals).toEqual({ totalFields: 2, activeCrops: 1, pendingTasks: 1, unreadAlerts: 0 });
+    expect(db.getStatsByFarmIds).toHaveBeenCalledWith([10, 11]);
+  });
+
+  it("keeps notes and reports per client and private to the consultant", async () => {
+    grant({});
+    seed.consultantNote({ id: 3, consultantId: 5, producerId: 1, title: "Visita", content: "Solo compactado; refazer análise", createdAt: new Date("2026-10-01T12:00:00Z") });
+    const consultant = appRouter.createCaller(createAuthContext(5));
+
+    await consultant.consultants.notes.create({ producerId: 1, content: "Recomendar calagem" });
+    expect(vi.mocked(db.createConsultantNote).mock.calls[0][0]).toEqual({ producerId: 1, content: "Recomendar calagem", consultantId: 5 });
+    await expect(consultant.consultants.notes.create({ producerId: 2, content: "x" }))
+      .rejects.toMatchObject({ code: "NOT_FOUND", message: "Cliente não encontrado" });
+
+    const report = await consultant.consultants.report({ producerId: 1 });
+    const csv = Buffer.from(report.contentBase64, "base64").toString("utf-8");
+    expect(report.fileName).toBe("relatorio_Joao_Produtor.csv");
+    expect(csv).toContain("Fazenda Boa Vista;Talhão Sede;12,5;soja;growing;0,712;2026-09-30;1");
+    expect(csv).toContain('2026-10-01;Visita;"Solo compactado; refazer análise"');
+
+    // Outro consultor não vê a carteira nem as anotações
+    const other = appRouter.createCaller(createAuthContext(6));
+    await expect(other.consultants.notes.list({ producerId: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(other.consultants.notes.delete({ id: 3 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.deleteConsultantNote).not.toHaveBeenCalled();
+  });
+
+  it("sums stats and writes the report totals", () => {
+    expect(sumStats([])).toEqual({ totalFields: 0, activeCrops: 0, pendingTasks: 0, unreadAlerts: 0 });
+    const csv = clientReportCsv("Cliente", [
+      { farmName: "A", fieldName: "T1", areaHectares: 10.25, crop: null, cropStatus: null, ndvi: null, ndviDate: null, pendingTasks: 1 },
+      { farmName: "A", fieldName: "T2", areaHectares: 4.5, crop: "milho", cropStatus: "planted", ndvi: null, ndviDate: null, pendingTasks: 0 },
+    ], [], new Date("2026-10-18T00:00:00Z"));
+    expect(csv.startsWith("\uFEFFCliente;Cliente\r\nGerado em;2026-10-18")).toBe(true);
+    expect(csv).toContain("Total;2 talhões;14,75;;;;;1");
+  });
+});
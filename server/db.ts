@@ -1,8 +1,17 @@
-import { eq, and, desc, asc, gte, lte, sql } from "drizzle-orm";
+import { eq, and, or, desc, asc, gte, lte, sql, inArray, isNull, isNotNull } from "drizzle-orm";
 import { drizzle } from "drizzle-orm/mysql2";
 import {
-  InsertUser, users,
+  InsertUser, users, User,
+  organizations, Organization, InsertOrganization,
+  organizationMembers, OrganizationMember,
+  InsertFarm, farms, Farm,
+  InsertCarRecord, carRecords, CarRecord,
   InsertField, fields, Field,
+  fieldLineage, FieldLineage,
+  fieldShares, FieldShare, InsertFieldShare,
+  consultantGrants, ConsultantGrant, InsertConsultantGrant,
+  consultantNotes, ConsultantNote, InsertConsultantNote,
+  fieldBoundaryVersions, FieldBoundaryVersion, InsertFieldBoundaryVersion,
   InsertCrop, crops, Crop,
   InsertFieldNote, fieldNotes, FieldNote,
   InsertWeatherData, weatherData, WeatherData,
@@ -11,8 +20,13 @@ import {
   InsertCropRotationPlan, cropRotationPlans, CropRotationPlan,
   InsertTask, tasks, Task,
   InsertNotification, notifications, Notification,
+  InsertJobRun, jobRuns, JobRun,
+  InsertManagementZoneSet, managementZones, ManagementZoneSet,
+  InsertPrescription, prescriptions, Prescription,
 } from "../drizzle/schema";
 import { ENV } from './_core/env';
+import { mergeNdviSeries } from './services/fieldLineage';
+import type { Membership, OrgRole } from './services/organizations';
 
 let _db: ReturnType<typeof drizzle> | null = null;
 
@@ -217,14 +231,310 @@ export async function updateUserProfile(userId: number, data: Partial<InsertUser
   await db.update(users).set(data).where(eq(users.id, userId));
 }
 
-// ==================== FIELD FUNCTIONS ====================
-export async function createField(field: InsertField): Promise<number> {
+// ==================== ORGANIZATION FUNCTIONS ====================
+/**
+ * Organização em que o usuário está trabalhando e o papel dele nela. Sem nenhuma
+ * organização, cria a pessoal (com o usuário como gestor) e leva para ela os
+ * campos, cultivos, notas e tarefas que ele já tinha. null sem banco de dados.
+ */
+export async function resolveMembership(user: User): Promise<Membership | null> {
+  const db = await getDb();
+  if (!db) return null;
+
+  if (user.activeOrganizationId) {
+    const member = await getOrganizationMember(user.activeOrganizationId, user.id);
+    if (member) return { userId: user.id, organizationId: member.organizationId, role: member.role };
+  }
+
+  // As consultas paralelas logo após o cadastro chegam juntas: a linha do usuário
+  // fica travada até o fim e cada uma relê os vínculos, então só a primeira cria
+  return await db.transaction(async (tx) => {
+    await tx.select({ id: users.id }).from(users).where(eq(users.id, user.id)).for("update");
+
+    const [first] = await tx.select().from(organizationMembers)
+      .where(eq(organizationMembers.userId, user.id))
+      .orderBy(asc(organizationMembers.createdAt))
+      .limit(1);
+    if (first) {
+      await tx.update(users).set({ activeOrganizationId: first.organizationId }).where(eq(users.id, user.id));
+      return { userId: user.id, organizationId: first.organizationId, role: first.role };
+    }
+
+    const result = await tx.insert(organizations).values({
+      name: user.company || user.name || "Minha organização",
+      ownerId: user.id,
+    });
+    const organizationId = result[0].insertId;
+    await tx.insert(organizationMembers).values({ organizationId, userId: user.id, role: "owner" });
+    await tx.update(users).set({ activeOrganizationId: organizationId }).where(eq(users.id, user.id));
+    await tx.update(farms).set({ organizationId }).where(and(eq(farms.userId, user.id), isNull(farms.organizationId)));
+    await tx.update(fields).set({ organizationId }).where(and(eq(fields.userId, user.id), isNull(fields.organizationId)));
+    await tx.update(crops).set({ organizationId }).where(and(eq(crops.userId, user.id), isNull(crops.organizationId)));
+    await tx.update(fieldNotes).set({ organizationId }).where(and(eq(fieldNotes.userId, user.id), isNull(fieldNotes.organizationId)));
+    await tx.update(tasks).set({ organizationId }).where(and(eq(tasks.userId, user.id), isNull(tasks.organizationId)));
+    return { userId: user.id, organizationId, role: "owner" as const };
+  });
+}
+
+/**
+ * Cria a organização com o criador como gestor e passa a trabalhar nela
+ */
+export async function createOrganization(organization: InsertOrganization): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    const result = await tx.insert(organizations).values(organization);
+    const id = result[0].insertId;
+    await tx.insert(organizationMembers).values({ organizationId: id, userId: organization.ownerId, role: "owner" });
+    await tx.update(users).set({ activeOrganizationId: id }).where(eq(users.id, organization.ownerId));
+    return id;
+  });
+}
+
+export async function getOrganizationById(id: number): Promise<Organization | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(organizations).where(eq(organizations.id, id)).limit(1);
+  return result[0];
+}
+
+export async function updateOrganization(id: number, data: Partial<InsertOrganization>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(organizations).set(data).where(eq(organizations.id, id));
+}
+
+/**
+ * Organizações das quais o usuário é membro, com o papel em cada uma
+ */
+export async function getOrganizationsByUserId(userId: number): Promise<Array<{ organization: Organization; role: OrgRole }>> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select({ organization: organizations, role: organizationMembers.role })
+    .from(organizationMembers)
+    .innerJoin(organizations, eq(organizationMembers.organizationId, organizations.id))
+    .where(eq(organizationMembers.userId, userId))
+    .orderBy(asc(organizations.name));
+}
+
+export async function getOrganizationMember(organizationId: number, userId: number): Promise<OrganizationMember | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(organizationMembers)
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)))
+    .limit(1);
+  return result[0];
+}
+
+export async function getOrganizationMembers(organizationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select({
+    userId: organizationMembers.userId,
+    role: organizationMembers.role,
+    createdAt: organizationMembers.createdAt,
+    name: users.name,
+    email: users.email,
+  })
+    .from(organizationMembers)
+    .innerJoin(users, eq(organizationMembers.userId, users.id))
+    .where(eq(organizationMembers.organizationId, organizationId))
+    .orderBy(asc(users.name));
+}
+
+export async function addOrganizationMember(organizationId: number, userId: number, role: OrgRole) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(organizationMembers).values({ organizationId, userId, role });
+}
+
+export async function updateOrganizationMemberRole(organizationId: number, userId: number, role: OrgRole) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(organizationMembers).set({ role })
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+}
+
+/**
+ * Remove o membro; se ele estava trabalhando nesta organização, volta para outra na próxima requisição
+ */
+export async function removeOrganizationMember(organizationId: number, userId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(organizationMembers)
+    .where(and(eq(organizationMembers.organizationId, organizationId), eq(organizationMembers.userId, userId)));
+  await db.update(users).set({ activeOrganizationId: null })
+    .where(and(eq(users.id, userId), eq(users.activeOrganizationId, organizationId)));
+}
+
+// ==================== FARM FUNCTIONS ====================
+export async function createFarm(farm: InsertFarm): Promise<number> {
   const db = await getDb();
   if (!db) throw new Error("Database not available");
-  const result = await db.insert(fields).values(field);
+  const result = await db.insert(farms).values(farm);
   return result[0].insertId;
 }
 
+export async function getFarmById(id: number): Promise<Farm | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(farms).where(and(eq(farms.id, id), eq(farms.isActive, true))).limit(1);
+  return result[0];
+}
+
+export async function getFarmsByOrganizationId(organizationId: number): Promise<Farm[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(farms)
+    .where(and(eq(farms.organizationId, organizationId), eq(farms.isActive, true)))
+    .orderBy(asc(farms.name));
+}
+
+export async function updateFarm(id: number, data: Partial<InsertFarm>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(farms).set(data).where(eq(farms.id, id));
+}
+
+/**
+ * Desativa a fazenda. Os campos não são apagados: ficam sem fazenda.
+ */
+export async function deleteFarm(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(fields).set({ farmId: null }).where(eq(fields.farmId, id));
+  await db.update(farms).set({ isActive: false }).where(eq(farms.id, id));
+}
+
+export async function getFieldsByFarmId(farmId: number): Promise<Field[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(fields).where(and(eq(fields.farmId, farmId), eq(fields.isActive, true))).orderBy(asc(fields.name));
+}
+
+export async function moveFieldsToFarm(fieldIds: number[], farmId: number | null) {
+  const db = await getDb();
+  if (!db || fieldIds.length === 0) return;
+  await db.update(fields).set({ farmId }).where(inArray(fields.id, fieldIds));
+}
+
+export type FarmTotals = {
+  fieldCount: number;
+  areaHectares: number; // mesma unidade de fields.areaHectares (ha * 100)
+  crops: Array<{ cropType: string; fieldCount: number; areaHectares: number }>;
+};
+
+/**
+ * Totais da fazenda: área dos campos ativos e área por cultura em andamento.
+ * Cultivos sem área própria contam com a área do campo.
+ */
+export async function getFarmTotals(farmId: number): Promise<FarmTotals> {
+  const db = await getDb();
+  if (!db) return { fieldCount: 0, areaHectares: 0, crops: [] };
+
+  const activeFields = and(eq(fields.farmId, farmId), eq(fields.isActive, true));
+
+  const [fieldsResult, cropsResult] = await Promise.all([
+    db.select({
+      fieldCount: sql<number>`count(*)`.mapWith(Number),
+      areaHectares: sql<number>`coalesce(sum(${fields.areaHectares}), 0)`.mapWith(Number),
+    }).from(fields).where(activeFields),
+    db.select({
+      cropType: crops.cropType,
+      fieldCount: sql<number>`count(distinct ${crops.fieldId})`.mapWith(Number),
+      areaHectares: sql<number>`coalesce(sum(coalesce(${crops.areaHectares}, ${fields.areaHectares})), 0)`.mapWith(Number),
+    }).from(crops)
+      .innerJoin(fields, eq(crops.fieldId, fields.id))
+      .where(and(activeFields, inArray(crops.status, ["planted", "growing"])))
+      .groupBy(crops.cropType),
+  ]);
+
+  return {
+    fieldCount: fieldsResult[0]?.fieldCount ?? 0,
+    areaHectares: fieldsResult[0]?.areaHectares ?? 0,
+    crops: cropsResult,
+  };
+}
+
+// ==================== CAR FUNCTIONS ====================
+export async function getCarRecordByFarmId(farmId: number): Promise<CarRecord | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(carRecords).where(eq(carRecords.farmId, farmId)).limit(1);
+  return result[0];
+}
+
+// CARs das fazendas ativas da organização
+export async function getCarRecordsByOrganizationId(organizationId: number): Promise<CarRecord[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select({ record: carRecords }).from(carRecords)
+    .innerJoin(farms, eq(farms.id, carRecords.farmId))
+    .where(and(eq(farms.organizationId, organizationId), eq(farms.isActive, true)));
+  return rows.map(row => row.record);
+}
+
+/**
+ * Anexa o CAR à fazenda. Um novo upload substitui as camadas anteriores.
+ */
+export async function saveCarRecord(record: InsertCarRecord): Promise<void> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const { farmId, userId, ...layers } = record;
+  await db.insert(carRecords).values(record).onDuplicateKeyUpdate({ set: layers });
+}
+
+export async function deleteCarRecord(farmId: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(carRecords).where(eq(carRecords.farmId, farmId));
+}
+
+// ==================== FIELD FUNCTIONS ====================
+type DbTransaction = Parameters<Parameters<NonNullable<Awaited<ReturnType<typeof getDb>>>["transaction"]>[0]>[0];
+
+// Trava a linha do usuário e confere se mais `added` campos ativos cabem no limite
+async function fieldsFitLimit(tx: DbTransaction, userId: number, added: number, maxFields: number): Promise<boolean> {
+  await tx.select({ id: users.id }).from(users).where(eq(users.id, userId)).for("update");
+  const [{ count }] = await tx.select({ count: sql<number>`count(*)` })
+    .from(fields)
+    .where(and(eq(fields.userId, userId), eq(fields.isActive, true)));
+  return Number(count) + added <= maxFields;
+}
+
+// null quando o campo passaria do limite do usuário (ver createFields)
+export async function createField(field: InsertField, maxFields: number): Promise<number | null> {
+  const ids = await createFields([field], maxFields);
+  return ids?.[0] ?? null;
+}
+
+/**
+ * Cria vários campos numa única transação (importação em lote): ou todos ou nenhum.
+ * O limite de campos é conferido na transação, com a linha do usuário travada, para
+ * criações simultâneas não passarem dele juntas; null quando os campos não cabem.
+ */
+export async function createFields(list: InsertField[], maxFields: number): Promise<number[] | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    // Os campos são todos do mesmo usuário
+    if (!await fieldsFitLimit(tx, list[0].userId, list.length, maxFields)) return null;
+
+    const ids: number[] = [];
+    for (const field of list) {
+      const result = await tx.insert(fields).values(field);
+      const id = result[0].insertId;
+      for (const version of initialBoundaryVersion(id, field)) {
+        await tx.insert(fieldBoundaryVersions).values(version);
+      }
+      ids.push(id);
+    }
+    return ids;
+  });
+}
+
 export async function getFieldById(id: number): Promise<Field | undefined> {
   const db = await getDb();
   if (!db) return undefined;
@@ -238,6 +548,14 @@ export async function getFieldsByUserId(userId: number): Promise<Field[]> {
   return await db.select().from(fields).where(and(eq(fields.userId, userId), eq(fields.isActive, true))).orderBy(desc(fields.createdAt));
 }
 
+export async function getFieldsByOrganizationId(organizationId: number): Promise<Field[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(fields)
+    .where(and(eq(fields.organizationId, organizationId), eq(fields.isActive, true)))
+    .orderBy(desc(fields.createdAt));
+}
+
 export async function updateField(id: number, data: Partial<InsertField>) {
   const db = await getDb();
   if (!db) return;
@@ -250,6 +568,384 @@ export async function deleteField(id: number) {
   await db.update(fields).set({ isActive: false }).where(eq(fields.id, id));
 }
 
+// ==================== FIELD BOUNDARY VERSION FUNCTIONS ====================
+export async function createBoundaryVersion(version: InsertFieldBoundaryVersion): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(fieldBoundaryVersions).values(version);
+  return result[0].insertId;
+}
+
+export async function getBoundaryVersions(fieldId: number): Promise<FieldBoundaryVersion[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(fieldBoundaryVersions)
+    .where(eq(fieldBoundaryVersions.fieldId, fieldId))
+    .orderBy(asc(fieldBoundaryVersions.validFrom));
+}
+
+/**
+ * Troca os limites do campo sem perder o anterior: encerra a versão vigente em
+ * `version.validFrom`, grava a nova e atualiza as colunas do campo.
+ * `initial` registra o limite antigo de campos criados antes do versionamento.
+ */
+export async function replaceFieldBoundary(
+  fieldId: number,
+  data: Partial<InsertField>,
+  version: InsertFieldBoundaryVersion,
+  initial?: InsertFieldBoundaryVersion
+) {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.transaction(async (tx) => {
+    if (initial) {
+      await tx.insert(fieldBoundaryVersions).values(initial);
+    }
+    await tx.update(fieldBoundaryVersions)
+      .set({ validTo: version.validFrom })
+      .where(and(eq(fieldBoundaryVersions.fieldId, fieldId), isNull(fieldBoundaryVersions.validTo)));
+    await tx.insert(fieldBoundaryVersions).values(version);
+    await tx.update(fields).set(data).where(eq(fields.id, fieldId));
+  });
+}
+
+/**
+ * Corrige os limites da versão vigente (mesmo dia de início), sem criar nova versão
+ */
+export async function correctFieldBoundary(
+  fieldId: number,
+  versionId: number,
+  data: Partial<InsertField>,
+  version: Partial<InsertFieldBoundaryVersion>
+) {
+  const db = await getDb();
+  if (!db) return;
+
+  await db.transaction(async (tx) => {
+    await tx.update(fieldBoundaryVersions).set(version).where(eq(fieldBoundaryVersions.id, versionId));
+    await tx.update(fields).set(data).where(eq(fields.id, fieldId));
+  });
+}
+
+// Primeira versão dos limites de um campo recém-criado
+function initialBoundaryVersion(fieldId: number, field: InsertField): InsertFieldBoundaryVersion[] {
+  if (!field.geometry) return [];
+  return [{
+    fieldId,
+    userId: field.userId,
+    geometry: field.geometry,
+    areaHectares: field.areaHectares,
+    perimeterMeters: field.perimeterMeters,
+    validFrom: new Date(),
+  }];
+}
+
+// ==================== FIELD SHARE FUNCTIONS ====================
+export async function createFieldShare(share: InsertFieldShare): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(fieldShares).values(share);
+  return result[0].insertId;
+}
+
+export async function getFieldShareById(id: number): Promise<FieldShare | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(fieldShares).where(eq(fieldShares.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getFieldShareByToken(token: string): Promise<FieldShare | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(fieldShares).where(eq(fieldShares.token, token)).limit(1);
+  return result[0];
+}
+
+export async function getFieldSharesByFieldId(fieldId: number): Promise<FieldShare[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(fieldShares).where(eq(fieldShares.fieldId, fieldId)).orderBy(desc(fieldShares.createdAt));
+}
+
+/**
+ * Compartilhamentos (ativos ou não) de um campo com um usuário
+ */
+export async function getFieldSharesForUser(fieldId: number, userId: number): Promise<FieldShare[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(fieldShares)
+    .where(and(eq(fieldShares.fieldId, fieldId), eq(fieldShares.sharedWithUserId, userId)));
+}
+
+/**
+ * Campos compartilhados com o usuário, com o compartilhamento correspondente
+ */
+export async function getSharedFieldsForUser(userId: number): Promise<Array<{ share: FieldShare; field: Field }>> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select({ share: fieldShares, field: fields })
+    .from(fieldShares)
+    .innerJoin(fields, eq(fieldShares.fieldId, fields.id))
+    .where(and(eq(fieldShares.sharedWithUserId, userId), isNull(fieldShares.revokedAt), eq(fields.isActive, true)))
+    .orderBy(asc(fields.name));
+}
+
+export async function updateFieldShare(id: number, data: Partial<InsertFieldShare>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(fieldShares).set(data).where(eq(fieldShares.id, id));
+}
+
+/**
+ * Revoga o compartilhamento e os acessos criados a partir dele (aceites de um link)
+ */
+export async function revokeFieldShare(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(fieldShares)
+    .set({ revokedAt: new Date() })
+    .where(and(or(eq(fieldShares.id, id), eq(fieldShares.parentShareId, id)), isNull(fieldShares.revokedAt)));
+}
+
+// ==================== CONSULTANT FUNCTIONS ====================
+/**
+ * Libera a fazenda para o consultor; um acesso revogado antes é reativado com a nova permissão
+ */
+export async function grantConsultantAccess(data: InsertConsultantGrant): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const existing = await db.select().from(consultantGrants)
+    .where(and(eq(consultantGrants.farmId, data.farmId), eq(consultantGrants.consultantId, data.consultantId)))
+    .limit(1);
+  if (existing[0]) {
+    await db.update(consultantGrants)
+      .set({ permission: data.permission, revokedAt: null })
+      .where(eq(consultantGrants.id, existing[0].id));
+    return existing[0].id;
+  }
+  const result = await db.insert(consultantGrants).values(data);
+  return result[0].insertId;
+}
+
+export async function getConsultantGrantById(id: number): Promise<ConsultantGrant | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(consultantGrants).where(eq(consultantGrants.id, id)).limit(1);
+  return result[0];
+}
+
+// Acesso ativo do consultor a uma fazenda
+export async function getConsultantGrant(farmId: number, consultantId: number): Promise<ConsultantGrant | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(consultantGrants)
+    .where(and(
+      eq(consultantGrants.farmId, farmId),
+      eq(consultantGrants.consultantId, consultantId),
+      isNull(consultantGrants.revokedAt)
+    ))
+    .limit(1);
+  return result[0];
+}
+
+/**
+ * Consultores com acesso às fazendas da organização, quem quer que tenha liberado
+ */
+export async function getConsultantGrantsByOrganizationId(organizationId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select({
+    grant: consultantGrants,
+    farmName: farms.name,
+    consultantName: users.name,
+    consultantEmail: users.email,
+  })
+    .from(consultantGrants)
+    .innerJoin(farms, eq(consultantGrants.farmId, farms.id))
+    .innerJoin(users, eq(consultantGrants.consultantId, users.id))
+    .where(and(eq(farms.organizationId, organizationId), isNull(consultantGrants.revokedAt)))
+    .orderBy(asc(users.name), asc(farms.name));
+}
+
+/**
+ * Fazendas liberadas para o consultor, com o produtor de cada uma
+ */
+export async function getConsultantGrantsByConsultantId(consultantId: number) {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select({
+    grant: consultantGrants,
+    farm: farms,
+    producerName: users.name,
+    producerEmail: users.email,
+  })
+    .from(consultantGrants)
+    .innerJoin(farms, eq(consultantGrants.farmId, farms.id))
+    .innerJoin(users, eq(consultantGrants.producerId, users.id))
+    .where(and(
+      eq(consultantGrants.consultantId, consultantId),
+      isNull(consultantGrants.revokedAt),
+      eq(farms.isActive, true)
+    ))
+    .orderBy(asc(users.name), asc(farms.name));
+}
+
+export async function revokeConsultantGrant(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(consultantGrants).set({ revokedAt: new Date() }).where(eq(consultantGrants.id, id));
+}
+
+export async function createConsultantNote(note: InsertConsultantNote): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(consultantNotes).values(note);
+  return result[0].insertId;
+}
+
+export async function getConsultantNoteById(id: number): Promise<ConsultantNote | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(consultantNotes).where(eq(consultantNotes.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getConsultantNotes(consultantId: number, producerId: number): Promise<ConsultantNote[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(consultantNotes)
+    .where(and(eq(consultantNotes.consultantId, consultantId), eq(consultantNotes.producerId, producerId)))
+    .orderBy(desc(consultantNotes.createdAt));
+}
+
+export async function updateConsultantNote(id: number, data: Partial<InsertConsultantNote>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(consultantNotes).set(data).where(eq(consultantNotes.id, id));
+}
+
+export async function deleteConsultantNote(id: number) {
+  const db = await getDb();
+  if (!db) return;
+  await db.delete(consultantNotes).where(eq(consultantNotes.id, id));
+}
+
+// ==================== FIELD LINEAGE FUNCTIONS ====================
+/**
+ * Divide um campo: cria os campos resultantes, copia a série NDVI e os cultivos
+ * em andamento para cada um e desativa o campo original. Notas e tarefas
+ * continuam no campo original, acessível pela linhagem. null quando as partes
+ * passariam do limite de campos (o original desativado sai da conta).
+ */
+export async function splitField(parent: Field, children: InsertField[], maxFields: number): Promise<number[] | null> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+
+  return await db.transaction(async (tx) => {
+    const userId = children[0].userId;
+    const released = parent.userId === userId && parent.isActive ? 1 : 0;
+    if (!await fieldsFitLimit(tx, userId, children.length - released, maxFields)) return null;
+
+    const parentNdvi = await tx.select().from(ndviData).where(eq(ndviData.fieldId, parent.id));
+    const activeCrops = await tx.select().from(crops)
+      .where(and(eq(crops.fieldId, parent.id), inArray(crops.status, ["planned", "planted", "growing"])));
+
+    const childIds: number[] = [];
+    for (const child of children) {
+      const result = await tx.insert(fields).values(child);
+      const childId = result[0].insertId;
+      childIds.push(childId);
+
+      await tx.insert(fieldLineage).values({
+        userId: parent.userId,
+        parentFieldId: parent.id,
+        childFieldId: childId,
+        operation: "split",
+      });
+      for (const version of initialBoundaryVersion(childId, child)) {
+        await tx.insert(fieldBoundaryVersions).values(version);
+      }
+      if (parentNdvi.length > 0) {
+        await tx.insert(ndviData).values(parentNdvi.map(({ id, createdAt, ...row }) => ({ ...row, fieldId: childId })));
+      }
+      if (activeCrops.length > 0) {
+        await tx.insert(crops).values(activeCrops.map(({ id, createdAt, updatedAt, ...crop }) => ({
+          ...crop,
+          fieldId: childId,
+          areaHectares: child.areaHectares ?? crop.areaHectares,
+        })));
+      }
+    }
+
+    await tx.update(fields).set({ isActive: false }).where(eq(fields.id, parent.id));
+    return childIds;
+  });
+}
+
+/**
+ * Une campos: cria o campo resultante, transfere cultivos, notas, tarefas e
+ * planos de rotação, combina as séries NDVI e desativa os campos originais
+ */
+export async function mergeFields(parents: Field[], merged: InsertField): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const parentIds = parents.map(p => p.id);
+
+  return await db.transaction(async (tx) => {
+    const result = await tx.insert(fields).values(merged);
+    const mergedId = result[0].insertId;
+
+    await tx.insert(fieldLineage).values(parents.map(parent => ({
+      userId: parent.userId,
+      parentFieldId: parent.id,
+      childFieldId: mergedId,
+      operation: "merge" as const,
+    })));
+    for (const version of initialBoundaryVersion(mergedId, merged)) {
+      await tx.insert(fieldBoundaryVersions).values(version);
+    }
+
+    await tx.update(crops).set({ fieldId: mergedId }).where(inArray(crops.fieldId, parentIds));
+    await tx.update(fieldNotes).set({ fieldId: mergedId }).where(inArray(fieldNotes.fieldId, parentIds));
+    await tx.update(tasks).set({ fieldId: mergedId }).where(inArray(tasks.fieldId, parentIds));
+    await tx.update(cropRotationPlans).set({ fieldId: mergedId }).where(inArray(cropRotationPlans.fieldId, parentIds));
+
+    const parentNdvi = await tx.select().from(ndviData).where(inArray(ndviData.fieldId, parentIds));
+    const series = mergeNdviSeries(
+      parents.map(parent => ({
+        areaHectares: (parent.areaHectares ?? 0) / 100,
+        rows: parentNdvi.filter(row => row.fieldId === parent.id),
+      })),
+      mergedId
+    );
+    if (series.length > 0) {
+      await tx.insert(ndviData).values(series);
+    }
+
+    await tx.update(fields).set({ isActive: false }).where(inArray(fields.id, parentIds));
+    return mergedId;
+  });
+}
+
+/**
+ * Registros de linhagem em que o campo aparece como origem ou como resultado
+ */
+export async function getFieldLineage(fieldId: number): Promise<FieldLineage[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(fieldLineage)
+    .where(or(eq(fieldLineage.parentFieldId, fieldId), eq(fieldLineage.childFieldId, fieldId)))
+    .orderBy(desc(fieldLineage.createdAt));
+}
+
+export async function getFieldsByIds(ids: number[]): Promise<Field[]> {
+  const db = await getDb();
+  if (!db || ids.length === 0) return [];
+  return await db.select().from(fields).where(inArray(fields.id, ids));
+}
+
 // ==================== CROP FUNCTIONS ====================
 export async function createCrop(crop: InsertCrop): Promise<number> {
   const db = await getDb();
@@ -270,6 +966,19 @@ export async function getCropsByUserId(userId: number): Promise<Crop[]> {
   return await db.select().from(crops).where(eq(crops.userId, userId)).orderBy(desc(crops.plantingDate));
 }
 
+export async function getCropsByOrganizationId(organizationId: number): Promise<Crop[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(crops).where(eq(crops.organizationId, organizationId)).orderBy(desc(crops.plantingDate));
+}
+
+export async function getCropById(id: number): Promise<Crop | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(crops).where(eq(crops.id, id)).limit(1);
+  return result[0];
+}
+
 export async function updateCrop(id: number, data: Partial<InsertCrop>) {
   const db = await getDb();
   if (!db) return;
@@ -302,6 +1011,19 @@ export async function getFieldNotesByUserId(userId: number): Promise<FieldNote[]
   return await db.select().from(fieldNotes).where(eq(fieldNotes.userId, userId)).orderBy(desc(fieldNotes.createdAt));
 }
 
+export async function getFieldNotesByOrganizationId(organizationId: number): Promise<FieldNote[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(fieldNotes).where(eq(fieldNotes.organizationId, organizationId)).orderBy(desc(fieldNotes.createdAt));
+}
+
+export async function getFieldNoteById(id: number): Promise<FieldNote | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(fieldNotes).where(eq(fieldNotes.id, id)).limit(1);
+  return result[0];
+}
+
 export async function updateFieldNote(id: number, data: Partial<InsertFieldNote>) {
   const db = await getDb();
   if (!db) return;
@@ -340,6 +1062,44 @@ export async function createWeatherAlert(alert: InsertWeatherAlert): Promise<num
   return result[0].insertId;
 }
 
+// Previsão diária a partir de uma data (os dias passados ficam com a última previsão coletada)
+export async function getWeatherForecastByFieldId(fieldId: number, from: Date): Promise<WeatherData[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(weatherData)
+    .where(and(eq(weatherData.fieldId, fieldId), eq(weatherData.isForecast, true), gte(weatherData.date, from)))
+    .orderBy(asc(weatherData.date));
+}
+
+// Troca a previsão do campo a partir de `from` pela recém-coletada
+export async function replaceWeatherForecast(fieldId: number, from: Date, rows: InsertWeatherData[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.delete(weatherData)
+    .where(and(eq(weatherData.fieldId, fieldId), eq(weatherData.isForecast, true), gte(weatherData.date, from)));
+  if (rows.length > 0) await db.insert(weatherData).values(rows);
+}
+
+// Alerta do mesmo tipo já emitido para o campo num período que se sobrepõe (mesmo que dispensado)
+export async function findOverlappingWeatherAlert(
+  fieldId: number,
+  alertType: WeatherAlert["alertType"],
+  validFrom: Date,
+  validUntil: Date
+): Promise<WeatherAlert | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(weatherAlerts)
+    .where(and(
+      eq(weatherAlerts.fieldId, fieldId),
+      eq(weatherAlerts.alertType, alertType),
+      lte(weatherAlerts.validFrom, validUntil),
+      gte(weatherAlerts.validUntil, validFrom),
+    ))
+    .limit(1);
+  return result[0];
+}
+
 export async function getWeatherAlertsByUserId(userId: number): Promise<WeatherAlert[]> {
   const db = await getDb();
   if (!db) return [];
@@ -348,6 +1108,13 @@ export async function getWeatherAlertsByUserId(userId: number): Promise<WeatherA
     .orderBy(desc(weatherAlerts.createdAt));
 }
 
+export async function getWeatherAlertById(id: number): Promise<WeatherAlert | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(weatherAlerts).where(eq(weatherAlerts.id, id)).limit(1);
+  return result[0];
+}
+
 export async function dismissWeatherAlert(id: number) {
   const db = await getDb();
   if (!db) return;
@@ -381,6 +1148,56 @@ export async function getLatestNdviByFieldId(fieldId: number): Promise<NdviData
   return result[0];
 }
 
+// Leitura mais recente já analisada pela detecção de manchas (problemAreas preenchido)
+export async function getLatestNdviWithProblemAreas(fieldId: number): Promise<NdviData | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(ndviData)
+    .where(and(eq(ndviData.fieldId, fieldId), isNotNull(ndviData.problemAreas)))
+    .orderBy(desc(ndviData.captureDate))
+    .limit(1);
+  return result[0];
+}
+
+// Leituras com o campo quase todo visível ainda sem análise de manchas, da mais recente para a mais antiga
+export async function getNdviDataWithoutProblemAreas(fieldId: number, maxCloudCoverage: number, limit: number): Promise<NdviData[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(ndviData)
+    .where(and(eq(ndviData.fieldId, fieldId), isNull(ndviData.problemAreas), lte(ndviData.cloudCoverage, maxCloudCoverage)))
+    .orderBy(desc(ndviData.captureDate))
+    .limit(limit);
+}
+
+export async function updateNdviProblemAreas(id: number, problemAreas: unknown[]) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(ndviData).set({ problemAreas }).where(eq(ndviData.id, id));
+}
+
+export async function getNdviByFieldIdSince(fieldId: number, since: Date): Promise<NdviData[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(ndviData)
+    .where(and(eq(ndviData.fieldId, fieldId), gte(ndviData.captureDate, since)))
+    .orderBy(desc(ndviData.captureDate));
+}
+
+export async function getNdviCaptureDates(fieldId: number, since: Date): Promise<Date[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.select({ captureDate: ndviData.captureDate }).from(ndviData)
+    .where(and(eq(ndviData.fieldId, fieldId), gte(ndviData.captureDate, since)));
+  return rows.map(row => row.captureDate);
+}
+
+export async function createNdviDataRows(rows: InsertNdviData[]) {
+  if (rows.length === 0) return;
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  await db.insert(ndviData).values(rows);
+}
+
 // ==================== CROP ROTATION FUNCTIONS ====================
 export async function createCropRotationPlan(plan: InsertCropRotationPlan): Promise<number> {
   const db = await getDb();
@@ -397,6 +1214,13 @@ export async function getCropRotationByFieldId(fieldId: number): Promise<CropRot
     .orderBy(desc(cropRotationPlans.season));
 }
 
+export async function getCropRotationPlanById(id: number): Promise<CropRotationPlan | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(cropRotationPlans).where(eq(cropRotationPlans.id, id)).limit(1);
+  return result[0];
+}
+
 export async function updateCropRotationPlan(id: number, data: Partial<InsertCropRotationPlan>) {
   const db = await getDb();
   if (!db) return;
@@ -427,6 +1251,37 @@ export async function getPendingTasksByUserId(userId: number): Promise<Task[]> {
     .orderBy(asc(tasks.dueDate));
 }
 
+export async function getTaskById(id: number): Promise<Task | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(tasks).where(eq(tasks.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getTasksByOrganizationId(organizationId: number): Promise<Task[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(tasks)
+    .where(eq(tasks.organizationId, organizationId))
+    .orderBy(asc(tasks.dueDate));
+}
+
+export async function getPendingTasksByOrganizationId(organizationId: number): Promise<Task[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(tasks)
+    .where(and(eq(tasks.organizationId, organizationId), eq(tasks.status, "pending")))
+    .orderBy(asc(tasks.dueDate));
+}
+
+export async function getPendingTasksByFieldIds(fieldIds: number[]): Promise<Task[]> {
+  const db = await getDb();
+  if (!db || fieldIds.length === 0) return [];
+  return await db.select().from(tasks)
+    .where(and(inArray(tasks.fieldId, fieldIds), eq(tasks.status, "pending")))
+    .orderBy(asc(tasks.dueDate));
+}
+
 export async function updateTask(id: number, data: Partial<InsertTask>) {
   const db = await getDb();
   if (!db) return;
@@ -464,6 +1319,13 @@ export async function getUnreadNotificationCount(userId: number): Promise<number
   return result[0]?.count ?? 0;
 }
 
+export async function getNotificationById(id: number): Promise<Notification | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(notifications).where(eq(notifications.id, id)).limit(1);
+  return result[0];
+}
+
 export async function markNotificationAsRead(id: number) {
   const db = await getDb();
   if (!db) return;
@@ -477,17 +1339,47 @@ export async function markAllNotificationsAsRead(userId: number) {
 }
 
 // ==================== DASHBOARD STATS ====================
-export async function getDashboardStats(userId: number) {
+// Campos, cultivos e tarefas da organização; alertas de clima são do usuário
+/**
+ * Mesmos números do painel, restritos às fazendas liberadas para um consultor
+ */
+export async function getStatsByFarmIds(farmIds: number[]) {
+  const db = await getDb();
+  if (!db || farmIds.length === 0) return { totalFields: 0, activeCrops: 0, pendingTasks: 0, unreadAlerts: 0 };
+
+  const farmFields = await db.select({ id: fields.id }).from(fields)
+    .where(and(inArray(fields.farmId, farmIds), eq(fields.isActive, true)));
+  const fieldIds = farmFields.map(f => f.id);
+  if (fieldIds.length === 0) return { totalFields: 0, activeCrops: 0, pendingTasks: 0, unreadAlerts: 0 };
+
+  const [cropsResult, tasksResult, alertsResult] = await Promise.all([
+    db.select({ count: sql<number>`count(*)` }).from(crops)
+      .where(and(inArray(crops.fieldId, fieldIds), eq(crops.status, "growing"))),
+    db.select({ count: sql<number>`count(*)` }).from(tasks)
+      .where(and(inArray(tasks.fieldId, fieldIds), eq(tasks.status, "pending"))),
+    db.select({ count: sql<number>`count(*)` }).from(weatherAlerts)
+      .where(and(inArray(weatherAlerts.fieldId, fieldIds), eq(weatherAlerts.isRead, false), eq(weatherAlerts.isDismissed, false))),
+  ]);
+
+  return {
+    totalFields: fieldIds.length,
+    activeCrops: cropsResult[0]?.count ?? 0,
+    pendingTasks: tasksResult[0]?.count ?? 0,
+    unreadAlerts: alertsResult[0]?.count ?? 0,
+  };
+}
+
+export async function getDashboardStats(userId: number, organizationId: number) {
   const db = await getDb();
   if (!db) return { totalFields: 0, activeCrops: 0, pendingTasks: 0, unreadAlerts: 0 };
 
   const [fieldsResult, cropsResult, tasksResult, alertsResult] = await Promise.all([
     db.select({ count: sql<number>`count(*)` }).from(fields)
-      .where(and(eq(fields.userId, userId), eq(fields.isActive, true))),
+      .where(and(eq(fields.organizationId, organizationId), eq(fields.isActive, true))),
     db.select({ count: sql<number>`count(*)` }).from(crops)
-      .where(and(eq(crops.userId, userId), eq(crops.status, "growing"))),
+      .where(and(eq(crops.organizationId, organizationId), eq(crops.status, "growing"))),
     db.select({ count: sql<number>`count(*)` }).from(tasks)
-      .where(and(eq(tasks.userId, userId), eq(tasks.status, "pending"))),
+      .where(and(eq(tasks.organizationId, organizationId), eq(tasks.status, "pending"))),
     db.select({ count: sql<number>`count(*)` }).from(weatherAlerts)
       .where(and(eq(weatherAlerts.userId, userId), eq(weatherAlerts.isRead, false), eq(weatherAlerts.isDismissed, false))),
   ]);
@@ -499,3 +1391,152 @@ export async function getDashboardStats(userId: number) {
     unreadAlerts: alertsResult[0]?.count ?? 0,
   };
 }
+
+// ==================== JOB RUN FUNCTIONS ====================
+// Usuários que recebem os jobs por usuário: donos de campos ativos
+export async function getUserIdsWithActiveFields(): Promise<number[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const rows = await db.selectDistinct({ userId: fields.userId }).from(fields).where(eq(fields.isActive, true));
+  return rows.map(row => row.userId);
+}
+
+// Horário mais recente já agendado do job pela agenda; disparos manuais não contam
+export async function getLatestJobSlot(jobName: string): Promise<Date | null> {
+  const db = await getDb();
+  if (!db) return null;
+  const result = await db.select({ slot: sql<Date | null>`max(${jobRuns.scheduledFor})`.mapWith(jobRuns.scheduledFor) })
+    .from(jobRuns)
+    .where(and(eq(jobRuns.jobName, jobName), eq(jobRuns.triggeredBy, "schedule")));
+  return result[0]?.slot ?? null;
+}
+
+// Agenda as execuções; um horário já agendado para o mesmo usuário é ignorado
+export async function createJobRuns(runs: InsertJobRun[]) {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  if (runs.length === 0) return;
+  await db.insert(jobRuns).values(runs).onDuplicateKeyUpdate({ set: { jobName: sql`${jobRuns.jobName}` } });
+}
+
+export async function getDueJobRuns(now: Date, limit: number): Promise<JobRun[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(jobRuns)
+    .where(and(eq(jobRuns.status, "pending"), lte(jobRuns.nextAttemptAt, now)))
+    .orderBy(asc(jobRuns.nextAttemptAt), asc(jobRuns.id))
+    .limit(limit);
+}
+
+/**
+ * Marca a execução como em andamento se ainda estiver pendente.
+ * Devolve false quando outro processo já a pegou.
+ */
+export async function claimJobRun(id: number, now: Date): Promise<boolean> {
+  const db = await getDb();
+  if (!db) return false;
+  const result = await db.update(jobRuns)
+    .set({ status: "running", attempts: sql`${jobRuns.attempts} + 1`, startedAt: now, finishedAt: null })
+    .where(and(eq(jobRuns.id, id), eq(jobRuns.status, "pending")));
+  return result[0].affectedRows > 0;
+}
+
+export async function updateJobRun(id: number, data: Partial<InsertJobRun>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(jobRuns).set(data).where(eq(jobRuns.id, id));
+}
+
+// Execuções presas em "running" (processo reiniciado no meio) voltam para a fila;
+// a tentativa interrompida conta, e sem tentativas restantes a execução falha
+export async function requeueStaleJobRuns(startedBefore: Date, now: Date) {
+  const db = await getDb();
+  if (!db) return;
+  const stale = and(eq(jobRuns.status, "running"), lte(jobRuns.startedAt, startedBefore));
+  await db.update(jobRuns)
+    .set({ status: "failed", finishedAt: now, lastError: "Execução interrompida" })
+    .where(and(stale, gte(jobRuns.attempts, jobRuns.maxAttempts)));
+  await db.update(jobRuns)
+    .set({ status: "pending", nextAttemptAt: now, lastError: "Execução interrompida" })
+    .where(stale);
+}
+
+export async function getJobRunById(id: number): Promise<JobRun | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(jobRuns).where(eq(jobRuns.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getJobRuns(filter: { jobName?: string; status?: JobRun["status"]; limit: number }): Promise<JobRun[]> {
+  const db = await getDb();
+  if (!db) return [];
+  const conditions = [
+    filter.jobName ? eq(jobRuns.jobName, filter.jobName) : undefined,
+    filter.status ? eq(jobRuns.status, filter.status) : undefined,
+  ].filter(condition => condition !== undefined);
+  return await db.select().from(jobRuns)
+    .where(conditions.length > 0 ? and(...conditions) : undefined)
+    .orderBy(desc(jobRuns.scheduledFor), desc(jobRuns.id))
+    .limit(filter.limit);
+}
+
+// Quantas execuções do horário estão em cada situação
+export async function getJobRunCounts(jobName: string, scheduledFor: Date): Promise<Record<JobRun["status"], number>> {
+  const counts = { pending: 0, running: 0, succeeded: 0, failed: 0 };
+  const db = await getDb();
+  if (!db) return counts;
+  const rows = await db.select({ status: jobRuns.status, count: sql<number>`count(*)`.mapWith(Number) })
+    .from(jobRuns)
+    .where(and(eq(jobRuns.jobName, jobName), eq(jobRuns.scheduledFor, scheduledFor)))
+    .groupBy(jobRuns.status);
+  rows.forEach(row => { counts[row.status] = row.count; });
+  return counts;
+}
+
+// ==================== MANAGEMENT ZONE FUNCTIONS ====================
+export async function createManagementZones(data: InsertManagementZoneSet): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(managementZones).values(data);
+  return result[0].insertId;
+}
+
+export async function getLatestManagementZones(fieldId: number): Promise<ManagementZoneSet | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(managementZones)
+    .where(eq(managementZones.fieldId, fieldId))
+    .orderBy(desc(managementZones.createdAt), desc(managementZones.id))
+    .limit(1);
+  return result[0];
+}
+
+// ==================== PRESCRIPTION FUNCTIONS ====================
+export async function createPrescription(data: InsertPrescription): Promise<number> {
+  const db = await getDb();
+  if (!db) throw new Error("Database not available");
+  const result = await db.insert(prescriptions).values(data);
+  return result[0].insertId;
+}
+
+export async function getPrescriptionById(id: number): Promise<Prescription | undefined> {
+  const db = await getDb();
+  if (!db) return undefined;
+  const result = await db.select().from(prescriptions).where(eq(prescriptions.id, id)).limit(1);
+  return result[0];
+}
+
+export async function getPrescriptionsByFieldId(fieldId: number): Promise<Prescription[]> {
+  const db = await getDb();
+  if (!db) return [];
+  return await db.select().from(prescriptions)
+    .where(eq(prescriptions.fieldId, fieldId))
+    .orderBy(desc(prescriptions.createdAt), desc(prescriptions.id));
+}
+
+export async function updatePrescription(id: number, data: Partial<InsertPrescription>) {
+  const db = await getDb();
+  if (!db) return;
+  await db.update(prescriptions).set(data).where(eq(prescriptions.id, id));
+}
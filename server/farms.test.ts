@@ -0,0 +1,186 @@
+import { describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+
+const { farm, totals } = vi.hoisted(() => ({
+  farm: {
+    id: 10,
+    userId: 1,
+    organizationId: 1,
+    name: "Fazenda Boa Vista",
+    description: null,
+    city: "Rio Verde",
+    state: "GO",
+    country: "Brasil",
+    color: "#22C55E",
+    isActive: true,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  },
+  totals: {
+    fieldCount: 2,
+    areaHectares: 15000,
+    crops: [{ cropType: "soja", fieldCount: 2, areaHectares: 15000 }],
+  },
+}));
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFarmsByOrganizationId: vi.fn().mockResolvedValue([farm]),
+  getFarmById: vi.fn().mockImplementation((id: number) => {
+    if (id === 10) return Promise.resolve(farm);
+    if (id === 20) return Promise.resolve({ ...farm, id: 20, userId: 2, organizationId: 2 });
+    return Promise.resolve(undefined);
+  }),
+  getFarmTotals: vi.fn().mockResolvedValue(totals),
+  getFieldsByFarmId: vi.fn().mockResolvedValue([]),
+  createFarm: vi.fn().mockResolvedValue(11),
+  updateFarm: vi.fn().mockResolvedValue(undefined),
+  deleteFarm: vi.fn().mockResolvedValue(undefined),
+  moveFieldsToFarm: vi.fn().mockResolvedValue(undefined),
+  getFieldById: vi.fn().mockImplementation((id: number) => {
+    if (id === 1)
+      return Promise.resolve({
+        id: 1,
+        userId: 1,
+        organizationId: 1,
+        name: "Talhão 1",
+        farmId: null,
+      });
+    if (id === 2)
+      return Promise.resolve({
+        id: 2,
+        userId: 2,
+        organizationId: 2,
+        name: "Talhão alheio",
+        farmId: null,
+      });
+    if (id === 4)
+      return Promise.resolve({
+        id: 4,
+        userId: 1,
+        organizationId: null,
+        name: "Talhão antigo, sem organização",
+        farmId: null,
+      });
+    return Promise.resolve(undefined);
+  }),
+  getFieldSharesForUser: vi.fn().mockResolvedValue([]),
+  getFieldsByOrganizationId: vi.fn().mockResolvedValue([
+    { id: 1, userId: 1, name: "Talhão 1", farmId: 10 },
+    { id: 3, userId: 1, name: "Talhão 3", farmId: null },
+  ]),
+  createField: vi.fn().mockResolvedValue(5),
+}));
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(id = 1): TrpcContext {
+  const user = {
+    id,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: {
+      protocol: "https",
+      headers: {},
+    } as TrpcContext["req"],
+    res: {
+      clearCookie: vi.fn(),
+    } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("farms router", () => {
+  it("lists farms with area and crop totals", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const farms = await caller.farms.list();
+
+    expect(farms).toHaveLength(1);
+    expect(farms[0].name).toBe("Fazenda Boa Vista");
+    expect(farms[0].totals.areaHectares).toBe(15000);
+    expect(farms[0].totals.crops[0].cropType).toBe("soja");
+  });
+
+  it("creates a farm", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const result = await caller.farms.create({ name: "Fazenda Nova" });
+
+    expect(result).toEqual({ id: 11, success: true });
+  });
+
+  it("does not expose another user's farm", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(caller.farms.getById({ id: 20 })).rejects.toThrow(
+      "Fazenda não encontrada"
+    );
+    await expect(caller.farms.delete({ id: 20 })).rejects.toThrow(
+      "Fazenda não encontrada"
+    );
+  });
+
+  it("moves owned fields between farms", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const result = await caller.farms.moveFields({ fieldIds: [1], farmId: 10 });
+
+    expect(result).toEqual({ success: true, moved: 1 });
+  });
+
+  it("refuses to move fields of another user", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(
+      caller.farms.moveFields({ fieldIds: [1, 2], farmId: 10 })
+    ).rejects.toThrow("Campo não encontrado");
+  });
+
+  it("shares farms with the organization, but only editors change them", async () => {
+    vi.mocked(db.resolveMembership).mockResolvedValue({ userId: 3, organizationId: 1, role: "viewer" });
+    try {
+      const viewer = appRouter.createCaller(createAuthContext(3));
+      await expect(viewer.farms.getById({ id: 10 })).resolves.toMatchObject({ name: "Fazenda Boa Vista" });
+      await expect(viewer.farms.update({ id: 10, name: "Outra" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+      await expect(viewer.farms.create({ name: "Fazenda Nova" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    } finally {
+      vi.mocked(db.resolveMembership).mockImplementation(async user => ({ userId: user.id, organizationId: 1, role: "owner" }));
+    }
+  });
+
+  it("keeps fields in farms of their own organization", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(caller.farms.moveFields({ fieldIds: [4], farmId: 10 })).rejects.toThrow("A fazenda é de outra organização");
+    await caller.fields.create({ name: "Talhão", farmId: 10 });
+    expect(vi.mocked(db.createField).mock.calls[0][0]).toMatchObject({ farmId: 10, organizationId: 1 });
+  });
+
+  it("filters fields by farm", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    const fields = await caller.fields.list({ farmId: 10 });
+
+    expect(fields.map(f => f.id)).toEqual([1]);
+  });
+
+  it("rejects creating a field in another user's farm", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(
+      caller.fields.create({ name: "Talhão", farmId: 20 })
+    ).rejects.toThrow("Fazenda não encontrada");
+  });
+});
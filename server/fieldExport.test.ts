@@ -0,0 +1,68 @@
+import { describe, expect, it } from "vitest";
+import { unzipSync, strFromU8 } from "fflate";
+import { exportFields, type ExportableField } from "./services/fieldExport";
+import { parseFieldFile } from "./services/fieldImport";
+
+const field: ExportableField = {
+  id: 7,
+  name: "Talhão Sede",
+  areaHectares: 118.5,
+  geometry: {
+    type: "Polygon",
+    coordinates: [[[-47.8, -15.8], [-47.8, -15.81], [-47.79, -15.81], [-47.79, -15.8], [-47.8, -15.8]]],
+  },
+  crop: "soja",
+  farmId: 3,
+  farmName: "Fazenda Boa Vista",
+};
+
+describe("field export", () => {
+  it("writes GeoJSON with name, area and current crop", () => {
+    const file = exportFields([field], "geojson", field.name);
+    const collection = JSON.parse(strFromU8(file.content));
+
+    expect(file.fileName).toBe("Talhao_Sede.geojson");
+    expect(collection.features[0].properties).toMatchObject({ name: "Talhão Sede", areaHectares: 118.5, crop: "soja" });
+    const ring = collection.features[0].geometry.coordinates[0];
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+  });
+
+  it("writes a zipped shapefile that can be imported back", () => {
+    const file = exportFields([field], "shapefile", "Fazenda Boa Vista");
+    const files = Object.keys(unzipSync(file.content));
+    expect(files).toEqual(expect.arrayContaining([
+      "Fazenda_Boa_Vista.shp",
+      "Fazenda_Boa_Vista.shx",
+      "Fazenda_Boa_Vista.dbf",
+      "Fazenda_Boa_Vista.prj",
+    ]));
+
+    const preview = parseFieldFile(file.fileName, file.content);
+    expect(preview.features).toHaveLength(1);
+    expect(preview.features[0].name).toBe("Talhão Sede");
+    expect(preview.features[0].properties).toMatchObject({ AREA_HA: 118.5, CULTURA: "soja" });
+    expect(preview.features[0].areaHectares).toBeGreaterThan(100);
+  });
+
+  it("writes KML that can be imported back", () => {
+    const file = exportFields([field], "kml", field.name);
+    const preview = parseFieldFile(file.fileName, file.content);
+
+    expect(preview.features[0].name).toBe("Talhão Sede");
+    expect(preview.features[0].properties.cultura).toBe("soja");
+  });
+
+  it("writes ISOXML partfields inside a TASKDATA folder", () => {
+    const file = exportFields([field], "isoxml", field.name);
+    const xml = strFromU8(unzipSync(file.content)["TASKDATA/TASKDATA.XML"]);
+
+    expect(xml).toContain('<FRM A="FRM1" B="Fazenda Boa Vista"/>');
+    expect(xml).toContain('<CTP A="CTP1" B="soja"/>');
+    expect(xml).toContain('<PFD A="PFD1" B="7" C="Talhão Sede" D="1185000" F="FRM1" G="CTP1">');
+    expect(xml.match(/<PNT /g)).toHaveLength(5);
+  });
+
+  it("rejects fields without boundaries", () => {
+    expect(() => exportFields([{ ...field, geometry: null }], "kml", "x")).toThrow("Nenhum campo");
+  });
+});
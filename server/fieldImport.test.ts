@@ -0,0 +1,212 @@
+import { describe, expect, it } from "vitest";
+import { zipSync, strToU8 } from "fflate";
+import { detectImportFormat, parseFieldFile } from "./services/fieldImport";
+
+const SIRGAS_UTM_22S_PRJ =
+  'PROJCS["SIRGAS_2000_UTM_Zone_22S",GEOGCS["GCS_SIRGAS_2000",DATUM["D_SIRGAS_2000",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]],PROJECTION["Transverse_Mercator"],PARAMETER["False_Easting",500000.0],PARAMETER["False_Northing",10000000.0],PARAMETER["Central_Meridian",-51.0],PARAMETER["Scale_Factor",0.9996],PARAMETER["Latitude_Of_Origin",0.0],UNIT["Meter",1.0]]';
+
+// Shapefile mínimo de polígonos (um anel por registro, sentido horário)
+function buildShp(rings: number[][][]): Uint8Array {
+  const records = rings.map(ring => {
+    const content = new DataView(new ArrayBuffer(44 + 4 + ring.length * 16));
+    content.setInt32(0, 5, true);
+    content.setInt32(36, 1, true);
+    content.setInt32(40, ring.length, true);
+    content.setInt32(44, 0, true);
+    ring.forEach(([x, y], i) => {
+      content.setFloat64(48 + i * 16, x, true);
+      content.setFloat64(56 + i * 16, y, true);
+    });
+    return new Uint8Array(content.buffer);
+  });
+
+  const total = 100 + records.reduce((sum, r) => sum + 8 + r.byteLength, 0);
+  const out = new Uint8Array(total);
+  const view = new DataView(out.buffer);
+  view.setInt32(0, 9994, false);
+  view.setInt32(24, total / 2, false);
+  view.setInt32(28, 1000, true);
+  view.setInt32(32, 5, true);
+
+  let offset = 100;
+  records.forEach((record, i) => {
+    view.setInt32(offset, i + 1, false);
+    view.setInt32(offset + 4, record.byteLength / 2, false);
+    out.set(record, offset + 8);
+    offset += 8 + record.byteLength;
+  });
+  return out;
+}
+
+// DBF com uma única coluna de texto NOME
+function buildDbf(names: string[]): Uint8Array {
+  const fieldLength = 20;
+  const headerLength = 32 + 32 + 1;
+  const recordLength = 1 + fieldLength;
+  const out = new Uint8Array(headerLength + names.length * recordLength + 1);
+  const view = new DataView(out.buffer);
+  out[0] = 3;
+  view.setUint32(4, names.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+  out.set(strToU8("NOME"), 32);
+  out[32 + 11] = "C".charCodeAt(0);
+  out[32 + 16] = fieldLength;
+  out[64] = 0x0d;
+  names.forEach((name, i) => {
+    const offset = headerLength + i * recordLength;
+    out[offset] = 0x20;
+    out.set(strToU8(name.padEnd(fieldLength)), offset + 1);
+  });
+  out[out.length - 1] = 0x1a;
+  return out;
+}
+
+describe("field import", () => {
+  it("detects formats by extension", () => {
+    expect(detectImportFormat("car.zip")).toBe("shapefile");
+    expect(detectImportFormat("Talhoes.KMZ")).toBe("kmz");
+    expect(detectImportFormat("trilha.gpx")).toBe("gpx");
+    expect(detectImportFormat("mapa.pdf")).toBeNull();
+  });
+
+  it("reads a zipped shapefile and reprojects SIRGAS 2000 / UTM 22S", () => {
+    // Quadrado de 1 km x 1 km (100 ha) em torno do meridiano central
+    const square = [
+      [500000, 8000000],
+      [500000, 8001000],
+      [501000, 8001000],
+      [501000, 8000000],
+      [500000, 8000000],
+    ];
+    const zip = zipSync({
+      "talhoes.shp": buildShp([square]),
+      "talhoes.dbf": buildDbf(["Talhão Sede"]),
+      "talhoes.prj": strToU8(SIRGAS_UTM_22S_PRJ),
+    });
+
+    const preview = parseFieldFile("talhoes.zip", zip);
+
+    expect(preview.format).toBe("shapefile");
+    expect(preview.features).toHaveLength(1);
+    const [feature] = preview.features;
+    expect(feature.name).toBe("Talhão Sede");
+    expect(feature.properties.NOME).toBe("Talhão Sede");
+    expect(feature.areaHectares).toBeGreaterThan(99);
+    expect(feature.areaHectares).toBeLessThan(101);
+    expect(feature.center.lng).toBeCloseTo(-50.995, 2);
+    expect(feature.center.lat).toBeCloseTo(-18.07, 1);
+    expect(feature.boundaries).toHaveLength(4);
+  });
+
+  it("reads KML placemarks with their names", () => {
+    const content = `<?xml version="1.0" encoding="UTF-8"?>
+<kml xmlns="http://www.opengis.net/kml/2.2"><Document>
+  <Placemark><name>Talhão 1</name><Polygon><outerBoundaryIs><LinearRing><coordinates>
+    -47.80,-15.80 -47.79,-15.80 -47.79,-15.81 -47.80,-15.81 -47.80,-15.80
+  </coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark>
+  <Placemark><name>Sede</name><Point><coordinates>-47.8,-15.8</coordinates></Point></Placemark>
+</Document></kml>`;
+
+    const preview = parseFieldFile("fazenda.kml", strToU8(content));
+
+    expect(preview.features).toHaveLength(1);
+    expect(preview.features[0].name).toBe("Talhão 1");
+    expect(preview.warnings.some(w => w.includes("ignorado"))).toBe(true);
+  });
+
+  it("reads KML inside a KMZ archive", () => {
+    const content = `<kml xmlns="http://www.opengis.net/kml/2.2"><Placemark><name>Pivô</name>
+<Polygon><outerBoundaryIs><LinearRing><coordinates>
+-47.80,-15.80 -47.79,-15.80 -47.79,-15.81 -47.80,-15.80
+</coordinates></LinearRing></outerBoundaryIs></Polygon></Placemark></kml>`;
+
+    const preview = parseFieldFile("pivo.kmz", zipSync({ "doc.kml": strToU8(content) }));
+
+    expect(preview.format).toBe("kmz");
+    expect(preview.features[0].name).toBe("Pivô");
+  });
+
+  it("closes GPX tracks into boundaries", () => {
+    const content = `<gpx version="1.1" xmlns="http://www.topografix.com/GPX/1/1"><trk><name>Volta do talhão</name><trkseg>
+<trkpt lat="-15.80" lon="-47.80"/><trkpt lat="-15.80" lon="-47.79"/><trkpt lat="-15.81" lon="-47.79"/><trkpt lat="-15.81" lon="-47.80"/>
+</trkseg></trk></gpx>`;
+
+    const preview = parseFieldFile("volta.gpx", strToU8(content));
+
+    expect(preview.features).toHaveLength(1);
+    expect(preview.features[0].name).toBe("Volta do talhão");
+    expect(preview.features[0].areaHectares).toBeGreaterThan(100);
+    expect(preview.warnings.some(w => w.includes("fechada"))).toBe(true);
+  });
+
+  it("lists every CAR feature with its type and an automatic name", () => {
+    const square = (lng: number, lat: number) => ({
+      type: "Polygon",
+      coordinates: [[[lng, lat], [lng + 0.01, lat], [lng + 0.01, lat + 0.01], [lng, lat + 0.01], [lng, lat]]],
+    });
+    const content = JSON.stringify({
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", properties: { tipo: "area_imovel" }, geometry: square(-47.8, -15.8) },
+        { type: "Feature", properties: { tipo: "area_consolidada" }, geometry: square(-47.8, -15.8) },
+        { type: "Feature", properties: { tipo: "area_consolidada", nome: "Gleba Norte" }, geometry: square(-47.79, -15.8) },
+        { type: "Feature", properties: { tipo: "area_consolidada" }, geometry: square(-47.78, -15.8) },
+        { type: "Feature", properties: { tipo: "app" }, geometry: square(-47.77, -15.8) },
+      ],
+    });
+
+    const preview = parseFieldFile("car.geojson", strToU8(content));
+
+    expect(preview.features.map(f => f.tipo)).toEqual(["total", "consolidada", "consolidada", "consolidada", "app"]);
+    expect(preview.features.map(f => f.name)).toEqual([
+      "Imóvel 1",
+      "Área consolidada 1",
+      "Gleba Norte",
+      "Área consolidada 2",
+      "APP 1",
+    ]);
+    expect(preview.features[1].areaHectares).toBeGreaterThan(100);
+  });
+
+  it("classifies SICAR shapefile layers by file name", () => {
+    const ring = [[-47.8, -15.8], [-47.8, -15.79], [-47.79, -15.79], [-47.79, -15.8], [-47.8, -15.8]];
+    const zip = zipSync({
+      "RESERVA_LEGAL.shp": buildShp([ring]),
+      "talhoes.shp": buildShp([ring]),
+    });
+
+    const preview = parseFieldFile("sicar.zip", zip);
+
+    const byLayer = Object.fromEntries(preview.features.map(f => [f.layer, f]));
+    expect(byLayer.reserva_legal.tipo).toBe("reservaLegal");
+    expect(byLayer.reserva_legal.name).toBe("Reserva Legal 1");
+    expect(byLayer.talhoes.tipo).toBeNull();
+    expect(byLayer.talhoes.name).toBe("talhoes 1");
+  });
+
+  it("skips malformed GeoJSON geometries instead of importing them", () => {
+    const content = JSON.stringify({
+      type: "FeatureCollection",
+      features: [
+        null,
+        { type: "Feature", properties: "Talhão", geometry: { type: "Polygon", coordinates: [-47.8, -15.8] } },
+        { type: "Feature", geometry: { type: "MultiLineString", coordinates: [[[-47.8, -15.8], "x"]] } },
+        {
+          type: "Feature",
+          properties: null,
+          geometry: { type: "LineString", coordinates: [[-47.8, -15.8], [-47.79, -15.8], [-47.79, -15.79]] },
+        },
+      ],
+    });
+
+    const preview = parseFieldFile("trilhas.geojson", strToU8(content));
+
+    expect(preview.features.map(f => [f.name, f.properties])).toEqual([["trilhas 1", {}]]);
+    expect(preview.warnings).toContain("3 elemento(s) sem polígono ignorado(s) (pontos ou linhas curtas)");
+  });
+
+  it("rejects unsupported files", () => {
+    expect(() => parseFieldFile("mapa.pdf", new Uint8Array())).toThrow("Formato não suportado");
+  });
+});
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import type { NdviData } from "../drizzle/schema";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import { mergeGeometries, splitGeometry, type Position } from "./services/geometry";
+import { mergeNdviSeries, splitFieldNames } from "./services/fieldLineage";
+
+function square(lng: number, lat: number, size: number): Position[] {
+  return [
+    [lng, lat],
+    [lng + size, lat],
+    [lng + size, lat + size],
+    [lng, lat + size],
+    [lng, lat],
+  ];
+}
+
+const LEFT = { type: "Polygon" as const, coordinates: [square(-47.8, -15.81, 0.01)] };
+const RIGHT = { type: "Polygon" as const, coordinates: [square(-47.79, -15.81, 0.01)] };
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(userId = 1): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+function ndviRow(fieldId: number, date: string, average: number): NdviData {
+  return {
+    id: 0,
+    fieldId,
+    captureDate: new Date(date),
+    ndviAverage: average,
+    ndviMin: average - 100,
+    ndviMax: average + 100,
+    healthStatus: "good",
+    cloudCoverage: 10,
+    imageUrl: null,
+    thumbnailUrl: null,
+    problemAreas: null,
+    source: "sentinel-2",
+    createdAt: new Date(),
+  };
+}
+
+describe("field split and merge", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    seed.organization({ id: 1, name: "Sede", ownerId: 1 });
+    seed.organization({ id: 2, name: "Vizinho", ownerId: 2 });
+    seed.member({ organizationId: 1, userId: 1, role: "owner" });
+    seed.member({ organizationId: 2, userId: 2, role: "owner" });
+    seed.field({ id: 1, userId: 1, organizationId: 1, farmId: 3, name: "Talhão 1", geometry: LEFT, areaHectares: 11900 });
+    seed.field({ id: 2, userId: 1, organizationId: 1, farmId: 4, name: "Talhão 2", geometry: RIGHT, areaHectares: 11900 });
+    seed.field({ id: 9, userId: 2, organizationId: 2, name: "Vizinho", geometry: RIGHT, areaHectares: 11900 });
+  });
+
+  it("splits a polygon by a line crossing it", () => {
+    const parts = splitGeometry(LEFT, [[-47.795, -15.82], [-47.795, -15.79]]);
+    expect(parts).toHaveLength(2);
+    expect(() => splitGeometry(LEFT, [[-47.795, -15.82], [-47.795, -15.805]])).toThrow(
+      "A linha precisa atravessar o campo de um lado ao outro"
+    );
+  });
+
+  it("merges touching fields into a polygon and distant ones into a multipolygon", () => {
+    expect(mergeGeometries([LEFT, RIGHT]).type).toBe("Polygon");
+    const far = { type: "Polygon" as const, coordinates: [square(-47.7, -15.81, 0.01)] };
+    expect(mergeGeometries([LEFT, far]).type).toBe("MultiPolygon");
+  });
+
+  it("combines NDVI readings of the same date weighted by area", () => {
+    const series = mergeNdviSeries([
+      { areaHectares: 30, rows: [ndviRow(1, "2025-01-10T10:00:00Z", 800), ndviRow(1, "2025-01-20T10:00:00Z", 700)] },
+      { areaHectares: 10, rows: [ndviRow(2, "2025-01-10T13:00:00Z", 400)] },
+    ], 20);
+
+    expect(series).toHaveLength(2);
+    expect(series[0]).toMatchObject({ fieldId: 20, ndviAverage: 700, ndviMin: 300, ndviMax: 900 });
+    expect(series[1]).toMatchObject({ ndviAverage: 700 });
+  });
+
+  it("names split parts after the original field", () => {
+    expect(splitFieldNames("Talhão 1", 3, ["Norte"])).toEqual(["Norte", "Talhão 1 B", "Talhão 1 C"]);
+  });
+
+  it("creates the split parts with server-computed geometry", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const result = await caller.fields.split({ id: 1, line: [[-47.795, -15.82], [-47.795, -15.79]] });
+
+    const parts = tables.fields.filter(field => result.fieldIds.includes(field.id));
+    expect(parts.map(part => part.name)).toEqual(["Talhão 1 A", "Talhão 1 B"]);
+    expect(parts.every(part => part.farmId === 3 && (part.areaHectares ?? 0) > 5000)).toBe(true);
+    expect(tables.fields.find(field => field.id === 1)?.isActive).toBe(false);
+    expect(tables.fieldLineage.map(row => [row.parentFieldId, row.childFieldId, row.operation])).toEqual(
+      result.fieldIds.map(id => [1, id, "split"])
+    );
+  });
+
+  it("rejects a split that would go past the field limit", async () => {
+    // Com os dois talhões e mais três, o usuário já está no limite de 5; o original desativado libera uma vaga
+    [3, 4, 5].forEach(n => seed.field({ userId: 1, organizationId: 1, name: `Talhão ${n}` }));
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(caller.fields.split({ id: 1, line: [[-47.795, -15.82], [-47.795, -15.79]] })).rejects.toMatchObject({
+      code: "FORBIDDEN",
+      message: "Seu plano permite 5 campos. Você pode criar mais 0.",
+    });
+    expect(vi.mocked(db.splitField).mock.calls[0][2]).toBe(5);
+    expect(tables.fields.filter(field => field.isActive)).toHaveLength(6);
+  });
+
+  it("merges owned fields and drops the farm when they differ", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const result = await caller.fields.merge({ fieldIds: [1, 2], name: "Talhão unido" });
+
+    const [parents] = vi.mocked(db.mergeFields).mock.calls[0];
+    expect(parents.map(p => p.id)).toEqual([1, 2]);
+    expect(tables.fields.find(field => field.id === result.id)).toMatchObject({ name: "Talhão unido", farmId: null, isActive: true });
+    expect(tables.fields.filter(field => [1, 2].includes(field.id)).map(field => field.isActive)).toEqual([false, false]);
+  });
+
+  it("refuses to merge or split fields of another user", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    await expect(caller.fields.merge({ fieldIds: [1, 9] })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await expect(caller.fields.split({ id: 9, line: [[0, 0], [1, 1]] })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    expect(db.mergeFields).not.toHaveBeenCalled();
+    expect(db.splitField).not.toHaveBeenCalled();
+  });
+});
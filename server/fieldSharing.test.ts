@@ -0,0 +1,174 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import type { InsertFieldShare } from "../drizzle/schema";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import { hasAccess, shareStatus, strongestPermission } from "./services/fieldSharing";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(userId = 1, email = "test@example.com"): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email,
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: { host: "campovivo.app" } } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+function share(overrides: Partial<InsertFieldShare>) {
+  return seed.fieldShare({
+    fieldId: 1,
+    ownerId: 1,
+    sharedWithUserId: 2,
+    permission: "view",
+    token: "tok",
+    acceptedAt: new Date(),
+    ...overrides,
+  });
+}
+
+describe("field sharing", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    // Usuário 1 gestor do campo 1; o usuário 2 (agro@example.com) é de outra organização
+    seed.user({ id: 1, email: "test@example.com" });
+    seed.user({ id: 2, email: "agro@example.com" });
+    seed.organization({ id: 1, name: "Sede", ownerId: 1 });
+    seed.organization({ id: 2, name: "Agronomia", ownerId: 2 });
+    seed.member({ organizationId: 1, userId: 1, role: "owner" });
+    seed.member({ organizationId: 2, userId: 2, role: "owner" });
+    seed.field({ id: 1, userId: 1, organizationId: 1, name: "Talhão Sede" });
+    seed.crop({ id: 5, fieldId: 1, userId: 1, cropType: "soja" });
+  });
+
+  it("ranks permissions and ignores revoked or expired shares", () => {
+    const now = new Date();
+    expect(hasAccess("edit", "comment")).toBe(true);
+    expect(hasAccess("comment", "edit")).toBe(false);
+    expect(strongestPermission([
+      { permission: "edit", expiresAt: new Date(now.getTime() - DAY), revokedAt: null },
+      { permission: "comment", expiresAt: null, revokedAt: new Date() },
+      { permission: "view", expiresAt: new Date(now.getTime() + DAY), revokedAt: null },
+    ], now)).toBe("view");
+    expect(shareStatus({ email: "a@b.com", acceptedAt: null, expiresAt: null, revokedAt: null })).toBe("pending");
+  });
+
+  it("lets a shared user read but not edit with view permission", async () => {
+    share({ permission: "view" });
+    const caller = appRouter.createCaller(createAuthContext(2));
+
+    const field = await caller.fields.getById({ id: 1 });
+    expect(field.access).toBe("view");
+    await expect(caller.ndvi.getByField({ fieldId: 1 })).resolves.toEqual([]);
+    await expect(caller.notes.create({ fieldId: 1, content: "Mancha no talhão" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(caller.fields.update({ id: 1, name: "Outro" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("allows comments with comment permission and hides the field once the share expires", async () => {
+    share({ permission: "comment" });
+    const caller = appRouter.createCaller(createAuthContext(2));
+    await caller.notes.create({ fieldId: 1, content: "Mancha no talhão" });
+    expect(tables.fieldNotes.map(note => [note.userId, note.content])).toEqual([[2, "Mancha no talhão"]]);
+
+    tables.fieldShares[0].expiresAt = new Date(Date.now() - DAY);
+    await expect(caller.fields.getById({ id: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("follows the share, not the role in the user's own organization", async () => {
+    share({ permission: "edit" });
+    vi.mocked(db.resolveMembership).mockResolvedValueOnce({ userId: 2, organizationId: 2, role: "viewer" });
+    const caller = appRouter.createCaller(createAuthContext(2));
+
+    await expect(caller.crops.update({ id: 5, status: "failed" })).resolves.toEqual({ success: true });
+    expect(db.updateCrop).toHaveBeenCalledWith(5, { status: "failed" });
+    expect(tables.crops[0].status).toBe("failed");
+  });
+
+  it("invites by email, notifying existing users, and only the owner can invite", async () => {
+    const owner = appRouter.createCaller(createAuthContext(1));
+    const result = await owner.sharing.create({ fieldId: 1, email: " Agro@Example.com ", permission: "edit" });
+
+    expect(result.link).toBe(`https://campovivo.app/share/${result.token}`);
+    expect(result.notified).toBe(true);
+    expect(vi.mocked(db.createFieldShare).mock.calls[0][0]).toMatchObject({
+      email: "agro@example.com",
+      permission: "edit",
+    });
+    expect(vi.mocked(db.createFieldShare).mock.calls[0][0].sharedWithUserId).toBeUndefined();
+    expect(vi.mocked(db.createNotification).mock.calls[0][0]).toMatchObject({ userId: 2, actionUrl: `/share/${result.token}` });
+
+    // Sem conta no app, o dono envia o link
+    await expect(owner.sharing.create({ fieldId: 1, email: "novo@example.com" })).resolves.toMatchObject({ notified: false });
+
+    share({ permission: "edit" });
+    const editor = appRouter.createCaller(createAuthContext(2));
+    await expect(editor.sharing.create({ fieldId: 1, email: "x@example.com" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+
+  it("lets any owner of the field revoke a share, not only whoever created it", async () => {
+    // Compartilhamento criado por um gestor que já saiu da organização
+    share({ id: 7, ownerId: 9, permission: "edit" });
+
+    const owner = appRouter.createCaller(createAuthContext(1));
+    await expect(owner.sharing.delete({ id: 7 })).resolves.toEqual({ success: true });
+    expect(db.revokeFieldShare).toHaveBeenCalledWith(7);
+    expect(tables.fieldShares[0].revokedAt).toBeInstanceOf(Date);
+  });
+
+  it("accepts invites only for the invited email and rejects expired links", async () => {
+    share({ id: 3, token: "invite", email: "agro@example.com", sharedWithUserId: null, acceptedAt: null });
+    share({ id: 4, token: "old-link", sharedWithUserId: null, expiresAt: new Date(Date.now() - DAY) });
+
+    const stranger = appRouter.createCaller(createAuthContext(3, "other@example.com"));
+    await expect(stranger.sharing.accept({ token: "invite" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(stranger.sharing.accept({ token: "old-link" })).rejects.toMatchObject({ code: "NOT_FOUND" });
+
+    const invitee = appRouter.createCaller(createAuthContext(2, "agro@example.com"));
+    await expect(invitee.sharing.accept({ token: "invite" })).resolves.toEqual({ fieldId: 1, permission: "view" });
+    expect(vi.mocked(db.updateFieldShare).mock.calls[0]).toEqual([3, expect.objectContaining({ sharedWithUserId: 2 })]);
+    await expect(invitee.fields.getById({ id: 1 })).resolves.toMatchObject({ access: "view" });
+  });
+
+  it("gives each user who opens a link their own share tied to the link", async () => {
+    const expiresAt = new Date(Date.now() + 7 * DAY);
+    share({ id: 5, token: "link", sharedWithUserId: null, permission: "comment", expiresAt });
+
+    const caller = appRouter.createCaller(createAuthContext(3, "other@example.com"));
+    await caller.sharing.accept({ token: "link" });
+
+    expect(vi.mocked(db.createFieldShare).mock.calls[0][0]).toMatchObject({
+      sharedWithUserId: 3,
+      parentShareId: 5,
+      permission: "comment",
+      expiresAt,
+    });
+    await expect(caller.fields.getById({ id: 1 })).resolves.toMatchObject({ access: "comment" });
+  });
+
+  it("only lets the owner revoke a share", async () => {
+    share({ id: 6, ownerId: 1 });
+    // Quem recebeu o campo o vê, mas não gerencia os compartilhamentos
+    await expect(appRouter.createCaller(createAuthContext(2)).sharing.delete({ id: 6 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(appRouter.createCaller(createAuthContext(3)).sharing.delete({ id: 6 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+    await appRouter.createCaller(createAuthContext(1)).sharing.delete({ id: 6 });
+    expect(db.revokeFieldShare).toHaveBeenCalledWith(6);
+  });
+});
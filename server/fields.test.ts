@@ -4,7 +4,8 @@ import type { TrpcContext } from "./_core/context";
 
 // Mock the database functions
 vi.mock("./db", () => ({
-  getFieldsByUserId: vi.fn().mockResolvedValue([
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldsByOrganizationId: vi.fn().mockResolvedValue([
     {
       id: 1,
       userId: 1,
@@ -53,9 +54,9 @@ vi.mock("./db", () => ({
   getWeatherByFieldId: vi.fn().mockResolvedValue([]),
   getNdviByFieldId: vi.fn().mockResolvedValue([]),
   getRotationByFieldId: vi.fn().mockResolvedValue([]),
-  getCropsByUserId: vi.fn().mockResolvedValue([]),
-  getFieldNotesByUserId: vi.fn().mockResolvedValue([]),
-  getTasksByUserId: vi.fn().mockResolvedValue([]),
+  getCropsByOrganizationId: vi.fn().mockResolvedValue([]),
+  getFieldNotesByOrganizationId: vi.fn().mockResolvedValue([]),
+  getTasksByOrganizationId: vi.fn().mockResolvedValue([]),
   getDashboardOverview: vi.fn().mockResolvedValue({
     stats: { totalFields: 1, activeCrops: 0, pendingTasks: 0, unreadAlerts: 0 },
     fields: [],
@@ -69,7 +70,7 @@ vi.mock("./db", () => ({
     pendingTasks: 0,
     unreadAlerts: 0,
   }),
-  getPendingTasksByUserId: vi.fn().mockResolvedValue([]),
+  getPendingTasksByOrganizationId: vi.fn().mockResolvedValue([]),
   getRecentNotesByUserId: vi.fn().mockResolvedValue([]),
 }));
 
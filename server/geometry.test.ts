@@ -0,0 +1,156 @@
+import { describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import {
+  getFieldCenter,
+  getFieldGeometry,
+  normalizeGeometry,
+  parseGeometry,
+  prepareFieldGeometry,
+} from "./services/geometry";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  createField: vi.fn().mockResolvedValue(5),
+  getFieldById: vi.fn().mockResolvedValue({ id: 5, userId: 1, name: "Talhão" }),
+  updateField: vi.fn().mockResolvedValue(undefined),
+  getCarRecordsByOrganizationId: vi.fn().mockResolvedValue([]),
+}));
+
+// Quadrado de ~1,1 km x 1,1 km no DF (0,01° de lado)
+const SQUARE_LATLNG = [
+  { lat: -15.8, lng: -47.8 },
+  { lat: -15.8, lng: -47.79 },
+  { lat: -15.81, lng: -47.79 },
+  { lat: -15.81, lng: -47.8 },
+];
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(): TrpcContext {
+  const user = {
+    id: 1,
+    openId: "test-user",
+    email: "test@example.com",
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("field geometry", () => {
+  it("parses every stored boundaries format into GeoJSON", () => {
+    const fromLatLng = parseGeometry(JSON.stringify(SQUARE_LATLNG));
+    const fromPairs = parseGeometry(SQUARE_LATLNG.map(p => [p.lng, p.lat]));
+    const fromFeature = parseGeometry({ type: "Feature", properties: {}, geometry: fromLatLng });
+    // Registros antigos gravaram a string JSON dentro da coluna json
+    const doubleEncoded = parseGeometry(JSON.stringify(JSON.stringify(SQUARE_LATLNG)));
+
+    expect(fromLatLng).toEqual({ type: "Polygon", coordinates: [SQUARE_LATLNG.map(p => [p.lng, p.lat])] });
+    expect(fromPairs).toEqual(fromLatLng);
+    expect(fromFeature).toEqual(fromLatLng);
+    expect(doubleEncoded).toEqual(fromLatLng);
+    expect(parseGeometry("not json")).toBeNull();
+  });
+
+  it("rejects GeoJSON whose coordinates are not rings of positions", () => {
+    expect(parseGeometry({ type: "Polygon", coordinates: [-47.8, -15.8] })).toBeNull();
+    expect(parseGeometry({ type: "MultiPolygon", coordinates: [[["-47.8", "-15.8"]]] })).toBeNull();
+    expect(parseGeometry({ type: "FeatureCollection", features: "none" })).toBeNull();
+    expect(parseGeometry([[]])).toBeNull();
+  });
+
+  it("closes open rings and orients the outer ring counter-clockwise", () => {
+    const { geometry, repaired } = normalizeGeometry(SQUARE_LATLNG);
+    const ring = (geometry.coordinates as number[][][])[0];
+
+    expect(repaired).toBe(true);
+    expect(ring[0]).toEqual(ring[ring.length - 1]);
+    // Anti-horário: área com sinal positiva
+    let signed = 0;
+    for (let i = 0; i < ring.length - 1; i++) {
+      signed += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+    }
+    expect(signed).toBeGreaterThan(0);
+  });
+
+  it("splits self-intersecting rings into valid parts", () => {
+    const bowtie = [[-47.8, -15.8], [-47.79, -15.81], [-47.79, -15.8], [-47.8, -15.81], [-47.8, -15.8]];
+
+    const { geometry, repaired } = normalizeGeometry({ type: "Polygon", coordinates: [bowtie] });
+
+    expect(repaired).toBe(true);
+    expect(geometry.type).toBe("MultiPolygon");
+    expect(geometry.coordinates).toHaveLength(2);
+  });
+
+  it("rejects rings with fewer than three points", () => {
+    expect(() => normalizeGeometry(SQUARE_LATLNG.slice(0, 2))).toThrow("pelo menos 3 pontos");
+    expect(() => normalizeGeometry({ type: "Point", coordinates: [0, 0] })).toThrow("Formato de limites inválido");
+  });
+
+  it("computes geodesic area, perimeter and centroid", () => {
+    const result = prepareFieldGeometry(SQUARE_LATLNG);
+
+    expect(result.areaHectares).toBeGreaterThan(118);
+    expect(result.areaHectares).toBeLessThan(120);
+    expect(result.perimeterMeters).toBeGreaterThan(4300);
+    expect(result.perimeterMeters).toBeLessThan(4400);
+    expect(result.centroid.lat).toBeCloseTo(-15.805, 4);
+    expect(result.centroid.lng).toBeCloseTo(-47.795, 4);
+    expect(result.boundaries).toHaveLength(4);
+  });
+
+  it("prefers the canonical geometry column and falls back to the stored center", () => {
+    const geometry = normalizeGeometry(SQUARE_LATLNG).geometry;
+
+    expect(getFieldGeometry({ geometry, boundaries: "[]" })).toEqual(geometry);
+    expect(getFieldCenter({ latitude: "-10.5", longitude: "-50.2", boundaries: SQUARE_LATLNG })).toEqual({ lat: -10.5, lng: -50.2 });
+    expect(getFieldCenter({ latitude: null, longitude: null, boundaries: SQUARE_LATLNG })?.lat).toBeCloseTo(-15.805, 4);
+    expect(getFieldCenter({})).toBeNull();
+  });
+
+  it("computes area and center on the server when creating a field", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await caller.fields.create({
+      name: "Talhão",
+      boundaries: JSON.stringify(SQUARE_LATLNG),
+    });
+
+    const saved = vi.mocked(db.createField).mock.calls[0][0];
+    expect(saved.areaHectares).toBeGreaterThan(11800);
+    expect(saved.perimeterMeters).toBeGreaterThan(4300);
+    expect(saved.latitude).toBe("-15.805000");
+    expect(saved.geometry).toMatchObject({ type: "Polygon" });
+    expect(JSON.parse(saved.boundaries as string)).toHaveLength(4);
+  });
+
+  it("ignores area and center sent by the client", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+    const forged = { areaHectares: 1, latitude: "0", longitude: "0" };
+
+    await caller.fields.update({ id: 5, name: "Talhão Norte", ...forged } as { id: number; name: string });
+    expect(db.updateField).toHaveBeenCalledWith(5, { name: "Talhão Norte" });
+    vi.mocked(db.updateField).mockClear();
+  });
+
+  it("rejects invalid boundaries on update", async () => {
+    const caller = appRouter.createCaller(createAuthContext());
+
+    await expect(
+      caller.fields.update({ id: 5, boundaries: [{ lat: -15.8, lng: -47.8 }] })
+    ).rejects.toThrow("pelo menos 3 pontos");
+    expect(db.updateField).not.toHaveBeenCalled();
+  });
+});
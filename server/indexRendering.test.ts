@@ -0,0 +1,134 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { PNG } from "pngjs";
+import { BadRequestError } from "@shared/_core/errors";
+import { ENV } from "./_core/env";
+import { registerNdviRoutes } from "./_core/ndviRoutes";
+import { fakeSatelliteProvider } from "./services/fakeSatellite";
+import { indexColorScale, loadSceneRaster, renderRasterImage, renderRasterTile } from "./services/indexRendering";
+import type { IndexRaster, SatelliteProvider } from "./services/satellite";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => (id === 7 ? { id: 7, userId: 1, organizationId: 1, name: "Talhão 7", geometry: square } : undefined)),
+}));
+
+// Sessão do usuário 1, dono do campo
+vi.mock("./_core/sdk", () => ({ sdk: { authenticateRequest: vi.fn(async () => ({ id: 1 })) } }));
+
+// Quadrado com um buraco no meio (área de exclusão)
+const square = {
+  type: "Polygon" as const,
+  coordinates: [
+    [[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]],
+    [[-47.006, -22.006], [-47.006, -22.004], [-47.004, -22.004], [-47.004, -22.006], [-47.006, -22.006]],
+  ],
+};
+const bbox: [number, number, number, number] = [-47.01, -22.01, -47.0, -22.0];
+const color = indexColorScale("ndvi");
+
+// Grade 10x10 com NDVI 0,7 e a primeira linha sob nuvem
+function raster(): IndexRaster {
+  const values = new Float32Array(100);
+  values.forEach((_, i) => {
+    values[i] = i < 10 ? NaN : 0.7;
+  });
+  return { width: 10, height: 10, bbox, values };
+}
+
+const alphaAt = (png: PNG, x: number, y: number) => png.data[(y * png.width + x) * 4 + 3];
+
+describe("index rendering", () => {
+  it("draws the scene values clipped to the field and its holes", async () => {
+    const image = await renderRasterImage(raster(), square, color);
+    expect(image.contentType).toBe("image/png");
+
+    const png = PNG.sync.read(image.data);
+    expect([png.width, png.height]).toEqual([1020, 1020]); // cada pixel da cena vira um bloco de 102
+    expect(alphaAt(png, 100, 900)).toBe(255);
+    expect(alphaAt(png, 510, 510)).toBe(0); // buraco
+    expect(alphaAt(png, 510, 50)).toBe(0); // nuvem
+    expect([...png.data.subarray((900 * 1020 + 100) * 4, (900 * 1020 + 100) * 4 + 3)]).toEqual(color(0.7));
+  });
+
+  it("encodes WebP on request", async () => {
+    const image = await renderRasterImage(raster(), square, color, "webp");
+    expect(image.contentType).toBe("image/webp");
+    expect(image.data.subarray(0, 4).toString()).toBe("RIFF");
+    expect(image.data.subarray(8, 12).toString()).toBe("WEBP");
+  });
+
+  it("renders tiles clipped to the field", async () => {
+    // Tile z16 que cobre o canto sudoeste do campo
+    const png = PNG.sync.read((await renderRasterTile(raster(), square, { z: 16, x: 24211, y: 36876 }, color)).data);
+    const opaque = png.data.filter((_, i) => i % 4 === 3 && png.data[i] > 0).length;
+    expect(opaque).toBeGreaterThan(0);
+    expect(opaque).toBeLessThan(256 * 256);
+  });
+
+  it("keeps the scene values in memory until the boundary changes", async () => {
+    const indexRaster = vi.fn(async () => raster());
+    const provider: SatelliteProvider = { ...fakeSatelliteProvider, name: "cache-test", indexRaster };
+    const date = new Date("2026-10-02T13:30:00Z");
+
+    await loadSceneRaster(provider, { fieldId: 7, geometry: square }, { index: "ndvi", date });
+    await loadSceneRaster(provider, { fieldId: 7, geometry: square }, { index: "ndvi", date: new Date("2026-10-02T18:00:00Z") });
+    expect(indexRaster).toHaveBeenCalledTimes(1);
+
+    const [outer] = square.coordinates;
+    await loadSceneRaster(provider, { fieldId: 7, geometry: { type: "Polygon", coordinates: [outer] } }, { index: "ndvi", date });
+    expect(indexRaster).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("index rendering endpoints", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    ENV.satelliteProvider = "fake";
+    const app = express();
+    registerNdviRoutes(app);
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    ENV.satelliteProvider = "";
+  });
+
+  it("serves clipped images and tiles in PNG or WebP", async () => {
+    const image = await fetch(`${baseUrl}/api/ndvi-image/7?date=2026-10-02`);
+    expect(image.status).toBe(200);
+    const png = PNG.sync.read(Buffer.from(await image.arrayBuffer()));
+    expect(alphaAt(png, Math.floor(png.width / 2), Math.floor(png.height / 2))).toBe(0); // buraco
+    expect(alphaAt(png, Math.floor(png.width / 4), Math.floor(png.height / 2))).toBe(255);
+
+    const webp = await fetch(`${baseUrl}/api/ndvi-image/7?date=2026-10-02&format=webp`);
+    expect(webp.headers.get("content-type")).toBe("image/webp");
+
+    const tile = await fetch(`${baseUrl}/api/ndvi-tiles/7/16/24211/36876.webp?date=2026-10-02`);
+    expect(tile.status).toBe(200);
+    expect(tile.headers.get("content-type")).toBe("image/webp");
+
+    expect((await fetch(`${baseUrl}/api/ndvi-image/7?date=2026-10-02&format=gif`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/api/ndvi-tiles/7/16/24211/36876.gif?date=2026-10-02`)).status).toBe(400);
+  });
+
+  it("uses the provider image when it has no pixel values", async () => {
+    const indexRaster = vi.spyOn(fakeSatelliteProvider, "indexRaster")
+      .mockRejectedValueOnce(BadRequestError("Índice por pixel indisponível"));
+    const renderImage = vi.spyOn(fakeSatelliteProvider, "renderImage");
+
+    const image = await fetch(`${baseUrl}/api/ndvi-image/7?date=2026-09-02`);
+    expect(image.status).toBe(200);
+    expect(renderImage).toHaveBeenCalledTimes(1);
+
+    indexRaster.mockRestore();
+    renderImage.mockRestore();
+  });
+});
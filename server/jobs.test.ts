@@ -0,0 +1,194 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import * as weather from "./services/weather";
+import { tickJobs } from "./jobs";
+import { dueSlot, nextRun, retryDelayMs } from "./services/jobs";
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+vi.mock("./services/weather", async importOriginal => ({
+  ...(await importOriginal<typeof import("./services/weather")>()),
+  getCurrentWeather: vi.fn(),
+}));
+
+function createContext(role: "user" | "admin"): TrpcContext {
+  return {
+    user: { id: 1, openId: "user-1", name: "Ana", role } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+const at = (iso: string) => new Date(iso);
+
+// Horários de ontem já executados, como num agendador em dia
+function seedScheduledYesterday() {
+  const slots = [
+    ["weather-collection", "2026-10-17T08:00:00Z"],
+    ["weather-alerts", "2026-10-17T08:30:00Z"],
+    ["ndvi-ingestion", "2026-10-17T09:00:00Z"],
+    ["ndvi-problem-areas", "2026-10-17T09:30:00Z"],
+    ["ndvi-tile-prefetch", "2026-10-17T09:45:00Z"],
+    ["tile-cache-eviction", "2026-10-17T10:00:00Z"],
+  ];
+  slots.forEach(([jobName, slot]) => seed.jobRun({ jobName, scheduledFor: at(slot), status: "succeeded" }));
+}
+const todayRuns = () => tables.jobRuns.filter(r => r.scheduledFor >= at("2026-10-18T00:00:00Z"));
+
+// Previsão de 7 dias a partir de 18/10 com geada em 20 e 21/10
+function frostForecast() {
+  return {
+    current: {},
+    daily: Array.from({ length: 7 }, (_, i) => ({
+      date: `2026-10-${18 + i}`,
+      temperatureMin: i === 2 ? 2 : i === 3 ? -1 : 14,
+      temperatureMax: 26,
+      precipitation: i === 0 ? 4 : 0,
+      precipitationProbability: 10,
+      weatherCode: 1,
+    })),
+  } as unknown as weather.WeatherData;
+}
+
+describe("job schedules", () => {
+  it("finds the next and the latest due slot of a cron schedule", () => {
+    expect(nextRun("30 8 * * *", at("2026-10-18T08:30:00Z"))).toEqual(at("2026-10-19T08:30:00Z"));
+    expect(nextRun("*/15 * * * *", at("2026-10-18T10:07:42Z"))).toEqual(at("2026-10-18T10:15:00Z"));
+    expect(nextRun("0 6 * * 1", at("2026-10-18T12:00:00Z"))).toEqual(at("2026-10-19T06:00:00Z")); // segunda
+    expect(nextRun("0 0 1 1,7 *", at("2026-10-18T00:00:00Z"))).toEqual(at("2027-01-01T00:00:00Z"));
+    expect(() => nextRun("61 * * * *", new Date())).toThrow("Agenda inválida");
+
+    // Parado por três dias: só o horário mais recente
+    expect(dueSlot("0 8 * * *", at("2026-10-15T08:00:00Z"), at("2026-10-18T09:00:00Z"))).toEqual(at("2026-10-18T08:00:00Z"));
+    expect(dueSlot("0 8 * * *", at("2026-10-18T08:00:00Z"), at("2026-10-18T09:00:00Z"))).toBeNull();
+  });
+
+  it("backs off exponentially up to an hour", () => {
+    expect([1, 2, 3, 6].map(retryDelayMs)).toEqual([5 * 60_000, 10 * 60_000, 20 * 60_000, 60 * 60_000]);
+  });
+});
+
+describe("job runner", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    seedScheduledYesterday();
+    seed.field({ id: 10, userId: 1, name: "Talhão 1", latitude: "-20.000000", longitude: "-50.000000" });
+    seed.field({ id: 20, userId: 2, name: "Talhão 2", latitude: "-20.000000", longitude: "-50.000000" });
+  });
+
+  it("fans out due jobs per user and retries failures with backoff until they give up", async () => {
+    vi.mocked(weather.getCurrentWeather).mockRejectedValue(new Error("Weather API error: 503"));
+
+    // Antes das 08:00 nada vence; às 08:00 a coleta de clima vence
+    expect(await tickJobs(at("2026-10-18T07:59:30Z"))).toMatchObject({ enqueued: 0 });
+    const first = await tickJobs(at("2026-10-18T08:00:10Z"));
+    expect(first).toMatchObject({ enqueued: 2, retrying: 2 });
+    expect(todayRuns().map(r => [r.jobName, r.userId])).toEqual([["weather-collection", 1], ["weather-collection", 2]]);
+    expect(todayRuns()[0]).toMatchObject({ status: "pending", attempts: 1, lastError: "Talhão 1: Weather API error: 503" });
+    expect(todayRuns()[0].nextAttemptAt).toEqual(at("2026-10-18T08:05:10Z"));
+
+    // Antes da espera nada roda; depois, a terceira tentativa esgota o limite
+    expect(await tickJobs(at("2026-10-18T08:04:00Z"))).toMatchObject({ enqueued: 0, retrying: 0 });
+    await tickJobs(at("2026-10-18T08:05:10Z"));
+    expect(todayRuns()[0]).toMatchObject({ status: "pending", attempts: 2 });
+    await tickJobs(at("2026-10-18T08:15:10Z"));
+    expect(todayRuns()[0]).toMatchObject({ status: "failed", attempts: 3 });
+  });
+
+  it("catches up on the last day's slots when nothing was scheduled yet", async () => {
+    vi.mocked(weather.getCurrentWeather).mockResolvedValue(frostForecast());
+    tables.jobRuns.length = 0;
+
+    // Agendador parado desde antes das 08:00 (deploy novo, cron atrasado)
+    expect(await tickJobs(at("2026-10-18T12:00:00Z"))).toMatchObject({ enqueued: 11 });
+    expect([...new Set(tables.jobRuns.map(r => `${r.jobName} ${r.scheduledFor.toISOString()}`))]).toEqual([
+      "weather-collection 2026-10-18T08:00:00.000Z",
+      "weather-alerts 2026-10-18T08:30:00.000Z",
+      "ndvi-ingestion 2026-10-18T09:00:00.000Z",
+      "ndvi-problem-areas 2026-10-18T09:30:00.000Z",
+      "ndvi-tile-prefetch 2026-10-18T09:45:00.000Z",
+      "tile-cache-eviction 2026-10-18T10:00:00.000Z",
+    ]);
+  });
+
+  it("collects the forecast and raises each alert once", async () => {
+    vi.mocked(weather.getCurrentWeather).mockResolvedValue(frostForecast());
+    vi.mocked(db.getUserIdsWithActiveFields).mockResolvedValueOnce([1]).mockResolvedValueOnce([1]);
+
+    await tickJobs(at("2026-10-18T07:59:00Z"));
+    await tickJobs(at("2026-10-18T08:00:00Z"));
+    expect(tables.weatherData).toHaveLength(7);
+    expect(tables.weatherData[2]).toMatchObject({ fieldId: 10, temperatureMin: 20, precipitation: 0, isForecast: true });
+
+    await tickJobs(at("2026-10-18T08:30:00Z"));
+    expect(tables.weatherAlerts).toHaveLength(1);
+    expect(tables.weatherAlerts[0]).toMatchObject({
+      fieldId: 10,
+      userId: 1,
+      alertType: "frost",
+      severity: "critical",
+      validFrom: at("2026-10-20T00:00:00Z"),
+      validUntil: at("2026-10-21T00:00:00Z"),
+    });
+    expect(vi.mocked(db.createNotification).mock.calls[0][0]).toMatchObject({
+      userId: 1,
+      title: "Risco de geada · Talhão 1",
+      notificationType: "weather",
+      actionUrl: "/fields/10",
+    });
+
+    // Reavaliar a mesma previsão (disparo manual) não repete o alerta
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(at("2026-10-18T08:40:00Z"));
+    try {
+      await appRouter.createCaller(createContext("admin")).jobs.trigger({ jobName: "weather-alerts", userId: 1 });
+      expect(await tickJobs()).toMatchObject({ enqueued: 0, succeeded: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+    expect(tables.weatherAlerts).toHaveLength(1);
+  });
+
+  it("still enqueues the daily run after a manual trigger before the due tick", async () => {
+    vi.mocked(weather.getCurrentWeather).mockResolvedValue(frostForecast());
+
+    // Disparo manual para um usuário logo depois das 08:00, antes da rodada do agendador
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(at("2026-10-18T08:00:20Z"));
+    try {
+      await appRouter.createCaller(createContext("admin")).jobs.trigger({ jobName: "weather-collection", userId: 1 });
+    } finally {
+      vi.useRealTimers();
+    }
+
+    expect(await tickJobs(at("2026-10-18T08:01:00Z"))).toMatchObject({ enqueued: 2, succeeded: 3 });
+    expect(todayRuns().map(r => [r.triggeredBy, r.userId, r.scheduledFor.toISOString()])).toEqual([
+      ["manual", 1, "2026-10-18T08:00:20.000Z"],
+      ["schedule", 1, "2026-10-18T08:00:00.000Z"],
+      ["schedule", 2, "2026-10-18T08:00:00.000Z"],
+    ]);
+  });
+
+  it("keeps the job admin view for admins", async () => {
+    await expect(appRouter.createCaller(createContext("user")).jobs.runs({})).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(appRouter.createCaller(createContext("admin")).jobs.runs({})).resolves.toHaveLength(6);
+  });
+});
+
+describe("weather alerts", () => {
+  it("groups consecutive days and flags a dry week", () => {
+    const days = Array.from({ length: 7 }, (_, i) => ({
+      date: at(`2026-10-${18 + i}T00:00:00Z`),
+      temperatureMin: 18,
+      temperatureMax: i < 2 ? 36 : 30,
+      precipitation: 0,
+    }));
+    const alerts = weather.evaluateWeatherAlerts(days);
+    expect(alerts.map(a => [a.alertType, a.severity])).toEqual([["heat", "warning"], ["drought", "info"]]);
+    expect(alerts[0].message).toBe("Máxima prevista de 36.0 °C (18/10 a 19/10)");
+  });
+});
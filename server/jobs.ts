@@ -0,0 +1,361 @@
+/**
+ * Jobs agendados do servidor
+ * Ingestão diária de NDVI (gravada em ndviData) seguida da busca de manchas e da
+ * pré-carga de tiles, coleta de clima, avaliação de alertas e limpeza do cache de
+ * tiles, com cada execução
+ * gravada em jobRuns (uma por usuário), novas tentativas com espera crescente e um
+ * executor local em processo (servidor Express); na Vercel o cron chama tickJobs.
+ */
+
+import * as db from "./db";
+import * as jobs from "./services/jobs";
+import * as weather from "./services/weather";
+import * as ndviIngestion from "./services/ndviIngestion";
+import * as boundaryVersions from "./services/boundaryVersions";
+import * as geometry from "./services/geometry";
+import * as ndviSeries from "./services/ndviSeries";
+import { detectProblemAreas } from "./services/problemAreas";
+import * as tileCache from "./services/tileCache";
+import { getJobSatelliteProvider } from "./services/satelliteProviders";
+import { nativeRasterSize, satelliteTarget, type IndexStats, type SatelliteProvider } from "./services/satellite";
+import type { Field, JobRun } from "../drizzle/schema";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const STALE_RUN_MS = 30 * 60 * 1000;
+const RUNS_PER_TICK = 50;
+const TICK_BUDGET_MS = 4 * 60 * 1000; // dentro do maxDuration de /api/jobs (vercel.json)
+const ENQUEUE_LOOKBACK_MS = DAY_MS; // sem agendamento anterior, recupera o horário do último dia
+const NDVI_BACKFILL_DAYS = 365;
+const PROBLEM_AREA_SCENES = 5; // leituras analisadas por campo a cada rodada (as mais recentes)
+const CLEAR_SCENE_CLOUD_COVERAGE = Math.round((1 - ndviSeries.CLEAR_SCENE_RATIO) * 100); // % de nuvens
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Processa todos os campos mesmo que alguns falhem; a falha de qualquer um
+ * falha a execução, que será tentada de novo (os jobs não duplicam dados)
+ */
+async function eachField(fields: Field[], work: (field: Field) => Promise<void>) {
+  const errors: string[] = [];
+  for (const field of fields) {
+    try {
+      await work(field);
+    } catch (error) {
+      errors.push(`${field.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  if (errors.length > 0) throw new Error(errors.join("; "));
+}
+
+// ==================== JOBS ====================
+
+/**
+ * Estatísticas de NDVI de cada cena do período, com os limites vigentes em
+ * cada data; null quando nenhum provedor atende o campo
+ */
+async function fetchNdviStats(
+  provider: SatelliteProvider,
+  field: Field,
+  since: Date,
+  until: Date
+): Promise<IndexStats[] | null> {
+  const target = satelliteTarget(field);
+  if (!target || !provider.supports(target)) return null;
+  const periods = boundaryVersions.boundaryPeriods(await db.getBoundaryVersions(field.id), since, until, target.geometry);
+  const stats = await Promise.all(periods.map(period =>
+    provider.indexStats({ ...target, geometry: period.geometry }, { index: "ndvi", from: period.from, to: period.to })
+  ));
+  return stats.flat();
+}
+
+async function ingestNdvi({ userId, scheduledFor }: jobs.JobContext) {
+  const provider = getJobSatelliteProvider();
+  if (!provider) return { skipped: "Nenhum provedor de satélite configurado" };
+  const fields = await db.getFieldsByUserId(userId);
+  let stored = 0;
+  let withoutProvider = 0;
+  await eachField(fields, async field => {
+    // Recomeça no dia da última leitura; sem leituras, busca o último ano
+    const latest = await db.getLatestNdviByFieldId(field.id);
+    const since = latest ? startOfDay(latest.captureDate) : new Date(scheduledFor.getTime() - NDVI_BACKFILL_DAYS * DAY_MS);
+    const scenes = await fetchNdviStats(provider, field, since, scheduledFor);
+    if (!scenes) {
+      withoutProvider++;
+      return;
+    }
+
+    const inRange = scenes.filter(scene => scene.captureDate >= since);
+    const rows = ndviIngestion.newNdviRows(field.id, inRange, await db.getNdviCaptureDates(field.id, since));
+    await db.createNdviDataRows(rows);
+    stored += rows.length;
+
+    const newest = rows[rows.length - 1] ?? latest;
+    if (newest?.ndviAverage != null) {
+      const currentNdvi = ndviIngestion.currentNdviOf(newest.ndviAverage);
+      if (field.currentNdvi !== currentNdvi) await db.updateField(field.id, { currentNdvi });
+    }
+  });
+  return { fields: fields.length, stored, withoutProvider };
+}
+
+/**
+ * Procura manchas problemáticas nas leituras com o campo quase todo visível que
+ * ainda não foram analisadas, da mais recente para a mais antiga; problemAreas
+ * fica [] quando a cena foi analisada sem manchas. Falha do raster deixa as
+ * leituras restantes do campo para a próxima rodada.
+ */
+async function analyseProblemAreas({ userId }: jobs.JobContext) {
+  const provider = getJobSatelliteProvider();
+  if (!provider) return { skipped: "Nenhum provedor de satélite configurado" };
+  if (!provider.supportsRaster) return { skipped: "Nenhum provedor de satélite fornece o índice por pixel" };
+  const fields = await db.getFieldsByUserId(userId);
+  let analysed = 0;
+  await eachField(fields, async field => {
+    const target = satelliteTarget(field);
+    if (!target || !provider.supports(target)) return;
+    const rows = await db.getNdviDataWithoutProblemAreas(field.id, CLEAR_SCENE_CLOUD_COVERAGE, PROBLEM_AREA_SCENES);
+    for (const row of rows) {
+      try {
+        const raster = await provider.indexRaster(target, {
+          index: "ndvi",
+          date: row.captureDate,
+          ...nativeRasterSize(target.geometry),
+        });
+        await db.updateNdviProblemAreas(row.id, detectProblemAreas(target.geometry, raster));
+        analysed++;
+      } catch (error) {
+        console.warn(`[NDVI] Campo ${field.id}: manchas não analisadas:`, error instanceof Error ? error.message : error);
+        break;
+      }
+    }
+  });
+  return { fields: fields.length, analysed };
+}
+
+/**
+ * Deixa no cache os tiles da cena mais recente dos campos com leitura nova no
+ * último dia, para o primeiro mapa aberto não esperar o provedor
+ */
+async function prefetchTiles({ userId, scheduledFor }: jobs.JobContext) {
+  const provider = getJobSatelliteProvider();
+  if (!provider) return { skipped: "Nenhum provedor de satélite configurado" };
+  if (!tileCache.getTileStore()) return { skipped: "Cache de tiles desligado" };
+  const since = new Date(scheduledFor.getTime() - DAY_MS);
+  const fields = await db.getFieldsByUserId(userId);
+  let prefetched = 0;
+  await eachField(fields, async field => {
+    const target = satelliteTarget(field);
+    if (!target || !provider.supports(target)) return;
+    const latest = await db.getLatestNdviByFieldId(field.id);
+    if (!latest || latest.createdAt < since) return;
+    prefetched += await tileCache.prefetchFieldTiles(provider, target);
+  });
+  return { fields: fields.length, prefetched };
+}
+
+async function collectWeather({ userId, scheduledFor }: jobs.JobContext) {
+  const fields = await db.getFieldsByUserId(userId);
+  const today = startOfDay(scheduledFor);
+  let collected = 0;
+  await eachField(fields, async field => {
+    const center = geometry.getFieldCenter(field);
+    if (!center) return;
+    const forecast = await weather.getCurrentWeather(center.lat, center.lng);
+    const rows = weather.forecastRows(field.id, forecast.daily).filter(row => row.date >= today);
+    await db.replaceWeatherForecast(field.id, today, rows);
+    collected++;
+  });
+  return { fields: fields.length, collected };
+}
+
+async function evaluateAlerts({ userId, scheduledFor }: jobs.JobContext) {
+  const fields = await db.getFieldsByUserId(userId);
+  const today = startOfDay(scheduledFor);
+  let created = 0;
+  await eachField(fields, async field => {
+    const rows = await db.getWeatherForecastByFieldId(field.id, today);
+    const candidates = weather.evaluateWeatherAlerts(rows.map(row => ({
+      date: row.date,
+      temperatureMin: row.temperatureMin === null ? null : row.temperatureMin / 10,
+      temperatureMax: row.temperatureMax === null ? null : row.temperatureMax / 10,
+      precipitation: row.precipitation === null ? null : row.precipitation / 10,
+    })));
+    for (const alert of candidates) {
+      if (await db.findOverlappingWeatherAlert(field.id, alert.alertType, alert.validFrom, alert.validUntil)) continue;
+      await db.createWeatherAlert({ fieldId: field.id, userId: field.userId, ...alert });
+      await db.createNotification({
+        userId: field.userId,
+        title: `${alert.title} · ${field.name}`,
+        message: alert.message,
+        notificationType: "weather",
+        relatedFieldId: field.id,
+        actionUrl: `/fields/${field.id}`,
+      });
+      created++;
+    }
+  });
+  return { fields: fields.length, created };
+}
+
+async function evictTileCache({ scheduledFor }: jobs.JobContext) {
+  return await tileCache.evictTileCache(scheduledFor) ?? { skipped: "Cache de tiles desligado" };
+}
+
+// Horários em UTC (05:00, 05:30, 06:00, 06:30, 06:45 e 07:00 em Brasília)
+export const JOBS = {
+  "weather-collection": {
+    label: "Coleta de clima",
+    schedule: "0 8 * * *",
+    perUser: true,
+    maxAttempts: 3,
+    run: collectWeather,
+  },
+  "weather-alerts": {
+    label: "Alertas climáticos",
+    schedule: "30 8 * * *",
+    perUser: true,
+    maxAttempts: 3,
+    run: evaluateAlerts,
+  },
+  "ndvi-ingestion": {
+    label: "Ingestão de NDVI",
+    schedule: "0 9 * * *",
+    perUser: true,
+    maxAttempts: 4,
+    run: ingestNdvi,
+  },
+  "ndvi-problem-areas": {
+    label: "Manchas nas cenas novas",
+    schedule: "30 9 * * *",
+    perUser: true,
+    maxAttempts: 3,
+    run: analyseProblemAreas,
+  },
+  "ndvi-tile-prefetch": {
+    label: "Pré-carga de tiles",
+    schedule: "45 9 * * *",
+    perUser: true,
+    maxAttempts: 3,
+    run: prefetchTiles,
+  },
+  "tile-cache-eviction": {
+    label: "Limpeza do cache de tiles",
+    schedule: "0 10 * * *",
+    perUser: false,
+    maxAttempts: 2,
+    run: evictTileCache,
+  },
+} satisfies Record<string, jobs.JobDefinition>;
+
+export type JobName = keyof typeof JOBS;
+export const JOB_NAMES = Object.keys(JOBS) as [JobName, ...JobName[]];
+
+// ==================== EXECUÇÃO ====================
+
+/**
+ * Agenda o job para o horário: uma execução por usuário com campos ativos
+ * (ou só a do usuário informado) e uma única nos jobs globais. Disparos
+ * manuais ficam marcados para não adiantar o próximo horário da agenda.
+ */
+export async function enqueueJob(
+  name: JobName,
+  scheduledFor: Date,
+  userId?: number,
+  triggeredBy: JobRun["triggeredBy"] = "schedule"
+): Promise<number> {
+  const job: jobs.JobDefinition = JOBS[name];
+  const userIds = userId !== undefined ? [userId] : job.perUser ? await db.getUserIdsWithActiveFields() : [0];
+  await db.createJobRuns(userIds.map(id => ({
+    jobName: name,
+    userId: id,
+    scheduledFor,
+    triggeredBy,
+    maxAttempts: job.maxAttempts,
+    nextAttemptAt: scheduledFor,
+  })));
+  return userIds.length;
+}
+
+// Agenda os jobs cujo horário venceu desde o último agendamento
+export async function enqueueDueJobs(now: Date): Promise<number> {
+  let enqueued = 0;
+  for (const name of JOB_NAMES) {
+    const since = await db.getLatestJobSlot(name) ?? new Date(now.getTime() - ENQUEUE_LOOKBACK_MS);
+    const slot = jobs.dueSlot(JOBS[name].schedule, since, now);
+    if (slot) enqueued += await enqueueJob(name, slot);
+  }
+  return enqueued;
+}
+
+async function executeRun(run: JobRun, now: Date): Promise<"succeeded" | "failed" | "retrying" | "skipped"> {
+  if (!(await db.claimJobRun(run.id, now))) return "skipped";
+  const attempt = run.attempts + 1;
+  const job: jobs.JobDefinition | undefined = JOBS[run.jobName as JobName];
+
+  try {
+    if (!job) throw new Error(`Job desconhecido: ${run.jobName}`);
+    const result = await job.run({ userId: run.userId, scheduledFor: run.scheduledFor, attempt });
+    await db.updateJobRun(run.id, { status: "succeeded", finishedAt: new Date(), lastError: null, result });
+    return "succeeded";
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Jobs] ${run.jobName} (usuário ${run.userId}) falhou na tentativa ${attempt}:`, message);
+    const exhausted = !job || attempt >= run.maxAttempts;
+    await db.updateJobRun(run.id, {
+      status: exhausted ? "failed" : "pending",
+      finishedAt: new Date(),
+      lastError: message,
+      nextAttemptAt: exhausted ? run.nextAttemptAt : new Date(now.getTime() + jobs.retryDelayMs(attempt)),
+    });
+    return exhausted ? "failed" : "retrying";
+  }
+}
+
+/**
+ * Executa, uma por vez, as execuções pendentes cujo horário (ou nova tentativa)
+ * chegou; passado o tempo da rodada, as restantes ficam para a próxima
+ */
+export async function runDueJobs(now: Date) {
+  await db.requeueStaleJobRuns(new Date(now.getTime() - STALE_RUN_MS), now);
+  const summary = { succeeded: 0, failed: 0, retrying: 0, skipped: 0 };
+  const deadline = Date.now() + TICK_BUDGET_MS;
+  for (const run of await db.getDueJobRuns(now, RUNS_PER_TICK)) {
+    if (Date.now() >= deadline) break;
+    summary[await executeRun(run, now)]++;
+  }
+  return summary;
+}
+
+/**
+ * Uma rodada do agendador: agenda o que venceu e executa o que está pendente
+ */
+export async function tickJobs(now = new Date()) {
+  const enqueued = await enqueueDueJobs(now);
+  return { enqueued, ...(await runDueJobs(now)) };
+}
+
+/**
+ * Executor local: uma rodada por minuto no próprio processo (desenvolvimento e
+ * servidor Express). Devolve a função que para o agendador.
+ */
+export function startJobScheduler(intervalMs = 60 * 1000): () => void {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      const summary = await tickJobs();
+      if (summary.enqueued + summary.succeeded + summary.failed + summary.retrying > 0) {
+        console.log("[Jobs]", summary);
+      }
+    } catch (error) {
+      console.error("[Jobs] Erro no agendador:", error);
+    } finally {
+      running = false;
+    }
+  };
+  const timer = setInterval(tick, intervalMs);
+  return () => clearInterval(timer);
+}
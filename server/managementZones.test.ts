@@ -0,0 +1,137 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import * as turf from "@turf/turf";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { ENV } from "./_core/env";
+import * as db from "./db";
+import { fakeSatelliteProvider } from "./services/fakeSatellite";
+import { computeZones, naturalBreaks, selectZoneScenes } from "./services/managementZones";
+import type { IndexRaster, IndexStats } from "./services/satellite";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => ({ id, userId: 1, name: "Talhão 7", geometry: field })),
+  getBoundaryVersions: vi.fn(async () => []),
+  createManagementZones: vi.fn(async () => 11),
+  getLatestManagementZones: vi.fn(async () => undefined),
+}));
+
+const field = {
+  type: "Polygon" as const,
+  coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+};
+
+function createContext(): TrpcContext {
+  return {
+    user: { id: 1, openId: "user-1", name: "Ana", role: "user" } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+// Grade 20x20 sobre o campo: metade oeste fraca com uma ilha forte, metade leste forte
+function raster(scale: number, cloudyRows: number = 0): IndexRaster {
+  const values = new Float32Array(400);
+  for (let row = 0; row < 20; row++) {
+    for (let col = 0; col < 20; col++) {
+      const island = row >= 8 && row < 12 && col >= 3 && col < 7;
+      values[row * 20 + col] = row < cloudyRows ? NaN : (col >= 10 || island ? 0.7 : 0.3) * scale;
+    }
+  }
+  return { width: 20, height: 20, bbox: [-47.01, -22.01, -47.0, -22.0], values };
+}
+
+function stats(date: string, mean: number, validPixelRatio: number): IndexStats {
+  return { captureDate: new Date(date), mean, min: mean, max: mean, cloudCoverage: null, validPixelRatio, source: "fake" };
+}
+
+describe("management zones", () => {
+  it("finds the natural breaks between groups of values", () => {
+    const values = [0.2, 0.5, 0.8].flatMap(center => Array.from({ length: 50 }, (_, i) => center + (i % 5) * 0.01));
+    const breaks = naturalBreaks(values, 3);
+    expect(breaks).toHaveLength(2);
+    expect(breaks[0]).toBeGreaterThan(0.24);
+    expect(breaks[0]).toBeLessThanOrEqual(0.5);
+    expect(breaks[1]).toBeGreaterThan(0.54);
+    expect(breaks[1]).toBeLessThanOrEqual(0.8);
+
+    expect(naturalBreaks([0.4, 0.4, 0.4], 3)).toEqual([]);
+    expect(naturalBreaks([0.3, 0.6], 5)).toHaveLength(1);
+  });
+
+  it("draws one polygon set per zone, with holes, clipped to the field", () => {
+    // A segunda cena é 50% mais verde: as zonas vêm do índice relativo, não do absoluto
+    const zones = computeZones(field, [raster(1, 3), raster(1.5)], 2);
+    expect(zones.map(zone => zone.zone)).toEqual([1, 2]);
+
+    const [low, high] = zones;
+    // Linhas sob nuvem na primeira cena ficam só com a segunda
+    expect(low.meanIndex).toBe(0.387);
+    expect(high.meanIndex).toBe(0.899);
+    expect(low.relativeIndex).toBeLessThan(1);
+    expect(high.relativeIndex).toBeGreaterThan(1);
+
+    // Zona fraca: um anel externo com o buraco da ilha; zona forte: metade leste + ilha
+    expect(low.geometry.coordinates).toHaveLength(1);
+    expect(low.geometry.coordinates[0]).toHaveLength(2);
+    expect(high.geometry.coordinates).toHaveLength(2);
+
+    const fieldHectares = turf.area(field) / 10000;
+    expect(low.areaHectares).toBeCloseTo(fieldHectares * (184 / 400), 1);
+    expect(high.areaHectares).toBeCloseTo(fieldHectares * (216 / 400), 1);
+  });
+
+  it("keeps the clearest, greenest scenes of each year", () => {
+    const scenes = selectZoneScenes([
+      stats("2025-01-10", 0.8, 0.99),
+      stats("2025-02-10", 0.85, 0.5), // nublada
+      stats("2025-03-10", 0.6, 0.97),
+      stats("2025-04-10", 0.4, 1),
+      stats("2026-01-15", 0.7, 0.96),
+    ], 2);
+    expect(scenes.map(date => date.toISOString().slice(0, 10))).toEqual(["2025-01-10", "2025-03-10", "2026-01-15"]);
+  });
+});
+
+describe("management zone procedures", () => {
+  beforeAll(() => {
+    ENV.satelliteProvider = "fake";
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-18T12:00:00Z"));
+  });
+
+  afterAll(() => {
+    vi.useRealTimers();
+    ENV.satelliteProvider = "";
+  });
+
+  it("generates and saves zones from the clear scenes of recent years", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.zones.generate({ fieldId: 7, zoneCount: 4 });
+
+    expect(result).toMatchObject({ id: 11, fieldId: 7, userId: 1, vegetationIndex: "ndvi", zoneCount: 4, method: "jenks" });
+    expect(result.sceneDates.length).toBeGreaterThan(0);
+    expect(result.sceneDates.length).toBeLessThanOrEqual(9); // 3 por safra
+    expect(result.zones).toHaveLength(4);
+
+    const means = result.zones.map(zone => zone.meanIndex);
+    expect(means).toEqual([...means].sort((a, b) => a - b));
+    const total = result.zones.reduce((sum, zone) => sum + zone.areaHectares, 0);
+    expect(total).toBeCloseTo(turf.area(field) / 10000, 0);
+    expect(vi.mocked(db.createManagementZones)).toHaveBeenCalledWith(expect.objectContaining({ fieldId: 7, zones: result.zones }));
+  });
+
+  it("uses the scenes chosen by the user", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const scenes = await fakeSatelliteProvider.indexStats(
+      { fieldId: 7, geometry: field },
+      { index: "ndvi", from: new Date("2026-08-01T00:00:00Z"), to: new Date("2026-09-01T00:00:00Z") }
+    );
+    const dates = scenes.slice(0, 2).map(scene => scene.captureDate);
+    const result = await caller.zones.generate({ fieldId: 7, dates });
+    expect(result.sceneDates).toEqual(dates.map(date => date.toISOString()));
+    expect(result.zones).toHaveLength(3);
+
+    expect(await caller.zones.latest({ fieldId: 7 })).toBeNull();
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { PNG } from "pngjs";
+import { prepareFieldGeometry, type Position } from "./services/geometry";
+import { clipTileToGeometry, rasterizeGeometry } from "./services/tileClip";
+import { extractCarAreas } from "./services/carIntegration";
+
+function square(lng: number, lat: number, size: number): Position[] {
+  return [
+    [lng, lat],
+    [lng + size, lat],
+    [lng + size, lat + size],
+    [lng, lat + size],
+    [lng, lat],
+  ];
+}
+
+// Talhão de 0,01° com uma sede (exclusão) de 0,002° no meio
+const OUTER = square(-47.8, -15.81, 0.01);
+const HOLE = square(-47.796, -15.806, 0.002);
+const FIELD_WITH_HOLE = { type: "Polygon" as const, coordinates: [OUTER, HOLE] };
+
+describe("multipolygon fields", () => {
+  it("subtracts interior exclusion zones from the area", () => {
+    const full = prepareFieldGeometry({ type: "Polygon", coordinates: [OUTER] });
+    const withHole = prepareFieldGeometry(FIELD_WITH_HOLE);
+
+    expect(withHole.geometry.coordinates).toHaveLength(2);
+    expect(withHole.areaHectares).toBeCloseTo(full.areaHectares * 0.96, 0);
+    expect(withHole.perimeterMeters).toBeGreaterThan(full.perimeterMeters);
+  });
+
+  it("keeps every part of a MultiPolygon and sums their areas", () => {
+    const partA = prepareFieldGeometry({ type: "Polygon", coordinates: [OUTER] });
+    const multi = prepareFieldGeometry({
+      type: "MultiPolygon",
+      coordinates: [[OUTER], [square(-47.78, -15.81, 0.01)]],
+    });
+
+    expect(multi.geometry.type).toBe("MultiPolygon");
+    expect(multi.areaHectares).toBeCloseTo(partA.areaHectares * 2, 0);
+  });
+
+  it("masks tile pixels outside the field and inside its holes", () => {
+    // Tile z14 que contém o talhão inteiro
+    const z = 14;
+    const n = Math.pow(2, z);
+    const x = Math.floor(((-47.795 + 180) / 360) * n);
+    const latRad = (-15.805 * Math.PI) / 180;
+    const y = Math.floor(((1 - Math.log(Math.tan(latRad) + 1 / Math.cos(latRad)) / Math.PI) / 2) * n);
+
+    const mask = rasterizeGeometry(FIELD_WITH_HOLE, z, x, y);
+    const inside = mask.reduce((sum, v) => sum + v, 0);
+    expect(inside).toBeGreaterThan(0);
+    expect(inside).toBeLessThan(mask.length);
+
+    const png = new PNG({ width: 256, height: 256 });
+    png.data.fill(255);
+    const clipped = PNG.sync.read(clipTileToGeometry(PNG.sync.write(png), FIELD_WITH_HOLE, z, x, y));
+    const opaque = Array.from({ length: 256 * 256 }, (_, i) => clipped.data[i * 4 + 3]).filter(a => a > 0).length;
+    expect(opaque).toBe(inside);
+
+    // O centro da sede fica transparente e um ponto do talhão fora dela fica opaco
+    const pixelOf = ([lng, lat]: Position) => {
+      const scale = 256 * n;
+      const sinLat = Math.sin((lat * Math.PI) / 180);
+      const px = ((lng + 180) / 360) * scale - x * 256;
+      const py = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale - y * 256;
+      return Math.floor(py) * 256 + Math.floor(px);
+    };
+    expect(mask[pixelOf([-47.795, -15.805])]).toBe(0);
+    expect(mask[pixelOf([-47.798, -15.808])]).toBe(1);
+  });
+
+  it("keeps every CAR feature and hole per layer", () => {
+    const areas = extractCarAreas({
+      type: "FeatureCollection",
+      features: [
+        { type: "Feature", properties: { tipo: "area_imovel" }, geometry: FIELD_WITH_HOLE },
+        { type: "Feature", properties: { tipo: "reserva_legal" }, geometry: { type: "Polygon", coordinates: [square(-47.8, -15.81, 0.002)] } },
+        { type: "Feature", properties: { tipo: "reserva_legal" }, geometry: { type: "Polygon", coordinates: [square(-47.792, -15.802, 0.002)] } },
+      ],
+    });
+
+    expect(areas.total?.type).toBe("Polygon");
+    expect(areas.total?.coordinates).toHaveLength(2);
+    expect(areas.reservaLegal?.type).toBe("MultiPolygon");
+    expect(areas.reservaLegal?.coordinates).toHaveLength(2);
+    expect(areas.app).toBeUndefined();
+  });
+});
@@ -0,0 +1,149 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { PNG } from "pngjs";
+import * as turf from "@turf/turf";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { ENV } from "./_core/env";
+import { registerNdviRoutes } from "./_core/ndviRoutes";
+import { changeColor, changeRaster, summarizeChange } from "./services/ndviChange";
+import { renderRasterTile } from "./services/indexRendering";
+import type { IndexRaster } from "./services/satellite";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => ({
+    7: { id: 7, userId: 1, organizationId: 1, name: "Talhão 7", geometry: field },
+    8: { id: 8, userId: 2, organizationId: 2, farmId: null, name: "Talhão de outra organização", geometry: field },
+  } as Record<number, unknown>)[id]),
+  getBoundaryVersions: vi.fn(async () => []),
+  getFieldSharesForUser: vi.fn(async () => []),
+}));
+
+const { session } = vi.hoisted(() => ({ session: { user: { id: 1 } as { id: number } | null } }));
+vi.mock("./_core/sdk", () => ({
+  sdk: { authenticateRequest: vi.fn(async () => session.user ?? Promise.reject(new Error("Invalid session cookie"))) },
+}));
+
+const field = {
+  type: "Polygon" as const,
+  coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+};
+const bbox: [number, number, number, number] = [-47.01, -22.01, -47.0, -22.0];
+
+function createContext(): TrpcContext {
+  return {
+    user: { id: 1, openId: "user-1", name: "Ana", role: "user" } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+// Grade 10x10: o NDVI cai na metade oeste, sobe nas duas colunas a leste e uma linha está sob nuvem depois
+function scenes(): [IndexRaster, IndexRaster] {
+  const before = new Float32Array(100).fill(0.6);
+  const after = new Float32Array(100);
+  after.forEach((_, i) => {
+    const col = i % 10;
+    after[i] = i < 10 ? NaN : col < 5 ? 0.4 : col >= 8 ? 0.75 : 0.62;
+  });
+  return [{ width: 10, height: 10, bbox, values: before }, { width: 10, height: 10, bbox, values: after }];
+}
+
+describe("NDVI change map", () => {
+  it("splits the field into improved, stable and declined areas", () => {
+    const change = changeRaster(...scenes());
+    expect(change.values[12]).toBeCloseTo(-0.2, 5);
+    expect(Number.isNaN(change.values[0])).toBe(true);
+
+    const summary = summarizeChange(field, change);
+    const pixelHectares = turf.area(field) / 10000 / 100;
+    expect(summary.declinedHectares).toBeCloseTo(45 * pixelHectares, 1);
+    expect(summary.stableHectares).toBeCloseTo(27 * pixelHectares, 1);
+    expect(summary.improvedHectares).toBeCloseTo(18 * pixelHectares, 1);
+    expect(summary.noDataHectares).toBeCloseTo(10 * pixelHectares, 1);
+    expect([summary.declinedPercent, summary.stablePercent, summary.improvedPercent]).toEqual([50, 30, 20]);
+    expect(summary.meanChange).toBeCloseTo((45 * -0.2 + 27 * 0.02 + 18 * 0.15) / 90, 3);
+
+    const [before] = scenes();
+    expect(() => changeRaster(before, { ...before, width: 5, height: 20 })).toThrow("mesma grade");
+  });
+
+  it("colors losses red, gains green and small changes near white", () => {
+    const [r1, g1] = changeColor(-0.3);
+    expect(r1).toBeGreaterThan(g1);
+    const [r2, g2] = changeColor(0.4);
+    expect(g2).toBeGreaterThan(r2);
+    expect(changeColor(0.02)).toEqual([250, 240, 230]);
+  });
+
+  it("renders tiles clipped to the field", async () => {
+    const change = changeRaster(...scenes());
+    const png = PNG.sync.read((await renderRasterTile(change, field, { z: 16, x: 24211, y: 36876 }, changeColor)).data);
+    const opaque = png.data.filter((_, i) => i % 4 === 3 && png.data[i] > 0).length;
+    expect(opaque).toBeGreaterThan(0);
+    expect(opaque).toBeLessThan(256 * 256);
+  });
+});
+
+describe("NDVI change endpoints", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    ENV.satelliteProvider = "fake";
+    const app = express();
+    registerNdviRoutes(app);
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    ENV.satelliteProvider = "";
+  });
+
+  it("summarizes the change and serves the image and tiles it points to", async () => {
+    const caller = appRouter.createCaller(createContext());
+    // Duas passagens do provedor falso (a cada 5 dias, às 13:30 UTC)
+    const result = await caller.ndvi.change({
+      fieldId: 7,
+      from: new Date("2026-08-03T13:30:00Z"),
+      to: new Date("2026-10-02T13:30:00Z"),
+    });
+
+    expect(result.imageUrl).toBe("/api/ndvi-change/7?from=2026-08-03&to=2026-10-02");
+    expect(result.tileUrl).toBe("/api/ndvi-change-tiles/7/{z}/{x}/{y}.png?from=2026-08-03&to=2026-10-02");
+    const { improvedHectares, stableHectares, declinedHectares, noDataHectares } = result.summary;
+    expect(improvedHectares + stableHectares + declinedHectares + noDataHectares).toBeCloseTo(turf.area(field) / 10000, 0);
+
+    const image = await fetch(baseUrl + result.imageUrl);
+    expect(image.status).toBe(200);
+    expect(image.headers.get("content-type")).toBe("image/png");
+
+    const tile = await fetch(baseUrl + result.tileUrl.replace("{z}/{x}/{y}", "16/24211/36876"));
+    expect(tile.status).toBe(200);
+    expect(PNG.sync.read(Buffer.from(await tile.arrayBuffer())).width).toBe(256);
+  });
+
+  it("rejects missing dates, bad tiles and reversed periods", async () => {
+    expect((await fetch(`${baseUrl}/api/ndvi-change/7?from=2026-08-03`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/api/ndvi-change-tiles/7/2/9/0.png?from=2026-08-03&to=2026-10-02`)).status).toBe(400);
+    expect((await fetch(`${baseUrl}/api/ndvi-change/99?from=2026-08-03&to=2026-10-02`)).status).toBe(404);
+
+    // Campo de outra organização não existe para o usuário; sem sessão, nada é servido
+    expect((await fetch(`${baseUrl}/api/ndvi-change/8?from=2026-08-03&to=2026-10-02`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/ndvi-change-tiles/8/16/24211/36876.png?from=2026-08-03&to=2026-10-02`)).status).toBe(404);
+    session.user = null;
+    expect((await fetch(`${baseUrl}/api/ndvi-change/7?from=2026-08-03&to=2026-10-02`)).status).toBe(401);
+    expect((await fetch(`${baseUrl}/api/ndvi-image/7`)).status).toBe(401);
+    session.user = { id: 1 };
+
+    const caller = appRouter.createCaller(createContext());
+    await expect(caller.ndvi.change({ fieldId: 7, from: new Date("2026-10-02"), to: new Date("2026-08-03") }))
+      .rejects.toMatchObject({ code: "BAD_REQUEST" });
+  });
+});
@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import type { IndexRaster, IndexStats } from "./services/satellite";
+import { JOBS, tickJobs } from "./jobs";
+import { ndviHealthStatus } from "./services/ndviIngestion";
+
+const { scenes, provider } = vi.hoisted(() => {
+  // Cenas que o provedor devolve para cada campo
+  const scenes: Record<number, IndexStats[]> = {};
+  const provider = {
+    name: "stub",
+    supportsRaster: true,
+    isConfigured: () => true,
+    supports: () => true,
+    indexStats: vi.fn(async (target: { fieldId: number }) => scenes[target.fieldId] ?? []),
+    indexRaster: vi.fn(async (target: { geometry: { coordinates: number[][][] } }): Promise<IndexRaster> => {
+      // Campo verde com uma mancha fraca de 5x5 pixels no canto noroeste
+      const [[west, south], , [east, north]] = target.geometry.coordinates[0];
+      const values = new Float32Array(400).map((_, i) => (i % 20 < 5 && i < 100 ? 0.3 : 0.7));
+      return { width: 20, height: 20, bbox: [west, south, east, north], values };
+    }),
+  };
+  return { scenes, provider };
+});
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+vi.mock("./services/satelliteProviders", () => ({
+  getJobSatelliteProvider: () => provider,
+}));
+
+const at = (iso: string) => new Date(iso);
+
+function stats(iso: string, source: string, cloudCoverage: number, mean: number): IndexStats {
+  return { captureDate: at(iso), source, cloudCoverage, validPixelRatio: 1 - cloudCoverage / 100, mean, min: mean - 0.2, max: mean + 0.1 };
+}
+
+function square(lng: number, lat: number) {
+  return { type: "Polygon", coordinates: [[[lng, lat], [lng + 0.01, lat], [lng + 0.01, lat + 0.01], [lng, lat + 0.01], [lng, lat]]] };
+}
+
+function createContext(): TrpcContext {
+  return {
+    user: { id: 1, openId: "user-1", name: "Ana", role: "user" } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+const ingestionRuns = () => tables.jobRuns.filter(run => run.jobName === "ndvi-ingestion");
+
+// Rodada logo depois da ingestão de NDVI (09:00 UTC) do dia
+async function runIngestion(day: string) {
+  return tickJobs(at(`${day}T09:00:10Z`));
+}
+
+describe("NDVI ingestion", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    // Os outros jobs estão sempre em dia: só a ingestão de NDVI vence
+    for (const jobName of Object.keys(JOBS).filter(name => name !== "ndvi-ingestion")) {
+      seed.jobRun({ jobName, scheduledFor: at("2100-01-01T00:00:00Z"), status: "succeeded" });
+    }
+    seed.ndvi({ id: 1, fieldId: 10, captureDate: at("2026-10-10T13:20:00Z"), ndviAverage: 640, cloudCoverage: 3, source: "s2" });
+    // Mais recentes primeiro, como a lista de campos do usuário
+    seed.field({ id: 10, userId: 1, name: "Talhão Norte", geometry: square(-50, -20), currentNdvi: 64, createdAt: at("2026-03-03T12:00:00Z") });
+    seed.field({ id: 20, userId: 1, name: "Talhão Sul", geometry: square(-50, -20.1), createdAt: at("2026-03-02T12:00:00Z") });
+    seed.field({ id: 30, userId: 1, name: "Sem limites", createdAt: at("2026-03-01T12:00:00Z") });
+
+    scenes[10] = [
+      stats("2026-10-10T13:20:00Z", "s2", 3, 0.64),
+      stats("2026-10-14T13:10:00Z", "l8", 40, 0.55),
+      stats("2026-10-14T13:25:00Z", "s2", 5, 0.68),
+      stats("2026-10-17T13:20:00Z", "s2", 12, 0.72),
+    ];
+    scenes[20] = [
+      stats("2026-09-02T13:30:00Z", "sentinel-2", 25, 0.28),
+      stats("2026-10-12T13:30:00Z", "sentinel-2", 0, 0.51),
+    ];
+  });
+
+  it("stores one reading per new capture day and updates the field's current NDVI", async () => {
+    const summary = await runIngestion("2026-10-18");
+    expect(summary).toMatchObject({ enqueued: 1, succeeded: 1 });
+    expect(ingestionRuns()[0].result).toEqual({ fields: 3, stored: 4, withoutProvider: 1 });
+
+    // Recomeça no dia da última leitura; 14/10 fica com a cena de menos nuvens
+    expect(provider.indexStats.mock.calls[0][1]).toEqual({
+      index: "ndvi",
+      from: at("2026-10-10T00:00:00Z"),
+      to: at("2026-10-18T09:00:00Z"),
+    });
+    const north = tables.ndviData.filter(r => r.fieldId === 10 && r.id > 1);
+    expect(north).toEqual([
+      expect.objectContaining({
+        captureDate: at("2026-10-14T13:25:00Z"),
+        ndviAverage: 680,
+        ndviMin: 480,
+        ndviMax: 780,
+        cloudCoverage: 5,
+        healthStatus: "good",
+        imageUrl: "/api/ndvi-image/10?date=2026-10-14",
+        source: "s2",
+      }),
+      expect.objectContaining({ captureDate: at("2026-10-17T13:20:00Z"), ndviAverage: 720, healthStatus: "excellent" }),
+    ]);
+    expect(tables.fields[0].currentNdvi).toBe(72);
+
+    // Campo sem leituras: busca o último ano
+    expect(provider.indexStats.mock.calls[1][1]).toMatchObject({ from: at("2025-10-18T09:00:00Z") });
+    const south = tables.ndviData.filter(r => r.fieldId === 20);
+    expect(south.map(r => [r.ndviAverage, r.cloudCoverage, r.healthStatus, r.source])).toEqual([
+      [280, 25, "poor", "sentinel-2"],
+      [510, 0, "good", "sentinel-2"],
+    ]);
+    expect(tables.fields[1].currentNdvi).toBe(51);
+  });
+
+  it("does not duplicate readings when the same scenes come back", async () => {
+    await runIngestion("2026-10-18");
+    await runIngestion("2026-10-19");
+
+    expect(ingestionRuns().map(r => r.status)).toEqual(["succeeded", "succeeded"]);
+    expect(ingestionRuns()[1].result).toMatchObject({ stored: 0 });
+    expect(tables.ndviData).toHaveLength(5);
+    expect(db.updateField).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves the stored readings to the timeline", async () => {
+    await runIngestion("2026-10-18");
+
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(at("2026-10-18T12:00:00Z"));
+    try {
+      const caller = appRouter.createCaller(createContext());
+      const timeline = await caller.ndvi.history({ fieldId: 10, days: 30, maxCloudCoverage: 10 });
+      expect(timeline.map(point => [point.date, point.ndvi, point.thumbnailUrl])).toEqual([
+        [at("2026-10-14T13:25:00Z"), 0.68, "/api/ndvi-image/10?date=2026-10-14"],
+        [at("2026-10-10T13:20:00Z"), 0.64, null],
+      ]);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it("looks for problem areas on the clear scenes after the ingestion", async () => {
+    await runIngestion("2026-10-18");
+    expect(provider.indexRaster).not.toHaveBeenCalled();
+
+    // Execução própria: 17/10, 14/10 e 10/10 no Talhão Norte, 12/10 no Sul; a cena de 25% de nuvens fica de fora
+    const scheduledFor = at("2026-10-18T09:30:00Z");
+    expect(await JOBS["ndvi-problem-areas"].run({ userId: 1, scheduledFor, attempt: 1 })).toEqual({ fields: 3, analysed: 4 });
+    expect(provider.indexRaster.mock.calls[0][1]).toMatchObject({ index: "ndvi", date: at("2026-10-17T13:20:00Z") });
+    const south = tables.ndviData.filter(r => r.fieldId === 20);
+    expect(south[0].problemAreas).toBeNull();
+    expect(south[1].problemAreas).toHaveLength(1);
+
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.ndvi.problemAreas({ fieldId: 10 });
+    expect(result).toMatchObject({ captureDate: at("2026-10-17T13:20:00Z") });
+    expect(result!.problemAreas).toEqual([
+      expect.objectContaining({ id: 1, meanNdvi: 0.3, medianNdvi: 0.7, severity: "critical" }),
+    ]);
+    expect(await caller.ndvi.problemAreas({ fieldId: 30 })).toBeNull();
+
+    // Leituras já analisadas não voltam ao provedor
+    expect(await JOBS["ndvi-problem-areas"].run({ userId: 1, scheduledFor, attempt: 1 })).toEqual({ fields: 3, analysed: 0 });
+  });
+
+  it("grades health with the NDVI chart bands", () => {
+    expect([0.75, 0.6, 0.35, 0.25, 0.1].map(ndviHealthStatus)).toEqual(["excellent", "good", "moderate", "poor", "critical"]);
+  });
+});
@@ -0,0 +1,140 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import { ENV } from "./_core/env";
+import { cleanSeries, intervalDays, pickClearScene, whittakerSmooth, type SeriesObservation } from "./services/ndviSeries";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => ({
+    id,
+    userId: 1,
+    name: "Talhão 7",
+    geometry: {
+      type: "Polygon",
+      coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+    },
+  })),
+  getBoundaryVersions: vi.fn(async () => []),
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const start = Date.UTC(2026, 0, 1);
+
+// Curva de safra: sobe até o dia 60 e desce depois
+const season = (day: number) => 0.3 + 0.5 * Math.exp(-(((day - 60) / 35) ** 2));
+
+function observation(day: number, value: number, validPixelRatio: number | null = 0.95): SeriesObservation {
+  return { captureDate: new Date(start + day * DAY_MS + 13 * 60 * 60 * 1000), value, validPixelRatio, cloudCoverage: null };
+}
+
+function createContext(): TrpcContext {
+  return {
+    user: { id: 1, openId: "user-1", name: "Ana", role: "user" } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("NDVI series cleaning", () => {
+  it("drops cloudy scenes and outliers, and smooths through the gaps", () => {
+    const days = [0, 5, 10, 15, 20, 25, 30, 35, 40, 45, 50, 85, 90, 95, 100, 105, 110, 115, 120];
+    // Serrilhado de ±0,03 como nas médias reais
+    const observations = days.map((day, i) => observation(day, season(day) + (i % 2 ? 0.03 : -0.03)));
+    observations.push(observation(32, 0.2, 0.35)); // meio campo sob nuvem
+    observations.push(observation(97, season(97) - 0.25, 0.9)); // névoa que escapou da máscara SCL
+
+    const { raw, smoothed } = cleanSeries(observations, { stepDays: 10 });
+
+    expect(raw).toHaveLength(21);
+    expect(raw.filter(point => point.rejected).map(point => [point.captureDate.getUTCDate(), point.rejected])).toEqual([
+      [2, "cloud"],
+      [8, "outlier"],
+    ]);
+
+    expect(smoothed[0].date).toEqual(new Date(start));
+    expect(smoothed[smoothed.length - 1].date).toEqual(new Date(start + 120 * DAY_MS));
+    expect(smoothed.filter(point => point.interpolated).map(point => (point.date.getTime() - start) / DAY_MS)).toEqual([60, 70]);
+
+    // Perto da curva verdadeira, inclusive na lacuna, e sem o serrilhado
+    smoothed.forEach(point => {
+      const day = (point.date.getTime() - start) / DAY_MS;
+      expect(Math.abs(point.value - season(day))).toBeLessThan(0.08);
+    });
+    const jumps = (values: number[]) => Math.max(...values.slice(1).map((value, i) => Math.abs(value - values[i])));
+    const dailyRaw = observations.slice(0, 11).map(point => point.value);
+    const dailySmooth = whittakerSmooth(dailyRaw, dailyRaw.map(() => 1));
+    expect(jumps(dailySmooth)).toBeLessThan(jumps(dailyRaw) / 2);
+  });
+
+  it("keeps straight lines and fills gaps linearly", () => {
+    const line = Array.from({ length: 20 }, (_, i) => 0.2 + i * 0.02);
+    const weights = line.map((_, i) => (i >= 6 && i <= 12 ? 0 : 1));
+    const gaps = line.map((value, i) => (weights[i] ? value : 0));
+    whittakerSmooth(gaps, weights).forEach((value, i) => expect(value).toBeCloseTo(line[i], 6));
+    expect(whittakerSmooth([0.4, 0.6], [1, 1])).toEqual([0.4, 0.6]);
+  });
+
+  it("returns nothing smoothed when every scene is cloudy", () => {
+    const { raw, smoothed } = cleanSeries([observation(0, 0.5, 0.2), observation(5, 0.1, 0.1)]);
+    expect(raw.map(point => point.rejected)).toEqual(["cloud", "cloud"]);
+    expect(smoothed).toEqual([]);
+  });
+
+  it("reads ISO intervals and picks the latest clear scene to display", () => {
+    expect([intervalDays("P5D"), intervalDays("P2W"), intervalDays("P1M"), intervalDays("x")]).toEqual([5, 14, 30, 10]);
+
+    const scenes = [
+      { captureDate: new Date("2026-10-01"), validPixelRatio: 0.99, cloudCoverage: 1 },
+      { captureDate: new Date("2026-10-11"), validPixelRatio: 0.85, cloudCoverage: 20 },
+      { captureDate: new Date("2026-10-16"), validPixelRatio: 0.4, cloudCoverage: 2 }, // nuvem sobre o campo
+    ];
+    expect(pickClearScene(scenes)?.captureDate).toEqual(new Date("2026-10-11"));
+    expect(pickClearScene(scenes.slice(2))?.validPixelRatio).toBe(0.4);
+    expect(pickClearScene([{ captureDate: new Date(), validPixelRatio: null, cloudCoverage: 10 }], 0.8)).not.toBeNull();
+  });
+});
+
+describe("NDVI series procedures", () => {
+  beforeAll(() => {
+    ENV.satelliteProvider = "fake";
+  });
+
+  afterAll(() => {
+    ENV.satelliteProvider = "";
+  });
+
+  it("returns the raw scenes with flags and the smoothed curve", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const series = await caller.ndvi.getTimeSeriesReal({
+      fieldId: 7,
+      startDate: "2026-01-01T00:00:00Z",
+      endDate: "2026-06-30T23:59:59Z",
+      aggregationInterval: "P10D",
+    });
+
+    expect(series.raw.length).toBeGreaterThan(20);
+    expect(series.raw.some(point => point.rejected === "cloud")).toBe(true);
+    series.raw
+      .filter(point => point.validPixelRatio !== null && point.validPixelRatio < 0.6)
+      .forEach(point => expect(point.rejected).toBe("cloud"));
+
+    const steps = series.smoothed.slice(1, -1).map((point, i) => Date.parse(point.date) - Date.parse(series.smoothed[i].date));
+    steps.forEach(step => expect(step).toBe(10 * DAY_MS));
+    expect(series.smoothed.every(point => typeof point.interpolated === "boolean")).toBe(true);
+  });
+
+  it("shows the latest scene with most of the field visible", async () => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(new Date("2026-10-18T12:00:00Z"));
+    try {
+      const caller = appRouter.createCaller(createContext());
+      const image = await caller.ndvi.getLatestNdviImage({ fieldId: 7, days: 60 });
+      expect(image.imageUrl).toMatch(/^\/api\/ndvi-image\/7\?date=2026-\d\d-\d\d$/);
+      expect(image.dataCoverage).toBeGreaterThanOrEqual(80);
+      expect(image.warning).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,140 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import { resetMemoryDb, seed, tables } from "./test/memoryDb";
+import { canWorkOnTask, leavesOrgWithoutOwner } from "./services/organizations";
+
+vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+
+// Organização 1: 1 gestor, 2 agrônomo, 3 operador, 4 visualizador
+function seedOrganization() {
+  seed.organization({ id: 1, name: "Fazenda Boa Vista", ownerId: 1 });
+  const members = [
+    { userId: 1, role: "owner", name: "Gestor", email: "gestor@example.com" },
+    { userId: 2, role: "agronomist", name: "Agrônomo", email: "agro@example.com" },
+    { userId: 3, role: "operator", name: "Operador", email: "op@example.com" },
+    { userId: 4, role: "viewer", name: "Visualizador", email: "ver@example.com" },
+  ] as const;
+  for (const { userId, role, name, email } of members) {
+    seed.user({ id: userId, name, email });
+    seed.member({ organizationId: 1, userId, role });
+  }
+  seed.field({ id: 1, userId: 1, organizationId: 1, name: "Talhão Sede" });
+  seed.task({ id: 10, userId: 1, organizationId: 1, assignedTo: 3, title: "Aplicar fungicida" });
+  seed.task({ id: 11, userId: 1, organizationId: 1, assignedTo: 2, title: "Vistoria" });
+  seed.task({ id: 12, userId: 5, organizationId: 7, title: "Outra organização" });
+}
+
+type AuthenticatedUser = NonNullable<TrpcContext["user"]>;
+
+function createAuthContext(userId: number): TrpcContext {
+  const user = {
+    id: userId,
+    openId: `user-${userId}`,
+    email: `user${userId}@example.com`,
+    name: "Test User",
+    loginMethod: "manus",
+    role: "user",
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    lastSignedIn: new Date(),
+  } as AuthenticatedUser;
+
+  return {
+    user,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("organizations", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMemoryDb();
+    seedOrganization();
+  });
+
+  it("limits operators to their own tasks and keeps at least one owner", () => {
+    const operator = { userId: 3, organizationId: 1, role: "operator" as const };
+    expect(canWorkOnTask(operator, { assignedTo: 3, userId: 1 })).toBe(true);
+    expect(canWorkOnTask(operator, { assignedTo: 2, userId: 1 })).toBe(false);
+    expect(canWorkOnTask({ ...operator, role: "viewer" }, { assignedTo: 3, userId: 1 })).toBe(false);
+
+    expect(leavesOrgWithoutOwner(tables.organizationMembers, 1, "agronomist")).toBe(true);
+    expect(leavesOrgWithoutOwner(tables.organizationMembers, 2, null)).toBe(false);
+  });
+
+  it("rejects actions the role does not allow in the middleware", async () => {
+    const viewer = appRouter.createCaller(createAuthContext(4));
+    await expect(viewer.fields.create({ name: "Novo talhão" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(viewer.tasks.create({ title: "Plantio" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(viewer.tasks.complete({ id: 10 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    expect(db.createField).not.toHaveBeenCalled();
+
+    const current = await viewer.organizations.current();
+    expect(current).toMatchObject({ role: "viewer", roleLabel: "Visualizador", permissions: [] });
+  });
+
+  it("gives members role-based access to the organization's fields", async () => {
+    await expect(appRouter.createCaller(createAuthContext(4)).fields.getById({ id: 1 })).resolves.toMatchObject({ access: "view" });
+
+    const operator = appRouter.createCaller(createAuthContext(3));
+    await operator.notes.create({ fieldId: 1, content: "Lagarta no talhão" });
+    expect(tables.fieldNotes.map(note => [note.userId, note.organizationId, note.content])).toEqual([[3, 1, "Lagarta no talhão"]]);
+    await expect(operator.fields.update({ id: 1, name: "Outro" })).rejects.toMatchObject({ code: "FORBIDDEN" });
+
+    // Fora da organização o campo não existe
+    await expect(appRouter.createCaller(createAuthContext(8)).fields.getById({ id: 1 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("assigns tasks only to members and notifies the assignee", async () => {
+    const agronomist = appRouter.createCaller(createAuthContext(2));
+    await expect(agronomist.tasks.create({ title: "Plantio", assignedTo: 8 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    await agronomist.tasks.create({ title: "Plantio", fieldId: 1, assignedTo: 3 });
+    expect(vi.mocked(db.createTask).mock.calls[0][0]).toMatchObject({ organizationId: 1, assignedTo: 3, userId: 2 });
+    expect(vi.mocked(db.createNotification).mock.calls[0][0]).toMatchObject({ userId: 3, title: "Nova tarefa: Plantio" });
+    expect(tables.tasks.find(task => task.title === "Plantio")).toMatchObject({ fieldId: 1, organizationId: 1, assignedTo: 3 });
+  });
+
+  it("keeps tasks off fields another organization shared with the user", async () => {
+    seed.fieldShare({ fieldId: 1, ownerId: 1, sharedWithUserId: 8, permission: "edit", token: "parceiro" });
+    const outsider = appRouter.createCaller(createAuthContext(8));
+
+    await expect(outsider.tasks.create({ title: "Plantio", fieldId: 1 }))
+      .rejects.toMatchObject({ code: "BAD_REQUEST", message: "O campo é de outra organização" });
+    expect(db.createTask).not.toHaveBeenCalled();
+  });
+
+  it("lets operators complete only the tasks assigned to them", async () => {
+    const operator = appRouter.createCaller(createAuthContext(3));
+    await operator.tasks.complete({ id: 10 });
+    expect(db.updateTask).toHaveBeenCalledWith(10, expect.objectContaining({ status: "completed" }));
+    expect(tables.tasks[0].status).toBe("completed");
+
+    await expect(operator.tasks.complete({ id: 11 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(operator.tasks.update({ id: 10, assignedTo: 2 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(operator.tasks.delete({ id: 10 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+    await expect(operator.tasks.complete({ id: 12 })).rejects.toMatchObject({ code: "NOT_FOUND" });
+  });
+
+  it("fails protected calls cleanly without a database", async () => {
+    vi.mocked(db.resolveMembership).mockResolvedValueOnce(null);
+    await expect(appRouter.createCaller(createAuthContext(1)).organizations.current())
+      .rejects.toMatchObject({ code: "SERVICE_UNAVAILABLE", message: "Banco de dados indisponível" });
+  });
+
+  it("refuses to demote or remove the last owner", async () => {
+    const owner = appRouter.createCaller(createAuthContext(1));
+    await expect(owner.organizations.updateMemberRole({ userId: 1, role: "agronomist" })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+    await expect(owner.organizations.removeMember({ userId: 1 })).rejects.toMatchObject({ code: "BAD_REQUEST" });
+
+    await owner.organizations.updateMemberRole({ userId: 3, role: "agronomist" });
+    expect(db.updateOrganizationMemberRole).toHaveBeenCalledWith(1, 3, "agronomist");
+    expect(tables.organizationMembers.find(member => member.userId === 3)?.role).toBe("agronomist");
+
+    const agronomist = appRouter.createCaller(createAuthContext(2));
+    await expect(agronomist.organizations.removeMember({ userId: 3 })).rejects.toMatchObject({ code: "FORBIDDEN" });
+  });
+});
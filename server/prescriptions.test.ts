@@ -0,0 +1,175 @@
+import { describe, expect, it, vi } from "vitest";
+import { unzipSync, strFromU8 } from "fflate";
+import { appRouter } from "./routers";
+import type { TrpcContext } from "./_core/context";
+import * as db from "./db";
+import type { ManagementZone } from "./services/managementZones";
+import { buildPrescription, exportPrescription, type PrescriptionGrid } from "./services/prescriptions";
+import { readShapefile } from "./services/shapefile";
+import type { IndexRaster } from "./services/satellite";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => ({ id, userId: 1, organizationId: null, name: "Talhão 7", geometry: field })),
+  getFieldSharesForUser: vi.fn(async () => []),
+  getLatestManagementZones: vi.fn(async () => ({ id: 4, fieldId: 7, zones })),
+  createPrescription: vi.fn(async () => 21),
+  getPrescriptionById: vi.fn(async () => undefined),
+  createFieldNote: vi.fn(async () => 33),
+  updatePrescription: vi.fn(async () => undefined),
+}));
+
+const field = {
+  type: "Polygon" as const,
+  coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+};
+
+function half(zone: number, west: number, east: number, meanIndex: number): ManagementZone {
+  return {
+    zone,
+    areaHectares: 0,
+    meanIndex,
+    relativeIndex: 1,
+    geometry: {
+      type: "MultiPolygon",
+      coordinates: [[[[west, -22.01], [east, -22.01], [east, -22.0], [west, -22.0], [west, -22.01]]]],
+    },
+  };
+}
+
+// Zona fraca a oeste, forte a leste
+const zones = [half(1, -47.01, -47.005, 0.45), half(2, -47.005, -47.0, 0.7)];
+
+// NDVI crescendo de oeste para leste, com a coluna mais a oeste sob nuvem
+function gradientRaster(): IndexRaster {
+  const values = new Float32Array(50 * 50);
+  values.forEach((_, i) => {
+    values[i] = i % 50 === 0 ? NaN : 0.3 + ((i % 50) / 49) * 0.5;
+  });
+  return { width: 50, height: 50, bbox: [-47.01, -22.01, -47.0, -22.0], values };
+}
+
+function createContext(): TrpcContext {
+  return {
+    user: { id: 1, openId: "user-1", name: "Ana", role: "user" } as NonNullable<TrpcContext["user"]>,
+    req: { protocol: "https", headers: {} } as TrpcContext["req"],
+    res: { clearCookie: vi.fn() } as unknown as TrpcContext["res"],
+  };
+}
+
+describe("variable-rate prescriptions", () => {
+  it("gives each cell the rate of its management zone", () => {
+    const { grid, cells, summary } = buildPrescription(field, 50, { mode: "zones", rates: [{ zone: 1, rate: 120 }, { zone: 2, rate: 80 }] }, { zones });
+
+    expect(grid.columns).toBe(21); // 0,01° de longitude a 22° S ≈ 1032 m
+    expect(grid.rows).toBe(23);
+    expect(cells).toHaveLength(grid.columns * grid.rows);
+    cells.forEach(cell => {
+      const lng = grid.west + (cell.column + 0.5) * grid.cellLng;
+      expect(cell.rate).toBe(lng < -47.005 ? 120 : 80);
+    });
+
+    // Quase meio a meio (a coluna do meio fica inteira numa zona)
+    expect(summary.areaHectares).toBeCloseTo(114.4, 0);
+    expect(Math.abs(summary.averageRate - 100)).toBeLessThan(2);
+    const total = cells.reduce((sum, cell) => sum + cell.rate * cell.areaHectares, 0);
+    expect(summary.totalProduct).toBeCloseTo(total, 1);
+    expect([summary.minRate, summary.maxRate]).toEqual([80, 120]);
+
+    expect(() => buildPrescription(field, 50, { mode: "zones", rates: [{ zone: 1, rate: 120 }] }, { zones }))
+      .toThrow("Falta a taxa da zona 2");
+    expect(() => buildPrescription(field, 1, { mode: "zones", rates: [] }, { zones })).toThrow(/aumente o tamanho da célula/);
+  });
+
+  it("ramps the rate linearly with the index", () => {
+    const { grid, cells } = buildPrescription(field, 100, { mode: "linear", minRate: 60, maxRate: 140 }, { raster: gradientRaster() });
+    const firstRow = cells.filter(cell => cell.row === 0).sort((a, b) => a.column - b.column);
+    expect(firstRow[0].rate).toBe(60);
+    expect(firstRow[firstRow.length - 1].rate).toBe(140);
+    firstRow.slice(1).forEach((cell, i) => expect(cell.rate).toBeGreaterThanOrEqual(firstRow[i].rate));
+    expect(grid.indexValues.every(value => value === null || (value > 0.3 && value <= 0.8))).toBe(true);
+  });
+
+  it("exports a shapefile and an ISOXML task with the rate grid", () => {
+    const { grid } = buildPrescription(field, 100, { mode: "zones", rates: [{ zone: 1, rate: 150.5 }, { zone: 2, rate: 90 }] }, { zones });
+    const product = { name: "Ureia", unit: "kg/ha" as const };
+    const target = { id: 7, name: "Talhão 7", geometry: field };
+
+    const shapefile = exportPrescription(target, grid, product, "shapefile");
+    expect(shapefile.fileName).toBe("Talhao_7_Ureia.zip");
+    const files = unzipSync(shapefile.content);
+    const layer = readShapefile({ shp: files["Talhao_7_Ureia.shp"], dbf: files["Talhao_7_Ureia.dbf"] });
+    expect(layer.features).toHaveLength(grid.rates.filter(rate => rate !== null).length);
+    expect(new Set(layer.features.map(feature => feature.properties.TAXA))).toEqual(new Set([150.5, 90]));
+    expect(layer.features[0].properties).toMatchObject({ UNIDADE: "kg/ha", PRODUTO: "Ureia", ZONA: 1 });
+
+    const taskData = unzipSync(exportPrescription(target, grid, product, "isoxml").content);
+    const xml = strFromU8(taskData["TASKDATA/TASKDATA.XML"]);
+    expect(xml).toContain('<PDT A="PDT1" B="Ureia"/>');
+    expect(xml).toContain(`E="${grid.columns}" F="${grid.rows}" G="GRD00001" H="${grid.rates.length * 4}" I="2" J="1"/>`);
+    expect(xml).toMatch(/<TZN A="1" B="Taxa variável"><PDV A="0006" B="\d+" E="PDT1"\/><\/TZN>/);
+
+    // kg/ha → mg/m² (DDI 6), de sul a norte e de oeste a leste
+    const values = new DataView(taskData["TASKDATA/GRD00001.BIN"].buffer.slice(0));
+    expect(values.byteLength).toBe(grid.rates.length * 4);
+    expect(values.getInt32(0, true)).toBe(15050);
+    expect(values.getInt32((grid.columns - 1) * 4, true)).toBe(9000);
+  });
+});
+
+describe("prescription procedures", () => {
+  it("builds the prescription from the latest zones and stores it with the field", async () => {
+    const caller = appRouter.createCaller(createContext());
+    const result = await caller.prescriptions.create({
+      fieldId: 7,
+      productName: "Semente de soja",
+      unit: "sementes/ha",
+      cellMeters: 50,
+      rule: { mode: "zones", rates: [{ zone: 1, rate: 300000 }, { zone: 2, rate: 260000 }] },
+    });
+
+    expect(result).toMatchObject({ id: 21, fieldId: 7, managementZoneId: 4, mode: "zones", cellMeters: 50 });
+    expect(Math.abs(result.summary.averageRate - 280000)).toBeLessThan(2000);
+    expect(vi.mocked(db.createPrescription)).toHaveBeenCalledWith(expect.objectContaining({ productName: "Semente de soja", grid: result.grid }));
+
+    await expect(caller.prescriptions.create({
+      fieldId: 7,
+      productName: "Ureia",
+      unit: "kg/ha",
+      rule: { mode: "zones", rates: [{ zone: 1, rate: 100 }] },
+    })).rejects.toMatchObject({ code: "BAD_REQUEST", message: "Falta a taxa da zona 2" });
+  });
+
+  it("logs the application as a field note once", async () => {
+    const grid = buildPrescription(field, 100, { mode: "zones", rates: [{ zone: 1, rate: 100 }, { zone: 2, rate: 100 }] }, { zones }).grid;
+    const stored = {
+      id: 21,
+      fieldId: 7,
+      userId: 1,
+      productName: "Ureia",
+      unit: "kg/ha",
+      geometry: field,
+      grid: grid as PrescriptionGrid,
+      summary: { areaHectares: 114.4, totalProduct: 11440, averageRate: 100, minRate: 100, maxRate: 100, cells: 132 },
+      appliedAt: null as Date | null,
+    };
+    vi.mocked(db.getPrescriptionById).mockResolvedValue(stored as never);
+
+    const caller = appRouter.createCaller(createContext());
+    const appliedAt = new Date("2026-10-15T10:00:00Z");
+    expect(await caller.prescriptions.logApplication({ id: 21, appliedAt })).toEqual({ success: true, noteId: 33, appliedAt });
+    expect(vi.mocked(db.createFieldNote)).toHaveBeenCalledWith(expect.objectContaining({
+      fieldId: 7,
+      noteType: "application",
+      title: "Aplicação em taxa variável: Ureia",
+      createdAt: appliedAt,
+    }));
+    expect(vi.mocked(db.updatePrescription)).toHaveBeenCalledWith(21, { appliedAt, applicationNoteId: 33 });
+
+    const file = await caller.prescriptions.export({ id: 21, format: "isoxml" });
+    expect(file.fileName).toBe("Talhao_7_Ureia_TASKDATA.zip");
+
+    stored.appliedAt = appliedAt;
+    await expect(caller.prescriptions.logApplication({ id: 21 })).rejects.toMatchObject({ message: "Aplicação já registrada" });
+  });
+});
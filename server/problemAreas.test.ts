@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import * as turf from "@turf/turf";
+import { detectProblemAreas, problemSeverity } from "./services/problemAreas";
+import type { IndexRaster } from "./services/satellite";
+
+const field = {
+  type: "Polygon" as const,
+  coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+};
+
+// Grade 40x40 sobre o campo (pixels de ~26 m) com NDVI em torno de 0,7
+function raster(spots: { row: number; col: number; size: number; ndvi: number }[] = []): IndexRaster {
+  const values = new Float32Array(1600);
+  values.forEach((_, i) => {
+    values[i] = 0.68 + (i % 5) * 0.01;
+  });
+  for (const spot of spots) {
+    for (let row = spot.row; row < spot.row + spot.size; row++) {
+      for (let col = spot.col; col < spot.col + spot.size; col++) values[row * 40 + col] = spot.ndvi;
+    }
+  }
+  return { width: 40, height: 40, bbox: [-47.01, -22.01, -47.0, -22.0], values };
+}
+
+describe("problem areas", () => {
+  it("finds spots well below the field median, worst first", () => {
+    const areas = detectProblemAreas(field, raster([
+      { row: 5, col: 5, size: 6, ndvi: 0.5 }, // 29% abaixo
+      { row: 25, col: 20, size: 8, ndvi: 0.3 }, // 57% abaixo
+    ]));
+
+    expect(areas.map(area => [area.id, area.severity])).toEqual([[1, "critical"], [2, "medium"]]);
+    const [worst, mild] = areas;
+    expect(worst.meanNdvi).toBeCloseTo(0.3, 3);
+    expect(worst.medianNdvi).toBe(0.7);
+    expect(worst.deficit).toBeCloseTo(0.571, 2);
+
+    const pixelHectares = turf.area(field) / 10000 / 1600;
+    expect(worst.areaHectares).toBeCloseTo(64 * pixelHectares, 1);
+    expect(mild.areaHectares).toBeCloseTo(36 * pixelHectares, 1);
+    expect(turf.booleanPointInPolygon([worst.center.lng, worst.center.lat], worst.geometry)).toBe(true);
+    expect(worst.center.lat).toBeLessThan(-22.005); // linhas de norte a sul: a mancha fica na metade sul
+  });
+
+  it("ignores small spots, clouds and the natural spread of the field", () => {
+    expect(detectProblemAreas(field, raster())).toEqual([]);
+    expect(detectProblemAreas(field, raster([{ row: 10, col: 10, size: 1, ndvi: 0.2 }]))).toEqual([]);
+
+    // Nuvem (NaN) não vira mancha nem entra na mediana
+    const cloudy = raster([{ row: 0, col: 0, size: 20, ndvi: NaN }, { row: 30, col: 30, size: 5, ndvi: 0.4 }]);
+    const areas = detectProblemAreas(field, cloudy);
+    expect(areas).toHaveLength(1);
+    expect(areas[0].medianNdvi).toBe(0.7);
+
+    expect(detectProblemAreas(field, raster([{ row: 30, col: 30, size: 5, ndvi: 0.4 }]), { minAreaHectares: 5 })).toEqual([]);
+  });
+
+  it("grades severity by the drop from the median", () => {
+    expect([0.1, 0.2, 0.35, 0.5].map(problemSeverity)).toEqual(["low", "medium", "high", "critical"]);
+  });
+
+  it("clips the spots to the field", () => {
+    // Campo só com a metade oeste do raster: a mancha que cruza o limite é cortada
+    const west = {
+      type: "Polygon" as const,
+      coordinates: [[[-47.01, -22.01], [-47.005, -22.01], [-47.005, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+    };
+    const [area] = detectProblemAreas(west, raster([{ row: 10, col: 16, size: 8, ndvi: 0.3 }]));
+    const pixelHectares = turf.area(field) / 10000 / 1600;
+    expect(area.areaHectares).toBeCloseTo(32 * pixelHectares, 1);
+  });
+});
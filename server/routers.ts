@@ -1,18 +1,174 @@
-import { COOKIE_NAME } from "@shared/const";
+import { COOKIE_NAME, ONE_YEAR_MS } from "@shared/const";
+import { VEGETATION_INDICES } from "@shared/vegetationIndices";
 import { getSessionCookieOptions } from "./_core/cookies";
+import { hashPassword, verifyPassword } from "./_core/password";
+import { sdk } from "./_core/sdk";
 import { systemRouter } from "./_core/systemRouter";
-import { publicProcedure, protectedProcedure, router } from "./_core/trpc";
+import { adminProcedure, publicProcedure, protectedProcedure, router } from "./_core/trpc";
 import { z } from "zod";
 import * as db from "./db";
 import { TRPCError } from "@trpc/server";
 import { ENV } from "./_core/env";
+import type { TrpcContext } from "./_core/context";
+import type { User } from "../drizzle/schema";
 import * as agromonitoring from "./services/agromonitoring";
 import * as weather from "./services/weather";
-import * as sentinelHub from "./services/sentinelHub";
+import * as satellite from "./services/satellite";
+import { getSatelliteProvider } from "./services/satelliteProviders";
+import * as ndviSeries from "./services/ndviSeries";
+import * as managementZones from "./services/managementZones";
+import * as prescriptions from "./services/prescriptions";
+import type { ProblemArea } from "./services/problemAreas";
+import * as ndviChange from "./services/ndviChange";
+import * as fieldImport from "./services/fieldImport";
+import * as fieldExport from "./services/fieldExport";
+import * as geometry from "./services/geometry";
+import * as fieldLineage from "./services/fieldLineage";
+import * as boundaryVersions from "./services/boundaryVersions";
+import * as carIntegration from "./services/carIntegration";
+import * as fieldSharing from "./services/fieldSharing";
+import * as organizations from "./services/organizations";
+import * as consultants from "./services/consultants";
+import * as jobs from "./services/jobs";
+import { JOBS, JOB_NAMES, enqueueJob } from "./jobs";
+import {
+  getFieldWithAccess,
+  organizationFieldAccess,
+  getCropWithAccess,
+  getNoteWithAccess,
+  getRotationPlanWithAccess,
+  getTaskWithAccess,
+  getFarmWithAccess,
+  assertFarmOfFieldOrganization,
+  assertFieldOfOrganization,
+  getWeatherAlertForUser,
+  getNotificationForUser,
+  getShareWithAccess,
+  getConsultantGrantWithAccess,
+  getConsultantNoteForConsultant,
+  getClientForConsultant,
+  getPrescriptionWithAccess,
+  notFound,
+} from "./authorization";
 
-// Helper para converter URLs HTTP para HTTPS
-const toHttps = (url: string | null | undefined): string | null => 
-  url ? url.replace('http://', 'https://') : null;
+// Sessão assinada (o mesmo cookie do OAuth) para contas com senha e visitantes
+async function startSession(ctx: TrpcContext, user: User) {
+  const sessionToken = await sdk.createSessionToken(user.openId, {
+    name: user.name || "Visitante",
+    expiresInMs: ONE_YEAR_MS,
+  });
+  ctx.res.cookie(COOKIE_NAME, sessionToken, { ...getSessionCookieOptions(ctx.req), maxAge: ONE_YEAR_MS });
+  await db.upsertUser({ openId: user.openId, lastSignedIn: new Date() });
+}
+
+// Dados do usuário devolvidos ao cliente no login (nunca o hash da senha)
+function sessionUser(user: User) {
+  return {
+    id: user.id,
+    openId: user.openId,
+    name: user.name,
+    email: user.email,
+    userType: user.userType,
+    isGuest: user.isGuest,
+    maxFields: user.maxFields,
+    plan: user.plan,
+  };
+}
+
+// Limites aceitos na entrada: GeoJSON, lista de {lat, lng} ou [lng, lat], ou o JSON serializado.
+// A validação real fica em services/geometry.ts.
+const boundariesInput = z.union([
+  z.string(),
+  z.array(z.any()),
+  z.object({ type: z.string() }).passthrough(),
+]);
+
+// Normaliza os limites e calcula as colunas derivadas (área, perímetro, centro) no servidor
+function fieldGeometryColumns(boundaries: unknown) {
+  let normalized: geometry.NormalizedFieldGeometry;
+  try {
+    normalized = geometry.prepareFieldGeometry(boundaries);
+  } catch (error) {
+    throw new TRPCError({
+      code: "BAD_REQUEST",
+      message: error instanceof Error ? error.message : "Limites do campo inválidos",
+    });
+  }
+  return {
+    columns: {
+      boundaries: JSON.stringify(normalized.boundaries),
+      geometry: normalized.geometry,
+      areaHectares: Math.round(normalized.areaHectares * 100), // hectares * 100
+      perimeterMeters: normalized.perimeterMeters,
+      latitude: normalized.centroid.lat.toFixed(6),
+      longitude: normalized.centroid.lng.toFixed(6),
+    },
+    repaired: normalized.repaired,
+  };
+}
+
+// Limite de campos do plano (checkFieldLimit, create, bulkCreate e split)
+function fieldLimitOf(user: User): number {
+  return user.maxFields || 5;
+}
+
+async function fieldLimitError(user: User): Promise<TRPCError> {
+  const limit = fieldLimitOf(user);
+  const available = Math.max(0, limit - await db.countUserFields(user.id));
+  return new TRPCError({
+    code: "FORBIDDEN",
+    message: `Seu plano permite ${limit} campos. Você pode criar mais ${available}.`,
+  });
+}
+
+// Responsável de uma tarefa precisa ser membro da organização
+async function assertOrganizationMember(organizationId: number, userId: number) {
+  const member = await db.getOrganizationMember(organizationId, userId);
+  if (!member) {
+    throw new TRPCError({ code: "BAD_REQUEST", message: "O responsável não é membro da organização" });
+  }
+}
+
+// Clientes do consultor: fazendas liberadas agrupadas por produtor
+async function consultantClients(consultantId: number) {
+  const rows = await db.getConsultantGrantsByConsultantId(consultantId);
+  return consultants.groupClients(rows.map(row => ({
+    grantId: row.grant.id,
+    farmId: row.farm.id,
+    farmName: row.farm.name,
+    producerId: row.grant.producerId,
+    producerName: row.producerName,
+    producerEmail: row.producerEmail,
+    permission: row.grant.permission,
+  })));
+}
+
+// Endereço público do app para os links de convite (APP_URL ou a origem da requisição)
+function shareBaseUrl(req: TrpcContext["req"]): string {
+  if (ENV.appUrl) return ENV.appUrl;
+  const origin = req.headers.origin;
+  if (typeof origin === "string" && origin) return origin;
+  return `${req.protocol}://${req.headers.host ?? "localhost"}`;
+}
+
+// Avisos de invasão de APP/Reserva Legal: CAR da fazenda do campo ou, sem fazenda, todos os CARs da organização
+async function carWarningsForField(organizationId: number, farmId: number | null | undefined, fieldGeometry: geometry.FieldGeometry) {
+  try {
+    const records = farmId != null
+      ? [await db.getCarRecordByFarmId(farmId)].filter((r): r is NonNullable<typeof r> => !!r)
+      : await db.getCarRecordsByOrganizationId(organizationId);
+    return records.flatMap(record =>
+      carIntegration.carOverlapWarnings(
+        carIntegration.carOverlap(fieldGeometry, carIntegration.carRecordLayers(record)),
+        record.codigoCar
+      )
+    );
+  } catch (error) {
+    // A análise do CAR não impede a criação do campo
+    console.error("[Fields] Erro ao verificar sobreposição com o CAR:", error);
+    return [];
+  }
+}
 
 export const appRouter = router({
   system: systemRouter,
@@ -24,6 +180,74 @@ export const appRouter = router({
       ctx.res.clearCookie(COOKIE_NAME, { ...cookieOptions, maxAge: -1 });
       return { success: true } as const;
     }),
+
+    register: publicProcedure
+      .input(z.object({
+        name: z.string().trim().min(2, "Nome deve ter pelo menos 2 caracteres"),
+        email: z.string().trim().toLowerCase().email("Email inválido"),
+        password: z.string().min(6, "Senha deve ter pelo menos 6 caracteres"),
+        phone: z.string().optional(),
+        company: z.string().optional(),
+        userType: z.enum(["farmer", "agronomist", "consultant"]).default("farmer"),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (await db.getUserByEmail(input.email)) {
+          throw new TRPCError({ code: "CONFLICT", message: "Email já cadastrado" });
+        }
+        const passwordHash = await hashPassword(input.password);
+        // Visitante que cria a conta mantém os campos que já desenhou
+        const user = ctx.user?.isGuest
+          ? await db.upgradeGuestToUser(ctx.user.id, input.email, passwordHash, input.name)
+          : await db.createUserWithPassword(input.email, passwordHash, input.name);
+        if (!user) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Erro ao criar conta" });
+        }
+        await db.updateUserProfile(user.id, { phone: input.phone, company: input.company, userType: input.userType });
+        await startSession(ctx, user);
+        return { success: true, user: sessionUser({ ...user, userType: input.userType }) };
+      }),
+
+    login: publicProcedure
+      .input(z.object({
+        email: z.string().trim().toLowerCase().email("Email inválido"),
+        password: z.string().min(1, "Senha obrigatória"),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const user = await db.getUserByEmail(input.email);
+        if (!user || !(await verifyPassword(input.password, user.passwordHash))) {
+          throw new TRPCError({ code: "UNAUTHORIZED", message: "Email ou senha incorretos" });
+        }
+        await startSession(ctx, user);
+        return { success: true, user: sessionUser(user) };
+      }),
+
+    // Acesso anônimo: um visitante por dispositivo
+    getOrCreateGuest: publicProcedure
+      .input(z.object({ deviceId: z.string().min(1).max(56) }))
+      .mutation(async ({ ctx, input }) => {
+        const existing = await db.getUserByDeviceId(input.deviceId);
+        const user = existing ?? await db.createGuestUser(input.deviceId);
+        if (!user) {
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Erro ao criar visitante" });
+        }
+        await startSession(ctx, user);
+        return { success: true, isNew: !existing, user: sessionUser(user) };
+      }),
+
+    checkFieldLimit: protectedProcedure.query(async ({ ctx }) => {
+      const currentCount = await db.countUserFields(ctx.user.id);
+      const maxFields = fieldLimitOf(ctx.user);
+      const isGuest = ctx.user.isGuest;
+      return {
+        currentCount,
+        maxFields,
+        canCreateMore: currentCount < maxFields,
+        isGuest,
+        needsAccount: isGuest && currentCount >= 1,
+        needsUpgrade: !isGuest && currentCount >= maxFields,
+        plan: ctx.user.plan,
+      };
+    }),
   }),
 
   // ==================== USER PROFILE ====================
@@ -44,28 +268,187 @@ export const appRouter = router({
       }),
   }),
 
-  // ==================== FIELDS ====================
-  fields: router({
+  // ==================== FARMS ====================
+  farms: router({
     list: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getFieldsByUserId(ctx.user.id);
+      const farms = await db.getFarmsByOrganizationId(ctx.member.organizationId);
+      return await Promise.all(
+        farms.map(async farm => ({ ...farm, totals: await db.getFarmTotals(farm.id) }))
+      );
     }),
     getById: protectedProcedure
       .input(z.object({ id: z.number() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.id);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
+        const farm = await getFarmWithAccess(input.id, ctx.member);
+        const [fields, totals] = await Promise.all([
+          db.getFieldsByFarmId(farm.id),
+          db.getFarmTotals(farm.id),
+        ]);
+        return { ...farm, fields, totals };
+      }),
+    create: protectedProcedure
+      .meta({ permission: "fields:write" })
+      .input(z.object({
+        name: z.string().min(1),
+        description: z.string().optional(),
+        city: z.string().optional(),
+        state: z.string().optional(),
+        country: z.string().optional(),
+        color: z.string().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const id = await db.createFarm({
+          ...input,
+          userId: ctx.user.id,
+          organizationId: ctx.member.organizationId,
+        });
+        return { id, success: true };
+      }),
+    update: protectedProcedure
+      .input(z.object({
+        id: z.number(),
+        name: z.string().min(1).optional(),
+        description: z.string().optional(),
+        city: z.string().optional(),
+        state: z.string().optional(),
+        country: z.string().optional(),
+        color: z.string().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        await getFarmWithAccess(input.id, ctx.member, "manage");
+        const { id, ...data } = input;
+        await db.updateFarm(id, data);
+        return { success: true };
+      }),
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await getFarmWithAccess(input.id, ctx.member, "manage");
+        await db.deleteFarm(input.id);
+        return { success: true };
+      }),
+
+    // Mover campos para outra fazenda (farmId null = sem fazenda)
+    moveFields: protectedProcedure
+      .input(z.object({
+        fieldIds: z.array(z.number()).min(1),
+        farmId: z.number().nullable(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const farm = input.farmId !== null ? await getFarmWithAccess(input.farmId, ctx.member, "manage") : null;
+        for (const fieldId of input.fieldIds) {
+          const { field } = await getFieldWithAccess(fieldId, ctx.member, "owner");
+          if (farm) assertFarmOfFieldOrganization(farm, field);
+        }
+        await db.moveFieldsToFarm(input.fieldIds, input.farmId);
+        return { success: true, moved: input.fieldIds.length };
+      }),
+
+    // Anexar o CAR (GeoJSON exportado do SICAR) à fazenda; substitui o anterior
+    attachCar: protectedProcedure
+      .input(z.object({
+        farmId: z.number(),
+        content: z.string().min(1),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const farm = await getFarmWithAccess(input.farmId, ctx.member, "manage");
+
+        let parsed: ReturnType<typeof carIntegration.parseCarLayers>;
+        try {
+          parsed = carIntegration.parseCarLayers(input.content);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Arquivo do CAR inválido",
+          });
         }
-        return field;
+
+        const { data, layers, warnings } = parsed;
+        await db.saveCarRecord({
+          farmId: farm.id,
+          userId: ctx.user.id,
+          codigoCar: data.codigoCar,
+          nomePropriedade: data.nomePropriedade ?? null,
+          municipio: data.municipio ?? null,
+          uf: data.uf ?? null,
+          perimeter: layers.total ?? null,
+          reservaLegal: layers.reservaLegal ?? null,
+          app: layers.app ?? null,
+          consolidada: layers.consolidada ?? null,
+        });
+        return { success: true, codigoCar: data.codigoCar, areas: carIntegration.carLayerHectares(layers), warnings };
+      }),
+    removeCar: protectedProcedure
+      .input(z.object({ farmId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const farm = await getFarmWithAccess(input.farmId, ctx.member, "manage");
+        await db.deleteCarRecord(farm.id);
+        return { success: true };
+      }),
+
+    // Hectares de cada campo da fazenda dentro de APP, Reserva Legal e área consolidada
+    carCompliance: protectedProcedure
+      .input(z.object({ farmId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const farm = await getFarmWithAccess(input.farmId, ctx.member);
+        const record = await db.getCarRecordByFarmId(farm.id);
+        if (!record) return null;
+
+        const layers = carIntegration.carRecordLayers(record);
+        const farmFields = await db.getFieldsByFarmId(farm.id);
+        return {
+          codigoCar: record.codigoCar,
+          nomePropriedade: record.nomePropriedade,
+          areas: carIntegration.carLayerHectares(layers),
+          fields: farmFields.map(field => {
+            const fieldGeometry = geometry.getFieldGeometry(field);
+            const overlap = fieldGeometry
+              ? carIntegration.carOverlap(fieldGeometry, layers)
+              : { appHectares: 0, reservaLegalHectares: 0, consolidadaHectares: 0 };
+            return {
+              fieldId: field.id,
+              name: field.name,
+              areaHectares: (field.areaHectares ?? 0) / 100,
+              ...overlap,
+              warnings: carIntegration.carOverlapWarnings(overlap),
+            };
+          }),
+        };
+      }),
+
+    // Camadas do CAR de todas as fazendas da organização, para o mapa
+    carLayers: protectedProcedure.query(async ({ ctx }) => {
+      const records = await db.getCarRecordsByOrganizationId(ctx.member.organizationId);
+      return records.map(record => ({
+        farmId: record.farmId,
+        codigoCar: record.codigoCar,
+        ...carIntegration.carRecordLayers(record),
+      }));
+    }),
+  }),
+
+  // ==================== FIELDS ====================
+  fields: router({
+    list: protectedProcedure
+      .input(z.object({ farmId: z.number().optional() }).optional())
+      .query(async ({ ctx, input }) => {
+        const fields = await db.getFieldsByOrganizationId(ctx.member.organizationId);
+        if (input?.farmId === undefined) return fields;
+        return fields.filter(f => f.farmId === input.farmId);
+      }),
+    getById: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const { field, access } = await getFieldWithAccess(input.id, ctx.member, "view");
+        return { ...field, access };
       }),
     create: protectedProcedure
+      .meta({ permission: "fields:write" })
       .input(z.object({
         name: z.string().min(1),
+        farmId: z.number().optional(),
         description: z.string().optional(),
-        areaHectares: z.number().optional(),
-        latitude: z.string().optional(),
-        longitude: z.string().optional(),
-        boundaries: z.any().optional(),
+        boundaries: boundariesInput.optional(),
         address: z.string().optional(),
         city: z.string().optional(),
         state: z.string().optional(),
@@ -74,46 +457,54 @@ export const appRouter = router({
         irrigationType: z.enum(["none", "drip", "sprinkler", "pivot", "flood"]).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
+        if (input.farmId !== undefined) {
+          assertFarmOfFieldOrganization(await getFarmWithAccess(input.farmId, ctx.member), ctx.member);
+        }
+
+        // Área, perímetro e centro são calculados a partir dos limites, não confiados ao cliente
+        const { boundaries, ...data } = input;
+        const fieldGeometry = boundaries !== undefined ? fieldGeometryColumns(boundaries) : null;
+
         // Criar campo no banco de dados
         const id = await db.createField({
-          ...input,
+          ...data,
+          ...fieldGeometry?.columns,
           userId: ctx.user.id,
-        });
+          organizationId: ctx.member.organizationId,
+        }, fieldLimitOf(ctx.user));
+        if (id === null) throw await fieldLimitError(ctx.user);
         
         // Tentar criar polígono no Agromonitoring automaticamente
         let agroPolygonId: string | null = null;
-        if (input.boundaries && ENV.agromonitoringApiKey) {
+        if (fieldGeometry && ENV.agromonitoringApiKey) {
           try {
-            const boundaries = typeof input.boundaries === "string" 
-              ? JSON.parse(input.boundaries) 
-              : input.boundaries;
+            console.log(`[Fields] Criando polígono no Agromonitoring para campo ${id}...`);
+            const agroPolygon = await agromonitoring.createPolygon(input.name, fieldGeometry.columns.geometry);
+            agroPolygonId = agroPolygon.id;
+            console.log(`[Fields] Polígono criado: ${agroPolygonId}`);
             
-            if (Array.isArray(boundaries) && boundaries.length >= 3) {
-              console.log(`[Fields] Criando polígono no Agromonitoring para campo ${id}...`);
-              const agroPolygon = await agromonitoring.createPolygon(input.name, boundaries);
-              agroPolygonId = agroPolygon.id;
-              console.log(`[Fields] Polígono criado: ${agroPolygonId}`);
-              
-              // Atualizar campo com o ID do polígono
-              await db.updateField(id, { agroPolygonId });
-            }
+            // Atualizar campo com o ID do polígono
+            await db.updateField(id, { agroPolygonId });
           } catch (error) {
             console.error(`[Fields] Erro ao criar polígono no Agromonitoring:`, error);
             // Não falha a criação do campo se o Agromonitoring falhar
           }
         }
         
-        return { id, success: true, agroPolygonId };
+        const carWarnings = fieldGeometry
+          ? await carWarningsForField(ctx.member.organizationId, input.farmId, fieldGeometry.columns.geometry)
+          : [];
+        
+        return { id, success: true, agroPolygonId, geometryRepaired: fieldGeometry?.repaired ?? false, carWarnings };
       }),
     update: protectedProcedure
       .input(z.object({
         id: z.number(),
         name: z.string().optional(),
+        farmId: z.number().nullable().optional(),
         description: z.string().optional(),
-        areaHectares: z.number().optional(),
-        latitude: z.string().optional(),
-        longitude: z.string().optional(),
-        boundaries: z.any().optional(),
+        boundaries: boundariesInput.optional(),
+        boundaryValidFrom: z.string().optional(), // data a partir da qual os novos limites valem
         address: z.string().optional(),
         city: z.string().optional(),
         state: z.string().optional(),
@@ -122,39 +513,360 @@ export const appRouter = router({
         irrigationType: z.enum(["none", "drip", "sprinkler", "pivot", "flood"]).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.id);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
+        const { field, access } = await getFieldWithAccess(input.id, ctx.member, "edit");
+        if (input.farmId !== undefined && input.farmId !== field.farmId && access !== "owner") {
+          throw new TRPCError({ code: "FORBIDDEN", message: "Só o dono do campo pode trocar a fazenda" });
         }
-        const { id, ...data } = input;
-        await db.updateField(id, data);
-        return { success: true };
+        if (input.farmId != null) {
+          assertFarmOfFieldOrganization(await getFarmWithAccess(input.farmId, ctx.member), field);
+        }
+        const { id, boundaries, boundaryValidFrom, ...data } = input;
+        if (boundaries === undefined) {
+          await db.updateField(id, data);
+          return { success: true, geometryRepaired: false };
+        }
+
+        // Novos limites viram uma nova versão; a anterior continua valendo até validFrom
+        const fieldGeometry = fieldGeometryColumns(boundaries);
+        const validFrom = boundaryValidFrom ? new Date(boundaryValidFrom) : new Date();
+        if (isNaN(validFrom.getTime())) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Data de vigência inválida" });
+        }
+
+        const versions = await db.getBoundaryVersions(id);
+        const current = versions[versions.length - 1];
+        const nextVersion = {
+          fieldId: id,
+          userId: field.userId,
+          geometry: fieldGeometry.columns.geometry,
+          areaHectares: fieldGeometry.columns.areaHectares,
+          perimeterMeters: fieldGeometry.columns.perimeterMeters,
+        };
+
+        if (current && validFrom <= current.validFrom) {
+          // Mesmo dia da versão vigente: é uma correção do desenho, não uma nova versão
+          if (boundaryVersions.sameDay(validFrom, current.validFrom)) {
+            await db.correctFieldBoundary(id, current.id, { ...data, ...fieldGeometry.columns }, nextVersion);
+            return { success: true, geometryRepaired: fieldGeometry.repaired };
+          }
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: `Os novos limites precisam valer depois de ${current.validFrom.toISOString().split("T")[0]}`,
+          });
+        }
+
+        // Campos anteriores ao versionamento: o limite atual vira a primeira versão
+        const previousGeometry = current ? null : geometry.getFieldGeometry(field);
+        const initial = previousGeometry && field.createdAt < validFrom
+          ? {
+              fieldId: id,
+              userId: field.userId,
+              geometry: previousGeometry,
+              areaHectares: field.areaHectares,
+              perimeterMeters: field.perimeterMeters,
+              validFrom: field.createdAt,
+            }
+          : undefined;
+
+        await db.replaceFieldBoundary(
+          id,
+          { ...data, ...fieldGeometry.columns },
+          { ...nextVersion, validFrom },
+          initial
+        );
+        return { success: true, geometryRepaired: fieldGeometry.repaired };
       }),
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.id);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        await getFieldWithAccess(input.id, ctx.member, "owner");
         await db.deleteField(input.id);
         return { success: true };
       }),
     
+    // Dividir um talhão por uma linha desenhada ([lng, lat]). O campo original fica
+    // inativo e ligado aos novos pela linhagem; NDVI e cultivos em andamento são copiados.
+    split: protectedProcedure
+      .input(z.object({
+        id: z.number(),
+        line: z.array(z.tuple([z.number(), z.number()])).min(2),
+        names: z.array(z.string()).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { field } = await getFieldWithAccess(input.id, ctx.member, "owner");
+        if (!field.isActive) {
+          throw notFound("field");
+        }
+        const fieldGeometry = geometry.getFieldGeometry(field);
+        if (!fieldGeometry) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "O campo não tem limites desenhados" });
+        }
+
+        let parts: geometry.FieldGeometry[];
+        try {
+          parts = geometry.splitGeometry(fieldGeometry, input.line);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Não foi possível dividir o campo",
+          });
+        }
+
+        const names = fieldLineage.splitFieldNames(field.name, parts.length, input.names);
+        const fieldIds = await db.splitField(field, parts.map((part, i) => ({
+          userId: ctx.user.id,
+          organizationId: field.organizationId,
+          farmId: field.farmId,
+          name: names[i],
+          description: field.description,
+          city: field.city,
+          state: field.state,
+          country: field.country,
+          soilType: field.soilType,
+          irrigationType: field.irrigationType,
+          ...fieldGeometryColumns(part).columns,
+        })), fieldLimitOf(ctx.user));
+        if (!fieldIds) throw await fieldLimitError(ctx.user);
+
+        return { success: true, fieldIds };
+      }),
+    
+    // Unir dois ou mais talhões em um só. Cultivos, notas, tarefas e planos de rotação
+    // passam para o novo campo e as séries NDVI são combinadas por data.
+    merge: protectedProcedure
+      .input(z.object({
+        fieldIds: z.array(z.number()).min(2),
+        name: z.string().min(1).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const ids = Array.from(new Set(input.fieldIds));
+        const parents = (await db.getFieldsByIds(ids))
+          .filter(f => organizationFieldAccess(f, ctx.member) === "owner" && f.isActive);
+        if (ids.length < 2 || parents.length !== ids.length) {
+          throw notFound("field");
+        }
+
+        const geometries = parents.map(f => geometry.getFieldGeometry(f));
+        if (geometries.some(g => g === null)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Todos os campos precisam ter limites desenhados" });
+        }
+
+        let merged: geometry.FieldGeometry;
+        try {
+          merged = geometry.mergeGeometries(geometries as geometry.FieldGeometry[]);
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Não foi possível unir os campos",
+          });
+        }
+
+        // Mantém a fazenda apenas se todos os campos forem da mesma
+        const [first] = parents;
+        const sameFarm = parents.every(f => f.farmId === first.farmId);
+        const id = await db.mergeFields(parents, {
+          userId: ctx.user.id,
+          organizationId: first.organizationId,
+          farmId: sameFarm ? first.farmId : null,
+          name: input.name?.trim() || first.name,
+          description: first.description,
+          city: first.city,
+          state: first.state,
+          country: first.country,
+          soilType: first.soilType,
+          irrigationType: first.irrigationType,
+          ...fieldGeometryColumns(merged).columns,
+        });
+
+        return { success: true, id };
+      }),
+    
+    // Versões dos limites, com o que entrou e saiu em relação à versão anterior
+    getBoundaryVersions: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await getFieldWithAccess(input.id, ctx.member, "view");
+
+        const versions = await db.getBoundaryVersions(input.id);
+        return versions.map((version, i) => {
+          const current = geometry.parseGeometry(version.geometry);
+          const previous = i > 0 ? geometry.parseGeometry(versions[i - 1].geometry) : null;
+          return {
+            id: version.id,
+            validFrom: version.validFrom,
+            validTo: version.validTo,
+            areaHectares: (version.areaHectares ?? 0) / 100,
+            perimeterMeters: version.perimeterMeters,
+            geometry: current,
+            diff: current && previous ? boundaryVersions.diffBoundaries(previous, current) : null,
+          };
+        });
+      }),
+    
+    // Campos de origem e campos resultantes de divisões/uniões
+    getLineage: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await getFieldWithAccess(input.id, ctx.member, "view");
+
+        const links = await db.getFieldLineage(input.id);
+        const related = new Map((await db.getFieldsByIds(
+          links.map(l => (l.childFieldId === input.id ? l.parentFieldId : l.childFieldId))
+        )).map(f => [f.id, f]));
+        const describe = (fieldId: number, operation: "split" | "merge", createdAt: Date) => {
+          const f = related.get(fieldId);
+          return f ? { id: f.id, name: f.name, isActive: f.isActive, operation, createdAt } : null;
+        };
+
+        return {
+          parents: links
+            .filter(l => l.childFieldId === input.id)
+            .map(l => describe(l.parentFieldId, l.operation, l.createdAt))
+            .filter(l => l !== null),
+          children: links
+            .filter(l => l.parentFieldId === input.id)
+            .map(l => describe(l.childFieldId, l.operation, l.createdAt))
+            .filter(l => l !== null),
+        };
+      }),
+    
+    // Pré-visualizar limites de um arquivo (Shapefile .zip, KML/KMZ, GPX, GeoJSON).
+    // Os polígonos escolhidos são criados pelo cliente via fields.create.
+    importPreview: protectedProcedure
+      .input(z.object({
+        fileName: z.string().min(1),
+        contentBase64: z.string().min(1),
+      }))
+      .mutation(async ({ input }) => {
+        try {
+          const data = new Uint8Array(Buffer.from(input.contentBase64, "base64"));
+          return fieldImport.parseFieldFile(input.fileName, data);
+        } catch (error) {
+          console.error("[Fields] Erro ao importar arquivo:", error);
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Erro ao processar arquivo",
+          });
+        }
+      }),
+    
+    // Criar de uma vez os polígonos escolhidos na importação (feições do CAR ou de um
+    // arquivo cadastral). Tudo numa transação, dentro do limite de campos do plano.
+    // O vínculo com o Agromonitoring fica para linkAllToAgromonitoring.
+    bulkCreate: protectedProcedure
+      .meta({ permission: "fields:write" })
+      .input(z.object({
+        farmId: z.number().optional(),
+        fields: z.array(z.object({
+          name: z.string().min(1),
+          boundaries: boundariesInput,
+        })).min(1),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        if (input.farmId !== undefined) {
+          assertFarmOfFieldOrganization(await getFarmWithAccess(input.farmId, ctx.member), ctx.member);
+        }
+
+        const rows = input.fields.map(field => {
+          try {
+            return {
+              name: field.name,
+              farmId: input.farmId,
+              userId: ctx.user.id,
+              organizationId: ctx.member.organizationId,
+              ...fieldGeometryColumns(field.boundaries).columns,
+            };
+          } catch (error) {
+            throw new TRPCError({
+              code: "BAD_REQUEST",
+              message: `${field.name}: ${error instanceof Error ? error.message : "limites inválidos"}`,
+            });
+          }
+        });
+        const ids = await db.createFields(rows, fieldLimitOf(ctx.user));
+        if (!ids) throw await fieldLimitError(ctx.user);
+
+        // Campos que invadem APP/Reserva Legal de algum CAR do usuário
+        const carWarnings = await Promise.all(
+          rows.map(row => carWarningsForField(ctx.member.organizationId, input.farmId, row.geometry))
+        );
+        return { ids, success: true, intruding: carWarnings.filter(w => w.length > 0).length };
+      }),
+    
+    // Exportar limites (um campo, uma fazenda ou uma seleção)
+    export: protectedProcedure
+      .input(z.object({
+        format: z.enum(["geojson", "kml", "shapefile", "isoxml"]),
+        fieldIds: z.array(z.number()).min(1).optional(),
+        farmId: z.number().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        let fields = await db.getFieldsByOrganizationId(ctx.member.organizationId);
+        let name = "campos";
+
+        if (input.farmId !== undefined) {
+          const farm = await getFarmWithAccess(input.farmId, ctx.member);
+          fields = fields.filter(f => f.farmId === input.farmId);
+          name = farm.name;
+        }
+        if (input.fieldIds) {
+          const ids = new Set(input.fieldIds);
+          fields = fields.filter(f => ids.has(f.id));
+          if (fields.length !== ids.size) {
+            throw notFound("field");
+          }
+          if (fields.length === 1) name = fields[0].name;
+        }
+
+        const farms = new Map((await db.getFarmsByOrganizationId(ctx.member.organizationId)).map(f => [f.id, f.name]));
+
+        // Cultura atual: a mais recente plantada ou em crescimento
+        const currentCrops = new Map<number, string>();
+        for (const crop of await db.getCropsByOrganizationId(ctx.member.organizationId)) {
+          if ((crop.status === "planted" || crop.status === "growing") && !currentCrops.has(crop.fieldId)) {
+            currentCrops.set(crop.fieldId, crop.cropType);
+          }
+        }
+
+        const exportable = fields.map(field => {
+          return {
+            id: field.id,
+            name: field.name,
+            areaHectares: (field.areaHectares ?? 0) / 100,
+            geometry: geometry.getFieldGeometry(field),
+            crop: currentCrops.get(field.id) ?? null,
+            farmId: field.farmId,
+            farmName: field.farmId ? farms.get(field.farmId) ?? null : null,
+          };
+        });
+
+        try {
+          const file = fieldExport.exportFields(exportable, input.format, name);
+          return {
+            fileName: file.fileName,
+            mimeType: file.mimeType,
+            contentBase64: Buffer.from(file.content).toString("base64"),
+          };
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Erro ao exportar campos",
+          });
+        }
+      }),
+    
     // Vincular campo existente ao Agromonitoring
     linkToAgromonitoring: protectedProcedure
       .input(z.object({ id: z.number() }))
       .mutation(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.id);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        const { field } = await getFieldWithAccess(input.id, ctx.member, "edit");
         
         if (field.agroPolygonId) {
           return { success: true, agroPolygonId: field.agroPolygonId, message: "Campo já vinculado" };
         }
         
-        if (!field.boundaries) {
+        const fieldGeometry = geometry.getFieldGeometry(field);
+        if (!fieldGeometry) {
           throw new TRPCError({ code: "BAD_REQUEST", message: "Campo não possui boundaries definidos" });
         }
         
@@ -163,16 +875,8 @@ export const appRouter = router({
         }
         
         try {
-          const boundaries = typeof field.boundaries === "string" 
-            ? JSON.parse(field.boundaries) 
-            : field.boundaries;
-          
-          if (!Array.isArray(boundaries) || boundaries.length < 3) {
-            throw new TRPCError({ code: "BAD_REQUEST", message: "Boundaries inválidos" });
-          }
-          
           console.log(`[Fields] Vinculando campo ${input.id} ao Agromonitoring...`);
-          const agroPolygon = await agromonitoring.createPolygon(field.name, boundaries);
+          const agroPolygon = await agromonitoring.createPolygon(field.name, fieldGeometry);
           const agroPolygonId = agroPolygon.id;
           console.log(`[Fields] Polígono criado: ${agroPolygonId}`);
           
@@ -190,8 +894,9 @@ export const appRouter = router({
     
     // Vincular todos os campos do usuário ao Agromonitoring
     linkAllToAgromonitoring: protectedProcedure
+      .meta({ permission: "fields:write" })
       .mutation(async ({ ctx }) => {
-        const fields = await db.getFieldsByUserId(ctx.user.id);
+        const fields = await db.getFieldsByOrganizationId(ctx.member.organizationId);
         const results: { id: number; name: string; success: boolean; agroPolygonId?: string; error?: string }[] = [];
         
         for (const field of fields) {
@@ -200,23 +905,15 @@ export const appRouter = router({
             continue;
           }
           
-          if (!field.boundaries) {
+          const fieldGeometry = geometry.getFieldGeometry(field);
+          if (!fieldGeometry) {
             results.push({ id: field.id, name: field.name, success: false, error: "Sem boundaries" });
             continue;
           }
           
           try {
-            const boundaries = typeof field.boundaries === "string" 
-              ? JSON.parse(field.boundaries as string) 
-              : field.boundaries;
-            
-            if (!Array.isArray(boundaries) || boundaries.length < 3) {
-              results.push({ id: field.id, name: field.name, success: false, error: "Boundaries inválidos" });
-              continue;
-            }
-            
             console.log(`[Fields] Vinculando campo ${field.id} (${field.name}) ao Agromonitoring...`);
-            const agroPolygon = await agromonitoring.createPolygon(field.name, boundaries);
+            const agroPolygon = await agromonitoring.createPolygon(field.name, fieldGeometry);
             await db.updateField(field.id, { agroPolygonId: agroPolygon.id });
             
             results.push({ id: field.id, name: field.name, success: true, agroPolygonId: agroPolygon.id });
@@ -246,14 +943,11 @@ export const appRouter = router({
     listByField: protectedProcedure
       .input(z.object({ fieldId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
         return await db.getCropsByFieldId(input.fieldId);
       }),
     listAll: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getCropsByUserId(ctx.user.id);
+      return await db.getCropsByOrganizationId(ctx.member.organizationId);
     }),
     create: protectedProcedure
       .input(z.object({
@@ -269,13 +963,11 @@ export const appRouter = router({
         season: z.string().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "edit");
         const id = await db.createCrop({
           ...input,
-          userId: ctx.user.id,
+          userId: field.userId,
+          organizationId: field.organizationId,
         });
         return { id, success: true };
       }),
@@ -295,13 +987,15 @@ export const appRouter = router({
         season: z.string().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
+        await getCropWithAccess(input.id, ctx.member, "edit");
         const { id, ...data } = input;
         await db.updateCrop(id, data);
         return { success: true };
       }),
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getCropWithAccess(input.id, ctx.member, "edit");
         await db.deleteCrop(input.id);
         return { success: true };
       }),
@@ -312,14 +1006,11 @@ export const appRouter = router({
     listByField: protectedProcedure
       .input(z.object({ fieldId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
         return await db.getFieldNotesByFieldId(input.fieldId);
       }),
     listAll: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getFieldNotesByUserId(ctx.user.id);
+      return await db.getFieldNotesByOrganizationId(ctx.member.organizationId);
     }),
     create: protectedProcedure
       .input(z.object({
@@ -333,13 +1024,11 @@ export const appRouter = router({
         severity: z.enum(["low", "medium", "high", "critical"]).optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "comment");
         const id = await db.createFieldNote({
           ...input,
           userId: ctx.user.id,
+          organizationId: field.organizationId,
         });
         return { id, success: true };
       }),
@@ -355,14 +1044,16 @@ export const appRouter = router({
         severity: z.enum(["low", "medium", "high", "critical"]).optional(),
         isResolved: z.boolean().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getNoteWithAccess(input.id, ctx.member);
         const { id, ...data } = input;
         await db.updateFieldNote(id, data);
         return { success: true };
       }),
     delete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getNoteWithAccess(input.id, ctx.member);
         await db.deleteFieldNote(input.id);
         return { success: true };
       }),
@@ -374,36 +1065,10 @@ export const appRouter = router({
     getByField: protectedProcedure
       .input(z.object({ fieldId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "view");
         
-        // Get field center coordinates
-        let lat = parseFloat(field.latitude || "0");
-        let lng = parseFloat(field.longitude || "0");
-        
-        // If no coordinates, try to get from boundaries
-        if (lat === 0 && lng === 0 && field.boundaries) {
-          try {
-            const boundaries = typeof field.boundaries === "string" 
-              ? JSON.parse(field.boundaries) 
-              : field.boundaries;
-            if (Array.isArray(boundaries) && boundaries.length > 0) {
-              const sumLat = boundaries.reduce((acc: number, p: any) => acc + (p.lat || p[1] || 0), 0);
-              const sumLng = boundaries.reduce((acc: number, p: any) => acc + (p.lng || p[0] || 0), 0);
-              lat = sumLat / boundaries.length;
-              lng = sumLng / boundaries.length;
-            }
-          } catch (e) {
-            console.error("Error parsing boundaries for weather:", e);
-          }
-        }
-        
-        if (lat === 0 && lng === 0) {
-          lat = -23.5505;
-          lng = -46.6333;
-        }
+        // Get field center coordinates (stored center or boundaries centroid)
+        const { lat, lng } = geometry.getFieldCenter(field) ?? { lat: -23.5505, lng: -46.6333 };
         
         try {
           const weatherData = await weather.getCurrentWeather(lat, lng);
@@ -427,37 +1092,41 @@ export const appRouter = router({
         baseTemp: z.number().optional(),
       }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
-        
-        let lat = parseFloat(field.latitude || "0");
-        let lng = parseFloat(field.longitude || "0");
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "view");
         
-        if (lat === 0 && lng === 0 && field.boundaries) {
-          try {
-            const boundaries = typeof field.boundaries === "string" 
-              ? JSON.parse(field.boundaries) 
-              : field.boundaries;
-            if (Array.isArray(boundaries) && boundaries.length > 0) {
-              const sumLat = boundaries.reduce((acc: number, p: any) => acc + (p.lat || p[1] || 0), 0);
-              const sumLng = boundaries.reduce((acc: number, p: any) => acc + (p.lng || p[0] || 0), 0);
-              lat = sumLat / boundaries.length;
-              lng = sumLng / boundaries.length;
-            }
-          } catch (e) {
-            console.error("Error parsing boundaries for weather:", e);
-          }
-        }
+        let { lat, lng } = geometry.getFieldCenter(field) ?? { lat: -23.5505, lng: -46.6333 };
         
-        if (lat === 0 && lng === 0) {
-          lat = -23.5505;
-          lng = -46.6333;
-        }
+        // Cada trecho do período usa o centro do limite vigente naquelas datas
+        const periods = boundaryVersions.boundaryPeriods(
+          await db.getBoundaryVersions(input.fieldId),
+          new Date(`${input.startDate}T00:00:00Z`),
+          new Date(new Date(`${input.endDate}T00:00:00Z`).getTime() + 24 * 60 * 60 * 1000),
+          null
+        );
         
         try {
-          const historical = await weather.getHistoricalWeather(lat, lng, input.startDate, input.endDate);
+          let historical: weather.HistoricalData;
+          if (periods.length > 0) {
+            const parts = await Promise.all(periods.map(period => {
+              const center = geometry.measureGeometry(period.geometry).centroid;
+              return weather.getHistoricalWeather(
+                center.lat,
+                center.lng,
+                period.from.toISOString().split("T")[0],
+                new Date(period.to.getTime() - 1).toISOString().split("T")[0]
+              );
+            }));
+            historical = {
+              dates: parts.flatMap(p => p.dates),
+              precipitation: parts.flatMap(p => p.precipitation),
+              temperatureMax: parts.flatMap(p => p.temperatureMax),
+              temperatureMin: parts.flatMap(p => p.temperatureMin),
+              temperatureMean: parts.flatMap(p => p.temperatureMean),
+            };
+            ({ lat, lng } = geometry.measureGeometry(periods[periods.length - 1].geometry).centroid);
+          } else {
+            historical = await weather.getHistoricalWeather(lat, lng, input.startDate, input.endDate);
+          }
           
           const accumulatedPrecipitation = weather.calculateAccumulatedPrecipitation(historical.precipitation);
           const thermalSum = weather.calculateThermalSum(
@@ -504,13 +1173,26 @@ export const appRouter = router({
         }
       }),
     
+    // Previsão pelas coordenadas do centro do campo no mapa
+    forecast: protectedProcedure
+      .input(z.object({ lat: z.number(), lon: z.number() }))
+      .query(async ({ input }) => {
+        try {
+          return { success: true, ...await weather.getCurrentWeather(input.lat, input.lon) };
+        } catch (error) {
+          console.error("Error fetching forecast:", error);
+          throw new TRPCError({ code: "INTERNAL_SERVER_ERROR", message: "Erro ao buscar dados meteorológicos" });
+        }
+      }),
+    
     // Legacy endpoints for compatibility
     getAlerts: protectedProcedure.query(async ({ ctx }) => {
       return await db.getWeatherAlertsByUserId(ctx.user.id);
     }),
     dismissAlert: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getWeatherAlertForUser(input.id, ctx.user.id);
         await db.dismissWeatherAlert(input.id);
         return { success: true };
       }),
@@ -521,37 +1203,44 @@ export const appRouter = router({
     getByField: protectedProcedure
       .input(z.object({ fieldId: z.number(), limit: z.number().optional() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
         return await db.getNdviByFieldId(input.fieldId, input.limit ?? 10);
       }),
     getLatest: protectedProcedure
       .input(z.object({ fieldId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
         return await db.getLatestNdviByFieldId(input.fieldId);
       }),
+
+    // Manchas de NDVI baixo da cena analisada mais recente (alvos de vistoria no mapa)
+    problemAreas: protectedProcedure
+      .input(z.object({ fieldId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
+        const row = await db.getLatestNdviWithProblemAreas(input.fieldId);
+        if (!row) return null;
+        return {
+          ndviId: row.id,
+          captureDate: row.captureDate,
+          problemAreas: row.problemAreas as ProblemArea[],
+        };
+      }),
     
     // Buscar a imagem NDVI mais recente para exibir no mapa (OneSoil style)
     getLatestNdviImage: protectedProcedure
-      .input(z.object({ fieldId: z.number(), days: z.number().optional() }))
+      .input(z.object({ fieldId: z.number(), days: z.number().optional(), index: z.enum(VEGETATION_INDICES).optional() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
-        
-        if (!field.agroPolygonId || !ENV.agromonitoringApiKey) {
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "view");
+        const provider = getSatelliteProvider();
+        const target = satellite.satelliteTarget(field);
+
+        if (!target || !provider.supports(target)) {
           return { 
             configured: false, 
             imageUrl: null, 
             tileUrl: null,
-            message: "Agromonitoring não configurado"
+            message: "Nenhum provedor de satélite disponível para o campo"
           };
         }
         
@@ -560,39 +1249,18 @@ export const appRouter = router({
           const endDate = new Date();
           const startDate = new Date(endDate.getTime() - days * 24 * 60 * 60 * 1000);
           
-          const images = await agromonitoring.searchSatelliteImages(
-            field.agroPolygonId,
-            startDate,
-            endDate
-          );
-          
-          console.log(`[NDVI] Campo ${field.id}: ${images.length} imagens encontradas`);
-          
-          // Filtrar e ordenar por cobertura de nuvens
-          const sortedImages = images
-            .filter(img => img.cl < 50)
-            .sort((a, b) => {
-              const cloudDiff = a.cl - b.cl;
-              if (Math.abs(cloudDiff) > 15) return cloudDiff;
-              return b.dt - a.dt;
-            });
+          // Estatística por cena: a escolha usa a parte do campo sem nuvem (máscara SCL),
+          // não a cobertura de nuvens do tile inteiro
+          const scenes = await provider.indexStats(target, {
+            index: input.index ?? "ndvi",
+            from: startDate,
+            to: endDate,
+            interval: "P1D",
+          });
+          console.log(`[NDVI] Campo ${field.id}: ${scenes.length} cenas encontradas (${provider.name})`);
           
-          if (sortedImages.length === 0) {
-            // Se não há imagens com <50% nuvens, pegar a melhor disponível
-            const bestAvailable = images.sort((a, b) => a.cl - b.cl)[0];
-            if (bestAvailable) {
-              return {
-                configured: true,
-                imageUrl: toHttps(bestAvailable.image?.ndvi),
-                tileUrl: toHttps(bestAvailable.tile?.ndvi),
-                truecolorUrl: toHttps(bestAvailable.image?.truecolor),
-                date: new Date(bestAvailable.dt * 1000),
-                cloudCoverage: bestAvailable.cl,
-                dataCoverage: bestAvailable.dc,
-                warning: `Imagem com ${bestAvailable.cl}% de nuvens`
-              };
-            }
-            
+          const best = ndviSeries.pickClearScene(scenes);
+          if (!best) {
             return {
               configured: true,
               imageUrl: null,
@@ -600,17 +1268,20 @@ export const appRouter = router({
               message: "Nenhuma imagem disponível nos últimos " + days + " dias"
             };
           }
-          
-          const latestImage = sortedImages[0];
-          
+
+          // Imagem e tiles servidos pelo próprio app (server/_core/ndviRoutes.ts)
+          const day = best.captureDate.toISOString().split("T")[0];
+          const query = input.index && input.index !== "ndvi" ? `date=${day}&index=${input.index}` : `date=${day}`;
+          const visible = ndviSeries.validRatioOf(best);
+          const cloudy = visible !== null && visible < 0.5;
           return {
             configured: true,
-            imageUrl: toHttps(latestImage.image?.ndvi),
-            tileUrl: toHttps(latestImage.tile?.ndvi),
-            truecolorUrl: toHttps(latestImage.image?.truecolor),
-            date: new Date(latestImage.dt * 1000),
-            cloudCoverage: latestImage.cl,
-            dataCoverage: latestImage.dc,
+            imageUrl: `/api/ndvi-image/${field.id}?${query}`,
+            tileUrl: `/api/ndvi-tiles/${field.id}/{z}/{x}/{y}.png?${query}`,
+            date: best.captureDate,
+            cloudCoverage: best.cloudCoverage === null ? null : Math.round(best.cloudCoverage),
+            dataCoverage: visible === null ? null : Math.round(visible * 100),
+            warning: cloudy ? `Só ${Math.round(visible * 100)}% do campo sem nuvens na imagem` : undefined,
           };
         } catch (error) {
           console.error("Erro ao buscar imagem NDVI:", error);
@@ -623,53 +1294,140 @@ export const appRouter = router({
         }
       }),
 
-    // Histórico de NDVI para timeline
-    history: protectedProcedure
-      .input(z.object({ fieldId: z.number(), days: z.number().optional() }))
+    // Mapa de mudança entre duas cenas: resumo das áreas e endereços da imagem e dos tiles
+    change: protectedProcedure
+      .input(z.object({
+        fieldId: z.number(),
+        from: z.date(),
+        to: z.date(),
+        index: z.enum(VEGETATION_INDICES).default("ndvi"),
+      }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "view");
+        if (input.from >= input.to) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A primeira data precisa ser anterior à segunda" });
         }
-        
-        // Retornar dados do banco de dados
-        const ndviData = await db.getNdviByFieldId(input.fieldId, 30);
-        return ndviData;
+
+        const target = satellite.satelliteTarget(field);
+        if (!target) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Campo sem coordenadas" });
+        }
+
+        const provider = getSatelliteProvider();
+        let change: satellite.IndexRaster;
+        try {
+          change = await ndviChange.loadChange(provider, target, input);
+        } catch (error) {
+          console.error("Erro ao calcular mapa de mudança:", error);
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Erro ao calcular mapa de mudança: " + (error instanceof Error ? error.message : String(error))
+          });
+        }
+
+        const day = (date: Date) => date.toISOString().split("T")[0];
+        const query = `from=${day(input.from)}&to=${day(input.to)}` + (input.index === "ndvi" ? "" : `&index=${input.index}`);
+        return {
+          index: input.index,
+          from: input.from,
+          to: input.to,
+          summary: ndviChange.summarizeChange(target.geometry, change),
+          bbox: change.bbox,
+          imageUrl: `/api/ndvi-change/${field.id}?${query}`,
+          tileUrl: `/api/ndvi-change-tiles/${field.id}/{z}/{x}/{y}.png?${query}`,
+        };
+      }),
+
+    // Histórico de NDVI para timeline e gráficos (leituras gravadas pela ingestão diária)
+    history: protectedProcedure
+      .input(z.object({
+        fieldId: z.number(),
+        days: z.number().int().min(1).max(3650).optional(),
+        maxCloudCoverage: z.number().min(0).max(100).optional(),
+      }))
+      .query(async ({ ctx, input }) => {
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
+
+        const since = new Date(Date.now() - (input.days ?? 365) * 24 * 60 * 60 * 1000);
+        const rows = await db.getNdviByFieldIdSince(input.fieldId, since);
+        return rows
+          .filter(row => input.maxCloudCoverage === undefined || row.cloudCoverage === null || row.cloudCoverage <= input.maxCloudCoverage)
+          .map(row => ({
+            id: row.id,
+            date: row.captureDate,
+            ndvi: row.ndviAverage === null ? null : row.ndviAverage / 1000,
+            ndviMin: row.ndviMin === null ? null : row.ndviMin / 1000,
+            ndviMax: row.ndviMax === null ? null : row.ndviMax / 1000,
+            cloudCoverage: row.cloudCoverage,
+            healthStatus: row.healthStatus,
+            imageUrl: row.imageUrl,
+            thumbnailUrl: row.thumbnailUrl,
+            source: row.source,
+          }));
       }),
 
-    // Buscar série temporal REAL de NDVI do Sentinel Hub (Copernicus)
+    // Série temporal de um índice (NDVI por padrão) direto do provedor de satélite (sem passar pelo banco):
+    // as cenas brutas, marcadas quando descartadas, e a curva limpa e suavizada a cada `aggregationInterval`
     getTimeSeriesReal: protectedProcedure
       .input(z.object({ 
         fieldId: z.number(), 
         startDate: z.string(),
         endDate: z.string(),
-        aggregationInterval: z.string().optional() // "P10D" para 10 dias, "P1M" para 1 mês
+        aggregationInterval: z.string().optional(), // "P10D" para 10 dias, "P1M" para 1 mês
+        index: z.enum(VEGETATION_INDICES).optional(),
       }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "view");
 
-        if (!field.boundaries) {
+        const target = satellite.satelliteTarget(field);
+        if (!target) {
           throw new TRPCError({ code: "BAD_REQUEST", message: "Campo sem coordenadas" });
         }
 
+        // Cada trecho do período usa o polígono vigente naquelas datas
+        const periods = boundaryVersions.boundaryPeriods(
+          await db.getBoundaryVersions(input.fieldId),
+          new Date(input.startDate),
+          new Date(input.endDate),
+          target.geometry
+        );
+
         try {
-          // Converter coordenadas do campo para GeoJSON
-          const geometry = sentinelHub.fieldCoordinatesToGeoJSON(JSON.stringify(field.boundaries));
-
-          // Buscar dados reais do Sentinel Hub
-          const ndviData = await sentinelHub.getNDVITimeSeries(
-            geometry,
-            input.startDate,
-            input.endDate,
-            input.aggregationInterval || "P10D"
-          );
+          const provider = getSatelliteProvider();
+          // Uma estatística por cena (P1D): a limpeza precisa da fração válida de cada passagem
+          const series = await Promise.all(periods.map(period =>
+            provider.indexStats({ ...target, geometry: period.geometry }, {
+              index: input.index ?? "ndvi",
+              from: period.from,
+              to: period.to,
+              interval: "P1D",
+            })
+          ));
 
-          return ndviData;
+          const { raw, smoothed } = ndviSeries.cleanSeries(
+            series.flat().map(point => ({ ...point, value: point.mean })),
+            { stepDays: ndviSeries.intervalDays(input.aggregationInterval || "P10D") }
+          );
+          return {
+            raw: raw.map(point => ({
+              date: point.captureDate.toISOString(),
+              ndvi: point.mean,
+              mean: point.mean,
+              min: point.min,
+              max: point.max,
+              cloudCoverage: point.cloudCoverage,
+              validPixelRatio: point.validPixelRatio,
+              source: point.source,
+              rejected: point.rejected,
+            })),
+            smoothed: smoothed.map(point => ({
+              date: point.date.toISOString(),
+              ndvi: point.value,
+              interpolated: point.interpolated,
+            })),
+          };
         } catch (error) {
-          console.error("Erro ao buscar dados NDVI do Sentinel Hub:", error);
+          console.error("Erro ao buscar série de NDVI:", error);
           throw new TRPCError({ 
             code: "INTERNAL_SERVER_ERROR", 
             message: "Erro ao buscar dados NDVI: " + (error instanceof Error ? error.message : String(error))
@@ -678,15 +1436,227 @@ export const appRouter = router({
       }),
   }),
 
+  // ==================== MANAGEMENT ZONES ====================
+  zones: router({
+    latest: protectedProcedure
+      .input(z.object({ fieldId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
+        return (await db.getLatestManagementZones(input.fieldId)) ?? null;
+      }),
+
+    // Zonas a partir das cenas informadas ou, sem elas, das mais limpas e vigorosas de cada ano
+    generate: protectedProcedure
+      .input(z.object({
+        fieldId: z.number(),
+        zoneCount: z.number().int().min(2).max(7).default(3),
+        index: z.enum(VEGETATION_INDICES).default("ndvi"),
+        years: z.number().int().min(1).max(5).default(3),
+        dates: z.array(z.date()).max(20).optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "edit");
+
+        const target = satellite.satelliteTarget(field);
+        if (!target) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Campo sem coordenadas" });
+        }
+
+        const provider = getSatelliteProvider();
+        let zones: managementZones.ManagementZone[];
+        let sceneDates: Date[];
+        try {
+          if (input.dates?.length) {
+            sceneDates = input.dates;
+          } else {
+            const to = new Date();
+            const from = new Date(to);
+            from.setUTCFullYear(to.getUTCFullYear() - input.years);
+            const stats = await provider.indexStats(target, { index: input.index, from, to, interval: "P1D" });
+            sceneDates = managementZones.selectZoneScenes(stats);
+          }
+          if (sceneDates.length === 0) {
+            throw new TRPCError({ code: "BAD_REQUEST", message: "Nenhuma cena sem nuvens no período para calcular as zonas" });
+          }
+
+          // Uma cena por vez: cada grade pode ter 256x256 pixels
+          const size = satellite.nativeRasterSize(target.geometry);
+          const rasters = [];
+          for (const date of sceneDates) {
+            rasters.push(await provider.indexRaster(target, { index: input.index, date, ...size }));
+          }
+          zones = managementZones.computeZones(target.geometry, rasters, input.zoneCount);
+        } catch (error) {
+          if (error instanceof TRPCError) throw error;
+          console.error("Erro ao calcular zonas de manejo:", error);
+          throw new TRPCError({
+            code: "INTERNAL_SERVER_ERROR",
+            message: "Erro ao calcular zonas de manejo: " + (error instanceof Error ? error.message : String(error))
+          });
+        }
+
+        const record = {
+          fieldId: input.fieldId,
+          userId: ctx.user.id,
+          vegetationIndex: input.index,
+          zoneCount: input.zoneCount,
+          method: "jenks",
+          sceneDates: sceneDates.map(date => date.toISOString()),
+          zones,
+        };
+        const id = await db.createManagementZones(record);
+        return { id, ...record };
+      }),
+  }),
+
+  // ==================== PRESCRIPTIONS ====================
+  prescriptions: router({
+    listByField: protectedProcedure
+      .input(z.object({ fieldId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
+        return await db.getPrescriptionsByFieldId(input.fieldId);
+      }),
+
+    // Taxa por zona de manejo (últimas zonas do campo) ou linear pelo índice da cena limpa mais recente
+    create: protectedProcedure
+      .input(z.object({
+        fieldId: z.number(),
+        productName: z.string().min(1).max(255),
+        unit: z.enum(prescriptions.RATE_UNITS),
+        cellMeters: z.number().int().min(5).max(100).default(20),
+        rule: z.discriminatedUnion("mode", [
+          z.object({
+            mode: z.literal("zones"),
+            rates: z.array(z.object({ zone: z.number().int(), rate: z.number().min(0) })).min(1),
+          }),
+          z.object({
+            mode: z.literal("linear"),
+            minRate: z.number().min(0), // no menor índice (maior que maxRate inverte a rampa)
+            maxRate: z.number().min(0),
+            index: z.enum(VEGETATION_INDICES).default("ndvi"),
+          }),
+        ]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "edit");
+
+        const target = satellite.satelliteTarget(field);
+        if (!target) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Campo sem coordenadas" });
+        }
+
+        let zoneSet: Awaited<ReturnType<typeof db.getLatestManagementZones>>;
+        let raster: satellite.IndexRaster | undefined;
+        if (input.rule.mode === "zones") {
+          zoneSet = await db.getLatestManagementZones(input.fieldId);
+        } else {
+          try {
+            const provider = getSatelliteProvider();
+            const to = new Date();
+            const from = new Date(to.getTime() - 60 * 24 * 60 * 60 * 1000);
+            const scenes = await provider.indexStats(target, { index: input.rule.index, from, to, interval: "P1D" });
+            const scene = ndviSeries.pickClearScene(scenes);
+            if (scene && (ndviSeries.validRatioOf(scene) ?? 0) >= ndviSeries.CLEAR_SCENE_RATIO) {
+              raster = await provider.indexRaster(target, {
+                index: input.rule.index,
+                date: scene.captureDate,
+                ...satellite.nativeRasterSize(target.geometry),
+              });
+            }
+          } catch (error) {
+            console.error("Erro ao buscar imagem para a prescrição:", error);
+            throw new TRPCError({
+              code: "INTERNAL_SERVER_ERROR",
+              message: "Erro ao buscar imagem para a prescrição: " + (error instanceof Error ? error.message : String(error))
+            });
+          }
+        }
+
+        let result: ReturnType<typeof prescriptions.buildPrescription>;
+        try {
+          result = prescriptions.buildPrescription(target.geometry, input.cellMeters, input.rule, {
+            zones: zoneSet?.zones as managementZones.ManagementZone[] | undefined,
+            raster,
+          });
+        } catch (error) {
+          throw new TRPCError({
+            code: "BAD_REQUEST",
+            message: error instanceof Error ? error.message : "Erro ao montar a prescrição",
+          });
+        }
+
+        const record = {
+          fieldId: input.fieldId,
+          userId: ctx.user.id,
+          managementZoneId: zoneSet?.id ?? null,
+          productName: input.productName,
+          unit: input.unit,
+          mode: input.rule.mode,
+          rule: input.rule,
+          cellMeters: input.cellMeters,
+          geometry: target.geometry,
+          grid: result.grid,
+          summary: result.summary,
+        };
+        const id = await db.createPrescription(record);
+        return { id, ...record };
+      }),
+
+    export: protectedProcedure
+      .input(z.object({ id: z.number(), format: z.enum(["shapefile", "isoxml"]) }))
+      .mutation(async ({ ctx, input }) => {
+        const { prescription, field } = await getPrescriptionWithAccess(input.id, ctx.member, "view");
+        const file = prescriptions.exportPrescription(
+          { id: field.id, name: field.name, geometry: prescription.geometry as geometry.FieldGeometry },
+          prescription.grid as prescriptions.PrescriptionGrid,
+          { name: prescription.productName, unit: prescription.unit as prescriptions.RateUnit },
+          input.format
+        );
+        return {
+          fileName: file.fileName,
+          mimeType: file.mimeType,
+          contentBase64: Buffer.from(file.content).toString("base64"),
+        };
+      }),
+
+    // Registra a aplicação no campo como nota do tipo "application"
+    logApplication: protectedProcedure
+      .input(z.object({ id: z.number(), appliedAt: z.date().optional(), notes: z.string().optional() }))
+      .mutation(async ({ ctx, input }) => {
+        const { prescription, field } = await getPrescriptionWithAccess(input.id, ctx.member, "edit");
+        if (prescription.appliedAt) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Aplicação já registrada" });
+        }
+
+        const appliedAt = input.appliedAt ?? new Date();
+        const summary = prescription.summary as prescriptions.PrescriptionSummary;
+        const total = summary.totalProduct.toLocaleString("pt-BR");
+        const content = [
+          `${prescription.productName}: ${total} ${prescription.unit.replace("/ha", "")} em ${summary.areaHectares.toLocaleString("pt-BR")} ha ` +
+            `(taxa média ${summary.averageRate.toLocaleString("pt-BR")} ${prescription.unit}, de ${summary.minRate} a ${summary.maxRate}).`,
+          input.notes,
+        ].filter(Boolean).join("\n");
+        const noteId = await db.createFieldNote({
+          fieldId: field.id,
+          userId: ctx.user.id,
+          organizationId: field.organizationId,
+          title: `Aplicação em taxa variável: ${prescription.productName}`,
+          content,
+          noteType: "application",
+          createdAt: appliedAt,
+        });
+        await db.updatePrescription(prescription.id, { appliedAt, applicationNoteId: noteId });
+        return { success: true, noteId, appliedAt };
+      }),
+  }),
+
   // ==================== CROP ROTATION ====================
   rotation: router({
     getByField: protectedProcedure
       .input(z.object({ fieldId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
         return await db.getCropRotationByFieldId(input.fieldId);
       }),
     create: protectedProcedure
@@ -698,13 +1668,10 @@ export const appRouter = router({
         notes: z.string().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "edit");
         const id = await db.createCropRotationPlan({
           ...input,
-          userId: ctx.user.id,
+          userId: field.userId,
         });
         return { id, success: true };
       }),
@@ -716,7 +1683,8 @@ export const appRouter = router({
         isConfirmed: z.boolean().optional(),
         notes: z.string().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getRotationPlanWithAccess(input.id, ctx.member, "edit");
         const { id, ...data } = input;
         await db.updateCropRotationPlan(id, data);
         return { success: true };
@@ -724,10 +1692,7 @@ export const appRouter = router({
     getSuggestions: protectedProcedure
       .input(z.object({ fieldId: z.number() }))
       .query(async ({ ctx, input }) => {
-        const field = await db.getFieldById(input.fieldId);
-        if (!field || field.userId !== ctx.user.id) {
-          throw new TRPCError({ code: "NOT_FOUND", message: "Campo não encontrado" });
-        }
+        await getFieldWithAccess(input.fieldId, ctx.member, "view");
         // Get crop history and suggest rotation
         const history = await db.getCropsByFieldId(input.fieldId);
         const lastCrop = history[0]?.cropType;
@@ -751,13 +1716,31 @@ export const appRouter = router({
 
   // ==================== TASKS ====================
   tasks: router({
+    // Tarefas da organização, com o responsável resolvido entre os membros
     list: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getTasksByUserId(ctx.user.id);
+      const [tasks, members] = await Promise.all([
+        db.getTasksByOrganizationId(ctx.member.organizationId),
+        db.getOrganizationMembers(ctx.member.organizationId),
+      ]);
+      const byId = new Map(members.map(m => [m.userId, m]));
+      return tasks.map(task => {
+        const assignee = task.assignedTo != null ? byId.get(task.assignedTo) : undefined;
+        return {
+          ...task,
+          assignee: assignee ? { id: assignee.userId, name: assignee.name, role: assignee.role } : null,
+        };
+      });
     }),
     listPending: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getPendingTasksByUserId(ctx.user.id);
+      return await db.getPendingTasksByOrganizationId(ctx.member.organizationId);
+    }),
+    // Tarefas atribuídas a mim na organização ativa
+    listMine: protectedProcedure.query(async ({ ctx }) => {
+      const tasks = await db.getTasksByOrganizationId(ctx.member.organizationId);
+      return tasks.filter(task => task.assignedTo === ctx.user.id);
     }),
     create: protectedProcedure
+      .meta({ permission: "tasks:manage" })
       .input(z.object({
         fieldId: z.number().optional(),
         title: z.string().min(1),
@@ -765,12 +1748,30 @@ export const appRouter = router({
         taskType: z.enum(["planting", "irrigation", "fertilization", "spraying", "harvest", "maintenance", "inspection", "other"]).optional(),
         priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
         dueDate: z.date().optional(),
+        assignedTo: z.number().optional(),
       }))
       .mutation(async ({ ctx, input }) => {
+        if (input.fieldId !== undefined) {
+          const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "view");
+          assertFieldOfOrganization(field, ctx.member);
+        }
+        if (input.assignedTo !== undefined) {
+          await assertOrganizationMember(ctx.member.organizationId, input.assignedTo);
+        }
         const id = await db.createTask({
           ...input,
           userId: ctx.user.id,
+          organizationId: ctx.member.organizationId,
         });
+        if (input.assignedTo !== undefined && input.assignedTo !== ctx.user.id) {
+          await db.createNotification({
+            userId: input.assignedTo,
+            title: `Nova tarefa: ${input.title}`,
+            message: input.description ?? null,
+            notificationType: "task",
+            relatedFieldId: input.fieldId ?? null,
+          });
+        }
         return { id, success: true };
       }),
     update: protectedProcedure
@@ -783,26 +1784,477 @@ export const appRouter = router({
         status: z.enum(["pending", "in_progress", "completed", "cancelled"]).optional(),
         dueDate: z.date().optional(),
         completedAt: z.date().optional(),
+        assignedTo: z.number().nullable().optional(),
       }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        const task = await getTaskWithAccess(input.id, ctx.member, "work");
+        if (input.assignedTo !== undefined && input.assignedTo !== task.assignedTo) {
+          if (!organizations.can(ctx.member.role, "tasks:manage")) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Só gestores e agrônomos podem reatribuir tarefas" });
+          }
+          if (input.assignedTo !== null) {
+            await assertOrganizationMember(ctx.member.organizationId, input.assignedTo);
+          }
+        }
         const { id, ...data } = input;
         await db.updateTask(id, data);
         return { success: true };
       }),
     complete: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getTaskWithAccess(input.id, ctx.member, "work");
         await db.updateTask(input.id, { status: "completed", completedAt: new Date() });
         return { success: true };
       }),
     delete: protectedProcedure
+      .meta({ permission: "tasks:manage" })
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getTaskWithAccess(input.id, ctx.member, "manage");
         await db.deleteTask(input.id);
         return { success: true };
       }),
   }),
 
+  // ==================== ORGANIZATIONS ====================
+  organizations: router({
+    // Organização ativa, papel do usuário e o que ele pode fazer
+    current: protectedProcedure.query(async ({ ctx }) => {
+      const organization = await db.getOrganizationById(ctx.member.organizationId);
+      return {
+        id: ctx.member.organizationId,
+        name: organization?.name ?? "",
+        role: ctx.member.role,
+        roleLabel: organizations.ROLE_LABELS[ctx.member.role],
+        permissions: organizations.permissionsOf(ctx.member.role),
+      };
+    }),
+    list: protectedProcedure.query(async ({ ctx }) => {
+      const memberships = await db.getOrganizationsByUserId(ctx.user.id);
+      return memberships.map(({ organization, role }) => ({
+        id: organization.id,
+        name: organization.name,
+        role,
+        isActive: organization.id === ctx.member.organizationId,
+      }));
+    }),
+    create: protectedProcedure
+      .input(z.object({ name: z.string().trim().min(1) }))
+      .mutation(async ({ ctx, input }) => {
+        const id = await db.createOrganization({ name: input.name, ownerId: ctx.user.id });
+        return { id, success: true };
+      }),
+    // Trocar a organização em que o usuário está trabalhando
+    switch: protectedProcedure
+      .input(z.object({ organizationId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const member = await db.getOrganizationMember(input.organizationId, ctx.user.id);
+        if (!member) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Organização não encontrada" });
+        }
+        await db.updateUserProfile(ctx.user.id, { activeOrganizationId: input.organizationId });
+        return { success: true, role: member.role };
+      }),
+    rename: protectedProcedure
+      .meta({ permission: "members:manage" })
+      .input(z.object({ name: z.string().trim().min(1) }))
+      .mutation(async ({ ctx, input }) => {
+        await db.updateOrganization(ctx.member.organizationId, { name: input.name });
+        return { success: true };
+      }),
+    members: protectedProcedure.query(async ({ ctx }) => {
+      const members = await db.getOrganizationMembers(ctx.member.organizationId);
+      return members.map(member => ({ ...member, roleLabel: organizations.ROLE_LABELS[member.role] }));
+    }),
+    // Adicionar um usuário já cadastrado à organização
+    addMember: protectedProcedure
+      .meta({ permission: "members:manage" })
+      .input(z.object({
+        email: z.string().trim().email(),
+        role: z.enum(["owner", "agronomist", "operator", "viewer"]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const user = await db.getUserByEmail(fieldSharing.normalizeEmail(input.email));
+        if (!user) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Nenhum usuário cadastrado com este e-mail" });
+        }
+        if (await db.getOrganizationMember(ctx.member.organizationId, user.id)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Este usuário já é membro da organização" });
+        }
+        await db.addOrganizationMember(ctx.member.organizationId, user.id, input.role);
+        const organization = await db.getOrganizationById(ctx.member.organizationId);
+        await db.createNotification({
+          userId: user.id,
+          title: `Você entrou na organização ${organization?.name ?? ""}`.trim(),
+          message: `Papel: ${organizations.ROLE_LABELS[input.role]}`,
+          notificationType: "system",
+        });
+        return { success: true, userId: user.id };
+      }),
+    updateMemberRole: protectedProcedure
+      .meta({ permission: "members:manage" })
+      .input(z.object({
+        userId: z.number(),
+        role: z.enum(["owner", "agronomist", "operator", "viewer"]),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const members = await db.getOrganizationMembers(ctx.member.organizationId);
+        if (!members.some(m => m.userId === input.userId)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Membro não encontrado" });
+        }
+        if (organizations.leavesOrgWithoutOwner(members, input.userId, input.role)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A organização precisa de pelo menos um gestor" });
+        }
+        await db.updateOrganizationMemberRole(ctx.member.organizationId, input.userId, input.role);
+        return { success: true };
+      }),
+    removeMember: protectedProcedure
+      .meta({ permission: "members:manage" })
+      .input(z.object({ userId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const members = await db.getOrganizationMembers(ctx.member.organizationId);
+        if (!members.some(m => m.userId === input.userId)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Membro não encontrado" });
+        }
+        if (organizations.leavesOrgWithoutOwner(members, input.userId, null)) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A organização precisa de pelo menos um gestor" });
+        }
+        await db.removeOrganizationMember(ctx.member.organizationId, input.userId);
+        return { success: true };
+      }),
+  }),
+
+  // ==================== CONSULTANTS ====================
+  consultants: router({
+    // Consultores com acesso às fazendas da organização
+    grants: protectedProcedure.query(async ({ ctx }) => {
+      const rows = await db.getConsultantGrantsByOrganizationId(ctx.member.organizationId);
+      return rows.map(row => ({
+        ...row.grant,
+        farmName: row.farmName,
+        consultantName: row.consultantName,
+        consultantEmail: row.consultantEmail,
+      }));
+    }),
+    // Liberar fazendas para um consultor já cadastrado; o produtor continua dono
+    grant: protectedProcedure
+      .input(z.object({
+        email: z.string().trim().email(),
+        farmIds: z.array(z.number()).min(1),
+        permission: z.enum(["view", "comment", "edit"]).default("comment"),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const farms = await Promise.all(input.farmIds.map(id => getFarmWithAccess(id, ctx.member, "manage")));
+        const consultant = await db.getUserByEmail(fieldSharing.normalizeEmail(input.email));
+        if (!consultant) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Nenhum usuário cadastrado com este e-mail" });
+        }
+        if (consultant.id === ctx.user.id) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Você já é o dono destas fazendas" });
+        }
+        for (const farm of farms) {
+          await db.grantConsultantAccess({
+            farmId: farm.id,
+            producerId: ctx.user.id,
+            consultantId: consultant.id,
+            permission: input.permission,
+          });
+        }
+        await db.createNotification({
+          userId: consultant.id,
+          title: `${ctx.user.name || ctx.user.email || "Um produtor"} liberou fazendas para você`,
+          message: farms.map(farm => farm.name).join(", "),
+          notificationType: "system",
+          actionUrl: "/clients",
+        });
+        return { success: true, consultantId: consultant.id };
+      }),
+    revoke: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await getConsultantGrantWithAccess(input.id, ctx.member);
+        await db.revokeConsultantGrant(input.id);
+        return { success: true };
+      }),
+
+    // Produtores que liberaram fazendas para mim
+    clients: protectedProcedure.query(async ({ ctx }) => {
+      return await consultantClients(ctx.user.id);
+    }),
+    // Painel da carteira: números de cada cliente (só fazendas liberadas) e a soma
+    portfolio: protectedProcedure.query(async ({ ctx }) => {
+      const clients = await consultantClients(ctx.user.id);
+      const perClient = await Promise.all(clients.map(async client => ({
+        producerId: client.producerId,
+        name: client.name,
+        farmCount: client.farms.length,
+        stats: await db.getStatsByFarmIds(client.farms.map(farm => farm.id)),
+      })));
+      return { clients: perClient, totals: consultants.sumStats(perClient.map(client => client.stats)) };
+    }),
+    clientFields: protectedProcedure
+      .input(z.object({ producerId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        const client = await getClientForConsultant(input.producerId, ctx.user.id);
+        const fieldsByFarm = await Promise.all(client.farms.map(async farm =>
+          (await db.getFieldsByFarmId(farm.id)).map(field => ({
+            ...field,
+            farmName: farm.name,
+            access: farm.permission,
+          }))
+        ));
+        return fieldsByFarm.flat();
+      }),
+    // Relatório do cliente em CSV (talhões das fazendas liberadas e minhas anotações)
+    report: protectedProcedure
+      .input(z.object({ producerId: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        const client = await getClientForConsultant(input.producerId, ctx.user.id);
+        const farmFields = (await Promise.all(client.farms.map(async farm =>
+          (await db.getFieldsByFarmId(farm.id)).map(field => ({ field, farmName: farm.name }))
+        ))).flat();
+        const [pendingTasks, notes] = await Promise.all([
+          db.getPendingTasksByFieldIds(farmFields.map(({ field }) => field.id)),
+          db.getConsultantNotes(ctx.user.id, input.producerId),
+        ]);
+
+        const rows = await Promise.all(farmFields.map(async ({ field, farmName }) => {
+          const [crops, ndvi] = await Promise.all([
+            db.getCropsByFieldId(field.id),
+            db.getLatestNdviByFieldId(field.id),
+          ]);
+          const crop = crops.find(c => c.status === "planted" || c.status === "growing") ?? crops[0];
+          return {
+            farmName,
+            fieldName: field.name,
+            areaHectares: (field.areaHectares ?? 0) / 100,
+            crop: crop?.cropType ?? null,
+            cropStatus: crop?.status ?? null,
+            ndvi: ndvi?.ndviAverage != null ? ndvi.ndviAverage / 1000 : null,
+            ndviDate: ndvi?.captureDate ?? null,
+            pendingTasks: pendingTasks.filter(task => task.fieldId === field.id).length,
+          };
+        }));
+
+        const csv = consultants.clientReportCsv(client.name, rows, notes);
+        return {
+          fileName: `relatorio_${fieldExport.safeFileName(client.name)}.csv`,
+          mimeType: "text/csv;charset=utf-8",
+          contentBase64: Buffer.from(csv, "utf-8").toString("base64"),
+        };
+      }),
+
+    // Anotações do consultor sobre o cliente (o produtor não vê)
+    notes: router({
+      list: protectedProcedure
+        .input(z.object({ producerId: z.number() }))
+        .query(async ({ ctx, input }) => {
+          await getClientForConsultant(input.producerId, ctx.user.id);
+          return await db.getConsultantNotes(ctx.user.id, input.producerId);
+        }),
+      create: protectedProcedure
+        .input(z.object({
+          producerId: z.number(),
+          title: z.string().optional(),
+          content: z.string().min(1),
+        }))
+        .mutation(async ({ ctx, input }) => {
+          await getClientForConsultant(input.producerId, ctx.user.id);
+          const id = await db.createConsultantNote({ ...input, consultantId: ctx.user.id });
+          return { id, success: true };
+        }),
+      update: protectedProcedure
+        .input(z.object({
+          id: z.number(),
+          title: z.string().optional(),
+          content: z.string().min(1).optional(),
+        }))
+        .mutation(async ({ ctx, input }) => {
+          await getConsultantNoteForConsultant(input.id, ctx.user.id);
+          const { id, ...data } = input;
+          await db.updateConsultantNote(id, data);
+          return { success: true };
+        }),
+      delete: protectedProcedure
+        .input(z.object({ id: z.number() }))
+        .mutation(async ({ ctx, input }) => {
+          await getConsultantNoteForConsultant(input.id, ctx.user.id);
+          await db.deleteConsultantNote(input.id);
+          return { success: true };
+        }),
+    }),
+  }),
+
+  // ==================== SHARING ====================
+  sharing: router({
+    // Compartilhamentos do campo (só o dono vê e gerencia)
+    getByField: protectedProcedure
+      .input(z.object({ fieldId: z.number() }))
+      .query(async ({ ctx, input }) => {
+        await getFieldWithAccess(input.fieldId, ctx.member, "owner");
+        const shares = await db.getFieldSharesByFieldId(input.fieldId);
+        const baseUrl = shareBaseUrl(ctx.req);
+        return await Promise.all(shares.map(async share => {
+          const sharedWith = share.sharedWithUserId ? await db.getUserById(share.sharedWithUserId) : undefined;
+          return {
+            id: share.id,
+            fieldId: share.fieldId,
+            email: share.email ?? sharedWith?.email ?? null,
+            sharedWithName: sharedWith?.name ?? null,
+            permission: share.permission,
+            isLink: !share.email && !share.sharedWithUserId,
+            link: fieldSharing.shareLink(share.token, baseUrl),
+            status: fieldSharing.shareStatus(share),
+            expiresAt: share.expiresAt,
+            acceptedAt: share.acceptedAt,
+            createdAt: share.createdAt,
+          };
+        }));
+      }),
+
+    // Convite por e-mail: o convidado aceita pelo link, logado com o mesmo e-mail.
+    // O app não envia e-mails: quem já tem conta recebe o convite nas notificações;
+    // para os demais, o dono envia o link (notified: false).
+    create: protectedProcedure
+      .input(z.object({
+        fieldId: z.number(),
+        email: z.string().trim().email(),
+        permission: z.enum(["view", "comment", "edit"]).default("view"),
+        expiresAt: z.date().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "owner");
+        const email = fieldSharing.normalizeEmail(input.email);
+        if (ctx.user.email && fieldSharing.normalizeEmail(ctx.user.email) === email) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "Você já é o dono deste campo" });
+        }
+        if (input.expiresAt && input.expiresAt <= new Date()) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A validade precisa ser uma data futura" });
+        }
+
+        const token = fieldSharing.generateShareToken();
+        const id = await db.createFieldShare({
+          fieldId: field.id,
+          ownerId: ctx.user.id,
+          email,
+          permission: input.permission,
+          token,
+          expiresAt: input.expiresAt ?? null,
+        });
+
+        const invitee = await db.getUserByEmail(email);
+        if (invitee) {
+          await db.createNotification({
+            userId: invitee.id,
+            title: `${ctx.user.name ?? "Um produtor"} compartilhou o campo ${field.name}`,
+            message: `Permissão para ${fieldSharing.ACCESS_LABELS[input.permission]}`,
+            notificationType: "system",
+            relatedFieldId: field.id,
+            actionUrl: `/share/${token}`,
+          });
+        }
+
+        return { id, token, link: fieldSharing.shareLink(token, shareBaseUrl(ctx.req)), notified: !!invitee };
+      }),
+
+    // Link aberto: qualquer usuário logado que abrir o link ganha o acesso
+    getShareLink: protectedProcedure
+      .input(z.object({
+        fieldId: z.number(),
+        permission: z.enum(["view", "comment", "edit"]).default("view"),
+        expiresAt: z.date().optional(),
+      }))
+      .mutation(async ({ ctx, input }) => {
+        const { field } = await getFieldWithAccess(input.fieldId, ctx.member, "owner");
+        if (input.expiresAt && input.expiresAt <= new Date()) {
+          throw new TRPCError({ code: "BAD_REQUEST", message: "A validade precisa ser uma data futura" });
+        }
+
+        const token = fieldSharing.generateShareToken();
+        const id = await db.createFieldShare({
+          fieldId: field.id,
+          ownerId: ctx.user.id,
+          permission: input.permission,
+          token,
+          expiresAt: input.expiresAt ?? null,
+        });
+        return {
+          id,
+          token,
+          link: fieldSharing.shareLink(token, shareBaseUrl(ctx.req)),
+          expiresAt: input.expiresAt ?? null,
+        };
+      }),
+
+    // Aceitar convite ou link; devolve o campo para o cliente abrir
+    accept: protectedProcedure
+      .input(z.object({ token: z.string().min(1) }))
+      .mutation(async ({ ctx, input }) => {
+        const share = await db.getFieldShareByToken(input.token);
+        const field = share ? await db.getFieldById(share.fieldId) : undefined;
+        if (!share || !field || !field.isActive || share.parentShareId || !fieldSharing.isShareActive(share)) {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Convite inválido ou expirado" });
+        }
+        if (field.userId === ctx.user.id) {
+          return { fieldId: field.id, permission: "owner" as fieldSharing.AccessLevel };
+        }
+
+        if (share.email) {
+          const userEmail = ctx.user.email ? fieldSharing.normalizeEmail(ctx.user.email) : null;
+          if (userEmail !== share.email || (share.sharedWithUserId && share.sharedWithUserId !== ctx.user.id)) {
+            throw new TRPCError({ code: "FORBIDDEN", message: "Este convite foi enviado para outro e-mail" });
+          }
+          if (!share.acceptedAt) {
+            await db.updateFieldShare(share.id, { sharedWithUserId: ctx.user.id, acceptedAt: new Date() });
+          }
+          return { fieldId: field.id, permission: share.permission as fieldSharing.AccessLevel };
+        }
+
+        // Cada usuário que abre o link ganha o próprio acesso, revogado junto com o link
+        const existing = await db.getFieldSharesForUser(field.id, ctx.user.id);
+        if (!existing.some(s => s.parentShareId === share.id && fieldSharing.isShareActive(s))) {
+          await db.createFieldShare({
+            fieldId: field.id,
+            ownerId: share.ownerId,
+            sharedWithUserId: ctx.user.id,
+            parentShareId: share.id,
+            permission: share.permission,
+            token: fieldSharing.generateShareToken(),
+            expiresAt: share.expiresAt,
+            acceptedAt: new Date(),
+          });
+        }
+        return { fieldId: field.id, permission: share.permission as fieldSharing.AccessLevel };
+      }),
+
+    // Revogar convite, link ou acesso de uma pessoa
+    delete: protectedProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ ctx, input }) => {
+        await getShareWithAccess(input.id, ctx.member);
+        await db.revokeFieldShare(input.id);
+        return { success: true };
+      }),
+
+    // Campos de outros usuários compartilhados comigo (só acessos válidos)
+    sharedWithMe: protectedProcedure.query(async ({ ctx }) => {
+      const rows = await db.getSharedFieldsForUser(ctx.user.id);
+      const byField = new Map<number, { field: typeof rows[number]["field"]; permission: fieldSharing.SharePermission; expiresAt: Date | null }>();
+      rows.forEach(({ share, field }) => {
+        if (!fieldSharing.isShareActive(share)) return;
+        const current = byField.get(field.id);
+        if (!current || fieldSharing.hasAccess(share.permission, current.permission)) {
+          byField.set(field.id, { field, permission: share.permission, expiresAt: share.expiresAt });
+        }
+      });
+      return await Promise.all(Array.from(byField.values()).map(async ({ field, permission, expiresAt }) => {
+        const owner = await db.getUserById(field.userId);
+        return { ...field, access: permission, expiresAt, ownerName: owner?.name ?? owner?.email ?? null };
+      }));
+    }),
+  }),
+
   // ==================== NOTIFICATIONS ====================
   notifications: router({
     list: protectedProcedure
@@ -815,7 +2267,8 @@ export const appRouter = router({
     }),
     markAsRead: protectedProcedure
       .input(z.object({ id: z.number() }))
-      .mutation(async ({ input }) => {
+      .mutation(async ({ ctx, input }) => {
+        await getNotificationForUser(input.id, ctx.user.id);
         await db.markNotificationAsRead(input.id);
         return { success: true };
       }),
@@ -828,15 +2281,15 @@ export const appRouter = router({
   // ==================== DASHBOARD ====================
   dashboard: router({
     getStats: protectedProcedure.query(async ({ ctx }) => {
-      return await db.getDashboardStats(ctx.user.id);
+      return await db.getDashboardStats(ctx.user.id, ctx.member.organizationId);
     }),
     getOverview: protectedProcedure.query(async ({ ctx }) => {
       const [stats, fields, pendingTasks, alerts, recentNotes] = await Promise.all([
-        db.getDashboardStats(ctx.user.id),
-        db.getFieldsByUserId(ctx.user.id),
-        db.getPendingTasksByUserId(ctx.user.id),
+        db.getDashboardStats(ctx.user.id, ctx.member.organizationId),
+        db.getFieldsByOrganizationId(ctx.member.organizationId),
+        db.getPendingTasksByOrganizationId(ctx.member.organizationId),
         db.getWeatherAlertsByUserId(ctx.user.id),
-        db.getFieldNotesByUserId(ctx.user.id),
+        db.getFieldNotesByOrganizationId(ctx.member.organizationId),
       ]);
       
       return {
@@ -848,6 +2301,56 @@ export const appRouter = router({
       };
     }),
   }),
+
+  // ==================== JOBS (administração) ====================
+  jobs: router({
+    // Cada job com a agenda, o último horário e como ficaram as execuções dele
+    status: adminProcedure.query(async () => {
+      const now = new Date();
+      return await Promise.all(JOB_NAMES.map(async name => {
+        const lastSlot = await db.getLatestJobSlot(name);
+        return {
+          name,
+          label: JOBS[name].label,
+          schedule: JOBS[name].schedule,
+          nextRunAt: jobs.nextRun(JOBS[name].schedule, now),
+          lastSlot,
+          lastCounts: lastSlot ? await db.getJobRunCounts(name, lastSlot) : null,
+        };
+      }));
+    }),
+
+    runs: adminProcedure
+      .input(z.object({
+        jobName: z.enum(JOB_NAMES).optional(),
+        status: z.enum(["pending", "running", "succeeded", "failed"]).optional(),
+        limit: z.number().int().min(1).max(200).default(50),
+      }))
+      .query(async ({ input }) => {
+        return await db.getJobRuns(input);
+      }),
+
+    // Agenda para agora; o agendador executa na próxima rodada
+    trigger: adminProcedure
+      .input(z.object({ jobName: z.enum(JOB_NAMES), userId: z.number().optional() }))
+      .mutation(async ({ input }) => {
+        const now = new Date();
+        now.setMilliseconds(0);
+        const runs = await enqueueJob(input.jobName, now, input.userId, "manual");
+        return { success: true, runs };
+      }),
+
+    retry: adminProcedure
+      .input(z.object({ id: z.number() }))
+      .mutation(async ({ input }) => {
+        const run = await db.getJobRunById(input.id);
+        if (!run || run.status !== "failed") {
+          throw new TRPCError({ code: "NOT_FOUND", message: "Execução com falha não encontrada" });
+        }
+        await db.updateJobRun(run.id, { status: "pending", attempts: 0, nextAttemptAt: new Date() });
+        return { success: true };
+      }),
+  }),
 });
 
 export type AppRouter = typeof appRouter;
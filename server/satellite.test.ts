@@ -0,0 +1,205 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { PNG } from "pngjs";
+import { ENV } from "./_core/env";
+import { registerNdviRoutes } from "./_core/ndviRoutes";
+import { fakeSatelliteProvider } from "./services/fakeSatellite";
+import { getJobSatelliteProvider, getSatelliteProvider } from "./services/satelliteProviders";
+import { pickBestScene, withFallback, type SatelliteProvider, type SatelliteTarget } from "./services/satellite";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => (id === 7 ? { id: 7, userId: 1, organizationId: 1, name: "Talhão 7", geometry: triangle } : undefined)),
+}));
+
+// Sessão do usuário 1, dono do campo
+vi.mock("./_core/sdk", () => ({ sdk: { authenticateRequest: vi.fn(async () => ({ id: 1 })) } }));
+
+// Triângulo retângulo: metade superior direita do quadrado fica fora do campo
+const triangle = {
+  type: "Polygon" as const,
+  coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.01, -22.0], [-47.01, -22.01]]],
+};
+const target: SatelliteTarget = { fieldId: 7, geometry: triangle };
+const at = (iso: string) => new Date(iso);
+
+function alphaAt(data: Buffer, x: number, y: number): number {
+  const png = PNG.sync.read(data);
+  return png.data[(y * png.width + x) * 4 + 3];
+}
+
+function stubProvider(name: string, overrides: Partial<SatelliteProvider> = {}): SatelliteProvider {
+  return {
+    ...fakeSatelliteProvider,
+    name,
+    indexStats: vi.fn(async () => [{ captureDate: at("2026-10-01T13:00:00Z"), mean: 0.5, min: 0.3, max: 0.7, cloudCoverage: 0, validPixelRatio: 1, source: name }]),
+    ...overrides,
+  };
+}
+
+describe("fake satellite provider", () => {
+  it("returns the same scenes and statistics on every call", async () => {
+    const from = at("2026-08-01T00:00:00Z");
+    const to = at("2026-10-18T00:00:00Z");
+    const scenes = await fakeSatelliteProvider.searchScenes(target, from, to);
+    expect(await fakeSatelliteProvider.searchScenes(target, from, to)).toEqual(scenes);
+
+    // Uma passagem a cada 5 dias, às 13:30 UTC
+    expect(scenes.length).toBe(16);
+    expect(scenes[1].captureDate.getTime() - scenes[0].captureDate.getTime()).toBe(5 * 24 * 60 * 60 * 1000);
+    expect(scenes[0].captureDate.toISOString()).toMatch(/T13:30:00.000Z$/);
+
+    const stats = await fakeSatelliteProvider.indexStats(target, { index: "ndvi", from, to });
+    expect(await fakeSatelliteProvider.indexStats(target, { index: "ndvi", from, to })).toEqual(stats);
+    expect(stats.length).toBeGreaterThan(0);
+    stats.forEach(point => {
+      expect(point.min).toBeLessThan(point.mean);
+      expect(point.max).toBeGreaterThan(point.mean);
+      expect(point.cloudCoverage).toBeLessThanOrEqual(80);
+    });
+  });
+
+  it("renders the field image transparent outside the boundary", async () => {
+    const day = (await fakeSatelliteProvider.searchScenes(target, at("2026-10-01T00:00:00Z"), at("2026-10-18T00:00:00Z")))[0];
+    const image = await fakeSatelliteProvider.renderImage(target, { index: "ndvi", date: day.captureDate });
+    const png = PNG.sync.read(image.data);
+
+    expect(image.contentType).toBe("image/png");
+    expect(png.width).toBe(png.height);
+    expect(alphaAt(image.data, 2, png.height - 3)).toBe(255);
+    expect(alphaAt(image.data, png.width - 3, 2)).toBe(0);
+    const nextDay = new Date(day.captureDate.getTime() + 24 * 60 * 60 * 1000);
+    await expect(fakeSatelliteProvider.renderImage(target, { index: "ndvi", date: nextDay }))
+      .rejects.toThrow("Nenhuma cena no período");
+  });
+});
+
+describe("satellite provider fallback", () => {
+  it("uses the next provider when one fails or does not serve the field", async () => {
+    const unsupported = stubProvider("agromonitoring", { supports: () => false });
+    const failing = stubProvider("sentinel-hub", { indexStats: vi.fn().mockRejectedValue(new Error("503")) });
+    const working = stubProvider("backup");
+    const provider = withFallback([unsupported, failing, working]);
+
+    const stats = await provider.indexStats(target, { index: "ndvi", from: at("2026-10-01T00:00:00Z"), to: at("2026-10-18T00:00:00Z") });
+    expect(stats[0].source).toBe("backup");
+    expect(unsupported.indexStats).not.toHaveBeenCalled();
+    expect(failing.indexStats).toHaveBeenCalledTimes(1);
+
+    await expect(withFallback([failing]).indexStats(target, { index: "ndvi", from: new Date(), to: new Date() }))
+      .rejects.toThrow("503");
+    await expect(withFallback([]).searchScenes(target, new Date(), new Date()))
+      .rejects.toThrow("Nenhum provedor de satélite disponível");
+  });
+
+  it("leaves providers without per-pixel rasters out of indexRaster", async () => {
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    try {
+      const statsOnly = stubProvider("agromonitoring", { supportsRaster: false, indexRaster: vi.fn() });
+      const raster = stubProvider("sentinel-hub");
+      const date = (await fakeSatelliteProvider.searchScenes(target, at("2026-10-01T00:00:00Z"), at("2026-10-18T00:00:00Z")))[0].captureDate;
+
+      await withFallback([statsOnly, raster]).indexRaster(target, { index: "ndvi", date, width: 8, height: 8 });
+      expect(statsOnly.indexRaster).not.toHaveBeenCalled();
+      expect(warn).not.toHaveBeenCalled();
+
+      expect(withFallback([statsOnly]).supportsRaster).toBe(false);
+      await expect(withFallback([statsOnly]).indexRaster(target, { index: "ndvi", date, width: 8, height: 8 }))
+        .rejects.toThrow("Nenhum provedor de satélite fornece o NDVI por pixel para o campo");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it("picks the clearest recent scene", () => {
+    const scenes = [
+      { captureDate: at("2026-10-01T00:00:00Z"), cloudCoverage: 2 },
+      { captureDate: at("2026-10-11T00:00:00Z"), cloudCoverage: 10 },
+      { captureDate: at("2026-10-16T00:00:00Z"), cloudCoverage: 60 },
+    ];
+    expect(pickBestScene(scenes)?.captureDate).toEqual(at("2026-10-11T00:00:00Z"));
+    expect(pickBestScene(scenes.slice(2))?.cloudCoverage).toBe(60);
+    expect(pickBestScene([])).toBeNull();
+  });
+
+  it("runs on the fake provider without API keys", () => {
+    const saved = { ...ENV };
+    try {
+      Object.assign(ENV, { agromonitoringApiKey: "", COPERNICUS_CLIENT_ID: "", COPERNICUS_CLIENT_SECRET: "", satelliteProvider: "" });
+      expect(getSatelliteProvider().name).toBe("fake");
+
+      Object.assign(ENV, { COPERNICUS_CLIENT_ID: "id", COPERNICUS_CLIENT_SECRET: "secret" });
+      expect(getSatelliteProvider().name).toBe("sentinel-hub");
+
+      Object.assign(ENV, { satelliteProvider: "fake" });
+      expect(getSatelliteProvider()).toBe(fakeSatelliteProvider);
+    } finally {
+      Object.assign(ENV, saved);
+    }
+  });
+
+  it("keeps the fake provider out of the jobs unless it is asked for", () => {
+    const saved = { ...ENV };
+    try {
+      Object.assign(ENV, { agromonitoringApiKey: "", COPERNICUS_CLIENT_ID: "", COPERNICUS_CLIENT_SECRET: "", satelliteProvider: "" });
+      expect(getSatelliteProvider()).toBe(fakeSatelliteProvider);
+      expect(getJobSatelliteProvider()).toBeNull();
+
+      Object.assign(ENV, { satelliteProvider: "fake" });
+      expect(getJobSatelliteProvider()).toBe(fakeSatelliteProvider);
+
+      Object.assign(ENV, { COPERNICUS_CLIENT_ID: "id", COPERNICUS_CLIENT_SECRET: "secret", satelliteProvider: "" });
+      expect(getJobSatelliteProvider()?.name).toBe("sentinel-hub");
+    } finally {
+      Object.assign(ENV, saved);
+    }
+  });
+});
+
+describe("NDVI routes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    registerNdviRoutes(app);
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    ENV.satelliteProvider = "";
+  });
+
+  beforeEach(() => {
+    ENV.satelliteProvider = "fake";
+  });
+
+  it("serves field images, clipped tiles and history from the provider", async () => {
+    const image = await fetch(`${baseUrl}/api/ndvi-image/7`);
+    expect(image.status).toBe(200);
+    expect(image.headers.get("content-type")).toBe("image/png");
+    expect(image.headers.get("access-control-allow-origin")).toBe("*");
+
+    // Tile z16 que contém o campo: a parte fora do triângulo fica transparente
+    const tile = await fetch(`${baseUrl}/api/ndvi-tiles/7/16/24211/36876.png`);
+    expect(tile.status).toBe(200);
+    const png = PNG.sync.read(Buffer.from(await tile.arrayBuffer()));
+    const opaque = png.data.filter((_, i) => i % 4 === 3 && png.data[i] > 0).length;
+    expect(opaque).toBeGreaterThan(0);
+    expect(opaque).toBeLessThan(256 * 256);
+
+    const history = await (await fetch(`${baseUrl}/api/copernicus-ndvi-history/7?days=60`)).json();
+    expect(history).toMatchObject({ fieldId: 7, period: { days: 60 } });
+    expect(history.history[0]).toMatchObject({ source: "fake" });
+  });
+
+  it("answers missing fields and invalid tiles with client errors", async () => {
+    expect((await fetch(`${baseUrl}/api/ndvi-image/99`)).status).toBe(404);
+    expect((await fetch(`${baseUrl}/api/ndvi-tiles/7/2/9/0.png`)).status).toBe(400);
+  });
+});
@@ -10,30 +10,13 @@ import * as db from "../db";
 import { getWeatherForecast, WeatherForecast } from "./openMeteo";
 import { predictPestRisks, WeatherConditions } from "./pestPrediction";
 import { calculateFieldHealthScore } from "./fieldHealthScore";
+import * as geometry from "./geometry";
 import { processAgronomistChat, ChatMessage, FieldContext, UserContext } from "./aiAgronomist";
 
-// Helper: get field center coordinates
-function getFieldCenter(field: { boundaries?: string | unknown }): { lat: number; lon: number } {
-  let lat = -23.5505;
-  let lon = -46.6333;
-  
-  if (field.boundaries) {
-    try {
-      const coords = typeof field.boundaries === 'string' 
-        ? JSON.parse(field.boundaries) 
-        : field.boundaries;
-      if (Array.isArray(coords) && coords.length > 0) {
-        const sumLat = coords.reduce((sum: number, c: { lat?: number; 1?: number }) => sum + (c.lat || c[1] || 0), 0);
-        const sumLon = coords.reduce((sum: number, c: { lng?: number; lon?: number; 0?: number }) => sum + (c.lng || c.lon || c[0] || 0), 0);
-        lat = sumLat / coords.length;
-        lon = sumLon / coords.length;
-      }
-    } catch (e) {
-      console.error("Error parsing boundaries:", e);
-    }
-  }
-  
-  return { lat, lon };
+// Helper: get field center coordinates (defaults to São Paulo)
+function getFieldCenter(field: Parameters<typeof geometry.getFieldCenter>[0]): { lat: number; lon: number } {
+  const center = geometry.getFieldCenter(field);
+  return center ? { lat: center.lat, lon: center.lng } : { lat: -23.5505, lon: -46.6333 };
 }
 
 // Helper: get weather stats from forecast for pest prediction
@@ -4,6 +4,15 @@
  */
 
 import { ENV } from "../_core/env";
+import { BadRequestError, NotFoundError } from "@shared/_core/errors";
+import { toBoundaries, type FieldGeometry } from "./geometry";
+import {
+  pickBestScene,
+  type IndexStats,
+  type RenderedImage,
+  type SatelliteProvider,
+  type VegetationIndex,
+} from "./satellite";
 
 const AGRO_BASE_URL = "https://api.agromonitoring.com/agro/1.0";
 
@@ -106,16 +115,15 @@ export async function listPolygons(): Promise<AgroPolygon[]> {
  */
 export async function createPolygon(
   name: string,
-  coordinates: Array<{ lat: number; lng: number }>
+  geometry: FieldGeometry
 ): Promise<AgroPolygon> {
   const apiKey = getApiKey();
   
-  // Converter para formato GeoJSON
-  const geoJsonCoords = coordinates.map(c => [c.lng, c.lat]);
-  // Fechar o polígono se necessário
-  if (geoJsonCoords[0][0] !== geoJsonCoords[geoJsonCoords.length - 1][0] ||
-      geoJsonCoords[0][1] !== geoJsonCoords[geoJsonCoords.length - 1][1]) {
-    geoJsonCoords.push(geoJsonCoords[0]);
+  // O Agromonitoring aceita apenas Polygon: em MultiPolygon usa a maior parte
+  let polygon = geometry;
+  if (geometry.type === "MultiPolygon") {
+    const outerRing = toBoundaries(geometry).map(c => [c.lng, c.lat]);
+    polygon = { type: "Polygon", coordinates: [[...outerRing, outerRing[0]]] };
   }
   
   const body = {
@@ -123,10 +131,7 @@ export async function createPolygon(
     geo_json: {
       type: "Feature",
       properties: {},
-      geometry: {
-        type: "Polygon",
-        coordinates: [geoJsonCoords],
-      },
+      geometry: polygon,
     },
   };
   
@@ -241,3 +246,138 @@ export async function proxyNdviImage(imageUrl: string): Promise<Buffer> {
   const arrayBuffer = await response.arrayBuffer();
   return Buffer.from(arrayBuffer);
 }
+
+// ==================== PROVEDOR DE SATÉLITE ====================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Índices com imagem, tile e estatística prontos na API
+type AgroIndex = "ndvi" | "evi";
+const AGRO_INDICES: AgroIndex[] = ["ndvi", "evi"];
+
+function agroIndex(index: VegetationIndex): AgroIndex {
+  if (!(AGRO_INDICES as string[]).includes(index)) {
+    throw BadRequestError(`O Agromonitoring não calcula ${index.toUpperCase()}`);
+  }
+  return index as AgroIndex;
+}
+
+// Parte do polígono com dados (dc) e sem nuvens (cl)
+function agroValidRatio(scene: { dc: number; cl: number }): number {
+  return (scene.dc / 100) * (1 - scene.cl / 100);
+}
+
+/**
+ * Imagem da data pedida (o dia inteiro) ou a melhor dos últimos 60 dias
+ */
+async function findImage(polygonId: string, index: AgroIndex, date?: Date): Promise<AgroSatelliteImage> {
+  const from = date ? new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate())) : new Date(Date.now() - 60 * DAY_MS);
+  const to = date ? new Date(from.getTime() + DAY_MS) : new Date();
+  const images = await searchSatelliteImages(polygonId, from, to);
+  const best = pickBestScene(images.map(image => ({ image, captureDate: new Date(image.dt * 1000), cloudCoverage: image.cl })));
+  if (!best?.image.image?.[index]) throw NotFoundError(`Nenhuma imagem ${index.toUpperCase()} do Agromonitoring no período`);
+  return best.image;
+}
+
+/**
+ * Estatísticas de um índice sem endpoint de histórico (EVI): uma consulta por imagem
+ */
+async function imageStats(polygonId: string, index: AgroIndex, from: Date, to: Date): Promise<IndexStats[]> {
+  const images = await searchSatelliteImages(polygonId, from, to);
+  const stats: IndexStats[] = [];
+  for (const image of images) {
+    if (!image.stats?.[index]) continue;
+    const response = await fetch(image.stats[index].replace("http://", "https://"));
+    if (!response.ok) {
+      throw new Error(`Erro ao buscar estatísticas ${index.toUpperCase()}: ${response.status}`);
+    }
+    const data: AgroNdviStats["data"] = await response.json();
+    stats.push({
+      captureDate: new Date(image.dt * 1000),
+      mean: data.mean,
+      min: data.min,
+      max: data.max,
+      cloudCoverage: image.cl,
+      validPixelRatio: agroValidRatio(image),
+      source: image.type,
+    });
+  }
+  return stats;
+}
+
+// Paleta 2 (verde-amarelo-vermelho) é a mais parecida com a do OneSoil
+function withPalette(url: string): string {
+  const httpsUrl = url.replace("http://", "https://");
+  if (httpsUrl.includes("paletteid")) return httpsUrl;
+  return httpsUrl + (httpsUrl.includes("?") ? "&paletteid=2" : "?paletteid=2");
+}
+
+async function fetchImage(url: string): Promise<RenderedImage> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Erro ao buscar imagem: ${response.status}`);
+  }
+  return {
+    data: Buffer.from(await response.arrayBuffer()),
+    contentType: response.headers.get("content-type") || "image/png",
+  };
+}
+
+/**
+ * Adaptador do Agromonitoring: só atende campos com polígono cadastrado lá e só
+ * calcula NDVI e EVI (os demais índices ficam com o Sentinel Hub). As imagens usam a paleta do próprio Agromonitoring (o parâmetro `palette` é ignorado).
+ */
+export const agromonitoringProvider: SatelliteProvider = {
+  name: "agromonitoring",
+  indices: AGRO_INDICES,
+  supportsRaster: false,
+  isConfigured: () => Boolean(ENV.agromonitoringApiKey),
+  supports: target => Boolean(target.agroPolygonId),
+
+  async searchScenes(target, from, to) {
+    const images = await searchSatelliteImages(target.agroPolygonId!, from, to);
+    return images.map(image => ({
+      captureDate: new Date(image.dt * 1000),
+      cloudCoverage: image.cl,
+      dataCoverage: image.dc,
+      source: image.type,
+    }));
+  },
+
+  async indexStats(target, { index, from, to }) {
+    const agro = agroIndex(index);
+    if (agro !== "ndvi") return imageStats(target.agroPolygonId!, agro, from, to);
+    const history = await getNdviHistory(target.agroPolygonId!, from, to);
+    return history.map(entry => ({
+      captureDate: new Date(entry.dt * 1000),
+      mean: entry.data.mean,
+      min: entry.data.min,
+      max: entry.data.max,
+      cloudCoverage: entry.cl,
+      validPixelRatio: agroValidRatio(entry),
+      source: entry.source || "agromonitoring",
+    }));
+  },
+
+  async renderImage(target, { index, date }) {
+    const agro = agroIndex(index);
+    const image = await findImage(target.agroPolygonId!, agro, date);
+    return fetchImage(withPalette(image.image[agro]));
+  },
+
+  async renderTile(target, { z, x, y }, { index, date }) {
+    const agro = agroIndex(index);
+    const image = await findImage(target.agroPolygonId!, agro, date);
+    if (!image.tile?.[agro]) throw NotFoundError(`Nenhum tile ${agro.toUpperCase()} do Agromonitoring no período`);
+    const url = image.tile[agro]
+      .replace("{z}", String(z))
+      .replace("{x}", String(x))
+      .replace("{y}", String(y));
+    return fetchImage(withPalette(url));
+  },
+
+  // Os dados brutos do Agromonitoring são GeoTIFF (supportsRaster false); os pixels vêm de outro provedor
+  async indexRaster() {
+    throw BadRequestError("O Agromonitoring não fornece os valores do índice por pixel");
+  },
+};
@@ -0,0 +1,86 @@
+/**
+ * Boundary Versions Service
+ * Limites dos campos com período de vigência (validFrom/validTo): qual polígono
+ * vale em cada data das séries temporais e o que mudou entre duas versões
+ */
+
+import * as turf from "@turf/turf";
+import { parseGeometry, type FieldGeometry } from "./geometry";
+
+export interface BoundaryVersionLike {
+  geometry: unknown;
+  validFrom: Date;
+  validTo: Date | null;
+}
+
+export interface BoundaryPeriod {
+  geometry: FieldGeometry;
+  from: Date;
+  to: Date; // exclusivo
+}
+
+export interface BoundaryDiff {
+  added: FieldGeometry | null; // área que entrou no campo
+  removed: FieldGeometry | null; // área que saiu do campo
+  addedHectares: number;
+  removedHectares: number;
+}
+
+/**
+ * Datas no mesmo dia (UTC): a nova versão é tratada como correção da atual
+ */
+export function sameDay(a: Date, b: Date): boolean {
+  return a.toISOString().split("T")[0] === b.toISOString().split("T")[0];
+}
+
+/**
+ * Divide o intervalo [start, end) nos trechos cobertos por cada versão.
+ * Datas anteriores à primeira versão usam a primeira; sem versões, usa `fallback`.
+ */
+export function boundaryPeriods(
+  versions: BoundaryVersionLike[],
+  start: Date,
+  end: Date,
+  fallback: FieldGeometry | null
+): BoundaryPeriod[] {
+  const sorted = versions
+    .map(v => ({ geometry: parseGeometry(v.geometry), validFrom: v.validFrom, validTo: v.validTo }))
+    .filter((v): v is { geometry: FieldGeometry; validFrom: Date; validTo: Date | null } => v.geometry !== null)
+    .sort((a, b) => a.validFrom.getTime() - b.validFrom.getTime());
+
+  if (sorted.length === 0) {
+    return fallback ? [{ geometry: fallback, from: start, to: end }] : [];
+  }
+
+  const periods: BoundaryPeriod[] = [];
+  sorted.forEach((version, i) => {
+    const from = i === 0 ? start : new Date(Math.max(start.getTime(), version.validFrom.getTime()));
+    const to = version.validTo ? new Date(Math.min(end.getTime(), version.validTo.getTime())) : end;
+    if (from < to) {
+      periods.push({ geometry: version.geometry, from, to });
+    }
+  });
+  return periods;
+}
+
+function toFieldGeometry(feature: { geometry: unknown } | null): FieldGeometry | null {
+  return feature ? parseGeometry(feature.geometry) : null;
+}
+
+function hectares(geometry: FieldGeometry | null): number {
+  return geometry ? Math.round((turf.area(geometry) / 10000) * 100) / 100 : 0;
+}
+
+/**
+ * Áreas acrescentadas e retiradas entre a versão anterior e a nova
+ */
+export function diffBoundaries(previous: FieldGeometry, next: FieldGeometry): BoundaryDiff {
+  const added = toFieldGeometry(turf.difference(turf.featureCollection([turf.feature(next), turf.feature(previous)])));
+  const removed = toFieldGeometry(turf.difference(turf.featureCollection([turf.feature(previous), turf.feature(next)])));
+  return {
+    added,
+    removed,
+    addedHectares: hectares(added),
+    removedHectares: hectares(removed),
+  };
+}
@@ -4,6 +4,8 @@
  */
 
 import { z } from 'zod';
+import * as turf from '@turf/turf';
+import { measureGeometry, normalizeGeometry, parseGeometry, prepareFieldGeometry, type FieldGeometry, type Position } from './geometry';
 
 // Schema para dados do CAR
 export const CARDataSchema = z.object({
@@ -25,6 +27,17 @@ export const CARDataSchema = z.object({
 
 export type CARData = z.infer<typeof CARDataSchema>;
 
+// Camadas do CAR separadas por tipo
+export type CarAreaKey = 'total' | 'reservaLegal' | 'app' | 'consolidada';
+
+// Nome de cada camada para exibição e para nomear campos criados a partir do CAR
+export const CAR_AREA_LABELS: Record<CarAreaKey, string> = {
+  total: 'Imóvel',
+  reservaLegal: 'Reserva Legal',
+  app: 'APP',
+  consolidada: 'Área consolidada',
+};
+
 // Interface para resultado de importação
 export interface CARImportResult {
   success: boolean;
@@ -40,26 +53,6 @@ export interface CARImportResult {
   error?: string;
 }
 
-/**
- * Converte coordenadas de diferentes formatos para o padrão do app
- */
-function normalizeCoordinates(coords: any[]): Array<{ lat: number; lng: number }> {
-  return coords.map(coord => {
-    // [lng, lat] (GeoJSON padrão)
-    if (Array.isArray(coord) && coord.length >= 2) {
-      return { lng: coord[0], lat: coord[1] };
-    }
-    // { lng, lat } ou { lon, lat }
-    if (typeof coord === 'object') {
-      return {
-        lng: coord.lng || coord.lon || coord.longitude || 0,
-        lat: coord.lat || coord.latitude || 0
-      };
-    }
-    return { lat: 0, lng: 0 };
-  });
-}
-
 /**
  * Extrai geometria de um GeoJSON Feature ou FeatureCollection
  */
@@ -77,36 +70,6 @@ function extractGeometry(geojson: any): any {
   return null;
 }
 
-/**
- * Calcula área em hectares a partir de coordenadas
- * Usa fórmula do polígono de Gauss
- */
-function calculateAreaHectares(coordinates: Array<{ lat: number; lng: number }>): number {
-  if (coordinates.length < 3) return 0;
-  
-  // Converter para metros usando projeção simples (aproximação para Brasil)
-  const toMeters = (lat: number, lng: number, refLat: number, refLng: number) => {
-    const latRad = (refLat * Math.PI) / 180;
-    const x = (lng - refLng) * (111320 * Math.cos(latRad));
-    const y = (lat - refLat) * 110540;
-    return { x, y };
-  };
-  
-  const refLat = coordinates[0].lat;
-  const refLng = coordinates[0].lng;
-  const metersCoords = coordinates.map(c => toMeters(c.lat, c.lng, refLat, refLng));
-  
-  // Shoelace formula
-  let area = 0;
-  for (let i = 0; i < metersCoords.length; i++) {
-    const j = (i + 1) % metersCoords.length;
-    area += metersCoords[i].x * metersCoords[j].y;
-    area -= metersCoords[j].x * metersCoords[i].y;
-  }
-  
-  return Math.abs(area / 2) / 10000; // Converter m² para hectares
-}
-
 /**
  * Parse de arquivo GeoJSON do CAR
  */
@@ -122,28 +85,16 @@ export function parseCarGeoJson(content: string): CARImportResult {
     // Extrair propriedades se disponíveis
     const properties = geojson.features?.[0]?.properties || geojson.properties || {};
     
-    let boundaries: Array<{ lat: number; lng: number }> = [];
-    
-    if (geometry.type === 'Polygon') {
-      boundaries = normalizeCoordinates(geometry.coordinates[0]);
-    } else if (geometry.type === 'MultiPolygon') {
-      // Pegar o maior polígono
-      let maxArea = 0;
-      geometry.coordinates.forEach((polygon: any) => {
-        const coords = normalizeCoordinates(polygon[0]);
-        const area = calculateAreaHectares(coords);
-        if (area > maxArea) {
-          maxArea = area;
-          boundaries = coords;
-        }
-      });
-    }
-    
-    if (boundaries.length < 3) {
-      return { success: false, error: 'Polígono inválido (menos de 3 pontos)' };
+    // Normaliza o perímetro do imóvel e calcula a área geodésica
+    let normalized;
+    try {
+      normalized = prepareFieldGeometry(geometry);
+    } catch (error) {
+      return { success: false, error: `Polígono inválido: ${error instanceof Error ? error.message : 'geometria inválida'}` };
     }
     
-    const areaTotal = calculateAreaHectares(boundaries);
+    const boundaries = normalized.boundaries;
+    const areaTotal = normalized.areaHectares;
     
     const data: CARData = {
       codigoCar: properties.cod_imovel || properties.COD_IMOVEL || properties.codigo_car || 'N/A',
@@ -155,7 +106,7 @@ export function parseCarGeoJson(content: string): CARImportResult {
       areaReservaLegal: properties.area_reserva_legal || properties.AREA_RL,
       areaApp: properties.area_app || properties.AREA_APP,
       situacao: properties.ind_status || 'ativo',
-      geometria: geometry,
+      geometria: normalized.geometry,
     };
     
     const warnings: string[] = [];
@@ -220,55 +171,165 @@ export async function fetchCarFromSicar(codigoCar: string): Promise<CARImportRes
 }
 
 /**
- * Extrai áreas específicas do CAR (Reserva Legal, APP, etc.)
+ * Tipo da feição do CAR pelo atributo `tipo` (ou `des_condic`); null se não for do CAR
+ */
+export function classifyCarFeature(properties: Record<string, unknown>): CarAreaKey | null {
+  const tipo = String(properties.tipo || properties.TIPO || properties.des_condic || '').toLowerCase();
+  
+  if (tipo.includes('area_imovel') || tipo.includes('perimetro')) {
+    return 'total';
+  } else if (tipo.includes('reserva_legal') || tipo.includes('rl')) {
+    return 'reservaLegal';
+  } else if (tipo.includes('app') || tipo.includes('preservacao')) {
+    return 'app';
+  } else if (tipo.includes('consolidada') || tipo.includes('uso')) {
+    return 'consolidada';
+  }
+  return null;
+}
+
+/**
+ * Extrai as áreas do CAR por tipo (imóvel, reserva legal, APP, consolidada).
+ * Mantém todas as partes e buracos: várias feições do mesmo tipo viram um MultiPolygon.
  */
-export function extractCarAreas(geojson: any): {
-  total?: Array<{ lat: number; lng: number }>;
-  reservaLegal?: Array<{ lat: number; lng: number }>;
-  app?: Array<{ lat: number; lng: number }>;
-  consolidada?: Array<{ lat: number; lng: number }>;
-} {
-  const result: any = {};
+export function extractCarAreas(geojson: any): Partial<Record<CarAreaKey, FieldGeometry>> {
+  const parts: Partial<Record<CarAreaKey, Position[][][]>> = {};
   
   if (geojson.type !== 'FeatureCollection') {
-    return result;
+    return {};
   }
   
   for (const feature of geojson.features) {
-    const props = feature.properties || {};
-    const tipo = (props.tipo || props.TIPO || props.des_condic || '').toLowerCase();
-    
-    let key: string | null = null;
-    
-    if (tipo.includes('area_imovel') || tipo.includes('perimetro')) {
-      key = 'total';
-    } else if (tipo.includes('reserva_legal') || tipo.includes('rl')) {
-      key = 'reservaLegal';
-    } else if (tipo.includes('app') || tipo.includes('preservacao')) {
-      key = 'app';
-    } else if (tipo.includes('consolidada') || tipo.includes('uso')) {
-      key = 'consolidada';
-    }
+    const key = classifyCarFeature(feature.properties || {});
     
     if (key && feature.geometry) {
-      const coords = feature.geometry.type === 'Polygon'
-        ? feature.geometry.coordinates[0]
-        : feature.geometry.type === 'MultiPolygon'
-          ? feature.geometry.coordinates[0][0]
-          : [];
-      
-      result[key] = normalizeCoordinates(coords);
+      try {
+        const { geometry } = normalizeGeometry(feature.geometry);
+        const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+        parts[key] = [...(parts[key] ?? []), ...polygons];
+      } catch {
+        // Feição sem geometria válida é ignorada
+      }
     }
   }
   
+  const result: Partial<Record<CarAreaKey, FieldGeometry>> = {};
+  for (const [key, polygons] of Object.entries(parts) as Array<[CarAreaKey, Position[][][]]>) {
+    result[key] = polygons.length === 1
+      ? { type: 'Polygon', coordinates: polygons[0] }
+      : { type: 'MultiPolygon', coordinates: polygons };
+  }
+  
   return result;
 }
 
+// Camadas do CAR salvas na fazenda (null = camada ausente no arquivo)
+export type CarLayers = Partial<Record<CarAreaKey, FieldGeometry | null>>;
+
+// Hectares de um campo dentro de cada camada protegida
+export interface CarOverlap {
+  appHectares: number;
+  reservaLegalHectares: number;
+  consolidadaHectares: number;
+}
+
+// Sobreposições menores que isso são imprecisão de desenho, não invasão
+export const MIN_OVERLAP_HECTARES = 0.01;
+
+/**
+ * Lê o GeoJSON do CAR e separa as camadas. Arquivos sem o tipo das feições
+ * são tratados como o perímetro do imóvel.
+ */
+export function parseCarLayers(content: string): { data: CARData; layers: Partial<Record<CarAreaKey, FieldGeometry>>; warnings: string[] } {
+  const result = parseCarGeoJson(content);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || 'Arquivo do CAR inválido');
+  }
+  
+  const layers = extractCarAreas(JSON.parse(content));
+  if (!layers.total) {
+    const perimeter = parseGeometry(result.data.geometria);
+    if (perimeter) layers.total = perimeter;
+  }
+  
+  const warnings = [...(result.warnings ?? [])];
+  if (!layers.reservaLegal && !layers.app) {
+    warnings.push('Arquivo sem camadas de Reserva Legal ou APP');
+  }
+  
+  return { data: result.data, layers, warnings };
+}
+
+/**
+ * Camadas de um CAR salvo (colunas JSON da tabela carRecords)
+ */
+export function carRecordLayers(record: { perimeter: unknown; reservaLegal: unknown; app: unknown; consolidada: unknown }): CarLayers {
+  return {
+    total: parseGeometry(record.perimeter),
+    reservaLegal: parseGeometry(record.reservaLegal),
+    app: parseGeometry(record.app),
+    consolidada: parseGeometry(record.consolidada),
+  };
+}
+
+/**
+ * Área (ha) de cada camada do CAR
+ */
+export function carLayerHectares(layers: CarLayers): Record<CarAreaKey, number> {
+  const hectares = (geometry: FieldGeometry | null | undefined) =>
+    geometry ? measureGeometry(geometry).areaHectares : 0;
+  return {
+    total: hectares(layers.total),
+    reservaLegal: hectares(layers.reservaLegal),
+    app: hectares(layers.app),
+    consolidada: hectares(layers.consolidada),
+  };
+}
+
+function intersectionHectares(field: FieldGeometry, layer: FieldGeometry | null | undefined): number {
+  if (!layer) return 0;
+  const intersection = turf.intersect(turf.featureCollection([turf.feature(field), turf.feature(layer)]));
+  if (!intersection) return 0;
+  return Math.round((turf.area(intersection) / 10000) * 100) / 100;
+}
+
+/**
+ * Hectares do campo dentro da APP, da Reserva Legal e da área consolidada
+ */
+export function carOverlap(field: FieldGeometry, layers: CarLayers): CarOverlap {
+  return {
+    appHectares: intersectionHectares(field, layers.app),
+    reservaLegalHectares: intersectionHectares(field, layers.reservaLegal),
+    consolidadaHectares: intersectionHectares(field, layers.consolidada),
+  };
+}
+
+/**
+ * Avisos de invasão de áreas protegidas (APP e Reserva Legal)
+ */
+export function carOverlapWarnings(overlap: CarOverlap, codigoCar?: string | null): string[] {
+  const suffix = codigoCar ? ` do CAR ${codigoCar}` : ' do CAR';
+  const warnings: string[] = [];
+  if (overlap.appHectares >= MIN_OVERLAP_HECTARES) {
+    warnings.push(`O campo invade ${overlap.appHectares.toFixed(2)} ha de APP${suffix}`);
+  }
+  if (overlap.reservaLegalHectares >= MIN_OVERLAP_HECTARES) {
+    warnings.push(`O campo invade ${overlap.reservaLegalHectares.toFixed(2)} ha de Reserva Legal${suffix}`);
+  }
+  return warnings;
+}
+
 export default {
   parseCarGeoJson,
   parseShapefile,
   validateCarCode,
   fetchCarFromSicar,
   extractCarAreas,
+  classifyCarFeature,
+  parseCarLayers,
+  carRecordLayers,
+  carLayerHectares,
+  carOverlap,
+  carOverlapWarnings,
   CARDataSchema,
 };
@@ -0,0 +1,137 @@
+/**
+ * Consultants Service
+ * Carteira do consultor: clientes (produtores que liberaram fazendas), totais do painel
+ * somados entre clientes e o relatório de cada cliente em CSV
+ */
+
+import type { SharePermission } from "./fieldSharing";
+
+export interface ClientStats {
+  totalFields: number;
+  activeCrops: number;
+  pendingTasks: number;
+  unreadAlerts: number;
+}
+
+export interface GrantedFarm {
+  grantId: number;
+  farmId: number;
+  farmName: string;
+  producerId: number;
+  producerName: string | null;
+  producerEmail: string | null;
+  permission: SharePermission;
+}
+
+export interface Client {
+  producerId: number;
+  name: string;
+  email: string | null;
+  farms: Array<{ id: number; name: string; permission: SharePermission; grantId: number }>;
+}
+
+export interface ReportRow {
+  farmName: string;
+  fieldName: string;
+  areaHectares: number; // hectares (já dividido por 100)
+  crop: string | null;
+  cropStatus: string | null;
+  ndvi: number | null; // NDVI (já dividido por 1000)
+  ndviDate: Date | null;
+  pendingTasks: number;
+}
+
+export interface ReportNote {
+  createdAt: Date;
+  title: string | null;
+  content: string;
+}
+
+export function emptyStats(): ClientStats {
+  return { totalFields: 0, activeCrops: 0, pendingTasks: 0, unreadAlerts: 0 };
+}
+
+/**
+ * Agrupa as fazendas liberadas por produtor (um cliente por produtor)
+ */
+export function groupClients(farms: GrantedFarm[]): Client[] {
+  const clients = new Map<number, Client>();
+  farms.forEach(farm => {
+    let client = clients.get(farm.producerId);
+    if (!client) {
+      client = {
+        producerId: farm.producerId,
+        name: farm.producerName || farm.producerEmail || `Produtor ${farm.producerId}`,
+        email: farm.producerEmail,
+        farms: [],
+      };
+      clients.set(farm.producerId, client);
+    }
+    client.farms.push({ id: farm.farmId, name: farm.farmName, permission: farm.permission, grantId: farm.grantId });
+  });
+  return Array.from(clients.values()).sort((a, b) => a.name.localeCompare(b.name, "pt-BR"));
+}
+
+export function sumStats(list: ClientStats[]): ClientStats {
+  return list.reduce((total, stats) => ({
+    totalFields: total.totalFields + stats.totalFields,
+    activeCrops: total.activeCrops + stats.activeCrops,
+    pendingTasks: total.pendingTasks + stats.pendingTasks,
+    unreadAlerts: total.unreadAlerts + stats.unreadAlerts,
+  }), emptyStats());
+}
+
+// Planilhas em português: separador ";" e vírgula decimal
+function csvCell(value: string | number | null): string {
+  if (value === null) return "";
+  const text = typeof value === "number" ? String(value).replace(".", ",") : value;
+  return /[;"\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvLine(values: Array<string | number | null>): string {
+  return values.map(csvCell).join(";");
+}
+
+function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Relatório do cliente: um talhão por linha e, em seguida, as anotações do consultor
+ */
+export function clientReportCsv(clientName: string, rows: ReportRow[], notes: ReportNote[], generatedAt = new Date()): string {
+  const lines = [
+    csvLine(["Cliente", clientName]),
+    csvLine(["Gerado em", formatDate(generatedAt)]),
+    "",
+    csvLine(["Fazenda", "Talhão", "Área (ha)", "Cultura", "Situação", "NDVI", "Data NDVI", "Tarefas pendentes"]),
+    ...rows.map(row => csvLine([
+      row.farmName,
+      row.fieldName,
+      Math.round(row.areaHectares * 100) / 100,
+      row.crop,
+      row.cropStatus,
+      row.ndvi,
+      row.ndviDate ? formatDate(row.ndviDate) : null,
+      row.pendingTasks,
+    ])),
+    csvLine([
+      "Total",
+      `${rows.length} talhões`,
+      Math.round(rows.reduce((sum, row) => sum + row.areaHectares, 0) * 100) / 100,
+      null,
+      null,
+      null,
+      null,
+      rows.reduce((sum, row) => sum + row.pendingTasks, 0),
+    ]),
+  ];
+
+  if (notes.length > 0) {
+    lines.push("", csvLine(["Data", "Anotação", "Texto"]));
+    notes.forEach(note => lines.push(csvLine([formatDate(note.createdAt), note.title, note.content])));
+  }
+
+  // BOM para o Excel abrir os acentos corretamente
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
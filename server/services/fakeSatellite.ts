@@ -0,0 +1,218 @@
+/**
+ * Fake Satellite Service
+ * Provedor local e determinístico, sem chaves de API, para desenvolvimento e testes:
+ * uma cena a cada 5 dias, NDVI sazonal com variação dentro do campo (os demais índices
+ * derivam dele) e imagens geradas aqui
+ */
+
+import { PNG } from "pngjs";
+import * as turf from "@turf/turf";
+import { NotFoundError } from "@shared/_core/errors";
+import { VEGETATION_INDICES } from "@shared/vegetationIndices";
+import type { FieldGeometry, Position } from "./geometry";
+import {
+  getPalette,
+  imageSize,
+  paletteColor,
+  pickBestScene,
+  type ColorStop,
+  type IndexStats,
+  type RenderedImage,
+  type SatelliteProvider,
+  type SatelliteScene,
+  type VegetationIndex,
+} from "./satellite";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REVISIT_DAYS = 5;
+const CAPTURE_OFFSET_MS = 13.5 * 60 * 60 * 1000; // passagem às 13:30 UTC
+const MAX_STATS_CLOUD = 80; // acima disso a cena não tem pixels úteis
+
+/**
+ * Número em [0, 1) derivado só dos argumentos (FNV-1a)
+ */
+function noise(...values: number[]): number {
+  let hash = 2166136261;
+  for (const value of values) {
+    hash ^= value;
+    hash = Math.imul(hash, 16777619);
+    hash ^= hash >>> 13;
+  }
+  return (hash >>> 0) / 4294967296;
+}
+
+// Dias (desde 1970) com passagem sobre o campo no intervalo
+function sceneDays(fieldId: number, from: Date, to: Date): number[] {
+  const days: number[] = [];
+  for (let day = Math.floor(from.getTime() / DAY_MS); day <= Math.floor(to.getTime() / DAY_MS); day++) {
+    const captured = day * DAY_MS + CAPTURE_OFFSET_MS;
+    if ((day + fieldId) % REVISIT_DAYS === 0 && captured >= from.getTime() && captured <= to.getTime()) days.push(day);
+  }
+  return days;
+}
+
+// 70% das passagens com céu limpo (até 14%), as demais nubladas (40 a 100%)
+function cloudCoverage(fieldId: number, day: number): number {
+  const r = noise(fieldId, day, 1);
+  return r < 0.7 ? Math.round(r * 20) : Math.round(40 + ((r - 0.7) / 0.3) * 60);
+}
+
+// Ciclo anual com pico no fim de janeiro (safra de verão)
+function meanNdvi(fieldId: number, day: number): number {
+  const date = new Date(day * DAY_MS);
+  const dayOfYear = (date.getTime() - Date.UTC(date.getUTCFullYear(), 0, 1)) / DAY_MS;
+  const seasonal = 0.5 + 0.25 * Math.cos((2 * Math.PI * (dayOfYear - 30)) / 365);
+  return seasonal + (noise(fieldId, day, 2) - 0.5) * 0.06;
+}
+
+// Manchas de ~200 m em torno da média da cena
+function pixelNdvi(mean: number, fieldId: number, lng: number, lat: number): number {
+  return mean + 0.12 * Math.sin(lng * 3000 + fieldId) * Math.cos(lat * 3000);
+}
+
+// Relação linear aproximada de cada índice com o NDVI em lavouras: [escala, deslocamento]
+const FROM_NDVI: Record<VegetationIndex, [number, number]> = {
+  ndvi: [1, 0],
+  ndre: [0.6, -0.08],
+  evi: [1.1, -0.12],
+  savi: [0.75, -0.03],
+  ndmi: [0.85, -0.3],
+  gndvi: [0.9, -0.02],
+};
+
+function fromNdvi(index: VegetationIndex, ndvi: number): number {
+  const [scale, offset] = FROM_NDVI[index];
+  return ndvi * scale + offset;
+}
+
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+function scene(fieldId: number, day: number): SatelliteScene {
+  return {
+    captureDate: new Date(day * DAY_MS + CAPTURE_OFFSET_MS),
+    cloudCoverage: cloudCoverage(fieldId, day),
+    dataCoverage: 100,
+    source: "fake",
+  };
+}
+
+/**
+ * Dia da cena a renderizar: a passagem da data pedida ou a melhor dos últimos 60 dias
+ */
+function renderDay(fieldId: number, date?: Date): number {
+  const from = date ? new Date(Math.floor(date.getTime() / DAY_MS) * DAY_MS) : new Date(Date.now() - 60 * DAY_MS);
+  const to = date ? new Date(from.getTime() + DAY_MS - 1) : new Date();
+  const scenes = sceneDays(fieldId, from, to).map(day => ({ day, ...scene(fieldId, day) }));
+  const best = pickBestScene(scenes);
+  if (!best) throw NotFoundError("Nenhuma cena no período");
+  return best.day;
+}
+
+function ringsOf(geometry: FieldGeometry): Position[][] {
+  return geometry.type === "Polygon" ? geometry.coordinates : geometry.coordinates.flat();
+}
+
+// Regra par-ímpar: trata buracos e várias partes sem distinguir os anéis
+function contains(rings: Position[][], lng: number, lat: number): boolean {
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [x1, y1] = ring[j];
+      const [x2, y2] = ring[i];
+      if (y1 > lat !== y2 > lat && lng < x1 + ((lat - y1) * (x2 - x1)) / (y2 - y1)) inside = !inside;
+    }
+  }
+  return inside;
+}
+
+// Centro do pixel (coluna, linha) na caixa do campo, com a linha 0 ao norte
+function pixelCenter(bbox: number[], width: number, height: number, col: number, row: number): [number, number] {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  return [minLng + ((col + 0.5) / width) * (maxLng - minLng), maxLat - ((row + 0.5) / height) * (maxLat - minLat)];
+}
+
+function drawPng(
+  width: number,
+  height: number,
+  index: VegetationIndex,
+  palette: ColorStop[],
+  pixel: (col: number, row: number) => number | null
+): RenderedImage {
+  const png = new PNG({ width, height });
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      const ndvi = pixel(col, row);
+      if (ndvi === null) continue; // transparente
+      const offset = (row * width + col) * 4;
+      const [r, g, b] = paletteColor(fromNdvi(index, ndvi), palette, index);
+      png.data[offset] = r;
+      png.data[offset + 1] = g;
+      png.data[offset + 2] = b;
+      png.data[offset + 3] = 255;
+    }
+  }
+  return { data: PNG.sync.write(png), contentType: "image/png" };
+}
+
+export const fakeSatelliteProvider: SatelliteProvider = {
+  name: "fake",
+  indices: VEGETATION_INDICES,
+  supportsRaster: true,
+  isConfigured: () => true,
+  supports: () => true,
+
+  async searchScenes(target, from, to) {
+    return sceneDays(target.fieldId, from, to).map(day => scene(target.fieldId, day));
+  },
+
+  async indexStats(target, { index, from, to }): Promise<IndexStats[]> {
+    return sceneDays(target.fieldId, from, to)
+      .filter(day => cloudCoverage(target.fieldId, day) <= MAX_STATS_CLOUD)
+      .map(day => {
+        // Nuvem e névoa que escapam da máscara puxam a média da cena para baixo
+        const mean = meanNdvi(target.fieldId, day) - (cloudCoverage(target.fieldId, day) / 100) * 0.3;
+        return {
+          ...scene(target.fieldId, day),
+          validPixelRatio: 1 - cloudCoverage(target.fieldId, day) / 100,
+          mean: round3(fromNdvi(index, mean)),
+          min: round3(fromNdvi(index, mean - 0.18 - 0.04 * noise(target.fieldId, day, 3))),
+          max: round3(fromNdvi(index, Math.min(1, mean + 0.12))),
+        };
+      });
+  },
+
+  async renderImage(target, { index, date, palette }) {
+    const mean = meanNdvi(target.fieldId, renderDay(target.fieldId, date));
+    const bbox = turf.bbox(target.geometry);
+    const { width, height } = imageSize(target.geometry);
+    const rings = ringsOf(target.geometry);
+    return drawPng(width, height, index, getPalette(palette, index), (col, row) => {
+      const [lng, lat] = pixelCenter(bbox, width, height, col, row);
+      return contains(rings, lng, lat) ? pixelNdvi(mean, target.fieldId, lng, lat) : null;
+    });
+  },
+
+  async renderTile(target, { z, x, y }, { index, date, palette }) {
+    const mean = meanNdvi(target.fieldId, renderDay(target.fieldId, date));
+    const worldSize = 256 * 2 ** z;
+    return drawPng(256, 256, index, getPalette(palette, index), (col, row) => {
+      const lng = ((x * 256 + col + 0.5) / worldSize) * 360 - 180;
+      const lat = (Math.atan(Math.sinh(Math.PI * (1 - (2 * (y * 256 + row + 0.5)) / worldSize))) * 180) / Math.PI;
+      return pixelNdvi(mean, target.fieldId, lng, lat);
+    });
+  },
+
+  async indexRaster(target, { index, date, width, height }) {
+    const mean = meanNdvi(target.fieldId, renderDay(target.fieldId, date));
+    const bbox = turf.bbox(target.geometry) as [number, number, number, number];
+    const rings = ringsOf(target.geometry);
+    const values = new Float32Array(width * height);
+    for (let row = 0; row < height; row++) {
+      for (let col = 0; col < width; col++) {
+        const [lng, lat] = pixelCenter(bbox, width, height, col, row);
+        values[row * width + col] = contains(rings, lng, lat) ? fromNdvi(index, pixelNdvi(mean, target.fieldId, lng, lat)) : NaN;
+      }
+    }
+    return { width, height, bbox, values };
+  },
+};
@@ -0,0 +1,210 @@
+/**
+ * Field Export Service
+ * Exportação de limites de campos em GeoJSON, KML, Shapefile (.zip) e ISOXML (ISO 11783-10)
+ */
+
+import { zipSync, strToU8 } from "fflate";
+import { writeShapefile, type ShapefileColumn } from "./shapefile";
+import type { FieldGeometry, Position } from "./geometry";
+
+export type ExportFormat = "geojson" | "kml" | "shapefile" | "isoxml";
+
+export interface ExportableField {
+  id: number;
+  name: string;
+  areaHectares: number; // hectares (já dividido por 100)
+  geometry: FieldGeometry | null; // geometria canônica (services/geometry.ts)
+  crop: string | null; // cultura atual
+  farmId: number | null;
+  farmName: string | null;
+}
+
+export interface ExportFile {
+  fileName: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+// Colunas do .dbf (nomes limitados a 10 caracteres)
+const SHAPEFILE_COLUMNS: ShapefileColumn[] = [
+  { name: "ID", type: "N", length: 10 },
+  { name: "NOME", type: "C", length: 100 },
+  { name: "AREA_HA", type: "N", length: 12, decimals: 2 },
+  { name: "CULTURA", type: "C", length: 50 },
+  { name: "FAZENDA", type: "C", length: 100 },
+];
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;");
+}
+
+function polygonsOf(geometry: FieldGeometry): Position[][][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+export function safeFileName(name: string): string {
+  const normalized = name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-zA-Z0-9_-]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+  return normalized || "campos";
+}
+
+function toGeoJson(fields: ExportableField[]): string {
+  return JSON.stringify({
+    type: "FeatureCollection",
+    features: fields.map(field => ({
+      type: "Feature",
+      id: field.id,
+      properties: {
+        id: field.id,
+        name: field.name,
+        areaHectares: field.areaHectares,
+        crop: field.crop,
+        farm: field.farmName,
+      },
+      geometry: field.geometry,
+    })),
+  });
+}
+
+function toKml(fields: ExportableField[], title: string): string {
+  const placemarks = fields.map(field => {
+    const toCoordinates = (ring: Position[]) => ring.map(([lng, lat]) => `${lng},${lat},0`).join(" ");
+    const polygons = polygonsOf(field.geometry!).map(([outer, ...holes]) =>
+      `<Polygon><outerBoundaryIs><LinearRing><coordinates>${toCoordinates(outer)}</coordinates></LinearRing></outerBoundaryIs>` +
+      holes.map(hole => `<innerBoundaryIs><LinearRing><coordinates>${toCoordinates(hole)}</coordinates></LinearRing></innerBoundaryIs>`).join("") +
+      `</Polygon>`
+    );
+    const data = [
+      ["area_ha", field.areaHectares.toFixed(2)],
+      ["cultura", field.crop ?? ""],
+      ["fazenda", field.farmName ?? ""],
+    ]
+      .map(([name, value]) => `<Data name="${name}"><value>${escapeXml(value)}</value></Data>`)
+      .join("");
+
+    return `<Placemark><name>${escapeXml(field.name)}</name><styleUrl>#campo</styleUrl>` +
+      `<ExtendedData>${data}</ExtendedData>` +
+      (polygons.length === 1 ? polygons[0] : `<MultiGeometry>${polygons.join("")}</MultiGeometry>`) +
+      `</Placemark>`;
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<kml xmlns="http://www.opengis.net/kml/2.2"><Document><name>${escapeXml(title)}</name>` +
+    `<Style id="campo"><LineStyle><color>ff50af4c</color><width>2</width></LineStyle><PolyStyle><color>4050af4c</color></PolyStyle></Style>` +
+    `${placemarks.join("\n")}</Document></kml>\n`;
+}
+
+function toShapefileZip(fields: ExportableField[], layerName: string): Uint8Array {
+  const files = writeShapefile(
+    fields.map(field => ({
+      geometry: field.geometry!,
+      properties: {
+        ID: field.id,
+        NOME: field.name,
+        AREA_HA: field.areaHectares,
+        CULTURA: field.crop,
+        FAZENDA: field.farmName,
+      },
+    })),
+    SHAPEFILE_COLUMNS
+  );
+
+  return zipSync({
+    [`${layerName}.shp`]: files.shp,
+    [`${layerName}.shx`]: files.shx,
+    [`${layerName}.dbf`]: files.dbf,
+    [`${layerName}.prj`]: strToU8(files.prj),
+    [`${layerName}.cpg`]: strToU8(files.cpg),
+  });
+}
+
+/**
+ * Contorno do talhão em ISOXML: uma PLN por parte; LSG tipo 1 = contorno externo,
+ * tipo 2 = contorno interno (buraco)
+ */
+export function isoPolygons(geometry: FieldGeometry): string {
+  const toPoints = (ring: Position[]) =>
+    ring.map(([lng, lat]) => `<PNT A="2" C="${lat.toFixed(9)}" D="${lng.toFixed(9)}"/>`).join("");
+  return polygonsOf(geometry)
+    .map(([outer, ...holes]) =>
+      `<PLN A="1"><LSG A="1">${toPoints(outer)}</LSG>` +
+      holes.map(hole => `<LSG A="2">${toPoints(hole)}</LSG>`).join("") +
+      `</PLN>`
+    )
+    .join("");
+}
+
+/**
+ * Gera o TASKDATA.XML com fazendas (FRM), culturas (CTP) e talhões (PFD)
+ * com o contorno como polígono do tipo 1 (limite do talhão)
+ */
+export function toIsoXml(fields: ExportableField[]): string {
+  const farmIds = new Map<number, string>();
+  const cropIds = new Map<string, string>();
+  const elements: string[] = [];
+
+  for (const field of fields) {
+    if (field.farmId !== null && field.farmName && !farmIds.has(field.farmId)) {
+      const id = `FRM${farmIds.size + 1}`;
+      farmIds.set(field.farmId, id);
+      elements.push(`<FRM A="${id}" B="${escapeXml(field.farmName)}"/>`);
+    }
+    if (field.crop && !cropIds.has(field.crop)) {
+      const id = `CTP${cropIds.size + 1}`;
+      cropIds.set(field.crop, id);
+      elements.push(`<CTP A="${id}" B="${escapeXml(field.crop)}"/>`);
+    }
+  }
+
+  fields.forEach((field, i) => {
+    const polygons = isoPolygons(field.geometry!);
+    const farmRef = field.farmId !== null && farmIds.has(field.farmId) ? ` F="${farmIds.get(field.farmId)}"` : "";
+    const cropRef = field.crop ? ` G="${cropIds.get(field.crop)}"` : "";
+
+    elements.push(
+      `<PFD A="PFD${i + 1}" B="${field.id}" C="${escapeXml(field.name)}" D="${Math.round(field.areaHectares * 10000)}"${farmRef}${cropRef}>` +
+      `${polygons}</PFD>`
+    );
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<ISO11783_TaskData VersionMajor="4" VersionMinor="3" ManagementSoftwareManufacturer="CampoVivo" ManagementSoftwareVersion="1.0" DataTransferOrigin="1">\n` +
+    `${elements.join("\n")}\n` +
+    `</ISO11783_TaskData>\n`;
+}
+
+/**
+ * Exporta os campos no formato pedido. Campos sem limites desenhados são ignorados.
+ */
+export function exportFields(fields: ExportableField[], format: ExportFormat, name: string): ExportFile {
+  const exportable = fields.filter(field => field.geometry !== null);
+  if (exportable.length === 0) {
+    throw new Error("Nenhum campo com limites desenhados para exportar");
+  }
+
+  const base = safeFileName(name);
+
+  switch (format) {
+    case "geojson":
+      return { fileName: `${base}.geojson`, mimeType: "application/geo+json", content: strToU8(toGeoJson(exportable)) };
+    case "kml":
+      return { fileName: `${base}.kml`, mimeType: "application/vnd.google-earth.kml+xml", content: strToU8(toKml(exportable, name)) };
+    case "shapefile":
+      return { fileName: `${base}.zip`, mimeType: "application/zip", content: toShapefileZip(exportable, base) };
+    case "isoxml":
+      // Os terminais esperam a pasta TASKDATA na raiz do pendrive
+      return {
+        fileName: `${base}_TASKDATA.zip`,
+        mimeType: "application/zip",
+        content: zipSync({ "TASKDATA/TASKDATA.XML": strToU8(toIsoXml(exportable)) }),
+      };
+  }
+}
@@ -0,0 +1,391 @@
+/**
+ * Field Import Service
+ * Importação de limites de campos a partir de Shapefile (.zip), KML/KMZ, GPX e GeoJSON
+ */
+
+import { unzipSync, strFromU8 } from "fflate";
+import proj4 from "proj4";
+import { DOMParser } from "@xmldom/xmldom";
+import { kml, gpx } from "@tmcw/togeojson";
+import { readShapefile, type ShapefileGeometry } from "./shapefile";
+import {
+  isMultiPolygonCoordinates,
+  isPolygonCoordinates,
+  isPositionList,
+  isRecord,
+  prepareFieldGeometry,
+  type Position,
+} from "./geometry";
+import { CAR_AREA_LABELS, classifyCarFeature, type CarAreaKey } from "./carIntegration";
+
+export type ImportFormat = "shapefile" | "kml" | "kmz" | "gpx" | "geojson";
+
+export type ImportGeometry = ShapefileGeometry;
+
+export interface ImportedFeature {
+  index: number;
+  name: string;
+  layer?: string; // nome do arquivo de origem dentro do .zip/.kmz
+  geometry: ImportGeometry; // WGS84, [lng, lat]
+  boundaries: Array<{ lat: number; lng: number }>; // anel externo da maior parte
+  center: { lat: number; lng: number };
+  areaHectares: number;
+  tipo: CarAreaKey | null; // classificação da feição do CAR (APP, Reserva Legal, consolidada...)
+  properties: Record<string, unknown>;
+}
+
+export interface ImportPreview {
+  format: ImportFormat;
+  features: ImportedFeature[];
+  warnings: string[];
+}
+
+// Definições usadas quando o .prj não pode ser interpretado diretamente
+const SIRGAS_2000 = "+proj=longlat +ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +no_defs";
+const sirgasUtm = (zone: number, south: boolean) =>
+  `+proj=utm +zone=${zone} ${south ? "+south " : ""}+ellps=GRS80 +towgs84=0,0,0,0,0,0,0 +units=m +no_defs`;
+
+// Atributos mais comuns para o nome do talhão (SICAR, softwares de máquinas, Google Earth)
+const NAME_KEYS = ["name", "nome", "talhao", "talhão", "gleba", "descricao", "description", "id_talhao", "field", "fieldname"];
+
+/**
+ * Detecta o formato pelo nome do arquivo
+ */
+export function detectImportFormat(fileName: string): ImportFormat | null {
+  const ext = fileName.toLowerCase().split(".").pop();
+  switch (ext) {
+    case "zip":
+      return "shapefile";
+    case "kml":
+      return "kml";
+    case "kmz":
+      return "kmz";
+    case "gpx":
+      return "gpx";
+    case "json":
+    case "geojson":
+      return "geojson";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Resolve a projeção de um .prj. Tenta o WKT completo e, se falhar,
+ * reconhece pelo nome os sistemas SIRGAS 2000 geográfico e UTM.
+ */
+export function resolveProjection(prj: string): string {
+  try {
+    proj4(prj, "WGS84", [0, 0]);
+    return prj;
+  } catch {
+    const utm = prj.match(/UTM[_ ]zone[_ ](\d{1,2})([NS])?/i);
+    if (utm) {
+      return sirgasUtm(parseInt(utm[1]), (utm[2] ?? "S").toUpperCase() === "S");
+    }
+    if (/SIRGAS|GCS_|GEOGCS/i.test(prj) && !/PROJCS/i.test(prj)) {
+      return SIRGAS_2000;
+    }
+    throw new Error("Sistema de coordenadas do arquivo .prj não reconhecido");
+  }
+}
+
+function mapGeometry(geometry: ImportGeometry, fn: (coord: number[]) => number[]): ImportGeometry {
+  if (geometry.type === "Polygon") {
+    return { type: "Polygon", coordinates: geometry.coordinates.map(ring => ring.map(fn)) };
+  }
+  return {
+    type: "MultiPolygon",
+    coordinates: geometry.coordinates.map(polygon => polygon.map(ring => ring.map(fn))),
+  };
+}
+
+function isGeographic(geometry: ImportGeometry): boolean {
+  const rings = geometry.type === "Polygon" ? geometry.coordinates : geometry.coordinates.flat();
+  return rings.every(ring => ring.every(([x, y]) => Math.abs(x) <= 180 && Math.abs(y) <= 90));
+}
+
+type PolygonConversion = { geometry: ImportGeometry; closed: boolean };
+
+// Linha com 3 ou mais vértices vira polígono fechado
+function lineToPolygon(line: Position[]): { geometry: { type: "Polygon"; coordinates: Position[][] }; closed: boolean } | null {
+  const coords = line.map(c => [c[0], c[1]]);
+  if (coords.length < 3) return null;
+  const [first, last] = [coords[0], coords[coords.length - 1]];
+  const alreadyClosed = first[0] === last[0] && first[1] === last[1];
+  if (alreadyClosed && coords.length < 4) return null;
+  return {
+    geometry: { type: "Polygon", coordinates: [alreadyClosed ? coords : [...coords, first]] },
+    closed: !alreadyClosed,
+  };
+}
+
+/**
+ * Converte uma geometria GeoJSON qualquer em polígono, quando possível.
+ * Linhas (trilhas de GPS, rotas) com 3 ou mais vértices são fechadas.
+ */
+function toPolygonGeometry(geometry: unknown): PolygonConversion | null {
+  if (!isRecord(geometry)) return null;
+  const { coordinates } = geometry;
+
+  switch (geometry.type) {
+    case "Polygon":
+      return isPolygonCoordinates(coordinates) ? { geometry: { type: "Polygon", coordinates }, closed: false } : null;
+    case "MultiPolygon":
+      return isMultiPolygonCoordinates(coordinates) ? { geometry: { type: "MultiPolygon", coordinates }, closed: false } : null;
+    case "LineString":
+      return isPositionList(coordinates) ? lineToPolygon(coordinates) : null;
+    case "MultiLineString": {
+      const parts = (Array.isArray(coordinates) ? coordinates : [])
+        .map(line => (isPositionList(line) ? lineToPolygon(line) : null))
+        .filter(part => part !== null);
+      if (parts.length === 0) return null;
+      if (parts.length === 1) return parts[0];
+      return {
+        geometry: { type: "MultiPolygon", coordinates: parts.map(p => p.geometry.coordinates) },
+        closed: parts.some(p => p.closed),
+      };
+    }
+    case "GeometryCollection": {
+      const polygons = (Array.isArray(geometry.geometries) ? geometry.geometries : [])
+        .map(g => toPolygonGeometry(g))
+        .filter(polygon => polygon !== null);
+      if (polygons.length === 0) return null;
+      if (polygons.length === 1) return polygons[0];
+      return {
+        geometry: {
+          type: "MultiPolygon",
+          coordinates: polygons.flatMap(p =>
+            p.geometry.type === "Polygon" ? [p.geometry.coordinates] : p.geometry.coordinates
+          ),
+        },
+        closed: polygons.some(p => p.closed),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function propertyName(properties: Record<string, unknown>): string | null {
+  const keys = Object.keys(properties);
+  for (const candidate of NAME_KEYS) {
+    const key = keys.find(k => k.toLowerCase() === candidate);
+    const value = key ? properties[key] : undefined;
+    if (value !== undefined && value !== null && String(value).trim() !== "") {
+      return String(value).trim().slice(0, 255);
+    }
+  }
+  return null;
+}
+
+function featureName(properties: Record<string, unknown>, fallback: string): string {
+  return propertyName(properties) ?? fallback;
+}
+
+/**
+ * Feições do CAR sem nome próprio recebem o nome da camada numerado
+ * ("Área consolidada 1", "Área consolidada 2"...)
+ */
+function nameCarFeatures(features: ImportedFeature[]) {
+  const counters: Partial<Record<CarAreaKey, number>> = {};
+  for (const feature of features) {
+    if (!feature.tipo || propertyName(feature.properties)) continue;
+    const count = (counters[feature.tipo] ?? 0) + 1;
+    counters[feature.tipo] = count;
+    feature.name = `${CAR_AREA_LABELS[feature.tipo]} ${count}`;
+  }
+}
+
+function buildFeature(
+  geometry: ImportGeometry,
+  properties: Record<string, unknown>,
+  index: number,
+  fallbackName: string,
+  warnings: string[],
+  layer?: string
+): ImportedFeature | null {
+  const name = featureName(properties, fallbackName);
+
+  let normalized;
+  try {
+    normalized = prepareFieldGeometry(geometry);
+  } catch (error) {
+    warnings.push(`${name}: ${error instanceof Error ? error.message : "polígono inválido"}, ignorado`);
+    return null;
+  }
+  if (normalized.repaired) {
+    warnings.push(`${name}: limite corrigido automaticamente (anel aberto ou com auto-interseção)`);
+  }
+
+  return {
+    index,
+    name,
+    layer,
+    geometry: normalized.geometry,
+    boundaries: normalized.boundaries,
+    center: normalized.centroid,
+    areaHectares: normalized.areaHectares,
+    // Exportações do SICAR em Shapefile trazem uma camada por tipo (APP.shp, RESERVA_LEGAL.shp...)
+    tipo: classifyCarFeature(properties) ?? (layer ? classifyCarFeature({ tipo: layer }) : null),
+    properties,
+  };
+}
+
+function baseName(fileName: string): string {
+  return (fileName.split(/[\\/]/).pop() ?? fileName).replace(/\.[^.]+$/, "");
+}
+
+/**
+ * Extrai as camadas de um shapefile compactado (.zip com .shp/.dbf/.prj)
+ */
+function parseShapefileZip(data: Uint8Array, warnings: string[]): ImportedFeature[] {
+  const files = unzipSync(data);
+  const byName = new Map<string, Uint8Array>();
+  for (const [path, content] of Object.entries(files)) {
+    if (path.startsWith("__MACOSX/")) continue;
+    byName.set(path.toLowerCase(), content);
+  }
+
+  const shpPaths = Array.from(byName.keys()).filter(p => p.endsWith(".shp"));
+  if (shpPaths.length === 0) {
+    throw new Error("Nenhum arquivo .shp encontrado no .zip");
+  }
+
+  const features: ImportedFeature[] = [];
+  for (const shpPath of shpPaths) {
+    const stem = shpPath.slice(0, -4);
+    const layerName = baseName(stem);
+    const prjBytes = byName.get(`${stem}.prj`);
+    const cpgBytes = byName.get(`${stem}.cpg`);
+
+    const layer = readShapefile({
+      shp: byName.get(shpPath)!,
+      dbf: byName.get(`${stem}.dbf`),
+      prj: prjBytes ? strFromU8(prjBytes) : undefined,
+      cpg: cpgBytes ? strFromU8(cpgBytes) : undefined,
+    });
+
+    if (!byName.has(`${stem}.dbf`)) {
+      warnings.push(`${layerName}: arquivo .dbf ausente, atributos não importados`);
+    }
+    if (layer.skipped > 0) {
+      warnings.push(`${layerName}: ${layer.skipped} registro(s) sem polígono ignorado(s)`);
+    }
+
+    let transform: ((coord: number[]) => number[]) | null = null;
+    if (layer.prj) {
+      const converter = proj4(resolveProjection(layer.prj), "WGS84");
+      transform = coord => converter.forward([coord[0], coord[1]]);
+    }
+
+    layer.features.forEach((feature, i) => {
+      let geometry = feature.geometry;
+      if (transform) {
+        geometry = mapGeometry(geometry, transform);
+      } else if (!isGeographic(geometry)) {
+        throw new Error(`${layerName}: arquivo .prj ausente e coordenadas não são geográficas`);
+      }
+      const built = buildFeature(geometry, feature.properties, features.length, `${layerName} ${i + 1}`, warnings, layerName);
+      if (built) features.push(built);
+    });
+  }
+
+  if (!Array.from(byName.keys()).some(p => p.endsWith(".prj"))) {
+    warnings.push("Arquivo .prj ausente: coordenadas assumidas como geográficas (WGS84/SIRGAS 2000)");
+  }
+
+  return features;
+}
+
+function parseXml(text: string) {
+  const doc = new DOMParser().parseFromString(text, "text/xml");
+  if (!doc.documentElement) {
+    throw new Error("Arquivo XML inválido");
+  }
+  return doc as unknown as Document;
+}
+
+// Feições de um GeoJSON: as da coleção, a própria feição ou a geometria solta
+function geoJsonFeatures(collection: unknown): unknown[] {
+  if (!isRecord(collection)) return [];
+  if (collection.type === "FeatureCollection") return Array.isArray(collection.features) ? collection.features : [];
+  if (collection.type === "Feature") return [collection];
+  return [{ type: "Feature", geometry: collection, properties: {} }];
+}
+
+/**
+ * Converte uma FeatureCollection GeoJSON em features de pré-visualização
+ */
+function fromFeatureCollection(collection: unknown, fallbackName: string, warnings: string[]): ImportedFeature[] {
+  const features: ImportedFeature[] = [];
+  let ignored = 0;
+  let closed = 0;
+
+  for (const item of geoJsonFeatures(collection)) {
+    const feature: Record<string, unknown> = isRecord(item) ? item : {};
+    const converted = toPolygonGeometry(feature.geometry);
+    if (!converted) {
+      ignored++;
+      continue;
+    }
+    if (converted.closed) closed++;
+    const built = buildFeature(
+      converted.geometry,
+      isRecord(feature.properties) ? feature.properties : {},
+      features.length,
+      `${fallbackName} ${features.length + 1}`,
+      warnings
+    );
+    if (built) features.push(built);
+  }
+
+  if (ignored > 0) warnings.push(`${ignored} elemento(s) sem polígono ignorado(s) (pontos ou linhas curtas)`);
+  if (closed > 0) warnings.push(`${closed} trilha(s) fechada(s) automaticamente para formar o limite`);
+
+  return features;
+}
+
+/**
+ * Lê um arquivo de limites e devolve todos os polígonos com atributos
+ * para o usuário escolher quais viram campos.
+ */
+export function parseFieldFile(fileName: string, data: Uint8Array): ImportPreview {
+  const format = detectImportFormat(fileName);
+  if (!format) {
+    throw new Error("Formato não suportado. Envie .zip (Shapefile), .kml, .kmz, .gpx ou .geojson");
+  }
+
+  const warnings: string[] = [];
+  const name = baseName(fileName);
+  let features: ImportedFeature[];
+
+  switch (format) {
+    case "shapefile":
+      features = parseShapefileZip(data, warnings);
+      break;
+    case "kmz": {
+      const files = unzipSync(data);
+      const kmlPath = Object.keys(files).find(p => p.toLowerCase().endsWith(".kml"));
+      if (!kmlPath) throw new Error("Nenhum arquivo .kml encontrado no .kmz");
+      features = fromFeatureCollection(kml(parseXml(strFromU8(files[kmlPath]))), name, warnings);
+      break;
+    }
+    case "kml":
+      features = fromFeatureCollection(kml(parseXml(strFromU8(data))), name, warnings);
+      break;
+    case "gpx":
+      features = fromFeatureCollection(gpx(parseXml(strFromU8(data))), name, warnings);
+      break;
+    case "geojson":
+      features = fromFeatureCollection(JSON.parse(strFromU8(data)), name, warnings);
+      break;
+  }
+
+  if (features.length === 0) {
+    throw new Error("Nenhum polígono encontrado no arquivo");
+  }
+  nameCarFeatures(features);
+
+  return { format, features, warnings };
+}
@@ -0,0 +1,62 @@
+/**
+ * Field Lineage Service
+ * Regras para dividir e unir campos sem perder o histórico (cultivos, notas, tarefas e NDVI)
+ */
+
+import type { InsertNdviData, NdviData } from "../../drizzle/schema";
+
+export interface NdviSeriesSource {
+  areaHectares: number; // área do campo de origem (peso na média)
+  rows: NdviData[];
+}
+
+/**
+ * Nomes dos campos resultantes de uma divisão: usa os informados e completa
+ * com o nome original seguido de A, B, C...
+ */
+export function splitFieldNames(baseName: string, count: number, names: string[] = []): string[] {
+  return Array.from({ length: count }, (_, i) =>
+    names[i]?.trim() || `${baseName} ${String.fromCharCode(65 + i)}`
+  );
+}
+
+/**
+ * Série NDVI do campo unido: leituras da mesma data nos campos de origem são
+ * combinadas pela média ponderada pela área; mínimo e máximo são os extremos
+ */
+export function mergeNdviSeries(sources: NdviSeriesSource[], fieldId: number): InsertNdviData[] {
+  const byDate = new Map<string, Array<{ areaHectares: number; row: NdviData }>>();
+
+  for (const source of sources) {
+    for (const row of source.rows) {
+      const day = new Date(row.captureDate).toISOString().split("T")[0];
+      byDate.set(day, [...(byDate.get(day) ?? []), { areaHectares: source.areaHectares, row }]);
+    }
+  }
+
+  return Array.from(byDate.values())
+    .map(readings => {
+      const largest = readings.reduce((best, r) => (r.areaHectares > best.areaHectares ? r : best));
+      const weighted = readings.filter(r => r.row.ndviAverage !== null);
+      const totalWeight = weighted.reduce((sum, r) => sum + Math.max(r.areaHectares, 1), 0);
+      const mins = readings.map(r => r.row.ndviMin).filter((v): v is number => v !== null);
+      const maxs = readings.map(r => r.row.ndviMax).filter((v): v is number => v !== null);
+      const clouds = readings.map(r => r.row.cloudCoverage).filter((v): v is number => v !== null);
+
+      return {
+        fieldId,
+        captureDate: largest.row.captureDate,
+        ndviAverage: totalWeight > 0
+          ? Math.round(weighted.reduce((sum, r) => sum + r.row.ndviAverage! * Math.max(r.areaHectares, 1), 0) / totalWeight)
+          : null,
+        ndviMin: mins.length > 0 ? Math.min(...mins) : null,
+        ndviMax: maxs.length > 0 ? Math.max(...maxs) : null,
+        healthStatus: largest.row.healthStatus,
+        cloudCoverage: clouds.length > 0 ? Math.max(...clouds) : null,
+        imageUrl: largest.row.imageUrl,
+        thumbnailUrl: largest.row.thumbnailUrl,
+        source: largest.row.source,
+      };
+    })
+    .sort((a, b) => new Date(a.captureDate).getTime() - new Date(b.captureDate).getTime());
+}
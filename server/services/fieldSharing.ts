@@ -0,0 +1,84 @@
+/**
+ * Field Sharing Service
+ * Níveis de acesso a campos compartilhados (ver < comentar < editar < dono),
+ * tokens dos convites e validade dos compartilhamentos
+ */
+
+import { randomBytes } from "crypto";
+
+export type SharePermission = "view" | "comment" | "edit";
+export type AccessLevel = SharePermission | "owner";
+
+export const ACCESS_LABELS: Record<AccessLevel, string> = {
+  view: "ver",
+  comment: "comentar",
+  edit: "editar",
+  owner: "dono",
+};
+
+const ACCESS_RANK: Record<AccessLevel, number> = {
+  view: 1,
+  comment: 2,
+  edit: 3,
+  owner: 4,
+};
+
+export interface ShareLike {
+  permission: SharePermission;
+  expiresAt: Date | null;
+  revokedAt: Date | null;
+}
+
+/**
+ * O acesso concedido cobre o exigido? (editar inclui comentar, que inclui ver)
+ */
+export function hasAccess(granted: AccessLevel, required: AccessLevel): boolean {
+  return ACCESS_RANK[granted] >= ACCESS_RANK[required];
+}
+
+/**
+ * Compartilhamento não revogado e dentro da validade
+ */
+export function isShareActive(share: Pick<ShareLike, "expiresAt" | "revokedAt">, now: Date = new Date()): boolean {
+  if (share.revokedAt) return false;
+  return !share.expiresAt || share.expiresAt > now;
+}
+
+/**
+ * Maior permissão entre os compartilhamentos ativos (null = sem acesso)
+ */
+export function strongestPermission(shares: ShareLike[], now: Date = new Date()): SharePermission | null {
+  return shares
+    .filter(share => isShareActive(share, now))
+    .reduce<SharePermission | null>(
+      (best, share) => (!best || ACCESS_RANK[share.permission] > ACCESS_RANK[best] ? share.permission : best),
+      null
+    );
+}
+
+/**
+ * Situação exibida na lista de compartilhamentos do campo
+ */
+export function shareStatus(
+  share: Pick<ShareLike, "expiresAt" | "revokedAt"> & { acceptedAt: Date | null; email: string | null },
+  now: Date = new Date()
+): "pending" | "active" | "expired" | "revoked" {
+  if (share.revokedAt) return "revoked";
+  if (share.expiresAt && share.expiresAt <= now) return "expired";
+  return share.email && !share.acceptedAt ? "pending" : "active";
+}
+
+/**
+ * Token aleatório e não adivinhável usado nos links de convite
+ */
+export function generateShareToken(): string {
+  return randomBytes(24).toString("base64url");
+}
+
+export function shareLink(token: string, baseUrl: string): string {
+  return `${baseUrl.replace(/\/$/, "")}/share/${token}`;
+}
+
+export function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
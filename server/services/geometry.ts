@@ -0,0 +1,350 @@
+/**
+ * Geometry Service
+ * Formato canônico dos limites de campos (GeoJSON RFC 7946, WGS84, [lng, lat]),
+ * validação/reparo de polígonos e cálculo geodésico de área, perímetro e centroide
+ */
+
+import * as turf from "@turf/turf";
+
+export type Position = number[];
+
+export interface PolygonGeometry {
+  type: "Polygon";
+  coordinates: Position[][];
+}
+
+export interface MultiPolygonGeometry {
+  type: "MultiPolygon";
+  coordinates: Position[][][];
+}
+
+export type FieldGeometry = PolygonGeometry | MultiPolygonGeometry;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface GeometryMetrics {
+  areaHectares: number;
+  perimeterMeters: number;
+  centroid: LatLng;
+}
+
+export interface NormalizedFieldGeometry extends GeometryMetrics {
+  geometry: FieldGeometry;
+  boundaries: LatLng[]; // anel externo da maior parte, formato legado usado pelos mapas
+  repaired: boolean; // true quando o polígono foi fechado ou corrigido
+}
+
+// Menor área aceita para um campo (100 m²)
+const MIN_AREA_M2 = 100;
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+export function isPosition(value: unknown): value is Position {
+  return Array.isArray(value) && value.length >= 2 && typeof value[0] === "number" && typeof value[1] === "number";
+}
+
+// Anel de polígono ou linha: lista de posições
+export function isPositionList(value: unknown): value is Position[] {
+  return Array.isArray(value) && value.every(isPosition);
+}
+
+export function isPolygonCoordinates(value: unknown): value is Position[][] {
+  return Array.isArray(value) && value.every(isPositionList);
+}
+
+export function isMultiPolygonCoordinates(value: unknown): value is Position[][][] {
+  return Array.isArray(value) && value.every(isPolygonCoordinates);
+}
+
+function isLatLng(value: unknown): value is { lat: number; lng?: number; lon?: number } {
+  return isRecord(value) && typeof value.lat === "number" &&
+    (typeof value.lng === "number" || typeof value.lon === "number");
+}
+
+function latLngToPosition(point: { lat: number; lng?: number; lon?: number }): Position {
+  return [point.lng ?? point.lon ?? 0, point.lat];
+}
+
+function fromGeoJson(value: unknown): FieldGeometry | null {
+  if (!isRecord(value)) return null;
+
+  switch (value.type) {
+    case "Polygon":
+      return isPolygonCoordinates(value.coordinates) ? { type: "Polygon", coordinates: value.coordinates } : null;
+    case "MultiPolygon":
+      return isMultiPolygonCoordinates(value.coordinates) ? { type: "MultiPolygon", coordinates: value.coordinates } : null;
+    case "Feature":
+      return fromGeoJson(value.geometry);
+    case "FeatureCollection":
+    case "GeometryCollection": {
+      const items = value.type === "FeatureCollection" ? value.features : value.geometries;
+      const parts = (Array.isArray(items) ? items : [])
+        .map(item => fromGeoJson(item))
+        .filter((g): g is FieldGeometry => g !== null)
+        .flatMap(g => (g.type === "Polygon" ? [g.coordinates] : g.coordinates));
+      if (parts.length === 0) return null;
+      return parts.length === 1 ? { type: "Polygon", coordinates: parts[0] } : { type: "MultiPolygon", coordinates: parts };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Lê os limites em qualquer formato já usado pelo app, sem validar:
+ * GeoJSON (Polygon, MultiPolygon, Feature, FeatureCollection), lista de {lat, lng},
+ * lista de [lng, lat] ou lista de anéis. Aceita o valor serializado em JSON.
+ */
+export function parseGeometry(input: unknown): FieldGeometry | null {
+  let value = input;
+  // O campo json pode conter uma string JSON (às vezes serializada duas vezes)
+  for (let i = 0; i < 2 && typeof value === "string"; i++) {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+
+  if (!Array.isArray(value)) return fromGeoJson(value);
+  if (value.length === 0) return null;
+
+  if (isLatLng(value[0])) {
+    return { type: "Polygon", coordinates: [value.filter(isLatLng).map(latLngToPosition)] };
+  }
+  if (isPosition(value[0])) {
+    return { type: "Polygon", coordinates: [value.filter(isPosition).map(p => [p[0], p[1]])] };
+  }
+  if (isPolygonCoordinates(value) && value[0].length > 0) {
+    return { type: "Polygon", coordinates: value };
+  }
+  return null;
+}
+
+function samePosition(a: Position, b: Position): boolean {
+  return a[0] === b[0] && a[1] === b[1];
+}
+
+/**
+ * Remove pontos repetidos em sequência e fecha o anel
+ */
+function cleanRing(ring: Position[]): { ring: Position[]; closed: boolean } {
+  const cleaned: Position[] = [];
+  for (const point of ring) {
+    if (!isPosition(point) || !Number.isFinite(point[0]) || !Number.isFinite(point[1])) {
+      throw new Error("Coordenada inválida nos limites do campo");
+    }
+    if (Math.abs(point[0]) > 180 || Math.abs(point[1]) > 90) {
+      throw new Error("Coordenada fora dos limites de latitude/longitude");
+    }
+    const position = [point[0], point[1]];
+    if (cleaned.length === 0 || !samePosition(cleaned[cleaned.length - 1], position)) {
+      cleaned.push(position);
+    }
+  }
+
+  const closed = cleaned.length > 0 && samePosition(cleaned[0], cleaned[cleaned.length - 1]);
+  if (!closed && cleaned.length > 0) {
+    cleaned.push([cleaned[0][0], cleaned[0][1]]);
+  }
+  return { ring: cleaned, closed };
+}
+
+/**
+ * Corrige um polígono com auto-interseção (ex.: "gravata") dividindo-o nas partes simples
+ */
+function unkink(polygon: Position[][]): Position[][][] {
+  const feature = turf.polygon(polygon);
+  if (turf.kinks(feature).features.length === 0) return [polygon];
+
+  return turf.unkinkPolygon(feature).features
+    .map(part => part.geometry.coordinates)
+    .filter(part => turf.area(turf.polygon(part)) >= MIN_AREA_M2);
+}
+
+/**
+ * Valida e normaliza a geometria: fecha anéis, remove pontos duplicados,
+ * corrige auto-interseções e orienta os anéis (externo anti-horário, buracos horários).
+ * Lança erro quando não é possível obter um polígono válido.
+ */
+export function normalizeGeometry(input: unknown): { geometry: FieldGeometry; repaired: boolean } {
+  const parsed = parseGeometry(input);
+  if (!parsed) {
+    throw new Error("Formato de limites inválido");
+  }
+
+  let repaired = false;
+  const polygons = parsed.type === "Polygon" ? [parsed.coordinates] : parsed.coordinates;
+  const result: Position[][][] = [];
+
+  for (const polygon of polygons) {
+    const rings: Position[][] = [];
+    polygon.forEach((rawRing, i) => {
+      const { ring, closed } = cleanRing(rawRing);
+      if (ring.length < 4) {
+        if (i === 0) throw new Error("O polígono precisa de pelo menos 3 pontos");
+        repaired = true; // buraco degenerado é descartado
+        return;
+      }
+      if (!closed) repaired = true;
+      rings.push(ring);
+    });
+
+    const parts = unkink(rings);
+    if (parts.length !== 1 || parts[0] !== rings) repaired = true;
+    result.push(...parts);
+  }
+
+  if (result.length === 0) {
+    throw new Error("O polígono se cruza e não pôde ser corrigido");
+  }
+
+  const geometry: FieldGeometry = result.length === 1
+    ? { type: "Polygon", coordinates: result[0] }
+    : { type: "MultiPolygon", coordinates: result };
+  const rewound = turf.rewind(geometry) as FieldGeometry;
+
+  if (turf.area(rewound) < MIN_AREA_M2) {
+    throw new Error("O polígono não tem área suficiente");
+  }
+
+  return { geometry: rewound, repaired };
+}
+
+function polygonsOf(geometry: FieldGeometry): Position[][][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+/**
+ * Área (ha) e perímetro (m) geodésicos e centroide ponderado pela área
+ */
+export function measureGeometry(geometry: FieldGeometry): GeometryMetrics {
+  let totalArea = 0;
+  let perimeter = 0;
+  let sumLat = 0;
+  let sumLng = 0;
+
+  for (const polygon of polygonsOf(geometry)) {
+    const feature = turf.polygon(polygon);
+    const area = turf.area(feature);
+    const [lng, lat] = turf.centerOfMass(feature).geometry.coordinates;
+    totalArea += area;
+    sumLat += lat * area;
+    sumLng += lng * area;
+    for (const ring of polygon) {
+      perimeter += turf.length(turf.lineString(ring), { units: "meters" });
+    }
+  }
+
+  return {
+    areaHectares: Math.round((totalArea / 10000) * 100) / 100,
+    perimeterMeters: Math.round(perimeter),
+    centroid: totalArea > 0
+      ? { lat: sumLat / totalArea, lng: sumLng / totalArea }
+      : { lat: 0, lng: 0 },
+  };
+}
+
+/**
+ * Anel externo da maior parte no formato legado [{lat, lng}] (sem repetir o primeiro ponto)
+ */
+export function toBoundaries(geometry: FieldGeometry): LatLng[] {
+  const largest = polygonsOf(geometry).reduce((best, polygon) =>
+    turf.area(turf.polygon(polygon)) > turf.area(turf.polygon(best)) ? polygon : best
+  );
+  return largest[0].slice(0, -1).map(([lng, lat]) => ({ lat, lng }));
+}
+
+/**
+ * Normaliza os limites recebidos e calcula os dados derivados gravados no campo
+ */
+export function prepareFieldGeometry(input: unknown): NormalizedFieldGeometry {
+  const { geometry, repaired } = normalizeGeometry(input);
+  return {
+    geometry,
+    boundaries: toBoundaries(geometry),
+    repaired,
+    ...measureGeometry(geometry),
+  };
+}
+
+// Largura do corte usado para dividir um campo por uma linha (metros)
+const SPLIT_GAP_METERS = 0.05;
+
+/**
+ * Divide a geometria pela linha desenhada ([lng, lat]). Cada pedaço resultante
+ * vira um Polygon; a linha precisa atravessar o campo de lado a lado.
+ */
+export function splitGeometry(geometry: FieldGeometry, line: Position[]): FieldGeometry[] {
+  if (line.length < 2) {
+    throw new Error("A linha de divisão precisa de pelo menos 2 pontos");
+  }
+
+  const cutter = turf.buffer(turf.lineString(line), SPLIT_GAP_METERS, { units: "meters" });
+  const remaining = cutter
+    ? turf.difference(turf.featureCollection([turf.feature(geometry), cutter]))
+    : null;
+  const parts = remaining
+    ? polygonsOf(remaining.geometry as FieldGeometry).filter(polygon => turf.area(turf.polygon(polygon)) >= MIN_AREA_M2)
+    : [];
+
+  if (parts.length < 2) {
+    throw new Error("A linha precisa atravessar o campo de um lado ao outro");
+  }
+  return parts.map(polygon => normalizeGeometry({ type: "Polygon", coordinates: polygon }).geometry);
+}
+
+/**
+ * Une as geometrias de vários campos. Campos que não se tocam resultam em MultiPolygon.
+ */
+export function mergeGeometries(geometries: FieldGeometry[]): FieldGeometry {
+  const merged = geometries.length > 1
+    ? turf.union(turf.featureCollection(geometries.map(g => turf.feature(g))))
+    : turf.feature(geometries[0]);
+  if (!merged) {
+    throw new Error("Não foi possível unir os limites dos campos");
+  }
+  return normalizeGeometry(merged.geometry).geometry;
+}
+
+/**
+ * Geometria de um campo salvo: usa a coluna canônica e, em registros antigos,
+ * normaliza os boundaries (que costumam vir com o anel aberto)
+ */
+export function getFieldGeometry(field: { geometry?: unknown; boundaries?: unknown }): FieldGeometry | null {
+  const stored = parseGeometry(field.geometry);
+  if (stored) return stored;
+  if (!field.boundaries) return null;
+  try {
+    return normalizeGeometry(field.boundaries).geometry;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Centro de um campo: latitude/longitude gravadas ou centroide dos limites
+ */
+export function getFieldCenter(field: {
+  geometry?: unknown;
+  boundaries?: unknown;
+  latitude?: string | null;
+  longitude?: string | null;
+}): LatLng | null {
+  const lat = parseFloat(field.latitude || "0");
+  const lng = parseFloat(field.longitude || "0");
+  if (lat !== 0 || lng !== 0) return { lat, lng };
+
+  const geometry = getFieldGeometry(field);
+  if (!geometry) return null;
+  try {
+    return measureGeometry(geometry).centroid;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,247 @@
+/**
+ * Index Rendering Service
+ * Imagens e tiles XYZ do índice desenhados no servidor a partir dos valores por
+ * pixel da cena (indexRaster): cores da paleta, recorte exato pelo limite do campo
+ * (partes e buracos) e PNG ou WebP. Os valores de cada cena (e a cena mais recente
+ * do campo) ficam em memória, para os tiles de uma mesma cena não voltarem ao provedor.
+ */
+
+import { PNG } from "pngjs";
+import sharp from "sharp";
+import { HttpError, NotFoundError } from "@shared/_core/errors";
+import type { FieldGeometry } from "./geometry";
+import { pickClearScene } from "./ndviSeries";
+import {
+  getPalette,
+  nativeRasterSize,
+  paletteColor,
+  type IndexRaster,
+  type RenderedImage,
+  type SatelliteProvider,
+  type SatelliteTarget,
+  type TileCoords,
+  type VegetationIndex,
+} from "./satellite";
+import { clipTileToGeometry, rasterizeGeometry, rasterizeGeometryInBbox } from "./tileClip";
+
+export const IMAGE_FORMATS = ["png", "webp"] as const;
+export type ImageFormat = (typeof IMAGE_FORMATS)[number];
+
+const MAX_IMAGE_SIZE = 1024; // lado maior da imagem do campo: bordas do recorte nítidas sobre o mapa
+const TILE_SIZE = 256;
+const RECENT_SCENE_DAYS = 60;
+const MEMORY_CACHE_SIZE = 64;
+const MEMORY_CACHE_TTL_MS = 30 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ColorScale = (value: number) => [number, number, number];
+
+export interface SceneQuery {
+  index: VegetationIndex;
+  date: Date;
+}
+
+export interface RenderQuery extends SceneQuery {
+  palette?: string;
+  format: ImageFormat;
+}
+
+/**
+ * Guarda valores por meia hora, descartando os mais antigos além de 64 entradas
+ */
+function memoryCache<T>() {
+  const entries = new Map<string, { value: T; expiresAt: number }>();
+  return {
+    get(key: string): T | undefined {
+      const entry = entries.get(key);
+      return entry && entry.expiresAt > Date.now() ? entry.value : undefined;
+    },
+    set(key: string, value: T) {
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + MEMORY_CACHE_TTL_MS });
+      if (entries.size > MEMORY_CACHE_SIZE) entries.delete(entries.keys().next().value!);
+    },
+  };
+}
+
+/**
+ * Cores do índice na paleta pedida (sem nome, a padrão do índice)
+ */
+export function indexColorScale(index: VegetationIndex, palette?: string): ColorScale {
+  const stops = getPalette(palette, index);
+  return value => paletteColor(value, stops, index);
+}
+
+/**
+ * Pinta os pixels com valor dentro da máscara; o resto fica transparente
+ */
+function paint(
+  width: number,
+  height: number,
+  mask: Uint8Array,
+  value: (col: number, row: number) => number,
+  color: ColorScale
+): PNG {
+  const png = new PNG({ width, height });
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!mask[row * width + col]) continue;
+      const v = value(col, row);
+      if (!Number.isFinite(v)) continue; // nuvem ou fora da cena
+      const offset = (row * width + col) * 4;
+      const [r, g, b] = color(v);
+      png.data[offset] = r;
+      png.data[offset + 1] = g;
+      png.data[offset + 2] = b;
+      png.data[offset + 3] = 255;
+    }
+  }
+  return png;
+}
+
+async function encode(png: PNG, format: ImageFormat): Promise<RenderedImage> {
+  if (format === "webp") {
+    const data = await sharp(png.data, { raw: { width: png.width, height: png.height, channels: 4 } })
+      .webp({ lossless: true })
+      .toBuffer();
+    return { data, contentType: "image/webp" };
+  }
+  return { data: PNG.sync.write(png), contentType: "image/png" };
+}
+
+/**
+ * Imagem do campo para sobrepor à caixa do raster: cada pixel da cena vira um
+ * bloco (sem suavizar os valores) e o limite é recortado na resolução final
+ */
+export async function renderRasterImage(
+  raster: IndexRaster,
+  fieldGeometry: FieldGeometry,
+  color: ColorScale,
+  format: ImageFormat = "png"
+): Promise<RenderedImage> {
+  const scale = Math.max(1, Math.floor(MAX_IMAGE_SIZE / Math.max(raster.width, raster.height)));
+  const width = raster.width * scale;
+  const height = raster.height * scale;
+  const mask = rasterizeGeometryInBbox(fieldGeometry, raster.bbox, width, height);
+  const png = paint(width, height, mask, (col, row) =>
+    raster.values[Math.floor(row / scale) * raster.width + Math.floor(col / scale)], color);
+  return encode(png, format);
+}
+
+/**
+ * Tile XYZ 256x256 (Web Mercator) com o pixel da cena mais próximo, recortado pelo campo
+ */
+export async function renderRasterTile(
+  raster: IndexRaster,
+  fieldGeometry: FieldGeometry,
+  { z, x, y }: TileCoords,
+  color: ColorScale,
+  format: ImageFormat = "png"
+): Promise<RenderedImage> {
+  const [west, south, east, north] = raster.bbox;
+  const worldSize = TILE_SIZE * 2 ** z;
+  const mask = rasterizeGeometry(fieldGeometry, z, x, y, TILE_SIZE);
+  const png = paint(TILE_SIZE, TILE_SIZE, mask, (col, row) => {
+    const lng = ((x * TILE_SIZE + col + 0.5) / worldSize) * 360 - 180;
+    const lat = (Math.atan(Math.sinh(Math.PI * (1 - (2 * (y * TILE_SIZE + row + 0.5)) / worldSize))) * 180) / Math.PI;
+    const rasterCol = Math.floor(((lng - west) / (east - west)) * raster.width);
+    const rasterRow = Math.floor(((north - lat) / (north - south)) * raster.height);
+    if (rasterCol < 0 || rasterCol >= raster.width || rasterRow < 0 || rasterRow >= raster.height) return NaN;
+    return raster.values[rasterRow * raster.width + rasterCol];
+  }, color);
+  return encode(png, format);
+}
+
+const sceneDateCache = memoryCache<Date>();
+const rasterCache = memoryCache<IndexRaster>();
+
+/**
+ * Data da cena mais limpa dos últimos 60 dias (imagens e tiles pedidos sem data),
+ * guardada por meia hora para os tiles do mapa não consultarem o provedor um a um
+ */
+export async function recentSceneDate(provider: SatelliteProvider, target: SatelliteTarget, index: VegetationIndex): Promise<Date> {
+  const key = [provider.name, target.fieldId, index, JSON.stringify(target.geometry)].join("|");
+  const cached = sceneDateCache.get(key);
+  if (cached) return cached;
+
+  const to = new Date();
+  const from = new Date(to.getTime() - RECENT_SCENE_DAYS * DAY_MS);
+  const scene = pickClearScene(await provider.indexStats(target, { index, from, to, interval: "P1D" }));
+  if (!scene) throw NotFoundError("Nenhuma cena no período");
+  sceneDateCache.set(key, scene.captureDate);
+  return scene.captureDate;
+}
+
+/**
+ * Valores da cena do dia na grade nativa do campo, guardados por meia hora
+ * (a chave inclui a geometria: limites editados pedem a cena de novo)
+ */
+export async function loadSceneRaster(
+  provider: SatelliteProvider,
+  target: SatelliteTarget,
+  { index, date }: SceneQuery
+): Promise<IndexRaster> {
+  const day = date.toISOString().split("T")[0];
+  const key = [provider.name, target.fieldId, index, day, JSON.stringify(target.geometry)].join("|");
+  const cached = rasterCache.get(key);
+  if (cached) return cached;
+
+  const raster = await provider.indexRaster(target, { index, date, ...nativeRasterSize(target.geometry) });
+  rasterCache.set(key, raster);
+  return raster;
+}
+
+/**
+ * Valores da cena por pixel; null quando o provedor só entrega imagens prontas
+ * (Agromonitoring) ou não tem o índice por pixel, e as imagens são usadas como vêm
+ */
+async function loadRasterIfAvailable(
+  provider: SatelliteProvider,
+  target: SatelliteTarget,
+  query: SceneQuery
+): Promise<IndexRaster | null> {
+  if (!provider.supportsRaster) return null;
+  try {
+    return await loadSceneRaster(provider, target, query);
+  } catch (error) {
+    if (error instanceof HttpError && error.statusCode === 400) return null;
+    throw error;
+  }
+}
+
+/**
+ * Imagem do campo na cena pedida, desenhada dos valores ou a do provedor
+ */
+export async function renderSceneImage(
+  provider: SatelliteProvider,
+  target: SatelliteTarget,
+  { index, date, palette, format }: RenderQuery
+): Promise<RenderedImage> {
+  const raster = await loadRasterIfAvailable(provider, target, { index, date });
+  return raster
+    ? renderRasterImage(raster, target.geometry, indexColorScale(index, palette), format)
+    : provider.renderImage(target, { index, date, palette });
+}
+
+/**
+ * Tile XYZ do campo na cena pedida; o do provedor também é recortado pelo limite
+ */
+export async function renderSceneTile(
+  provider: SatelliteProvider,
+  target: SatelliteTarget,
+  tile: TileCoords,
+  { index, date, palette, format }: RenderQuery
+): Promise<RenderedImage> {
+  const raster = await loadRasterIfAvailable(provider, target, { index, date });
+  if (raster) return renderRasterTile(raster, target.geometry, tile, indexColorScale(index, palette), format);
+
+  const image = await provider.renderTile(target, tile, { index, date, palette });
+  if (image.contentType.includes("png")) {
+    try {
+      image.data = clipTileToGeometry(image.data, target.geometry, tile.z, tile.x, tile.y);
+    } catch (error) {
+      console.error("[NDVI Tiles] Erro ao recortar tile:", error);
+    }
+  }
+  return image;
+}
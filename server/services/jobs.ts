@@ -0,0 +1,126 @@
+/**
+ * Jobs Service
+ * Agendas no formato cron (minuto hora dia mês dia-da-semana, em UTC),
+ * horários devidos e espera entre tentativas de um job que falhou
+ */
+
+export interface JobContext {
+  userId: number; // 0 em jobs globais
+  scheduledFor: Date;
+  attempt: number; // 1 na primeira tentativa
+}
+
+export interface JobDefinition {
+  label: string;
+  schedule: string;
+  perUser: boolean; // uma execução por usuário com campos ativos
+  maxAttempts: number;
+  run: (context: JobContext) => Promise<Record<string, unknown>>;
+}
+
+interface CronFields {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  anyDay: boolean;
+  anyWeekday: boolean;
+}
+
+const FIELD_RANGES: Array<[number, number]> = [[0, 59], [0, 23], [1, 31], [1, 12], [0, 7]];
+
+function parseField(text: string, [min, max]: [number, number]): Set<number> {
+  const values = new Set<number>();
+  text.split(",").forEach(part => {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : Number(stepText);
+    let from = min;
+    let to = max;
+    if (range !== "*") {
+      [from, to] = range.includes("-") ? range.split("-").map(Number) as [number, number] : [Number(range), Number(range)];
+      if (stepText !== undefined && !range.includes("-")) to = max;
+    }
+    if (![from, to, step].every(Number.isInteger) || step < 1 || from < min || to > max || from > to) {
+      throw new Error(`Agenda inválida: "${part}"`);
+    }
+    for (let value = from; value <= to; value += step) values.add(value);
+  });
+  return values;
+}
+
+export function parseCron(expression: string): CronFields {
+  const parts = expression.trim().split(/\s+/);
+  if (parts.length !== 5) throw new Error(`Agenda inválida: "${expression}"`);
+  const [minutes, hours, days, months, weekdays] = parts.map((part, i) => parseField(part, FIELD_RANGES[i]));
+  if (weekdays.has(7)) weekdays.add(0); // domingo pode ser 0 ou 7
+  return { minutes, hours, days, months, weekdays, anyDay: parts[2] === "*", anyWeekday: parts[4] === "*" };
+}
+
+// Como no cron: com dia do mês e dia da semana restritos, basta um dos dois
+function dayMatches(cron: CronFields, date: Date): boolean {
+  const day = cron.days.has(date.getUTCDate());
+  const weekday = cron.weekdays.has(date.getUTCDay());
+  if (cron.anyDay) return weekday;
+  if (cron.anyWeekday) return day;
+  return day || weekday;
+}
+
+/**
+ * Primeiro horário da agenda depois de `after`
+ */
+export function nextRun(expression: string, after: Date): Date {
+  return nextMatch(parseCron(expression), after, expression);
+}
+
+function nextMatch(cron: CronFields, after: Date, expression: string): Date {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const limit = after.getTime() + 5 * 366 * 24 * 60 * 60 * 1000;
+
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0);
+    } else if (!dayMatches(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1);
+    } else {
+      return date;
+    }
+  }
+  throw new Error(`Agenda sem próximos horários: "${expression}"`);
+}
+
+const MAX_CATCH_UP_MS = 31 * 24 * 60 * 60 * 1000;
+
+/**
+ * Último horário da agenda que já venceu (até `now`) e é posterior a `since`.
+ * Depois de um período parado, só o horário mais recente é executado.
+ */
+export function dueSlot(expression: string, since: Date, now: Date): Date | null {
+  const cron = parseCron(expression);
+  const oldest = new Date(now.getTime() - MAX_CATCH_UP_MS);
+  let slot: Date | null = null;
+  let next = nextMatch(cron, since > oldest ? since : oldest, expression);
+  while (next.getTime() <= now.getTime()) {
+    slot = next;
+    next = nextMatch(cron, next, expression);
+  }
+  return slot;
+}
+
+const RETRY_BASE_MS = 5 * 60 * 1000;
+const RETRY_MAX_MS = 60 * 60 * 1000;
+
+/**
+ * Espera antes da próxima tentativa: 5 min, 10 min, 20 min... até 1 h
+ */
+export function retryDelayMs(attempts: number): number {
+  return Math.min(RETRY_BASE_MS * 2 ** Math.max(attempts - 1, 0), RETRY_MAX_MS);
+}
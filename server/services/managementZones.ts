@@ -0,0 +1,232 @@
+/**
+ * Management Zones Service
+ * Zonas de manejo a partir de várias cenas sem nuvens: índice de cada pixel normalizado
+ * pela média do campo na cena, média entre as cenas, quebras naturais (Jenks) em N classes
+ * e um polígono por zona, recortado pelos limites do campo
+ */
+
+import * as turf from "@turf/turf";
+import type { FieldGeometry, MultiPolygonGeometry } from "./geometry";
+import { validRatioOf } from "./ndviSeries";
+import { rasterPolygons } from "./rasterPolygons";
+import type { IndexRaster, IndexStats } from "./satellite";
+
+const HISTOGRAM_BINS = 128;
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+export const ZONE_SCENE_RATIO = 0.95; // cena "sem nuvens": 95% do campo visível
+
+export interface ManagementZone {
+  zone: number; // 1 = menor índice
+  areaHectares: number;
+  meanIndex: number; // média do índice nas cenas usadas
+  relativeIndex: number; // em relação à média do campo (1 = média)
+  geometry: MultiPolygonGeometry;
+}
+
+/**
+ * Cenas para as zonas: sem nuvens e, em cada safra (janelas de 12 meses contadas da
+ * cena mais recente), as de maior índice médio, quando o dossel mostra as diferenças de potencial
+ */
+export function selectZoneScenes(stats: IndexStats[], perYear: number = 3): Date[] {
+  const clear = stats.filter(scene => (validRatioOf(scene) ?? 0) >= ZONE_SCENE_RATIO);
+  if (clear.length === 0) return [];
+  const latest = Math.max(...clear.map(scene => scene.captureDate.getTime()));
+
+  const byYear = new Map<number, IndexStats[]>();
+  for (const scene of clear) {
+    const year = Math.floor((latest - scene.captureDate.getTime()) / YEAR_MS);
+    byYear.set(year, [...(byYear.get(year) ?? []), scene]);
+  }
+  return Array.from(byYear.values())
+    .flatMap(scenes => scenes.sort((a, b) => b.mean - a.mean).slice(0, perYear))
+    .map(scene => scene.captureDate)
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+/**
+ * Média por pixel entre as cenas do índice bruto e do relativo (pixel / média do
+ * campo na cena); vale o pixel visível em pelo menos metade das cenas
+ */
+export function compositeRaster(rasters: IndexRaster[]): { raw: Float32Array; relative: Float32Array } {
+  const { width, height } = rasters[0];
+  if (rasters.some(raster => raster.width !== width || raster.height !== height)) {
+    throw new Error("As cenas precisam ter a mesma grade de pixels");
+  }
+
+  const size = width * height;
+  const rawSum = new Float64Array(size);
+  const relativeSum = new Float64Array(size);
+  const count = new Uint16Array(size);
+  for (const { values } of rasters) {
+    let sum = 0;
+    let valid = 0;
+    values.forEach(value => {
+      if (Number.isFinite(value)) {
+        sum += value;
+        valid++;
+      }
+    });
+    const mean = valid > 0 ? sum / valid : 0;
+    if (mean <= 0) continue; // cena sem vegetação não diz nada sobre o potencial
+    values.forEach((value, i) => {
+      if (!Number.isFinite(value)) return;
+      rawSum[i] += value;
+      relativeSum[i] += value / mean;
+      count[i]++;
+    });
+  }
+
+  const minCount = Math.ceil(rasters.length / 2);
+  const raw = new Float32Array(size).fill(NaN);
+  const relative = new Float32Array(size).fill(NaN);
+  for (let i = 0; i < size; i++) {
+    if (count[i] === 0 || count[i] < minCount) continue;
+    raw[i] = rawSum[i] / count[i];
+    relative[i] = relativeSum[i] / count[i];
+  }
+  return { raw, relative };
+}
+
+/**
+ * Quebras naturais de Jenks (Fisher) sobre o histograma dos valores: limites
+ * entre as classes, no meio do vão entre o maior valor de uma e o menor da seguinte
+ */
+export function naturalBreaks(values: number[], classes: number): number[] {
+  if (values.length === 0) return [];
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  if (max === min) return [];
+
+  const binWidth = (max - min) / HISTOGRAM_BINS;
+  const bins = Array.from({ length: HISTOGRAM_BINS }, () => ({ weight: 0, sum: 0, squares: 0, low: Infinity, high: -Infinity }));
+  for (const value of values) {
+    const bin = bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / binWidth))];
+    bin.weight++;
+    bin.low = Math.min(bin.low, value);
+    bin.high = Math.max(bin.high, value);
+    bin.sum += value;
+    bin.squares += value * value;
+  }
+  const occupied = bins.filter(bin => bin.weight > 0).length;
+  const k = Math.min(classes, occupied);
+
+  // Somas acumuladas para o desvio quadrático de qualquer faixa de bins
+  const W = [0], S = [0], Q = [0];
+  bins.forEach(bin => {
+    W.push(W[W.length - 1] + bin.weight);
+    S.push(S[S.length - 1] + bin.sum);
+    Q.push(Q[Q.length - 1] + bin.squares);
+  });
+  const cost = (from: number, to: number) => {
+    const weight = W[to + 1] - W[from];
+    if (weight === 0) return Infinity; // classe vazia
+    const sum = S[to + 1] - S[from];
+    return Q[to + 1] - Q[from] - (sum * sum) / weight;
+  };
+
+  // best[c][j]: menor desvio com c + 1 classes nos bins 0..j; start guarda onde começa a última
+  const best = Array.from({ length: k }, () => new Array<number>(HISTOGRAM_BINS).fill(Infinity));
+  const start = Array.from({ length: k }, () => new Array<number>(HISTOGRAM_BINS).fill(0));
+  for (let j = 0; j < HISTOGRAM_BINS; j++) best[0][j] = cost(0, j);
+  for (let c = 1; c < k; c++) {
+    for (let j = c; j < HISTOGRAM_BINS; j++) {
+      for (let i = c; i <= j; i++) {
+        const total = best[c - 1][i - 1] + cost(i, j);
+        if (total < best[c][j]) {
+          best[c][j] = total;
+          start[c][j] = i;
+        }
+      }
+    }
+  }
+
+  const breaks: number[] = [];
+  const highest = (from: number, to: number) => Math.max(...bins.slice(from, to + 1).map(bin => bin.high));
+  const lowest = (from: number, to: number) => Math.min(...bins.slice(from, to + 1).map(bin => bin.low));
+  let end = HISTOGRAM_BINS - 1;
+  for (let c = k - 1; c > 0; c--) {
+    const first = start[c][end];
+    breaks.unshift((highest(0, first - 1) + lowest(first, end)) / 2);
+    end = first - 1;
+  }
+  return breaks;
+}
+
+function classify(values: Float32Array, breaks: number[]): Int8Array {
+  const classes = new Int8Array(values.length).fill(-1);
+  values.forEach((value, i) => {
+    if (!Number.isFinite(value)) return;
+    const index = breaks.findIndex(limit => value < limit);
+    classes[i] = index === -1 ? breaks.length : index;
+  });
+  return classes;
+}
+
+/**
+ * Filtro de maioria 3x3: pixel quase isolado (no máximo um vizinho da mesma classe)
+ * assume a classe que domina a vizinhança; cantos de manchas maiores ficam como estão
+ */
+function majorityFilter(classes: Int8Array, width: number, height: number): Int8Array {
+  const filtered = Int8Array.from(classes);
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (classes[row * width + col] < 0) continue;
+      const counts = new Map<number, number>();
+      for (let dr = -1; dr <= 1; dr++) {
+        for (let dc = -1; dc <= 1; dc++) {
+          const r = row + dr, c = col + dc;
+          if (r < 0 || c < 0 || r >= height || c >= width || classes[r * width + c] < 0) continue;
+          counts.set(classes[r * width + c], (counts.get(classes[r * width + c]) ?? 0) + 1);
+        }
+      }
+      if ((counts.get(classes[row * width + col]) ?? 0) > 2) continue;
+      for (const [value, count] of Array.from(counts)) {
+        if (count >= 5) filtered[row * width + col] = value;
+      }
+    }
+  }
+  return filtered;
+}
+
+function asMultiPolygon(geometry: FieldGeometry): MultiPolygonGeometry {
+  return geometry.type === "MultiPolygon" ? geometry : { type: "MultiPolygon", coordinates: [geometry.coordinates] };
+}
+
+/**
+ * Zonas de manejo do campo a partir das grades do índice de cada cena
+ */
+export function computeZones(fieldGeometry: FieldGeometry, rasters: IndexRaster[], zoneCount: number): ManagementZone[] {
+  if (rasters.length === 0) throw new Error("Nenhuma cena para calcular as zonas");
+  const { width, height, bbox } = rasters[0];
+  const { raw, relative } = compositeRaster(rasters);
+
+  const valid = Array.from(relative).filter(Number.isFinite);
+  if (valid.length === 0) throw new Error("As cenas não têm pixels válidos dentro do campo");
+  const classes = majorityFilter(classify(relative, naturalBreaks(valid, zoneCount)), width, height);
+
+  const zones: ManagementZone[] = [];
+  const classCount = Math.max(...Array.from(classes)) + 1;
+  for (let zone = 0; zone < classCount; zone++) {
+    let rawSum = 0, relativeSum = 0, pixels = 0;
+    classes.forEach((value, i) => {
+      if (value !== zone) return;
+      rawSum += raw[i];
+      relativeSum += relative[i];
+      pixels++;
+    });
+    if (pixels === 0) continue;
+
+    const shape = rasterPolygons({ values: classes, width, height, bbox }, zone);
+    const clipped = turf.intersect(turf.featureCollection([turf.feature(shape), turf.feature(fieldGeometry)]));
+    if (!clipped) continue;
+    const geometry = asMultiPolygon(clipped.geometry as FieldGeometry);
+    zones.push({
+      zone: zones.length + 1,
+      areaHectares: Math.round((turf.area(geometry) / 10000) * 100) / 100,
+      meanIndex: Math.round((rawSum / pixels) * 1000) / 1000,
+      relativeIndex: Math.round((relativeSum / pixels) * 1000) / 1000,
+      geometry,
+    });
+  }
+  return zones;
+}
@@ -0,0 +1,116 @@
+/**
+ * NDVI Change Service
+ * Mapa de mudança do índice entre duas cenas do campo: diferença pixel a pixel
+ * (depois − antes), áreas que melhoraram, ficaram estáveis ou pioraram, e as
+ * cores da paleta divergente para a imagem e os tiles (services/indexRendering.ts)
+ */
+
+import * as turf from "@turf/turf";
+import { BadRequestError } from "@shared/_core/errors";
+import { CHANGE_PALETTE, CHANGE_RANGE, CHANGE_THRESHOLD } from "@shared/vegetationIndices";
+import type { FieldGeometry } from "./geometry";
+import { loadSceneRaster } from "./indexRendering";
+import type { IndexRaster, SatelliteProvider, SatelliteTarget, VegetationIndex } from "./satellite";
+
+export interface ChangeQuery {
+  index: VegetationIndex;
+  from: Date; // cena de antes
+  to: Date; // cena de depois
+}
+
+export interface ChangeSummary {
+  improvedHectares: number;
+  stableHectares: number;
+  declinedHectares: number;
+  noDataHectares: number; // nuvem em alguma das duas cenas
+  improvedPercent: number; // das áreas com dado nas duas cenas
+  stablePercent: number;
+  declinedPercent: number;
+  meanChange: number | null;
+  threshold: number;
+}
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * Diferença pixel a pixel entre duas grades do mesmo campo; NaN onde
+ * qualquer uma das cenas não tem dado (fora do campo ou sob nuvem)
+ */
+export function changeRaster(before: IndexRaster, after: IndexRaster): IndexRaster {
+  const sameGrid = before.width === after.width &&
+    before.height === after.height &&
+    before.bbox.every((value, i) => Math.abs(value - after.bbox[i]) < 1e-9);
+  if (!sameGrid) throw BadRequestError("As duas cenas precisam ter a mesma grade de pixels");
+
+  const values = new Float32Array(before.values.length);
+  for (let i = 0; i < values.length; i++) {
+    values[i] = after.values[i] - before.values[i]; // NaN se qualquer um for NaN
+  }
+  return { width: before.width, height: before.height, bbox: before.bbox, values };
+}
+
+/**
+ * Área (ha) que melhorou, ficou estável (até ±threshold) ou piorou dentro do campo
+ */
+export function summarizeChange(
+  fieldGeometry: FieldGeometry,
+  change: IndexRaster,
+  threshold: number = CHANGE_THRESHOLD
+): ChangeSummary {
+  const pixelHectares = turf.area(turf.bboxPolygon(change.bbox)) / 10000 / (change.width * change.height);
+  let improved = 0;
+  let stable = 0;
+  let declined = 0;
+  let sum = 0;
+  change.values.forEach(value => {
+    if (!Number.isFinite(value)) return;
+    if (value > threshold) improved++;
+    else if (value < -threshold) declined++;
+    else stable++;
+    sum += value;
+  });
+
+  const valid = improved + stable + declined;
+  const percent = (count: number) => (valid > 0 ? Math.round((count / valid) * 1000) / 10 : 0);
+  const fieldHectares = turf.area(fieldGeometry) / 10000;
+  return {
+    improvedHectares: round2(improved * pixelHectares),
+    stableHectares: round2(stable * pixelHectares),
+    declinedHectares: round2(declined * pixelHectares),
+    noDataHectares: round2(Math.max(0, fieldHectares - valid * pixelHectares)),
+    improvedPercent: percent(improved),
+    stablePercent: percent(stable),
+    declinedPercent: percent(declined),
+    meanChange: valid > 0 ? Math.round((sum / valid) * 1000) / 1000 : null,
+    threshold,
+  };
+}
+
+/**
+ * Cor da diferença na paleta divergente: ±CHANGE_RANGE nos extremos
+ */
+export function changeColor(value: number): [number, number, number] {
+  const position = Math.max(0, Math.min(1, (value + CHANGE_RANGE) / (2 * CHANGE_RANGE)));
+  for (let i = 0; i < CHANGE_PALETTE.length - 1; i++) {
+    const low = CHANGE_PALETTE[i];
+    const high = CHANGE_PALETTE[i + 1];
+    if (position <= high.value) {
+      const t = (position - low.value) / (high.value - low.value);
+      return low.color.map((c, k) => Math.round(c + t * (high.color[k] - c))) as [number, number, number];
+    }
+  }
+  return CHANGE_PALETTE[CHANGE_PALETTE.length - 1].color;
+}
+
+/**
+ * Busca as duas cenas (cada uma guardada em memória pelo dia) e devolve a diferença
+ */
+export async function loadChange(
+  provider: SatelliteProvider,
+  target: SatelliteTarget,
+  { index, from, to }: ChangeQuery
+): Promise<IndexRaster> {
+  const before = await loadSceneRaster(provider, target, { index, date: from });
+  const after = await loadSceneRaster(provider, target, { index, date: to });
+  return changeRaster(before, after);
+}
@@ -0,0 +1,67 @@
+/**
+ * NDVI Ingestion Service
+ * Converte as estatísticas de cada cena (de qualquer provedor de satélite) em
+ * leituras de ndviData: valores, cobertura de nuvens, imagens e estado de saúde, uma por dia
+ */
+
+import type { InsertNdviData, NdviData } from "../../drizzle/schema";
+import type { IndexStats } from "./satellite";
+
+export type HealthStatus = NonNullable<NdviData["healthStatus"]>;
+
+const dayOf = (date: Date) => date.toISOString().split("T")[0];
+
+/**
+ * Mesmas faixas das cores do gráfico de NDVI (NdviChartOneSoil)
+ */
+export function ndviHealthStatus(ndvi: number): HealthStatus {
+  if (ndvi >= 0.7) return "excellent";
+  if (ndvi >= 0.5) return "good";
+  if (ndvi >= 0.3) return "moderate";
+  if (ndvi >= 0.2) return "poor";
+  return "critical";
+}
+
+/**
+ * Imagem da cena servida pelo próprio app (/api/ndvi-image), seja qual for o provedor
+ */
+export function ndviImagePath(fieldId: number, captureDate: Date): string {
+  return `/api/ndvi-image/${fieldId}?date=${dayOf(captureDate)}`;
+}
+
+/**
+ * Leituras novas do campo, da mais antiga para a mais recente: no máximo uma
+ * por dia (a de menos nuvens) e nenhuma em dia que já tem leitura gravada
+ */
+export function newNdviRows(fieldId: number, scenes: IndexStats[], storedDates: Date[]): InsertNdviData[] {
+  const stored = new Set(storedDates.map(dayOf));
+  const byDay = new Map<string, IndexStats>();
+  for (const scene of scenes) {
+    const day = dayOf(scene.captureDate);
+    if (stored.has(day) || !Number.isFinite(scene.mean)) continue;
+    const current = byDay.get(day);
+    if (!current || (scene.cloudCoverage ?? 100) < (current.cloudCoverage ?? 100)) byDay.set(day, scene);
+  }
+
+  return Array.from(byDay.values())
+    .sort((a, b) => a.captureDate.getTime() - b.captureDate.getTime())
+    .map(scene => ({
+      fieldId,
+      captureDate: scene.captureDate,
+      ndviAverage: Math.round(scene.mean * 1000),
+      ndviMin: Math.round(scene.min * 1000),
+      ndviMax: Math.round(scene.max * 1000),
+      healthStatus: ndviHealthStatus(scene.mean),
+      cloudCoverage: scene.cloudCoverage === null ? null : Math.round(scene.cloudCoverage),
+      imageUrl: ndviImagePath(fieldId, scene.captureDate),
+      thumbnailUrl: ndviImagePath(fieldId, scene.captureDate),
+      source: scene.source,
+    }));
+}
+
+/**
+ * Valor de fields.currentNdvi (NDVI * 100) a partir de uma leitura (NDVI * 1000)
+ */
+export function currentNdviOf(ndviAverage: number): number {
+  return Math.round(ndviAverage / 10);
+}
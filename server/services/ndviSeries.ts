@@ -0,0 +1,186 @@
+/**
+ * NDVI Series Service
+ * Limpeza das séries de índices de vegetação: descarta cenas com poucos pixels válidos
+ * (máscara SCL de nuvens e sombras) e valores fora da curva, e suaviza com o filtro de
+ * Whittaker, interpolando as lacunas
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const MIN_VALID_RATIO = 0.6; // abaixo disso a média da cena mistura nuvem e névoa
+export const CLEAR_SCENE_RATIO = 0.8; // cena boa para exibir no mapa
+const OUTLIER_DROP = 0.12; // nuvem, névoa e sombra derrubam o índice
+const OUTLIER_SPIKE = 0.2;
+const OUTLIER_NEIGHBORS = 2; // vizinhos de cada lado na mediana
+const OUTLIER_WINDOW_DAYS = 30;
+const DEFAULT_LAMBDA = 200; // suaviza oscilações de menos de ~3 semanas
+
+export interface SeriesObservation {
+  captureDate: Date;
+  value: number;
+  validPixelRatio: number | null; // fração do campo com pixels válidos (0 a 1)
+  cloudCoverage: number | null; // porcentagem
+}
+
+export type RejectReason = "cloud" | "outlier";
+
+export type RawPoint<T extends SeriesObservation> = T & { rejected: RejectReason | null };
+
+export interface SmoothedPoint {
+  date: Date;
+  value: number;
+  interpolated: boolean; // sem observação aceita a menos de meio passo
+}
+
+export interface CleanSeriesOptions {
+  stepDays?: number; // espaçamento da curva suavizada
+  minValidRatio?: number;
+  lambda?: number;
+}
+
+/**
+ * Fração válida da cena: a informada pelo provedor ou, sem ela, o que sobra das nuvens
+ */
+export function validRatioOf(observation: { validPixelRatio: number | null; cloudCoverage: number | null }): number | null {
+  if (observation.validPixelRatio !== null) return observation.validPixelRatio;
+  if (observation.cloudCoverage !== null) return 1 - observation.cloudCoverage / 100;
+  return null;
+}
+
+/**
+ * Dias de um intervalo ISO 8601 (P10D, P2W, P1M); padrão de 10 dias
+ */
+export function intervalDays(interval?: string): number {
+  const match = interval?.match(/^P(\d+)([DWM])$/);
+  if (!match) return 10;
+  const amount = parseInt(match[1]);
+  return Math.max(1, match[2] === "D" ? amount : match[2] === "W" ? amount * 7 : amount * 30);
+}
+
+/**
+ * Cena para exibir: a mais recente com pelo menos 80% do campo visível ou,
+ * sem nenhuma assim, a mais limpa
+ */
+export function pickClearScene<T extends { captureDate: Date; validPixelRatio: number | null; cloudCoverage: number | null }>(
+  scenes: T[],
+  minValidRatio: number = CLEAR_SCENE_RATIO
+): T | null {
+  const ratio = (scene: T) => validRatioOf(scene) ?? 0;
+  const clear = scenes
+    .filter(scene => ratio(scene) >= minValidRatio)
+    .sort((a, b) => b.captureDate.getTime() - a.captureDate.getTime());
+  if (clear.length > 0) return clear[0];
+  return [...scenes].sort((a, b) => ratio(b) - ratio(a))[0] ?? null;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Valores fora da curva: comparados à mediana dos vizinhos aceitos no último mês.
+ * Quedas pesam mais que picos, porque contaminação por nuvem só abaixa o índice.
+ */
+function findOutliers(points: SeriesObservation[]): Set<SeriesObservation> {
+  const outliers = new Set<SeriesObservation>();
+  points.forEach((point, i) => {
+    const neighbors = [
+      ...points.slice(Math.max(0, i - OUTLIER_NEIGHBORS), i),
+      ...points.slice(i + 1, i + 1 + OUTLIER_NEIGHBORS),
+    ].filter(other => Math.abs(other.captureDate.getTime() - point.captureDate.getTime()) <= OUTLIER_WINDOW_DAYS * DAY_MS);
+    if (neighbors.length < 2) return;
+    const expected = median(neighbors.map(other => other.value));
+    if (point.value < expected - OUTLIER_DROP || point.value > expected + OUTLIER_SPIKE) outliers.add(point);
+  });
+  return outliers;
+}
+
+/**
+ * Filtro de Whittaker (diferenças de segunda ordem): resolve (W + λD'D)z = Wy.
+ * Peso zero nos dias sem observação faz o filtro interpolar a lacuna.
+ */
+export function whittakerSmooth(values: number[], weights: number[], lambda: number = DEFAULT_LAMBDA): number[] {
+  const n = values.length;
+  if (n < 3) return [...values];
+
+  // Matriz pentadiagonal simétrica guardada por faixas: A(i, j) = band[i][j - i + 2]
+  const band = Array.from({ length: n }, () => [0, 0, 0, 0, 0]);
+  for (let k = 0; k < n - 2; k++) {
+    const diff = [1, -2, 1];
+    for (let a = 0; a < 3; a++) {
+      for (let b = 0; b < 3; b++) band[k + a][b - a + 2] += lambda * diff[a] * diff[b];
+    }
+  }
+  const rhs = values.map((value, i) => {
+    band[i][2] += weights[i];
+    return weights[i] * value;
+  });
+
+  // Eliminação de Gauss na faixa (a matriz é positiva definida, sem pivoteamento)
+  for (let k = 0; k < n; k++) {
+    for (let i = k + 1; i <= Math.min(k + 2, n - 1); i++) {
+      const factor = band[i][k - i + 2] / band[k][2];
+      for (let j = k; j <= Math.min(k + 2, n - 1); j++) band[i][j - i + 2] -= factor * band[k][j - k + 2];
+      rhs[i] -= factor * rhs[k];
+    }
+  }
+  const smoothed = new Array<number>(n);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = rhs[i];
+    for (let j = i + 1; j <= Math.min(i + 2, n - 1); j++) sum -= band[i][j - i + 2] * smoothed[j];
+    smoothed[i] = sum / band[i][2];
+  }
+  return smoothed;
+}
+
+/**
+ * Série bruta marcada (cenas descartadas e por quê) e curva suavizada a cada
+ * `stepDays`, do primeiro ao último dia com observação aceita
+ */
+export function cleanSeries<T extends SeriesObservation>(
+  observations: T[],
+  options: CleanSeriesOptions = {}
+): { raw: RawPoint<T>[]; smoothed: SmoothedPoint[] } {
+  const stepDays = Math.max(1, options.stepDays ?? 10);
+  const minValidRatio = options.minValidRatio ?? MIN_VALID_RATIO;
+  const sorted = [...observations].sort((a, b) => a.captureDate.getTime() - b.captureDate.getTime());
+
+  const cloudy = new Set(sorted.filter(point => (validRatioOf(point) ?? 1) < minValidRatio));
+  const outliers = findOutliers(sorted.filter(point => !cloudy.has(point) && Number.isFinite(point.value)));
+  const raw = sorted.map(point => ({
+    ...point,
+    rejected: cloudy.has(point) || !Number.isFinite(point.value) ? "cloud" as const : outliers.has(point) ? "outlier" as const : null,
+  }));
+
+  const accepted = raw.filter(point => point.rejected === null);
+  if (accepted.length === 0) return { raw, smoothed: [] };
+
+  // Grade diária: média ponderada das cenas do mesmo dia
+  const dayOf = (date: Date) => Math.floor(date.getTime() / DAY_MS);
+  const firstDay = dayOf(accepted[0].captureDate);
+  const lastDay = dayOf(accepted[accepted.length - 1].captureDate);
+  const sums = new Array<number>(lastDay - firstDay + 1).fill(0);
+  const weights = new Array<number>(lastDay - firstDay + 1).fill(0);
+  for (const point of accepted) {
+    const weight = validRatioOf(point) ?? 1;
+    sums[dayOf(point.captureDate) - firstDay] += weight * point.value;
+    weights[dayOf(point.captureDate) - firstDay] += weight;
+  }
+  const daily = whittakerSmooth(sums.map((sum, i) => (weights[i] > 0 ? sum / weights[i] : 0)), weights, options.lambda);
+
+  const observedDays = accepted.map(point => dayOf(point.captureDate));
+  const smoothed: SmoothedPoint[] = [];
+  for (let offset = 0; ; offset = Math.min(offset + stepDays, daily.length - 1)) {
+    const day = firstDay + offset;
+    const nearest = Math.min(...observedDays.map(observed => Math.abs(observed - day)));
+    smoothed.push({
+      date: new Date(day * DAY_MS),
+      value: Math.round(daily[offset] * 1000) / 1000,
+      interpolated: nearest > stepDays / 2,
+    });
+    if (offset === daily.length - 1) break;
+  }
+  return { raw, smoothed };
+}
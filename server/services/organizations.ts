@@ -0,0 +1,80 @@
+/**
+ * Organizations Service
+ * Papéis dos membros de uma organização (gestor, agrônomo, operador, visualizador)
+ * e o que cada um pode fazer com campos, cultivos, notas e tarefas
+ */
+
+import type { AccessLevel } from "./fieldSharing";
+
+export type OrgRole = "owner" | "agronomist" | "operator" | "viewer";
+
+export type OrgPermission =
+  | "fields:write" // criar/editar fazendas, campos, cultivos e rotação
+  | "notes:write" // registrar notas de campo
+  | "tasks:manage" // criar, atribuir e excluir tarefas
+  | "tasks:work" // atualizar e concluir tarefas atribuídas
+  | "members:manage"; // convidar, mudar papel e remover membros
+
+export interface Membership {
+  userId: number;
+  organizationId: number;
+  role: OrgRole;
+}
+
+export const ROLE_LABELS: Record<OrgRole, string> = {
+  owner: "Gestor",
+  agronomist: "Agrônomo",
+  operator: "Operador",
+  viewer: "Visualizador",
+};
+
+export const ORG_ROLES = Object.keys(ROLE_LABELS) as OrgRole[];
+
+const ROLE_PERMISSIONS: Record<OrgRole, OrgPermission[]> = {
+  owner: ["fields:write", "notes:write", "tasks:manage", "tasks:work", "members:manage"],
+  agronomist: ["fields:write", "notes:write", "tasks:manage", "tasks:work"],
+  operator: ["notes:write", "tasks:work"],
+  viewer: [],
+};
+
+// Acesso de cada papel aos campos da organização (mesma escala dos compartilhamentos)
+const ROLE_FIELD_ACCESS: Record<OrgRole, AccessLevel> = {
+  owner: "owner",
+  agronomist: "edit",
+  operator: "comment",
+  viewer: "view",
+};
+
+export function can(role: OrgRole, permission: OrgPermission): boolean {
+  return ROLE_PERMISSIONS[role].includes(permission);
+}
+
+export function permissionsOf(role: OrgRole): OrgPermission[] {
+  return ROLE_PERMISSIONS[role];
+}
+
+export function fieldAccessForRole(role: OrgRole): AccessLevel {
+  return ROLE_FIELD_ACCESS[role];
+}
+
+/**
+ * Operadores só mexem nas tarefas atribuídas a eles; quem gerencia tarefas mexe em todas
+ */
+export function canWorkOnTask(member: Membership, task: { assignedTo: number | null; userId: number }): boolean {
+  if (can(member.role, "tasks:manage")) return true;
+  return can(member.role, "tasks:work") && (task.assignedTo === member.userId || task.userId === member.userId);
+}
+
+/**
+ * A organização precisa manter ao menos um gestor
+ */
+export function leavesOrgWithoutOwner(
+  members: Array<{ userId: number; role: OrgRole }>,
+  userId: number,
+  nextRole: OrgRole | null
+): boolean {
+  if (nextRole === "owner") return false;
+  const target = members.find(m => m.userId === userId);
+  if (!target || target.role !== "owner") return false;
+  return members.filter(m => m.role === "owner").length <= 1;
+}
@@ -0,0 +1,343 @@
+/**
+ * Prescription Service
+ * Mapas de aplicação em taxa variável: grade regular sobre o campo com a taxa de cada
+ * célula (por zona de manejo ou linear pelo índice de vegetação) e exportação em
+ * Shapefile e ISOXML (TASKDATA com grade do tipo 2) para os terminais das máquinas
+ */
+
+import * as turf from "@turf/turf";
+import { zipSync, strToU8 } from "fflate";
+import { BadRequestError } from "@shared/_core/errors";
+import { escapeXml, isoPolygons, safeFileName, type ExportFile } from "./fieldExport";
+import { writeShapefile, type ShapefileColumn } from "./shapefile";
+import type { FieldGeometry, MultiPolygonGeometry, Position } from "./geometry";
+import type { ManagementZone } from "./managementZones";
+import type { IndexRaster } from "./satellite";
+
+const METERS_PER_DEGREE = 111320;
+const MAX_CELLS = 20000;
+const LINEAR_PERCENTILES: [number, number] = [0.05, 0.95]; // extremos do índice que recebem minRate/maxRate
+
+export const RATE_UNITS = ["kg/ha", "L/ha", "sementes/ha"] as const;
+
+export type RateUnit = (typeof RATE_UNITS)[number];
+
+export type RateRule =
+  | { mode: "zones"; rates: { zone: number; rate: number }[] }
+  | { mode: "linear"; minRate: number; maxRate: number }; // taxa no menor e no maior índice
+
+export type PrescriptionFormat = "shapefile" | "isoxml";
+
+/**
+ * Grade regular em graus a partir do canto sudoeste; taxas linha a linha de sul a
+ * norte e de oeste a leste, null nas células fora do campo
+ */
+export interface PrescriptionGrid {
+  west: number;
+  south: number;
+  cellLng: number;
+  cellLat: number;
+  columns: number;
+  rows: number;
+  rates: (number | null)[];
+  zones: (number | null)[]; // zona de manejo de cada célula (modo por zonas)
+  indexValues: (number | null)[]; // índice médio de cada célula
+}
+
+export interface PrescriptionSummary {
+  areaHectares: number;
+  totalProduct: number; // na unidade da taxa sem o "/ha" (kg, L, sementes)
+  averageRate: number;
+  minRate: number;
+  maxRate: number;
+  cells: number;
+}
+
+export interface PrescriptionCell {
+  column: number;
+  row: number;
+  rate: number;
+  zone: number | null;
+  indexValue: number | null;
+  areaHectares: number;
+  geometry: MultiPolygonGeometry; // célula recortada pelo campo
+}
+
+export interface PrescriptionProduct {
+  name: string;
+  unit: RateUnit;
+}
+
+// ISO 11783-11: DDI de taxa (setpoint) e o fator da unidade da taxa para a do DDI
+const ISO_RATE_DDI: Record<RateUnit, { ddi: string; scale: number }> = {
+  "kg/ha": { ddi: "0006", scale: 100 }, // mg/m²
+  "L/ha": { ddi: "0001", scale: 100 }, // mm³/m²
+  "sementes/ha": { ddi: "000B", scale: 0.1 }, // 0,001 sementes/m²
+};
+
+const SHAPEFILE_COLUMNS: ShapefileColumn[] = [
+  { name: "TAXA", type: "N", length: 12, decimals: 2 },
+  { name: "UNIDADE", type: "C", length: 16 },
+  { name: "PRODUTO", type: "C", length: 100 },
+  { name: "ZONA", type: "N", length: 3 },
+  { name: "INDICE", type: "N", length: 8, decimals: 3 },
+  { name: "AREA_HA", type: "N", length: 12, decimals: 4 },
+];
+
+const round2 = (value: number) => Math.round(value * 100) / 100;
+
+function asMultiPolygon(geometry: FieldGeometry): MultiPolygonGeometry {
+  return geometry.type === "MultiPolygon" ? geometry : { type: "MultiPolygon", coordinates: [geometry.coordinates] };
+}
+
+/**
+ * Grade de células de `cellMeters` sobre a caixa do campo
+ */
+function gridFrame(fieldGeometry: FieldGeometry, cellMeters: number) {
+  const [west, south, east, north] = turf.bbox(fieldGeometry);
+  const cellLat = cellMeters / METERS_PER_DEGREE;
+  const cellLng = cellMeters / (METERS_PER_DEGREE * Math.cos((((south + north) / 2) * Math.PI) / 180));
+  const columns = Math.max(1, Math.ceil((east - west) / cellLng));
+  const rows = Math.max(1, Math.ceil((north - south) / cellLat));
+  if (columns * rows > MAX_CELLS) {
+    throw BadRequestError(`Grade com ${columns * rows} células; aumente o tamanho da célula`);
+  }
+  return { west, south, cellLng, cellLat, columns, rows };
+}
+
+/**
+ * Células da grade recortadas pelo campo (as de fora ficam de fora)
+ */
+function clippedCells(fieldGeometry: FieldGeometry, frame: ReturnType<typeof gridFrame>) {
+  const cells: { column: number; row: number; geometry: MultiPolygonGeometry; areaHectares: number }[] = [];
+  const field = turf.feature(fieldGeometry);
+  for (let row = 0; row < frame.rows; row++) {
+    for (let column = 0; column < frame.columns; column++) {
+      const west = frame.west + column * frame.cellLng;
+      const south = frame.south + row * frame.cellLat;
+      const cell = turf.bboxPolygon([west, south, west + frame.cellLng, south + frame.cellLat]);
+      const clipped = turf.intersect(turf.featureCollection([cell, field]));
+      if (!clipped) continue;
+      const geometry = asMultiPolygon(clipped.geometry as FieldGeometry);
+      cells.push({ column, row, geometry, areaHectares: turf.area(geometry) / 10000 });
+    }
+  }
+  return cells;
+}
+
+/**
+ * Zona de manejo da célula: a que contém um ponto da célula ou, nas bordas que as zonas
+ * não cobrem, a do vértice mais próximo
+ */
+function zoneOf(geometry: MultiPolygonGeometry, zones: ManagementZone[]): ManagementZone {
+  const point = turf.pointOnFeature(geometry);
+  const inside = zones.find(zone => turf.booleanPointInPolygon(point, zone.geometry));
+  if (inside) return inside;
+
+  const [lng, lat] = point.geometry.coordinates;
+  const distance = (zone: ManagementZone) =>
+    Math.min(...zone.geometry.coordinates.flat(2).map(([x, y]: Position) => (x - lng) ** 2 + (y - lat) ** 2));
+  return zones.reduce((nearest, zone) => (distance(zone) < distance(nearest) ? zone : nearest));
+}
+
+/**
+ * Índice médio de cada célula a partir dos pixels cujo centro cai nela
+ */
+function cellIndexValues(frame: ReturnType<typeof gridFrame>, raster: IndexRaster): (number | null)[] {
+  const sums = new Float64Array(frame.columns * frame.rows);
+  const counts = new Uint32Array(frame.columns * frame.rows);
+  const [minLng, minLat, maxLng, maxLat] = raster.bbox;
+  raster.values.forEach((value, i) => {
+    if (!Number.isFinite(value)) return;
+    const lng = minLng + ((i % raster.width) + 0.5) * ((maxLng - minLng) / raster.width);
+    const lat = maxLat - (Math.floor(i / raster.width) + 0.5) * ((maxLat - minLat) / raster.height);
+    const column = Math.floor((lng - frame.west) / frame.cellLng);
+    const row = Math.floor((lat - frame.south) / frame.cellLat);
+    if (column < 0 || row < 0 || column >= frame.columns || row >= frame.rows) return;
+    sums[row * frame.columns + column] += value;
+    counts[row * frame.columns + column]++;
+  });
+  return Array.from(sums, (sum, i) => (counts[i] > 0 ? sum / counts[i] : null));
+}
+
+function percentile(sorted: number[], fraction: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))))];
+}
+
+/**
+ * Monta a prescrição do campo: por zona exige as zonas de manejo; linear exige a grade
+ * do índice de uma cena limpa
+ */
+export function buildPrescription(
+  fieldGeometry: FieldGeometry,
+  cellMeters: number,
+  rule: RateRule,
+  source: { zones?: ManagementZone[]; raster?: IndexRaster }
+): { grid: PrescriptionGrid; cells: PrescriptionCell[]; summary: PrescriptionSummary } {
+  const frame = gridFrame(fieldGeometry, cellMeters);
+  const size = frame.columns * frame.rows;
+  const rates: (number | null)[] = new Array(size).fill(null);
+  const zoneIds: (number | null)[] = new Array(size).fill(null);
+  const indexValues: (number | null)[] = new Array(size).fill(null);
+  const cells = clippedCells(fieldGeometry, frame);
+  if (cells.length === 0) throw BadRequestError("O campo não tem área para a prescrição");
+
+  if (rule.mode === "zones") {
+    const zones = source.zones ?? [];
+    if (zones.length === 0) throw BadRequestError("Gere as zonas de manejo do campo antes da prescrição");
+    const rateByZone = new Map(rule.rates.map(({ zone, rate }) => [zone, rate]));
+    const missing = zones.filter(zone => !rateByZone.has(zone.zone)).map(zone => zone.zone);
+    if (missing.length > 0) throw BadRequestError(`Falta a taxa da zona ${missing.join(", ")}`);
+
+    for (const cell of cells) {
+      const zone = zoneOf(cell.geometry, zones);
+      const i = cell.row * frame.columns + cell.column;
+      rates[i] = rateByZone.get(zone.zone)!;
+      zoneIds[i] = zone.zone;
+      indexValues[i] = zone.meanIndex;
+    }
+  } else {
+    if (!source.raster) throw BadRequestError("Nenhuma imagem limpa recente para a taxa pelo índice");
+    const values = cellIndexValues(frame, source.raster);
+    const known = cells
+      .map(cell => values[cell.row * frame.columns + cell.column])
+      .filter((value): value is number => value !== null)
+      .sort((a, b) => a - b);
+    if (known.length === 0) throw BadRequestError("A imagem não tem pixels válidos dentro do campo");
+
+    // Células sem pixel válido (bordas, nuvem) recebem a mediana do campo
+    const median = percentile(known, 0.5);
+    const low = percentile(known, LINEAR_PERCENTILES[0]);
+    const high = percentile(known, LINEAR_PERCENTILES[1]);
+    for (const cell of cells) {
+      const i = cell.row * frame.columns + cell.column;
+      const value = values[i] ?? median;
+      const position = high > low ? Math.min(1, Math.max(0, (value - low) / (high - low))) : 0.5;
+      rates[i] = round2(rule.minRate + (rule.maxRate - rule.minRate) * position);
+      indexValues[i] = Math.round(value * 1000) / 1000;
+    }
+  }
+
+  const grid: PrescriptionGrid = { ...frame, rates, zones: zoneIds, indexValues };
+  const prescriptionCells = cells.map(cell => {
+    const i = cell.row * frame.columns + cell.column;
+    return { ...cell, rate: rates[i]!, zone: zoneIds[i], indexValue: indexValues[i] };
+  });
+  return { grid, cells: prescriptionCells, summary: summarize(prescriptionCells) };
+}
+
+function summarize(cells: PrescriptionCell[]): PrescriptionSummary {
+  const area = cells.reduce((sum, cell) => sum + cell.areaHectares, 0);
+  const total = cells.reduce((sum, cell) => sum + cell.rate * cell.areaHectares, 0);
+  const cellRates = cells.map(cell => cell.rate);
+  return {
+    areaHectares: round2(area),
+    totalProduct: round2(total),
+    averageRate: area > 0 ? round2(total / area) : 0,
+    minRate: Math.min(...cellRates),
+    maxRate: Math.max(...cellRates),
+    cells: cells.length,
+  };
+}
+
+/**
+ * Células de uma prescrição salva, refeitas a partir da grade e do limite usado nela
+ */
+export function prescriptionCells(fieldGeometry: FieldGeometry, grid: PrescriptionGrid): PrescriptionCell[] {
+  return clippedCells(fieldGeometry, grid).flatMap(cell => {
+    const i = cell.row * grid.columns + cell.column;
+    const rate = grid.rates[i];
+    return rate === null ? [] : [{ ...cell, rate, zone: grid.zones[i], indexValue: grid.indexValues[i] }];
+  });
+}
+
+function toShapefileZip(cells: PrescriptionCell[], product: PrescriptionProduct, layerName: string): Uint8Array {
+  const files = writeShapefile(
+    cells.map(cell => ({
+      geometry: cell.geometry,
+      properties: {
+        TAXA: cell.rate,
+        UNIDADE: product.unit,
+        PRODUTO: product.name,
+        ZONA: cell.zone,
+        INDICE: cell.indexValue,
+        AREA_HA: cell.areaHectares,
+      },
+    })),
+    SHAPEFILE_COLUMNS
+  );
+  return zipSync({
+    [`${layerName}.shp`]: files.shp,
+    [`${layerName}.shx`]: files.shx,
+    [`${layerName}.dbf`]: files.dbf,
+    [`${layerName}.prj`]: strToU8(files.prj),
+    [`${layerName}.cpg`]: strToU8(files.cpg),
+  });
+}
+
+/**
+ * Valores da grade tipo 2 (ISO 11783-10): um int32 little-endian por célula, de sul a
+ * norte e de oeste a leste, já na unidade do DDI; fora do campo vale 0
+ */
+export function isoGridBinary(grid: PrescriptionGrid, unit: RateUnit): Uint8Array {
+  const { scale } = ISO_RATE_DDI[unit];
+  const view = new DataView(new ArrayBuffer(grid.rates.length * 4));
+  grid.rates.forEach((rate, i) => view.setInt32(i * 4, Math.round((rate ?? 0) * scale), true));
+  return new Uint8Array(view.buffer);
+}
+
+/**
+ * TASKDATA.XML com o talhão (PFD), o produto (PDT) e uma tarefa (TSK) planejada
+ * cuja grade aponta para GRD00001.BIN
+ */
+export function toIsoXml(
+  field: { id: number; name: string; geometry: FieldGeometry },
+  grid: PrescriptionGrid,
+  product: PrescriptionProduct,
+  summary: PrescriptionSummary
+): string {
+  const { ddi, scale } = ISO_RATE_DDI[product.unit];
+  const area = Math.round(turf.area(field.geometry));
+  const elements = [
+    `<PFD A="PFD1" B="${field.id}" C="${escapeXml(field.name)}" D="${area}">${isoPolygons(field.geometry)}</PFD>`,
+    `<PDT A="PDT1" B="${escapeXml(product.name)}"/>`,
+    `<TSK A="TSK1" B="${escapeXml(`Prescrição ${product.name} - ${field.name}`)}" E="PFD1" G="1" H="1" I="1" J="2">` +
+      // TZN 1 define o DDI dos valores da grade e a taxa média para perda de posição; TZN 2 é fora do campo
+      `<TZN A="1" B="Taxa variável"><PDV A="${ddi}" B="${Math.round(summary.averageRate * scale)}" E="PDT1"/></TZN>` +
+      `<TZN A="2" B="Fora do campo"><PDV A="${ddi}" B="0" E="PDT1"/></TZN>` +
+      `<GRD A="${grid.south.toFixed(9)}" B="${grid.west.toFixed(9)}" C="${grid.cellLat.toFixed(9)}" D="${grid.cellLng.toFixed(9)}" ` +
+      `E="${grid.columns}" F="${grid.rows}" G="GRD00001" H="${grid.rates.length * 4}" I="2" J="1"/>` +
+      `</TSK>`,
+  ];
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n` +
+    `<ISO11783_TaskData VersionMajor="4" VersionMinor="3" ManagementSoftwareManufacturer="CampoVivo" ManagementSoftwareVersion="1.0" DataTransferOrigin="1">\n` +
+    `${elements.join("\n")}\n` +
+    `</ISO11783_TaskData>\n`;
+}
+
+/**
+ * Exporta a prescrição salva no formato pedido
+ */
+export function exportPrescription(
+  field: { id: number; name: string; geometry: FieldGeometry },
+  grid: PrescriptionGrid,
+  product: PrescriptionProduct,
+  format: PrescriptionFormat
+): ExportFile {
+  const cells = prescriptionCells(field.geometry, grid);
+  const base = safeFileName(`${field.name}_${product.name}`);
+
+  if (format === "shapefile") {
+    return { fileName: `${base}.zip`, mimeType: "application/zip", content: toShapefileZip(cells, product, base) };
+  }
+  // Os terminais esperam a pasta TASKDATA na raiz do pendrive
+  return {
+    fileName: `${base}_TASKDATA.zip`,
+    mimeType: "application/zip",
+    content: zipSync({
+      "TASKDATA/TASKDATA.XML": strToU8(toIsoXml(field, grid, product, summarize(cells))),
+      "TASKDATA/GRD00001.BIN": isoGridBinary(grid, product.unit),
+    }),
+  };
+}
@@ -0,0 +1,146 @@
+/**
+ * Problem Areas Service
+ * Manchas da cena com NDVI bem abaixo da mediana do campo (mais de 1,5 IQR abaixo)
+ * e acima de uma área mínima, vetorizadas com área e severidade para o mapa e as vistorias
+ */
+
+import * as turf from "@turf/turf";
+import type { FieldGeometry, MultiPolygonGeometry } from "./geometry";
+import { rasterPolygons } from "./rasterPolygons";
+import type { IndexRaster } from "./satellite";
+
+const IQR_FACTOR = 1.5;
+const MIN_SPREAD = 0.03; // IQR mínimo: campo uniforme não vira mancha por ruído
+const MAX_PROBLEM_AREAS = 20;
+export const MIN_PROBLEM_AREA_HECTARES = 0.1; // 10 pixels de 10 m
+
+// Mesmas severidades de fieldNotes.severity (a mancha vira nota de vistoria)
+export type ProblemSeverity = "low" | "medium" | "high" | "critical";
+
+export interface ProblemArea {
+  id: number; // 1 = mais grave
+  areaHectares: number;
+  meanNdvi: number;
+  medianNdvi: number; // mediana do campo na cena
+  deficit: number; // queda em relação à mediana (0,25 = 25% abaixo)
+  severity: ProblemSeverity;
+  center: { lat: number; lng: number }; // ponto dentro da mancha, alvo da vistoria
+  geometry: MultiPolygonGeometry;
+}
+
+export interface ProblemAreaOptions {
+  minAreaHectares?: number;
+  iqrFactor?: number;
+}
+
+const SEVERITY_ORDER: ProblemSeverity[] = ["critical", "high", "medium", "low"];
+
+export function problemSeverity(deficit: number): ProblemSeverity {
+  if (deficit >= 0.5) return "critical";
+  if (deficit >= 0.35) return "high";
+  if (deficit >= 0.2) return "medium";
+  return "low";
+}
+
+function quantile(sorted: number[], fraction: number): number {
+  const position = (sorted.length - 1) * fraction;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+}
+
+/**
+ * Rotula as manchas (pixels vizinhos pelos lados) de pixels marcados; 0 = fora
+ */
+function labelComponents(mask: Uint8Array, width: number, height: number): { labels: Int32Array; sizes: number[] } {
+  const labels = new Int32Array(mask.length);
+  const sizes = [0];
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || labels[start]) continue;
+    const label = sizes.length;
+    let size = 0;
+    const stack = [start];
+    labels[start] = label;
+    while (stack.length > 0) {
+      const i = stack.pop()!;
+      size++;
+      const col = i % width;
+      const neighbors = [
+        col > 0 ? i - 1 : -1,
+        col < width - 1 ? i + 1 : -1,
+        i >= width ? i - width : -1,
+        i + width < mask.length ? i + width : -1,
+      ];
+      for (const next of neighbors) {
+        if (next >= 0 && mask[next] && !labels[next]) {
+          labels[next] = label;
+          stack.push(next);
+        }
+      }
+    }
+    sizes.push(size);
+  }
+  return { labels, sizes };
+}
+
+/**
+ * Manchas problemáticas da cena, recortadas pelo campo, da mais grave para a mais leve
+ */
+export function detectProblemAreas(
+  fieldGeometry: FieldGeometry,
+  raster: IndexRaster,
+  options: ProblemAreaOptions = {}
+): ProblemArea[] {
+  const { width, height, bbox, values } = raster;
+  const valid = Array.from(values).filter(Number.isFinite).sort((a, b) => a - b);
+  if (valid.length === 0) return [];
+
+  const median = quantile(valid, 0.5);
+  const iqr = Math.max(MIN_SPREAD, quantile(valid, 0.75) - quantile(valid, 0.25));
+  const threshold = median - (options.iqrFactor ?? IQR_FACTOR) * iqr;
+
+  const mask = new Uint8Array(values.length);
+  values.forEach((value, i) => {
+    if (Number.isFinite(value) && value < threshold) mask[i] = 1;
+  });
+  const { labels, sizes } = labelComponents(mask, width, height);
+
+  const pixelHectares = turf.area(turf.bboxPolygon(bbox)) / 10000 / (width * height);
+  const minPixels = Math.max(1, Math.ceil((options.minAreaHectares ?? MIN_PROBLEM_AREA_HECTARES) / pixelHectares));
+  const sums = new Float64Array(sizes.length);
+  labels.forEach((label, i) => {
+    if (label) sums[label] += values[i];
+  });
+
+  const field = turf.feature(fieldGeometry);
+  const areas: Omit<ProblemArea, "id">[] = [];
+  for (let label = 1; label < sizes.length; label++) {
+    if (sizes[label] < minPixels) continue;
+    const shape = rasterPolygons({ values: labels, width, height, bbox }, label);
+    const clipped = turf.intersect(turf.featureCollection([turf.feature(shape), field]));
+    if (!clipped) continue;
+
+    const geometry: MultiPolygonGeometry = clipped.geometry.type === "MultiPolygon"
+      ? clipped.geometry
+      : { type: "MultiPolygon", coordinates: [clipped.geometry.coordinates] };
+    const mean = sums[label] / sizes[label];
+    const deficit = median > 0 ? (median - mean) / median : median - mean;
+    const [lng, lat] = turf.pointOnFeature(geometry).geometry.coordinates;
+    areas.push({
+      areaHectares: Math.round((turf.area(geometry) / 10000) * 100) / 100,
+      meanNdvi: Math.round(mean * 1000) / 1000,
+      medianNdvi: Math.round(median * 1000) / 1000,
+      deficit: Math.round(deficit * 1000) / 1000,
+      severity: problemSeverity(deficit),
+      center: { lat: Math.round(lat * 1e6) / 1e6, lng: Math.round(lng * 1e6) / 1e6 },
+      geometry,
+    });
+  }
+
+  return areas
+    .sort((a, b) =>
+      SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity) || b.areaHectares - a.areaHectares
+    )
+    .slice(0, MAX_PROBLEM_AREAS)
+    .map((area, i) => ({ id: i + 1, ...area }));
+}
@@ -0,0 +1,143 @@
+/**
+ * Raster Polygons Service
+ * Vetorização de grades de classes (zonas de manejo, manchas de baixo índice): contorno
+ * pelas bordas dos pixels, com buracos, em coordenadas geográficas
+ */
+
+import type { MultiPolygonGeometry, Position } from "./geometry";
+import type { IndexRaster } from "./satellite";
+
+type Point = [number, number]; // canto de pixel (coluna, linha)
+
+/**
+ * Anéis da classe seguindo as bordas dos pixels, no sentido horário da imagem (linha
+ * para baixo): externos com área positiva, buracos com área negativa. Em cantos
+ * compartilhados na diagonal vira à direita, mantendo separados os pixels que só se tocam no canto.
+ */
+function traceRings(classes: ArrayLike<number>, width: number, height: number, value: number): Point[][] {
+  const key = (x: number, y: number) => y * (width + 1) + x;
+  const outgoing = new Map<number, { to: Point; used: boolean }[]>();
+  const edges: { from: Point; to: Point; used: boolean }[] = [];
+  const addEdge = (from: Point, to: Point) => {
+    const edge = { from, to, used: false };
+    edges.push(edge);
+    const list = outgoing.get(key(...from)) ?? [];
+    list.push(edge);
+    outgoing.set(key(...from), list);
+  };
+  const isInside = (col: number, row: number) =>
+    col >= 0 && row >= 0 && col < width && row < height && classes[row * width + col] === value;
+
+  for (let row = 0; row < height; row++) {
+    for (let col = 0; col < width; col++) {
+      if (!isInside(col, row)) continue;
+      if (!isInside(col, row - 1)) addEdge([col, row], [col + 1, row]);
+      if (!isInside(col + 1, row)) addEdge([col + 1, row], [col + 1, row + 1]);
+      if (!isInside(col, row + 1)) addEdge([col + 1, row + 1], [col, row + 1]);
+      if (!isInside(col - 1, row)) addEdge([col, row + 1], [col, row]);
+    }
+  }
+
+  const rings: Point[][] = [];
+  for (const first of edges) {
+    if (first.used) continue;
+    first.used = true;
+    const ring: Point[] = [first.from];
+    let current = first;
+    for (;;) {
+      const [dx, dy] = [current.to[0] - current.from[0], current.to[1] - current.from[1]];
+      const candidates = (outgoing.get(key(...current.to)) ?? []).filter(edge => !edge.used || edge === first);
+      const turn = (edge: { to: Point }) => {
+        const [ox, oy] = [edge.to[0] - current.to[0], edge.to[1] - current.to[1]];
+        if (ox === -dy && oy === dx) return 0; // direita
+        if (ox === dx && oy === dy) return 1; // em frente
+        return 2; // esquerda
+      };
+      const next = candidates.sort((a, b) => turn(a) - turn(b))[0];
+      if (!next || next === first) break;
+      ring.push(current.to);
+      next.used = true;
+      current = next as typeof first;
+    }
+    ring.push(current.to);
+    rings.push(simplifyRing(ring));
+  }
+  return rings;
+}
+
+// Remove vértices no meio de segmentos retos
+function simplifyRing(ring: Point[]): Point[] {
+  const open = ring[0][0] === ring[ring.length - 1][0] && ring[0][1] === ring[ring.length - 1][1] ? ring.slice(0, -1) : ring;
+  return open.filter((point, i) => {
+    const prev = open[(i - 1 + open.length) % open.length];
+    const next = open[(i + 1) % open.length];
+    return (point[0] - prev[0]) * (next[1] - point[1]) !== (point[1] - prev[1]) * (next[0] - point[0]);
+  });
+}
+
+function signedArea(ring: Point[]): number {
+  let area = 0;
+  ring.forEach((point, i) => {
+    const next = ring[(i + 1) % ring.length];
+    area += point[0] * next[1] - next[0] * point[1];
+  });
+  return area / 2;
+}
+
+function ringContains(ring: Point[], [x, y]: Point): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [x1, y1] = ring[j];
+    const [x2, y2] = ring[i];
+    if (y1 > y !== y2 > y && x < x1 + ((y - y1) * (x2 - x1)) / (y2 - y1)) inside = !inside;
+  }
+  return inside;
+}
+
+/**
+ * Polígonos em coordenadas de pixel: cada buraco vai para o menor anel externo
+ * que contém o pixel da classe vizinho a ele
+ */
+function assemblePolygons(rings: Point[][]): Point[][][] {
+  const outers = rings.filter(ring => signedArea(ring) > 0).map(ring => ({ ring, area: signedArea(ring), holes: [] as Point[][] }));
+  for (const hole of rings.filter(ring => signedArea(ring) < 0)) {
+    const [a, b] = hole;
+    const length = Math.hypot(b[0] - a[0], b[1] - a[1]);
+    // O pixel da classe fica à direita da borda
+    const inside: Point = [
+      (a[0] + b[0]) / 2 - (0.5 * (b[1] - a[1])) / length,
+      (a[1] + b[1]) / 2 + (0.5 * (b[0] - a[0])) / length,
+    ];
+    const owner = outers
+      .filter(outer => ringContains(outer.ring, inside))
+      .sort((x, y) => x.area - y.area)[0];
+    owner?.holes.push(hole);
+  }
+  return outers.map(outer => [outer.ring, ...outer.holes]);
+}
+
+const round7 = (value: number) => Math.round(value * 1e7) / 1e7;
+
+function toGeo(polygons: Point[][][], bbox: IndexRaster["bbox"], width: number, height: number): MultiPolygonGeometry {
+  const [minLng, minLat, maxLng, maxLat] = bbox;
+  const position = ([x, y]: Point): Position => [
+    round7(minLng + (x / width) * (maxLng - minLng)),
+    round7(maxLat - (y / height) * (maxLat - minLat)),
+  ];
+  return {
+    type: "MultiPolygon",
+    coordinates: polygons.map(polygon => polygon.map(ring => [...ring.map(position), position(ring[0])])),
+  };
+}
+
+/**
+ * MultiPolygon dos pixels com o valor `value` numa grade com a caixa (WGS84) e as
+ * linhas de norte a sul de IndexRaster
+ */
+export function rasterPolygons(
+  grid: { values: ArrayLike<number>; width: number; height: number; bbox: IndexRaster["bbox"] },
+  value: number
+): MultiPolygonGeometry {
+  const rings = traceRings(grid.values, grid.width, grid.height, value);
+  return toGeo(assemblePolygons(rings), grid.bbox, grid.width, grid.height);
+}
@@ -0,0 +1,238 @@
+/**
+ * Satellite Service
+ * Interface comum dos provedores de imagens de satélite (cenas, estatísticas do
+ * índice, imagem e tiles renderizados), paletas de cores e fallback entre provedores
+ */
+
+import * as turf from "@turf/turf";
+import { BadRequestError } from "@shared/_core/errors";
+import {
+  INDEX_PALETTES,
+  VEGETATION_INDEX_INFO,
+  type ColorStop,
+  type VegetationIndex,
+} from "@shared/vegetationIndices";
+import { getFieldGeometry, type FieldGeometry } from "./geometry";
+
+export type { ColorStop, VegetationIndex };
+
+const NATIVE_PIXEL_METERS = 10; // bandas de 10 m do Sentinel-2
+const MIN_RASTER_SIZE = 16;
+const MAX_RASTER_SIZE = 256;
+
+export interface SatelliteTarget {
+  fieldId: number;
+  geometry: FieldGeometry;
+  agroPolygonId?: string | null;
+}
+
+export interface SatelliteScene {
+  captureDate: Date;
+  cloudCoverage: number | null; // porcentagem
+  dataCoverage: number | null; // porcentagem do campo com dados
+  source: string; // satélite (s2, l8, sentinel-2...)
+}
+
+export interface IndexStats {
+  captureDate: Date;
+  mean: number;
+  min: number;
+  max: number;
+  cloudCoverage: number | null;
+  validPixelRatio: number | null; // fração do campo sem nuvem, sombra ou falha (0 a 1)
+  source: string;
+}
+
+export interface StatsQuery {
+  index: VegetationIndex;
+  from: Date;
+  to: Date;
+  interval?: string; // ISO 8601 (P1D, P10D); quem devolve por cena ignora
+}
+
+export interface RenderQuery {
+  index: VegetationIndex;
+  date?: Date; // sem data: a melhor cena recente
+  palette?: string;
+}
+
+export interface TileCoords {
+  z: number;
+  x: number;
+  y: number;
+}
+
+export interface RenderedImage {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface RasterQuery {
+  index: VegetationIndex;
+  date: Date;
+  width: number;
+  height: number;
+}
+
+/**
+ * Valores do índice por pixel na caixa do campo (WGS84), linha a linha de norte a sul;
+ * NaN fora do campo e sob nuvem ou sombra
+ */
+export interface IndexRaster {
+  width: number;
+  height: number;
+  bbox: [number, number, number, number]; // [oeste, sul, leste, norte]
+  values: Float32Array;
+}
+
+export interface SatelliteProvider {
+  readonly name: string;
+  readonly indices: readonly VegetationIndex[]; // índices que sabe calcular
+  readonly supportsRaster: boolean; // entrega os valores do índice por pixel (indexRaster)
+  isConfigured(): boolean;
+  supports(target: SatelliteTarget): boolean;
+  searchScenes(target: SatelliteTarget, from: Date, to: Date): Promise<SatelliteScene[]>;
+  indexStats(target: SatelliteTarget, query: StatsQuery): Promise<IndexStats[]>;
+  renderImage(target: SatelliteTarget, query: RenderQuery): Promise<RenderedImage>;
+  renderTile(target: SatelliteTarget, tile: TileCoords, query: RenderQuery): Promise<RenderedImage>;
+  indexRaster(target: SatelliteTarget, query: RasterQuery): Promise<IndexRaster>;
+}
+
+/**
+ * Alvo de um campo salvo; null quando o campo não tem limites
+ */
+export function satelliteTarget(field: {
+  id: number;
+  geometry?: unknown;
+  boundaries?: unknown;
+  agroPolygonId?: string | null;
+}): SatelliteTarget | null {
+  const geometry = getFieldGeometry(field);
+  return geometry ? { fieldId: field.id, geometry, agroPolygonId: field.agroPolygonId } : null;
+}
+
+/**
+ * Melhor cena: abaixo do limite de nuvens, a mais limpa (diferenças de até 15
+ * pontos preferem a mais recente); sem nenhuma abaixo do limite, a menos nublada
+ */
+export function pickBestScene<T extends { captureDate: Date; cloudCoverage: number | null }>(
+  scenes: T[],
+  maxCloudCoverage: number = 50
+): T | null {
+  const cloud = (scene: T) => scene.cloudCoverage ?? 100;
+  const clear = scenes
+    .filter(scene => cloud(scene) < maxCloudCoverage)
+    .sort((a, b) => {
+      const cloudDiff = cloud(a) - cloud(b);
+      if (Math.abs(cloudDiff) > 15) return cloudDiff;
+      return b.captureDate.getTime() - a.captureDate.getTime();
+    });
+  if (clear.length > 0) return clear[0];
+  return [...scenes].sort((a, b) => cloud(a) - cloud(b))[0] ?? null;
+}
+
+// ==================== PALETAS ====================
+
+/**
+ * Paleta pelo nome; sem nome (ou nome desconhecido), a padrão do índice
+ */
+export function getPalette(name?: string, index: VegetationIndex = "ndvi"): ColorStop[] {
+  return (name && INDEX_PALETTES[name]) || INDEX_PALETTES[VEGETATION_INDEX_INFO[index].palette];
+}
+
+/**
+ * Cor de um valor do índice na paleta: a faixa do índice é levada a [0, 1]
+ * (no NDVI, -0,2 a 0,8, para o solo exposto não ficar no extremo da escala)
+ */
+export function paletteColor(value: number, stops: ColorStop[], index: VegetationIndex = "ndvi"): [number, number, number] {
+  const [low, high] = VEGETATION_INDEX_INFO[index].range;
+  const position = Math.max(0, Math.min(1, (value - low) / (high - low)));
+  for (let i = 0; i < stops.length - 1; i++) {
+    if (position >= stops[i].value && position <= stops[i + 1].value) {
+      const t = (position - stops[i].value) / (stops[i + 1].value - stops[i].value);
+      return stops[i].color.map((c, k) => Math.round(c + t * (stops[i + 1].color[k] - c))) as [number, number, number];
+    }
+  }
+  return position < stops[0].value ? stops[0].color : stops[stops.length - 1].color;
+}
+
+/**
+ * Largura e altura da imagem de um campo, com o lado maior em `maxSize` pixels
+ */
+export function imageSize(geometry: FieldGeometry, maxSize: number = 512): { width: number; height: number } {
+  const [minLng, minLat, maxLng, maxLat] = turf.bbox(geometry);
+  const aspectRatio = (maxLng - minLng) / (maxLat - minLat);
+  if (!Number.isFinite(aspectRatio) || aspectRatio <= 0) return { width: maxSize, height: maxSize };
+  return aspectRatio > 1
+    ? { width: maxSize, height: Math.max(1, Math.round(maxSize / aspectRatio)) }
+    : { width: Math.max(1, Math.round(maxSize * aspectRatio)), height: maxSize };
+}
+
+/**
+ * Grade de pixels do campo perto da resolução das bandas de 10 m do Sentinel-2,
+ * com o lado maior entre 16 e 256 pixels
+ */
+export function nativeRasterSize(geometry: FieldGeometry): { width: number; height: number } {
+  const [minLng, minLat, maxLng, maxLat] = turf.bbox(geometry);
+  const midLat = (minLat + maxLat) / 2;
+  const widthMeters = turf.distance([minLng, midLat], [maxLng, midLat], { units: "meters" });
+  const heightMeters = turf.distance([minLng, minLat], [minLng, maxLat], { units: "meters" });
+  const longest = Math.round(Math.max(widthMeters, heightMeters) / NATIVE_PIXEL_METERS);
+  return imageSize(geometry, Math.min(MAX_RASTER_SIZE, Math.max(MIN_RASTER_SIZE, longest)));
+}
+
+// ==================== FALLBACK ====================
+
+/**
+ * Combina provedores: cada operação usa o primeiro configurado que atende o
+ * campo (e calcula o índice pedido) e, se ele falhar, tenta o seguinte (o último erro é repassado)
+ */
+export function withFallback(providers: SatelliteProvider[]): SatelliteProvider {
+  const available = (target: SatelliteTarget, index?: VegetationIndex) =>
+    providers.filter(provider =>
+      provider.isConfigured() && provider.supports(target) && (!index || provider.indices.includes(index))
+    );
+
+  // Provedores sem raster por pixel ficam fora do indexRaster, em vez de falhar a cada chamada
+  async function attempt<T>(
+    target: SatelliteTarget,
+    operation: string,
+    call: (provider: SatelliteProvider) => Promise<T>,
+    index?: VegetationIndex,
+    raster = false
+  ) {
+    const candidates = available(target, index).filter(provider => !raster || provider.supportsRaster);
+    if (candidates.length === 0) {
+      if (index && available(target).length > 0) {
+        const label = VEGETATION_INDEX_INFO[index].label;
+        throw BadRequestError(raster && available(target, index).length > 0
+          ? `Nenhum provedor de satélite fornece o ${label} por pixel para o campo`
+          : `Nenhum provedor de satélite calcula ${label} para o campo`);
+      }
+      throw new Error("Nenhum provedor de satélite disponível para o campo");
+    }
+    let lastError: unknown;
+    for (const provider of candidates) {
+      try {
+        return await call(provider);
+      } catch (error) {
+        lastError = error;
+        console.warn(`[Satellite] ${provider.name} falhou em ${operation}:`, error instanceof Error ? error.message : error);
+      }
+    }
+    throw lastError;
+  }
+
+  return {
+    name: providers.map(provider => provider.name).join(" > "),
+    indices: Array.from(new Set(providers.flatMap(provider => provider.indices))),
+    supportsRaster: providers.some(provider => provider.supportsRaster),
+    isConfigured: () => providers.some(provider => provider.isConfigured()),
+    supports: target => available(target).length > 0,
+    searchScenes: (target, from, to) => attempt(target, "searchScenes", p => p.searchScenes(target, from, to)),
+    indexStats: (target, query) => attempt(target, "indexStats", p => p.indexStats(target, query), query.index),
+    renderImage: (target, query) => attempt(target, "renderImage", p => p.renderImage(target, query), query.index),
+    renderTile: (target, tile, query) => attempt(target, "renderTile", p => p.renderTile(target, tile, query), query.index),
+    indexRaster: (target, query) => attempt(target, "indexRaster", p => p.indexRaster(target, query), query.index, true),
+  };
+}
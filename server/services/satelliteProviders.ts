@@ -0,0 +1,36 @@
+/**
+ * Satellite Providers Service
+ * Escolha do provedor de satélite: Agromonitoring e depois Sentinel Hub, com
+ * fallback entre os configurados; sem chaves (fora de produção), o provedor local
+ */
+
+import { ENV } from "../_core/env";
+import { agromonitoringProvider } from "./agromonitoring";
+import { sentinelHubProvider } from "./sentinelHub";
+import { fakeSatelliteProvider } from "./fakeSatellite";
+import { withFallback, type SatelliteProvider } from "./satellite";
+
+export const SATELLITE_PROVIDERS: SatelliteProvider[] = [agromonitoringProvider, sentinelHubProvider, fakeSatelliteProvider];
+
+/**
+ * Provedor em uso. SATELLITE_PROVIDER força um deles pelo nome (ex.: "fake");
+ * em produção sem nenhum configurado, as operações falham com erro claro
+ */
+export function getSatelliteProvider(): SatelliteProvider {
+  const forced = SATELLITE_PROVIDERS.find(provider => provider.name === ENV.satelliteProvider);
+  if (forced) return forced;
+
+  const configured = [agromonitoringProvider, sentinelHubProvider].filter(provider => provider.isConfigured());
+  if (configured.length === 0 && !ENV.isProduction) return fakeSatelliteProvider;
+  return withFallback(configured);
+}
+
+/**
+ * Provedor dos jobs que gravam leituras. O local só entra quando pedido com
+ * SATELLITE_PROVIDER=fake, para NDVI sintético não virar histórico do campo
+ */
+export function getJobSatelliteProvider(): SatelliteProvider | null {
+  const provider = getSatelliteProvider();
+  if (provider === fakeSatelliteProvider && ENV.satelliteProvider !== fakeSatelliteProvider.name) return null;
+  return provider.isConfigured() ? provider : null;
+}
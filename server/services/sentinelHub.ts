@@ -1,4 +1,38 @@
+/**
+ * Sentinel Hub Service (Copernicus Data Space)
+ * Estatísticas dos índices de vegetação, busca de cenas no catálogo e imagens/tiles renderizados
+ */
+
+import { PNG } from "pngjs";
+import * as turf from "@turf/turf";
 import { ENV } from "../_core/env";
+import { VEGETATION_INDEX_INFO, VEGETATION_INDICES } from "@shared/vegetationIndices";
+import { parseGeometry, type FieldGeometry } from "./geometry";
+import {
+  getPalette,
+  imageSize,
+  type ColorStop,
+  type RenderedImage,
+  type SatelliteProvider,
+  type TileCoords,
+  type VegetationIndex,
+} from "./satellite";
+
+const SH_BASE_URL = "https://sh.dataspace.copernicus.eu/api/v1";
+
+// Bandas do Sentinel-2 L2A e fórmula de cada índice sobre a amostra `s`
+const INDEX_FORMULAS: Record<VegetationIndex, { bands: string[]; formula: string }> = {
+  ndvi: { bands: ["B04", "B08"], formula: "(s.B08 - s.B04) / (s.B08 + s.B04)" },
+  ndre: { bands: ["B05", "B08"], formula: "(s.B08 - s.B05) / (s.B08 + s.B05)" },
+  evi: { bands: ["B02", "B04", "B08"], formula: "2.5 * (s.B08 - s.B04) / (s.B08 + 6 * s.B04 - 7.5 * s.B02 + 1)" },
+  savi: { bands: ["B04", "B08"], formula: "1.5 * (s.B08 - s.B04) / (s.B08 + s.B04 + 0.5)" },
+  ndmi: { bands: ["B08", "B11"], formula: "(s.B08 - s.B11) / (s.B08 + s.B11)" },
+  gndvi: { bands: ["B03", "B08"], formula: "(s.B08 - s.B03) / (s.B08 + s.B03)" },
+};
+
+function evalscriptBands(index: VegetationIndex): string {
+  return [...INDEX_FORMULAS[index].bands, "SCL", "dataMask"].map(band => `"${band}"`).join(", ");
+}
 
 interface SentinelHubToken {
   access_token: string;
@@ -6,20 +40,18 @@ interface SentinelHubToken {
   token_type: string;
 }
 
-interface NDVIDataPoint {
+export interface NDVIDataPoint {
   date: string; // ISO format
-  ndvi: number;
+  ndvi: number; // valor do índice pedido (NDVI por padrão)
   min: number;
   max: number;
   mean: number;
   stDev: number;
   sampleCount: number;
+  noDataCount: number; // pixels descartados (nuvens, água ou sem dados)
 }
 
-export interface FieldGeometry {
-  type: "Polygon";
-  coordinates: number[][][];
-}
+export type { FieldGeometry };
 
 // Cache do token de autenticação
 let tokenCache: { token: string; expiresAt: number } | null = null;
@@ -73,28 +105,30 @@ async function getAccessToken(): Promise<string> {
 }
 
 /**
- * Buscar série temporal de NDVI para um campo
+ * Buscar série temporal de um índice de vegetação (NDVI por padrão) para um campo
  * @param geometry Geometria do campo (polígono em coordenadas geográficas WGS84)
  * @param startDate Data inicial (formato ISO)
  * @param endDate Data final (formato ISO)
  * @param aggregationInterval Intervalo de agregação (ex: "P10D" para 10 dias, "P1M" para 1 mês)
- * @returns Array de pontos de dados NDVI
+ * @param index Índice calculado (ndvi, ndre, evi, savi, ndmi, gndvi)
+ * @returns Array de pontos de dados do índice
  */
 export async function getNDVITimeSeries(
   geometry: FieldGeometry,
   startDate: string,
   endDate: string,
-  aggregationInterval: string = "P10D"
+  aggregationInterval: string = "P10D",
+  index: VegetationIndex = "ndvi"
 ): Promise<NDVIDataPoint[]> {
   const token = await getAccessToken();
 
-  // Evalscript para calcular NDVI médio, excluindo nuvens e pixels sem dados
+  // Evalscript para calcular o índice médio, excluindo nuvens e pixels sem dados
   const evalscript = `
 //VERSION=3
 function setup() {
   return {
     input: [{
-      bands: ["B04", "B08", "SCL", "dataMask"]
+      bands: [${evalscriptBands(index)}]
     }],
     mosaicking: "ORBIT",
     output: [
@@ -115,16 +149,17 @@ function evaluatePixel(samples) {
   let validNDVI = [];
   
   for (let i = 0; i < samples.length; i++) {
+    const s = samples[i];
     // Excluir nuvens (SCL 8, 9, 10) e pixels sem dados
-    if (samples[i].dataMask == 1 && 
-        samples[i].SCL != 6 &&  // Água
-        samples[i].SCL != 8 &&  // Nuvens médias
-        samples[i].SCL != 9 &&  // Nuvens altas
-        samples[i].SCL != 10 && // Nuvens finas
-        samples[i].B04 + samples[i].B08 != 0) {
+    if (s.dataMask == 1 && 
+        s.SCL != 3 &&  // Sombra de nuvem
+        s.SCL != 6 &&  // Água
+        s.SCL != 8 &&  // Nuvens médias
+        s.SCL != 9 &&  // Nuvens altas
+        s.SCL != 10) { // Nuvens finas
       
-      const ndvi = (samples[i].B08 - samples[i].B04) / (samples[i].B08 + samples[i].B04);
-      validNDVI.push(ndvi);
+      const value = ${INDEX_FORMULAS[index].formula};
+      if (isFinite(value)) validNDVI.push(value);
     }
   }
   
@@ -179,7 +214,7 @@ function evaluatePixel(samples) {
     },
   };
 
-  const url = "https://sh.dataspace.copernicus.eu/api/v1/statistics";
+  const url = `${SH_BASE_URL}/statistics`;
 
   const response = await fetch(url, {
     method: "POST",
@@ -219,6 +254,7 @@ function evaluatePixel(samples) {
           mean: Number(stats.mean.toFixed(3)),
           stDev: Number(stats.stDev.toFixed(3)),
           sampleCount: stats.sampleCount,
+          noDataCount: stats.noDataCount ?? 0,
         });
       }
     }
@@ -230,35 +266,233 @@ function evaluatePixel(samples) {
 /**
  * Converter coordenadas de um campo para o formato GeoJSON
  */
-export function fieldCoordinatesToGeoJSON(coordinates: string): FieldGeometry {
-  try {
-    const parsed = JSON.parse(coordinates);
-    
-    // Se já estiver no formato correto (GeoJSON)
-    if (parsed.type === "Polygon" && Array.isArray(parsed.coordinates)) {
-      return parsed;
-    }
+export function fieldCoordinatesToGeoJSON(coordinates: unknown): FieldGeometry {
+  const geometry = parseGeometry(coordinates);
+  if (!geometry) {
+    throw new Error("Formato de coordenadas inválido: " + String(JSON.stringify(coordinates)).substring(0, 100));
+  }
+  return geometry;
+}
 
-    // Se for um array de objetos {lat, lng} (formato do banco)
-    if (Array.isArray(parsed) && parsed.length > 0 && parsed[0].lat !== undefined) {
-      // Converter {lat, lng} para [lng, lat] (formato GeoJSON)
-      const geoJsonCoords = parsed.map((point: any) => [point.lng, point.lat]);
-      return {
-        type: "Polygon",
-        coordinates: [geoJsonCoords],
-      };
-    }
+// ==================== PROVEDOR DE SATÉLITE ====================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEB_MERCATOR_HALF = 20037508.342789244;
+
+/**
+ * Evalscript que colore o índice com a paleta (na faixa do índice); nuvens e pixels
+ * sem dados ficam transparentes
+ */
+function colorEvalscript(palette: ColorStop[], index: VegetationIndex): string {
+  const colorStops = palette.map(c => `[${c.value}, [${c.color.join(", ")}]]`).join(",\n    ");
+  const [low, high] = VEGETATION_INDEX_INFO[index].range;
+
+  return `//VERSION=3
+function setup() {
+  return {
+    input: [${evalscriptBands(index)}],
+    output: { bands: 4 }
+  };
+}
 
-    // Se for um array de arrays [lng, lat] ou [lat, lng]
-    if (Array.isArray(parsed) && parsed.length > 0 && Array.isArray(parsed[0])) {
-      return {
-        type: "Polygon",
-        coordinates: [parsed],
-      };
+function evaluatePixel(s) {
+  let value = ${INDEX_FORMULAS[index].formula};
+  
+  if (isNaN(value) || !isFinite(value)) {
+    return [0, 0, 0, 0];
+  }
+  
+  value = Math.max(0, Math.min(1, (value - ${low}) / ${high - low}));
+  
+  const colorStops = [
+    ${colorStops}
+  ];
+  
+  let color = colorStops[0][1];
+  for (let i = 0; i < colorStops.length - 1; i++) {
+    if (value >= colorStops[i][0] && value <= colorStops[i + 1][0]) {
+      const t = (value - colorStops[i][0]) / (colorStops[i + 1][0] - colorStops[i][0]);
+      color = [
+        colorStops[i][1][0] + t * (colorStops[i + 1][1][0] - colorStops[i][1][0]),
+        colorStops[i][1][1] + t * (colorStops[i + 1][1][1] - colorStops[i][1][1]),
+        colorStops[i][1][2] + t * (colorStops[i + 1][1][2] - colorStops[i][1][2])
+      ];
+      break;
     }
+  }
+  
+  let alpha = s.dataMask;
+  if (s.SCL === 3 || s.SCL === 8 || s.SCL === 9 || s.SCL === 10) {
+    alpha = 0;
+  }
+  
+  return [color[0] / 255, color[1] / 255, color[2] / 255, alpha];
+}`;
+}
+
+/**
+ * Evalscript que devolve o valor do índice em 16 bits (R e G de um PNG; A = pixel válido),
+ * já que o PNG é o formato que lemos sem dependências extras
+ */
+function valueEvalscript(index: VegetationIndex): string {
+  return `//VERSION=3
+function setup() {
+  return {
+    input: [${evalscriptBands(index)}],
+    output: { bands: 4, sampleType: "UINT8" }
+  };
+}
 
-    throw new Error("Formato de coordenadas inválido: " + JSON.stringify(parsed).substring(0, 100));
-  } catch (error) {
-    throw new Error(`Erro ao converter coordenadas: ${error}`);
+function evaluatePixel(s) {
+  const value = ${INDEX_FORMULAS[index].formula};
+  if (s.dataMask == 0 || !isFinite(value) || s.SCL === 3 || s.SCL === 8 || s.SCL === 9 || s.SCL === 10) {
+    return [0, 0, 0, 0];
   }
+  const encoded = Math.round(((Math.max(-1, Math.min(1, value)) + 1) / 2) * 65535);
+  return [Math.floor(encoded / 256), encoded % 256, 0, 255];
+}`;
 }
+
+function decodeValues(png: PNG): Float32Array {
+  const values = new Float32Array(png.width * png.height);
+  for (let i = 0; i < values.length; i++) {
+    const encoded = png.data[i * 4] * 256 + png.data[i * 4 + 1];
+    values[i] = png.data[i * 4 + 3] === 0 ? NaN : (encoded / 65535) * 2 - 1;
+  }
+  return values;
+}
+
+/**
+ * Período da imagem: o dia pedido (qualquer cobertura de nuvens) ou os últimos
+ * 30 dias com até 30% de nuvens
+ */
+function imageDataFilter(date?: Date) {
+  if (!date) {
+    const to = new Date();
+    return { timeRange: { from: new Date(to.getTime() - 30 * DAY_MS).toISOString(), to: to.toISOString() }, maxCloudCoverage: 30 };
+  }
+  const from = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  return { timeRange: { from: from.toISOString(), to: new Date(from.getTime() + DAY_MS).toISOString() } };
+}
+
+async function processImage(
+  bounds: Record<string, unknown>,
+  size: { width: number; height: number },
+  date: Date | undefined,
+  evalscript: string
+): Promise<RenderedImage> {
+  const token = await getAccessToken();
+  const response = await fetch(`${SH_BASE_URL}/process`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      "Content-Type": "application/json",
+      Accept: "image/png",
+    },
+    body: JSON.stringify({
+      input: {
+        bounds,
+        data: [{
+          type: "sentinel-2-l2a",
+          dataFilter: imageDataFilter(date),
+          processing: { harmonizeValues: true },
+        }],
+      },
+      output: {
+        ...size,
+        responses: [{ identifier: "default", format: { type: "image/png" } }],
+      },
+      evalscript,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Erro ao renderizar imagem do Sentinel Hub: ${response.status} - ${error}`);
+  }
+
+  return { data: Buffer.from(await response.arrayBuffer()), contentType: "image/png" };
+}
+
+// Limites do tile z/x/y em Web Mercator (EPSG:3857)
+function tileBbox({ z, x, y }: TileCoords): number[] {
+  const size = (2 * WEB_MERCATOR_HALF) / 2 ** z;
+  return [
+    -WEB_MERCATOR_HALF + x * size,
+    WEB_MERCATOR_HALF - (y + 1) * size,
+    -WEB_MERCATOR_HALF + (x + 1) * size,
+    WEB_MERCATOR_HALF - y * size,
+  ];
+}
+
+/**
+ * Adaptador do Sentinel Hub: atende qualquer campo com limites
+ */
+export const sentinelHubProvider: SatelliteProvider = {
+  name: "sentinel-hub",
+  indices: VEGETATION_INDICES,
+  supportsRaster: true,
+  isConfigured: () => Boolean(ENV.COPERNICUS_CLIENT_ID && ENV.COPERNICUS_CLIENT_SECRET),
+  supports: () => true,
+
+  async searchScenes(target, from, to) {
+    const token = await getAccessToken();
+    const response = await fetch(`${SH_BASE_URL}/catalog/1.0.0/search`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${token}`, "Content-Type": "application/json" },
+      body: JSON.stringify({
+        collections: ["sentinel-2-l2a"],
+        datetime: `${from.toISOString()}/${to.toISOString()}`,
+        intersects: target.geometry,
+        limit: 100,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Erro ao buscar cenas do Sentinel Hub: ${response.status} - ${error}`);
+    }
+
+    const result = await response.json();
+    return (result.features ?? []).map((feature: { properties: Record<string, unknown> }) => ({
+      captureDate: new Date(feature.properties.datetime as string),
+      cloudCoverage: (feature.properties["eo:cloud_cover"] as number | undefined) ?? null,
+      dataCoverage: null,
+      source: "sentinel-2",
+    }));
+  },
+
+  async indexStats(target, { index, from, to, interval }) {
+    const points = await getNDVITimeSeries(target.geometry, from.toISOString(), to.toISOString(), interval ?? "P1D", index);
+    return points.map(point => ({
+      captureDate: new Date(point.date),
+      mean: point.mean,
+      min: point.min,
+      max: point.max,
+      cloudCoverage: point.sampleCount > 0 ? (point.noDataCount / point.sampleCount) * 100 : null,
+      validPixelRatio: point.sampleCount > 0 ? 1 - point.noDataCount / point.sampleCount : null,
+      source: "sentinel-2",
+    }));
+  },
+
+  async renderImage(target, { index, date, palette }) {
+    const evalscript = colorEvalscript(getPalette(palette, index), index);
+    return processImage({ geometry: target.geometry }, imageSize(target.geometry), date, evalscript);
+  },
+
+  async renderTile(_target, tile, { index, date, palette }) {
+    return processImage(
+      { bbox: tileBbox(tile), properties: { crs: "http://www.opengis.net/def/crs/EPSG/0/3857" } },
+      { width: 256, height: 256 },
+      date,
+      colorEvalscript(getPalette(palette, index), index)
+    );
+  },
+
+  async indexRaster(target, { index, date, width, height }) {
+    const image = await processImage({ geometry: target.geometry }, { width, height }, date, valueEvalscript(index));
+    const png = PNG.sync.read(image.data);
+    const [minLng, minLat, maxLng, maxLat] = turf.bbox(target.geometry);
+    return { width: png.width, height: png.height, bbox: [minLng, minLat, maxLng, maxLat], values: decodeValues(png) };
+  },
+};
@@ -0,0 +1,397 @@
+/**
+ * Shapefile Service
+ * Leitura e escrita de arquivos ESRI Shapefile (SHP/SHX/DBF/PRJ) de polígonos
+ */
+
+export type Ring = number[][];
+
+export type ShapefileGeometry =
+  | { type: "Polygon"; coordinates: Ring[] }
+  | { type: "MultiPolygon"; coordinates: Ring[][] };
+
+export interface ShapefileFeature {
+  geometry: ShapefileGeometry;
+  properties: Record<string, string | number | boolean | null>;
+}
+
+export interface ShapefileLayer {
+  features: ShapefileFeature[];
+  prj?: string; // WKT do sistema de coordenadas (conteúdo do .prj)
+  skipped: number; // registros ignorados (nulos ou que não são polígonos)
+}
+
+// Tipos de shape do formato ESRI
+const SHAPE_NULL = 0;
+const SHAPE_POLYGON = 5;
+const SHAPE_POLYGON_Z = 15;
+const SHAPE_POLYGON_M = 25;
+
+const POLYGON_TYPES = [SHAPE_POLYGON, SHAPE_POLYGON_Z, SHAPE_POLYGON_M];
+
+/**
+ * Área com sinal pela fórmula de Gauss (positiva = anti-horário)
+ */
+function signedArea(ring: Ring): number {
+  let area = 0;
+  for (let i = 0; i < ring.length - 1; i++) {
+    area += ring[i][0] * ring[i + 1][1] - ring[i + 1][0] * ring[i][1];
+  }
+  return area / 2;
+}
+
+function pointInRing(point: number[], ring: Ring): boolean {
+  const [x, y] = point;
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * Agrupa os anéis de um registro em polígonos.
+ * No shapefile, anéis externos são horários e buracos anti-horários;
+ * no GeoJSON (RFC 7946) é o contrário, então os anéis são invertidos.
+ */
+function ringsToGeometry(rings: Ring[]): ShapefileGeometry | null {
+  const outers: Ring[][] = [];
+  const holes: Ring[] = [];
+
+  for (const ring of rings) {
+    if (ring.length < 4) continue;
+    if (signedArea(ring) <= 0) {
+      outers.push([ring.slice().reverse()]);
+    } else {
+      holes.push(ring.slice().reverse());
+    }
+  }
+
+  // Arquivos com orientação errada: tratar todos os anéis como externos
+  if (outers.length === 0) {
+    return holes.length === 1
+      ? { type: "Polygon", coordinates: [holes[0].slice().reverse()] }
+      : holes.length > 1
+        ? { type: "MultiPolygon", coordinates: holes.map(h => [h.slice().reverse()]) }
+        : null;
+  }
+
+  for (const hole of holes) {
+    const owner = outers.find(polygon => pointInRing(hole[0], polygon[0])) ?? outers[0];
+    owner.push(hole);
+  }
+
+  return outers.length === 1
+    ? { type: "Polygon", coordinates: outers[0] }
+    : { type: "MultiPolygon", coordinates: outers };
+}
+
+/**
+ * Lê as geometrias do arquivo .shp
+ */
+export function readShp(buffer: Uint8Array): { geometries: Array<ShapefileGeometry | null>; skipped: number } {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+
+  if (buffer.byteLength < 100 || view.getInt32(0, false) !== 9994) {
+    throw new Error("Arquivo .shp inválido");
+  }
+
+  const shapeType = view.getInt32(32, true);
+  if (shapeType !== SHAPE_NULL && !POLYGON_TYPES.includes(shapeType)) {
+    throw new Error("O shapefile não contém polígonos");
+  }
+
+  const fileLength = Math.min(view.getInt32(24, false) * 2, buffer.byteLength);
+  const geometries: Array<ShapefileGeometry | null> = [];
+  let skipped = 0;
+  let offset = 100;
+
+  while (offset + 8 <= fileLength) {
+    const contentLength = view.getInt32(offset + 4, false) * 2;
+    const content = offset + 8;
+    offset = content + contentLength;
+
+    const recordType = view.getInt32(content, true);
+    if (!POLYGON_TYPES.includes(recordType)) {
+      geometries.push(null);
+      skipped++;
+      continue;
+    }
+
+    const numParts = view.getInt32(content + 36, true);
+    const numPoints = view.getInt32(content + 40, true);
+    const partsStart = content + 44;
+    const pointsStart = partsStart + numParts * 4;
+
+    const parts: number[] = [];
+    for (let i = 0; i < numParts; i++) {
+      parts.push(view.getInt32(partsStart + i * 4, true));
+    }
+
+    const rings: Ring[] = parts.map((start, i) => {
+      const end = i + 1 < parts.length ? parts[i + 1] : numPoints;
+      const ring: Ring = [];
+      for (let p = start; p < end; p++) {
+        const base = pointsStart + p * 16;
+        ring.push([view.getFloat64(base, true), view.getFloat64(base + 8, true)]);
+      }
+      return ring;
+    });
+
+    const geometry = ringsToGeometry(rings);
+    if (!geometry) skipped++;
+    geometries.push(geometry);
+  }
+
+  return { geometries, skipped };
+}
+
+/**
+ * Decodifica texto do DBF. Usa o .cpg quando existir; caso contrário
+ * tenta UTF-8 e cai para Latin-1 (comum em arquivos do SICAR).
+ */
+function decodeText(bytes: Uint8Array, encoding?: string): string {
+  if (encoding) {
+    try {
+      return new TextDecoder(encoding).decode(bytes);
+    } catch {
+      // Codificação desconhecida: seguir com a detecção automática
+    }
+  }
+  const utf8 = new TextDecoder("utf-8").decode(bytes);
+  return utf8.includes("�") ? new TextDecoder("latin1").decode(bytes) : utf8;
+}
+
+/**
+ * Lê os atributos do arquivo .dbf (registros apagados retornam null)
+ */
+export function readDbf(buffer: Uint8Array, encoding?: string): Array<Record<string, string | number | boolean | null> | null> {
+  const view = new DataView(buffer.buffer, buffer.byteOffset, buffer.byteLength);
+  const numRecords = view.getUint32(4, true);
+  const headerLength = view.getUint16(8, true);
+  const recordLength = view.getUint16(10, true);
+
+  const columns: Array<{ name: string; type: string; length: number }> = [];
+  for (let offset = 32; offset < headerLength - 1 && buffer[offset] !== 0x0d; offset += 32) {
+    const nameBytes = buffer.subarray(offset, offset + 11);
+    const nameEnd = nameBytes.indexOf(0);
+    columns.push({
+      name: decodeText(nameBytes.subarray(0, nameEnd === -1 ? 11 : nameEnd)).trim(),
+      type: String.fromCharCode(buffer[offset + 11]),
+      length: buffer[offset + 16],
+    });
+  }
+
+  const records: Array<Record<string, string | number | boolean | null> | null> = [];
+  for (let r = 0; r < numRecords; r++) {
+    let offset = headerLength + r * recordLength;
+    if (offset + recordLength > buffer.byteLength) break;
+    const deleted = buffer[offset] === 0x2a; // '*'
+    offset += 1;
+
+    const record: Record<string, string | number | boolean | null> = {};
+    for (const column of columns) {
+      const raw = decodeText(buffer.subarray(offset, offset + column.length), encoding).trim();
+      offset += column.length;
+
+      if (column.type === "N" || column.type === "F") {
+        const value = parseFloat(raw);
+        record[column.name] = raw === "" || isNaN(value) ? null : value;
+      } else if (column.type === "L") {
+        record[column.name] = raw === "" || raw === "?" ? null : /^[YyTt]/.test(raw);
+      } else if (column.type === "D") {
+        record[column.name] = raw.length === 8 ? `${raw.slice(0, 4)}-${raw.slice(4, 6)}-${raw.slice(6, 8)}` : raw || null;
+      } else {
+        record[column.name] = raw === "" ? null : raw;
+      }
+    }
+
+    records.push(deleted ? null : record);
+  }
+
+  return records;
+}
+
+/**
+ * Monta uma camada a partir dos arquivos do shapefile
+ */
+export function readShapefile(files: { shp: Uint8Array; dbf?: Uint8Array; prj?: string; cpg?: string }): ShapefileLayer {
+  const { geometries, skipped } = readShp(files.shp);
+  const records = files.dbf ? readDbf(files.dbf, files.cpg?.trim()) : [];
+
+  const features: ShapefileFeature[] = [];
+  geometries.forEach((geometry, i) => {
+    if (geometry && records[i] !== null) {
+      features.push({ geometry, properties: records[i] ?? {} });
+    }
+  });
+
+  return { features, prj: files.prj, skipped };
+}
+
+// ==================== ESCRITA ====================
+
+export type ShapefileAttribute = string | number | null;
+
+export interface ShapefileColumn {
+  name: string; // até 10 caracteres
+  type: "C" | "N";
+  length: number;
+  decimals?: number;
+}
+
+// WKT do SIRGAS 2000 geográfico (EPSG:4674), usado nos arquivos exportados
+export const SIRGAS_2000_PRJ =
+  'GEOGCS["GCS_SIRGAS_2000",DATUM["D_SIRGAS_2000",SPHEROID["GRS_1980",6378137.0,298.257222101]],PRIMEM["Greenwich",0.0],UNIT["Degree",0.0174532925199433]]';
+
+function polygonRings(geometry: ShapefileGeometry): Ring[] {
+  const polygons = geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+  const rings: Ring[] = [];
+  for (const polygon of polygons) {
+    polygon.forEach((ring, i) => {
+      const closed = ring.length > 0 && (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1])
+        ? [...ring, ring[0]]
+        : ring;
+      // Externo horário, buracos anti-horários
+      const clockwise = signedArea(closed) < 0;
+      rings.push((i === 0) === clockwise ? closed : closed.slice().reverse());
+    });
+  }
+  return rings;
+}
+
+function writeDbf(columns: ShapefileColumn[], records: Array<Record<string, ShapefileAttribute>>): Uint8Array {
+  const encoder = new TextEncoder();
+  const headerLength = 32 + columns.length * 32 + 1;
+  const recordLength = 1 + columns.reduce((sum, c) => sum + c.length, 0);
+  const out = new Uint8Array(headerLength + records.length * recordLength + 1);
+  const view = new DataView(out.buffer);
+
+  const now = new Date();
+  out[0] = 0x03;
+  out[1] = now.getFullYear() - 1900;
+  out[2] = now.getMonth() + 1;
+  out[3] = now.getDate();
+  view.setUint32(4, records.length, true);
+  view.setUint16(8, headerLength, true);
+  view.setUint16(10, recordLength, true);
+
+  columns.forEach((column, i) => {
+    const offset = 32 + i * 32;
+    out.set(encoder.encode(column.name.slice(0, 10)), offset);
+    out[offset + 11] = column.type.charCodeAt(0);
+    out[offset + 16] = column.length;
+    out[offset + 17] = column.decimals ?? 0;
+  });
+  out[headerLength - 1] = 0x0d;
+
+  records.forEach((record, r) => {
+    let offset = headerLength + r * recordLength;
+    out[offset++] = 0x20;
+    for (const column of columns) {
+      const value = record[column.name];
+      let text = "";
+      if (value !== null && value !== undefined) {
+        text = column.type === "N"
+          ? (typeof value === "number" ? value.toFixed(column.decimals ?? 0) : String(value)).padStart(column.length)
+          : String(value);
+      }
+      // Trunca sem quebrar caracteres multibyte
+      let bytes = encoder.encode(text);
+      while (bytes.length > column.length) {
+        text = text.slice(0, -1);
+        bytes = encoder.encode(text);
+      }
+      out.fill(0x20, offset, offset + column.length);
+      out.set(bytes, offset);
+      offset += column.length;
+    }
+  });
+  out[out.length - 1] = 0x1a;
+
+  return out;
+}
+
+/**
+ * Gera os arquivos .shp, .shx, .dbf, .prj e .cpg de uma camada de polígonos.
+ * As coordenadas devem estar em [lng, lat] (GeoJSON).
+ */
+export function writeShapefile(
+  features: Array<{ geometry: ShapefileGeometry; properties: Record<string, ShapefileAttribute> }>,
+  columns: ShapefileColumn[],
+  prj: string = SIRGAS_2000_PRJ
+): { shp: Uint8Array; shx: Uint8Array; dbf: Uint8Array; prj: string; cpg: string } {
+  const records = features.map(feature => {
+    const rings = polygonRings(feature.geometry);
+    const points = rings.flat();
+    const content = new DataView(new ArrayBuffer(44 + rings.length * 4 + points.length * 16));
+    const xs = points.map(p => p[0]);
+    const ys = points.map(p => p[1]);
+
+    content.setInt32(0, SHAPE_POLYGON, true);
+    content.setFloat64(4, Math.min(...xs), true);
+    content.setFloat64(12, Math.min(...ys), true);
+    content.setFloat64(20, Math.max(...xs), true);
+    content.setFloat64(28, Math.max(...ys), true);
+    content.setInt32(36, rings.length, true);
+    content.setInt32(40, points.length, true);
+
+    let start = 0;
+    rings.forEach((ring, i) => {
+      content.setInt32(44 + i * 4, start, true);
+      start += ring.length;
+    });
+    const pointsStart = 44 + rings.length * 4;
+    points.forEach(([x, y], i) => {
+      content.setFloat64(pointsStart + i * 16, x, true);
+      content.setFloat64(pointsStart + i * 16 + 8, y, true);
+    });
+
+    return { bytes: new Uint8Array(content.buffer), bbox: [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)] };
+  });
+
+  const shpLength = 100 + records.reduce((sum, r) => sum + 8 + r.bytes.byteLength, 0);
+  const shxLength = 100 + records.length * 8;
+  const shp = new Uint8Array(shpLength);
+  const shx = new Uint8Array(shxLength);
+  const shpView = new DataView(shp.buffer);
+  const shxView = new DataView(shx.buffer);
+
+  const bbox = records.length > 0
+    ? [
+        Math.min(...records.map(r => r.bbox[0])),
+        Math.min(...records.map(r => r.bbox[1])),
+        Math.max(...records.map(r => r.bbox[2])),
+        Math.max(...records.map(r => r.bbox[3])),
+      ]
+    : [0, 0, 0, 0];
+
+  for (const [view, length] of [[shpView, shpLength], [shxView, shxLength]] as const) {
+    view.setInt32(0, 9994, false);
+    view.setInt32(24, length / 2, false);
+    view.setInt32(28, 1000, true);
+    view.setInt32(32, SHAPE_POLYGON, true);
+    bbox.forEach((value, i) => view.setFloat64(36 + i * 8, value, true));
+  }
+
+  let offset = 100;
+  records.forEach((record, i) => {
+    shxView.setInt32(100 + i * 8, offset / 2, false);
+    shxView.setInt32(100 + i * 8 + 4, record.bytes.byteLength / 2, false);
+    shpView.setInt32(offset, i + 1, false);
+    shpView.setInt32(offset + 4, record.bytes.byteLength / 2, false);
+    shp.set(record.bytes, offset + 8);
+    offset += 8 + record.bytes.byteLength;
+  });
+
+  return {
+    shp,
+    shx,
+    dbf: writeDbf(columns, features.map(f => f.properties)),
+    prj,
+    cpg: "UTF-8",
+  };
+}
@@ -0,0 +1,242 @@
+/**
+ * Tile Cache Service
+ * Cache persistente dos tiles do índice, por campo (e versão dos limites), cena,
+ * índice, paleta e z/x/y: em disco ou no armazenamento do projeto (server/storage.ts),
+ * com ETag pelo conteúdo, pré-carga dos tiles do campo (job depois da ingestão) e
+ * remoção por idade e tamanho.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { INDEX_PALETTES, VEGETATION_INDEX_INFO } from "@shared/vegetationIndices";
+import { ENV } from "../_core/env";
+import { storageGet, storagePut } from "../storage";
+import { recentSceneDate, renderSceneTile, type ImageFormat } from "./indexRendering";
+import type { RenderedImage, SatelliteProvider, SatelliteTarget, TileCoords, VegetationIndex } from "./satellite";
+import { tilesCovering } from "./tileClip";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_AGE_MS = 30 * DAY_MS;
+const MAX_BYTES = 512 * 1024 * 1024;
+const PREFETCH_ZOOMS = [13, 14, 15, 16];
+const MAX_PREFETCH_TILES = 64; // por campo: os zooms maiores que passariam disso ficam de fora
+const PREFETCH_PALETTE = "onesoil"; // a do mapa do campo
+
+export interface TileCacheKey {
+  target: SatelliteTarget;
+  index: VegetationIndex;
+  palette?: string;
+  date: Date; // cena
+  format: ImageFormat;
+  tile: TileCoords;
+}
+
+export interface CachedTile extends RenderedImage {
+  etag: string;
+  hit: boolean;
+}
+
+export interface TileStore {
+  name: string;
+  // null quando não existe ou passou da idade máxima
+  read(key: string, now: Date): Promise<Buffer | null>;
+  write(key: string, data: Buffer, contentType: string): Promise<void>;
+  evict(now: Date): Promise<{ removed: number; bytes: number }>;
+}
+
+/**
+ * Caminho do tile no cache; a geometria entra como hash, para limites editados
+ * não reaproveitarem tiles recortados pelo contorno antigo
+ */
+export function tileCacheKey({ target, index, palette, date, format, tile }: TileCacheKey): string {
+  const geometry = createHash("sha1").update(JSON.stringify(target.geometry)).digest("hex").slice(0, 12);
+  const paletteName = palette && INDEX_PALETTES[palette] ? palette : VEGETATION_INDEX_INFO[index].palette;
+  const day = date.toISOString().split("T")[0];
+  return `ndvi-tiles/${target.fieldId}/${geometry}/${index}/${paletteName}/${day}/${tile.z}/${tile.x}/${tile.y}.${format}`;
+}
+
+function etagOf(data: Buffer): string {
+  return `"${createHash("sha1").update(data).digest("base64url")}"`;
+}
+
+// O provedor pode devolver JPEG mesmo em tiles pedidos como PNG
+function contentTypeOf(data: Buffer): string {
+  if (data.subarray(1, 4).toString() === "PNG") return "image/png";
+  if (data.subarray(8, 12).toString() === "WEBP") return "image/webp";
+  return "image/jpeg";
+}
+
+// ==================== STORES ====================
+
+async function listFiles(dir: string): Promise<{ file: string; size: number; modified: number }[]> {
+  const entries = await fs.readdir(dir, { withFileTypes: true }).catch(() => []);
+  const files = await Promise.all(entries.map(async entry => {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) return listFiles(file);
+    const stat = await fs.stat(file);
+    return [{ file, size: stat.size, modified: stat.mtimeMs }];
+  }));
+  return files.flat();
+}
+
+/**
+ * Tiles em arquivos sob `dir`; a remoção apaga os vencidos e depois os mais
+ * antigos até o total caber em MAX_BYTES
+ */
+export function filesystemStore(dir: string, maxBytes: number = MAX_BYTES): TileStore {
+  return {
+    name: "filesystem",
+
+    async read(key, now) {
+      const file = path.join(dir, key);
+      try {
+        const stat = await fs.stat(file);
+        if (now.getTime() - stat.mtimeMs > MAX_AGE_MS) return null;
+        return await fs.readFile(file);
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+        throw error;
+      }
+    },
+
+    async write(key, data) {
+      const file = path.join(dir, key);
+      await fs.mkdir(path.dirname(file), { recursive: true });
+      // Grava ao lado e renomeia: uma leitura simultânea nunca vê o tile pela metade
+      const partial = `${file}.${process.pid}.partial`;
+      await fs.writeFile(partial, data);
+      await fs.rename(partial, file);
+    },
+
+    async evict(now) {
+      const files = (await listFiles(dir)).sort((a, b) => a.modified - b.modified);
+      let bytes = files.reduce((sum, file) => sum + file.size, 0);
+      let removed = 0;
+      for (const file of files) {
+        if (now.getTime() - file.modified <= MAX_AGE_MS && bytes <= maxBytes) break;
+        await fs.rm(file.file, { force: true });
+        bytes -= file.size;
+        removed++;
+      }
+      return { removed, bytes };
+    },
+  };
+}
+
+/**
+ * Tiles no armazenamento do projeto. Ele não lista nem apaga objetos: a idade
+ * vale na leitura (o tile vencido é desenhado de novo e sobrescrito) e o tamanho
+ * fica com a política de ciclo de vida do bucket.
+ */
+export const storageStore: TileStore = {
+  name: "storage",
+
+  async read(key, now) {
+    const { url } = await storageGet(key);
+    const response = await fetch(url);
+    if (!response.ok) return null;
+    const modified = Date.parse(response.headers.get("last-modified") ?? "");
+    if (Number.isFinite(modified) && now.getTime() - modified > MAX_AGE_MS) return null;
+    return Buffer.from(await response.arrayBuffer());
+  },
+
+  async write(key, data, contentType) {
+    await storagePut(key, data, contentType);
+  },
+
+  async evict() {
+    return { removed: 0, bytes: 0 };
+  },
+};
+
+let warnedOff = false;
+
+/**
+ * Cache em uso: TILE_CACHE_STORE escolhe `filesystem` (em TILE_CACHE_DIR),
+ * `storage` ou `off`; sem ele, o armazenamento do projeto quando configurado.
+ * O disco não é padrão porque não persiste nas funções da Vercel.
+ * null com o cache desligado.
+ */
+export function getTileStore(): TileStore | null {
+  const store = ENV.tileCacheStore || (ENV.forgeApiUrl && ENV.forgeApiKey ? "storage" : "");
+  if (store === "storage") return storageStore;
+  if (store === "filesystem") return filesystemStore(ENV.tileCacheDir || path.join(os.tmpdir(), "campo-vivo-tiles"));
+  if (!store && !warnedOff) {
+    warnedOff = true;
+    console.warn("[Tile Cache] Cache de tiles desligado: defina TILE_CACHE_STORE ou o armazenamento (BUILT_IN_FORGE_API_URL e BUILT_IN_FORGE_API_KEY)");
+  }
+  return null;
+}
+
+// ==================== CACHE ====================
+
+/**
+ * Tile do cache ou desenhado agora e gravado; falhas do cache só deixam de
+ * aproveitá-lo (o tile é servido do mesmo jeito)
+ */
+export async function cachedTile(
+  key: TileCacheKey,
+  render: () => Promise<RenderedImage>,
+  store: TileStore | null = getTileStore()
+): Promise<CachedTile> {
+  const cacheKey = tileCacheKey(key);
+  if (store) {
+    try {
+      const data = await store.read(cacheKey, new Date());
+      if (data) return { data, contentType: contentTypeOf(data), etag: etagOf(data), hit: true };
+    } catch (error) {
+      console.warn(`[Tile Cache] Falha ao ler ${cacheKey}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  const image = await render();
+  const data = Buffer.from(image.data);
+  if (store) {
+    try {
+      await store.write(cacheKey, data, image.contentType);
+    } catch (error) {
+      console.warn(`[Tile Cache] Falha ao gravar ${cacheKey}:`, error instanceof Error ? error.message : error);
+    }
+  }
+  return { data, contentType: image.contentType, etag: etagOf(data), hit: false };
+}
+
+/**
+ * Desenha e guarda os tiles que cobrem o campo na cena mais recente (a que o
+ * mapa pede sem data), do zoom 13 ao 16 enquanto couberem em 64 tiles.
+ * Devolve quantos tiles foram desenhados.
+ */
+export async function prefetchFieldTiles(
+  provider: SatelliteProvider,
+  target: SatelliteTarget,
+  store: TileStore | null = getTileStore()
+): Promise<number> {
+  if (!store) return 0;
+
+  const tiles: TileCoords[] = [];
+  for (const z of PREFETCH_ZOOMS) {
+    const covering = tilesCovering(target.geometry, z);
+    if (tiles.length + covering.length > MAX_PREFETCH_TILES) break;
+    tiles.push(...covering);
+  }
+
+  const date = await recentSceneDate(provider, target, "ndvi");
+  const query = { index: "ndvi" as const, date, palette: PREFETCH_PALETTE, format: "png" as const };
+  let rendered = 0;
+  for (const tile of tiles) {
+    const { hit } = await cachedTile({ target, tile, ...query }, () => renderSceneTile(provider, target, tile, query), store);
+    if (!hit) rendered++;
+  }
+  return rendered;
+}
+
+/**
+ * Remove os tiles vencidos e os excedentes do cache em uso
+ */
+export async function evictTileCache(now: Date = new Date()): Promise<{ store: string; removed: number; bytes: number } | null> {
+  const store = getTileStore();
+  if (!store) return null;
+  return { store: store.name, ...(await store.evict(now)) };
+}
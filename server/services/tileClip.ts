@@ -0,0 +1,129 @@
+/**
+ * Tile Clip Service
+ * Recorte de tiles XYZ (PNG) pela geometria do campo, respeitando partes múltiplas
+ * e áreas de exclusão (buracos): pixels fora da geometria ficam transparentes
+ */
+
+import { PNG } from "pngjs";
+import type { FieldGeometry, Position } from "./geometry";
+
+/**
+ * Projeta [lng, lat] em pixels globais Web Mercator no zoom z
+ */
+function project([lng, lat]: Position, z: number, tileSize: number): [number, number] {
+  const scale = tileSize * Math.pow(2, z);
+  const sinLat = Math.min(Math.max(Math.sin((lat * Math.PI) / 180), -0.9999), 0.9999);
+  const px = ((lng + 180) / 360) * scale;
+  const py = (0.5 - Math.log((1 + sinLat) / (1 - sinLat)) / (4 * Math.PI)) * scale;
+  return [px, py];
+}
+
+function ringsOf(geometry: FieldGeometry): Position[][] {
+  return geometry.type === "Polygon" ? geometry.coordinates : geometry.coordinates.flat();
+}
+
+/**
+ * Preenche a máscara (1 = dentro) pela regra par-ímpar com os anéis já em
+ * pixels: buracos e partes separadas são tratados sem distinguir os anéis
+ */
+function fillRings(rings: number[][][], width: number, height: number): Uint8Array {
+  const mask = new Uint8Array(width * height);
+
+  for (let row = 0; row < height; row++) {
+    const cy = row + 0.5;
+    const crossings: number[] = [];
+
+    for (const ring of rings) {
+      for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [x1, y1] = ring[j];
+        const [x2, y2] = ring[i];
+        if (y1 > cy !== y2 > cy) {
+          crossings.push(x1 + ((cy - y1) * (x2 - x1)) / (y2 - y1));
+        }
+      }
+    }
+    crossings.sort((a, b) => a - b);
+
+    for (let k = 0; k + 1 < crossings.length; k += 2) {
+      const start = Math.max(0, Math.ceil(crossings[k] - 0.5));
+      const end = Math.min(width - 1, Math.ceil(crossings[k + 1] - 0.5) - 1);
+      for (let col = start; col <= end; col++) {
+        mask[row * width + col] = 1;
+      }
+    }
+  }
+
+  return mask;
+}
+
+/**
+ * Máscara (1 = dentro) de um tile z/x/y
+ */
+export function rasterizeGeometry(
+  geometry: FieldGeometry,
+  z: number,
+  x: number,
+  y: number,
+  width: number = 256,
+  height: number = width
+): Uint8Array {
+  const rings = ringsOf(geometry).map(ring =>
+    ring.map(point => {
+      const [px, py] = project(point, z, width);
+      return [px - x * width, py - y * height];
+    })
+  );
+  return fillRings(rings, width, height);
+}
+
+/**
+ * Máscara (1 = dentro) de uma imagem que cobre a caixa [oeste, sul, leste, norte]
+ * em graus, como as sobreposições de imagem do Mapbox, com a linha 0 ao norte
+ */
+export function rasterizeGeometryInBbox(
+  geometry: FieldGeometry,
+  [west, south, east, north]: [number, number, number, number],
+  width: number,
+  height: number
+): Uint8Array {
+  const rings = ringsOf(geometry).map(ring =>
+    ring.map(([lng, lat]) => [((lng - west) / (east - west)) * width, ((north - lat) / (north - south)) * height])
+  );
+  return fillRings(rings, width, height);
+}
+
+/**
+ * Aplica a geometria do campo como máscara de transparência em um tile PNG
+ */
+export function clipTileToGeometry(
+  data: Uint8Array,
+  geometry: FieldGeometry,
+  z: number,
+  x: number,
+  y: number
+): Buffer {
+  const png = PNG.sync.read(Buffer.from(data));
+  const mask = rasterizeGeometry(geometry, z, x, y, png.width, png.height);
+
+  for (let i = 0; i < mask.length; i++) {
+    if (!mask[i]) png.data[i * 4 + 3] = 0;
+  }
+
+  return PNG.sync.write(png);
+}
+
+/**
+ * Tiles z/x/y que cobrem a caixa da geometria no zoom z
+ */
+export function tilesCovering(geometry: FieldGeometry, z: number): { z: number; x: number; y: number }[] {
+  const points = ringsOf(geometry).flat().map(point => project(point, z, 1));
+  const last = 2 ** z - 1;
+  const [minX, maxX] = [Math.min(...points.map(p => p[0])), Math.max(...points.map(p => p[0]))].map(v => Math.min(last, Math.floor(v)));
+  const [minY, maxY] = [Math.min(...points.map(p => p[1])), Math.max(...points.map(p => p[1]))].map(v => Math.min(last, Math.floor(v)));
+
+  const tiles: { z: number; x: number; y: number }[] = [];
+  for (let y = minY; y <= maxY; y++) {
+    for (let x = minX; x <= maxX; x++) tiles.push({ z, x, y });
+  }
+  return tiles;
+}
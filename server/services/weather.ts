@@ -175,3 +175,118 @@ export function getWindDirection(degrees: number): string {
   const index = Math.round(degrees / 45) % 8;
   return directions[index];
 }
+
+// Daily forecast rows for the weatherData table (celsius * 10, mm * 10)
+export function forecastRows(fieldId: number, daily: DailyWeather[]) {
+  return daily.map(day => ({
+    fieldId,
+    date: new Date(`${day.date}T00:00:00Z`),
+    temperatureMin: Math.round(day.temperatureMin * 10),
+    temperatureMax: Math.round(day.temperatureMax * 10),
+    temperatureAvg: Math.round((day.temperatureMin + day.temperatureMax) * 5),
+    precipitation: Math.round((day.precipitation ?? 0) * 10),
+    condition: weatherCodeDescriptions[day.weatherCode] ?? null,
+    iconCode: String(day.weatherCode),
+    isForecast: true,
+  }));
+}
+
+export type AlertType = 'frost' | 'heat' | 'rain' | 'drought';
+export type AlertSeverity = 'info' | 'warning' | 'critical';
+
+export interface ForecastDay {
+  date: Date;
+  temperatureMin: number | null; // °C
+  temperatureMax: number | null; // °C
+  precipitation: number | null; // mm
+}
+
+export interface AlertCandidate {
+  alertType: AlertType;
+  severity: AlertSeverity;
+  title: string;
+  message: string;
+  validFrom: Date;
+  validUntil: Date;
+}
+
+// Limites dos alertas: [atenção, crítico]
+export const ALERT_THRESHOLDS = {
+  frost: [3, 0], // mínima em °C (menor ou igual)
+  heat: [35, 38], // máxima em °C (maior ou igual)
+  rain: [30, 50], // chuva do dia em mm (maior ou igual)
+  droughtDays: 7, // dias seguidos previstos com menos de 1 mm
+};
+
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10).split('-').reverse().slice(0, 2).join('/');
+}
+
+function period(from: Date, until: Date): string {
+  return from.getTime() === until.getTime() ? formatDay(from) : `${formatDay(from)} a ${formatDay(until)}`;
+}
+
+// Dias seguidos que atendem à condição viram um único alerta, com a gravidade do pior dia
+function dayRuns(days: ForecastDay[], severityOf: (day: ForecastDay) => AlertSeverity | null) {
+  const runs: Array<{ days: ForecastDay[]; severity: AlertSeverity }> = [];
+  let current: { days: ForecastDay[]; severity: AlertSeverity } | null = null;
+  days.forEach(day => {
+    const severity = severityOf(day);
+    if (!severity) {
+      current = null;
+      return;
+    }
+    if (!current) {
+      current = { days: [], severity };
+      runs.push(current);
+    }
+    current.days.push(day);
+    if (severity === 'critical') current.severity = 'critical';
+  });
+  return runs;
+}
+
+/**
+ * Alertas de geada, calor, chuva forte e estiagem a partir da previsão diária
+ */
+export function evaluateWeatherAlerts(forecast: ForecastDay[]): AlertCandidate[] {
+  const days = [...forecast].sort((a, b) => a.date.getTime() - b.date.getTime());
+  const alerts: AlertCandidate[] = [];
+
+  const add = (alertType: AlertType, runDays: ForecastDay[], severity: AlertSeverity, title: string, detail: string) => {
+    const validFrom = runDays[0].date;
+    const validUntil = runDays[runDays.length - 1].date;
+    alerts.push({ alertType, severity, title, message: `${detail} (${period(validFrom, validUntil)})`, validFrom, validUntil });
+  };
+
+  dayRuns(days, day => day.temperatureMin === null ? null
+    : day.temperatureMin <= ALERT_THRESHOLDS.frost[1] ? 'critical'
+    : day.temperatureMin <= ALERT_THRESHOLDS.frost[0] ? 'warning' : null
+  ).forEach(run => {
+    const min = Math.min(...run.days.map(day => day.temperatureMin!));
+    add('frost', run.days, run.severity, 'Risco de geada', `Mínima prevista de ${min.toFixed(1)} °C`);
+  });
+
+  dayRuns(days, day => day.temperatureMax === null ? null
+    : day.temperatureMax >= ALERT_THRESHOLDS.heat[1] ? 'critical'
+    : day.temperatureMax >= ALERT_THRESHOLDS.heat[0] ? 'warning' : null
+  ).forEach(run => {
+    const max = Math.max(...run.days.map(day => day.temperatureMax!));
+    add('heat', run.days, run.severity, 'Calor intenso', `Máxima prevista de ${max.toFixed(1)} °C`);
+  });
+
+  dayRuns(days, day => day.precipitation === null ? null
+    : day.precipitation >= ALERT_THRESHOLDS.rain[1] ? 'critical'
+    : day.precipitation >= ALERT_THRESHOLDS.rain[0] ? 'warning' : null
+  ).forEach(run => {
+    const total = run.days.reduce((sum, day) => sum + day.precipitation!, 0);
+    add('rain', run.days, run.severity, 'Chuva forte', `${total.toFixed(0)} mm previstos`);
+  });
+
+  const dry = days.filter(day => day.precipitation !== null && day.precipitation < 1);
+  if (days.length >= ALERT_THRESHOLDS.droughtDays && dry.length === days.length) {
+    add('drought', days, 'info', 'Sem chuva prevista', `Nenhum dia com chuva nos próximos ${days.length} dias`);
+  }
+
+  return alerts;
+}
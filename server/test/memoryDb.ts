@@ -0,0 +1,677 @@
+/**
+ * Banco em memória para os testes do servidor
+ * Mesmas funções e regras de server/db.ts sobre tabelas tipadas pelo schema, para
+ * os testes montarem os dados com `seed` e conferirem o que ficou gravado em `tables`.
+ *
+ *   vi.mock("./db", async () => (await import("./test/memoryDb")).memoryDb);
+ *
+ * Cada função é um vi.fn: dá para conferir as chamadas ou trocar o retorno de uma chamada.
+ */
+
+import { vi } from "vitest";
+import type {
+  User, InsertUser,
+  Organization, InsertOrganization,
+  OrganizationMember, InsertOrganizationMember,
+  Farm, InsertFarm,
+  CarRecord, InsertCarRecord,
+  Field, InsertField,
+  FieldBoundaryVersion, InsertFieldBoundaryVersion,
+  FieldShare, InsertFieldShare,
+  ConsultantGrant, InsertConsultantGrant,
+  ConsultantNote, InsertConsultantNote,
+  FieldLineage, InsertFieldLineage,
+  Crop, InsertCrop,
+  FieldNote, InsertFieldNote,
+  WeatherData, InsertWeatherData,
+  WeatherAlert, InsertWeatherAlert,
+  NdviData, InsertNdviData,
+  CropRotationPlan, InsertCropRotationPlan,
+  Task, InsertTask,
+  Notification, InsertNotification,
+  JobRun, InsertJobRun,
+} from "../../drizzle/schema";
+import type * as Db from "../db";
+import { mergeNdviSeries } from "../services/fieldLineage";
+import type { Membership, OrgRole } from "../services/organizations";
+
+export const tables = {
+  users: [] as User[],
+  organizations: [] as Organization[],
+  organizationMembers: [] as OrganizationMember[],
+  farms: [] as Farm[],
+  carRecords: [] as CarRecord[],
+  fields: [] as Field[],
+  fieldBoundaryVersions: [] as FieldBoundaryVersion[],
+  fieldShares: [] as FieldShare[],
+  consultantGrants: [] as ConsultantGrant[],
+  consultantNotes: [] as ConsultantNote[],
+  fieldLineage: [] as FieldLineage[],
+  crops: [] as Crop[],
+  fieldNotes: [] as FieldNote[],
+  weatherData: [] as WeatherData[],
+  weatherAlerts: [] as WeatherAlert[],
+  ndviData: [] as NdviData[],
+  cropRotationPlans: [] as CropRotationPlan[],
+  tasks: [] as Task[],
+  notifications: [] as Notification[],
+  jobRuns: [] as JobRun[],
+};
+
+type Tables = typeof tables;
+
+// Esvazia as tabelas (no beforeEach, junto com vi.clearAllMocks)
+export function resetMemoryDb() {
+  for (const rows of Object.values(tables) as Array<Tables[keyof Tables]>) rows.length = 0;
+}
+
+// ==================== LINHAS ====================
+// Cada linha recebe os defaults do schema e o próximo id (autoincrement)
+
+function nextId(rows: Array<{ id: number }>): number {
+  return rows.reduce((max, row) => Math.max(max, row.id), 0) + 1;
+}
+
+function insert<T extends { id: number }>(rows: T[], build: (id: number) => T, id?: number): T {
+  const row = build(id ?? nextId(rows));
+  rows.push(row);
+  return row;
+}
+
+// Como o `set` do drizzle: valores undefined não alteram a coluna
+function update<T extends object>(row: T | undefined, data: Partial<T>) {
+  if (!row) return;
+  for (const [key, value] of Object.entries(data)) {
+    if (value !== undefined) Object.assign(row, { [key]: value });
+  }
+}
+
+function remove<T extends { id: number }>(rows: T[], id: number) {
+  const index = rows.findIndex(row => row.id === id);
+  if (index >= 0) rows.splice(index, 1);
+}
+
+// O banco devolve objetos novos a cada consulta
+const copy = <T extends object>(row: T | undefined): T | undefined => (row ? { ...row } : undefined);
+const copyAll = <T extends object>(rows: T[]): T[] => rows.map(row => ({ ...row }));
+
+const time = (date: Date | null | undefined) => date?.getTime() ?? 0;
+const byName = (a: string | null, b: string | null) => (a ?? "").localeCompare(b ?? "");
+
+export const seed = {
+  user: (values: Partial<InsertUser>) => insert(tables.users, (id): User => ({
+    openId: `user-${id}`, name: null, email: null, passwordHash: null, loginMethod: null, role: "user", userType: "farmer",
+    phone: null, company: null, avatarUrl: null, plan: "free", maxFields: 5, planExpiresAt: null, isGuest: false,
+    deviceId: null, activeOrganizationId: null, createdAt: new Date(), updatedAt: new Date(), lastSignedIn: new Date(),
+    ...values, id,
+  }), values.id),
+  organization: (values: InsertOrganization) => insert(tables.organizations, (id): Organization => ({
+    createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  member: (values: InsertOrganizationMember) => insert(tables.organizationMembers, (id): OrganizationMember => ({
+    role: "viewer", createdAt: new Date(), ...values, id,
+  }), values.id),
+  farm: (values: InsertFarm) => insert(tables.farms, (id): Farm => ({
+    organizationId: null, description: null, city: null, state: null, country: "Brasil", color: null, isActive: true,
+    createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  carRecord: (values: InsertCarRecord) => insert(tables.carRecords, (id): CarRecord => ({
+    codigoCar: null, nomePropriedade: null, municipio: null, uf: null, perimeter: null, reservaLegal: null, app: null,
+    consolidada: null, createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  field: (values: InsertField) => insert(tables.fields, (id): Field => ({
+    organizationId: null, farmId: null, description: null, areaHectares: null, latitude: null, longitude: null,
+    boundaries: null, geometry: null, perimeterMeters: null, address: null, city: null, state: null, country: "Brasil",
+    soilType: null, irrigationType: "none", agroPolygonId: null, currentNdvi: null, isActive: true,
+    createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  boundaryVersion: (values: InsertFieldBoundaryVersion) => insert(tables.fieldBoundaryVersions, (id): FieldBoundaryVersion => ({
+    areaHectares: null, perimeterMeters: null, validTo: null, createdAt: new Date(), ...values, id,
+  }), values.id),
+  fieldShare: (values: InsertFieldShare) => insert(tables.fieldShares, (id): FieldShare => ({
+    email: null, sharedWithUserId: null, parentShareId: null, permission: "view", expiresAt: null, acceptedAt: null,
+    revokedAt: null, createdAt: new Date(), ...values, id,
+  }), values.id),
+  consultantGrant: (values: InsertConsultantGrant) => insert(tables.consultantGrants, (id): ConsultantGrant => ({
+    permission: "comment", revokedAt: null, createdAt: new Date(), ...values, id,
+  }), values.id),
+  consultantNote: (values: InsertConsultantNote) => insert(tables.consultantNotes, (id): ConsultantNote => ({
+    title: null, createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  lineage: (values: InsertFieldLineage) => insert(tables.fieldLineage, (id): FieldLineage => ({
+    createdAt: new Date(), ...values, id,
+  }), values.id),
+  crop: (values: InsertCrop) => insert(tables.crops, (id): Crop => ({
+    organizationId: null, variety: null, plantingDate: null, expectedHarvestDate: null, actualHarvestDate: null,
+    status: "planned", areaHectares: null, expectedYield: null, actualYield: null, notes: null, season: null,
+    createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  fieldNote: (values: InsertFieldNote) => insert(tables.fieldNotes, (id): FieldNote => ({
+    organizationId: null, title: null, noteType: "observation", latitude: null, longitude: null, photos: null,
+    severity: null, isResolved: false, createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  weather: (values: InsertWeatherData) => insert(tables.weatherData, (id): WeatherData => ({
+    temperatureMin: null, temperatureMax: null, temperatureAvg: null, humidity: null, precipitation: null,
+    windSpeed: null, windDirection: null, uvIndex: null, condition: null, iconCode: null, isForecast: false,
+    createdAt: new Date(), ...values, id,
+  }), values.id),
+  weatherAlert: (values: InsertWeatherAlert) => insert(tables.weatherAlerts, (id): WeatherAlert => ({
+    message: null, severity: "info", isRead: false, isDismissed: false, validFrom: null, validUntil: null,
+    createdAt: new Date(), ...values, id,
+  }), values.id),
+  ndvi: (values: InsertNdviData) => insert(tables.ndviData, (id): NdviData => ({
+    ndviAverage: null, ndviMin: null, ndviMax: null, healthStatus: null, cloudCoverage: null, imageUrl: null,
+    thumbnailUrl: null, problemAreas: null, source: "sentinel-2", createdAt: new Date(), ...values, id,
+  }), values.id),
+  rotationPlan: (values: InsertCropRotationPlan) => insert(tables.cropRotationPlans, (id): CropRotationPlan => ({
+    previousCrop: null, isConfirmed: false, notes: null, suggestedBy: "user", createdAt: new Date(), updatedAt: new Date(),
+    ...values, id,
+  }), values.id),
+  task: (values: InsertTask) => insert(tables.tasks, (id): Task => ({
+    fieldId: null, organizationId: null, description: null, taskType: "other", priority: "medium", status: "pending",
+    dueDate: null, completedAt: null, assignedTo: null, createdAt: new Date(), updatedAt: new Date(), ...values, id,
+  }), values.id),
+  notification: (values: InsertNotification) => insert(tables.notifications, (id): Notification => ({
+    message: null, notificationType: "system", relatedFieldId: null, isRead: false, actionUrl: null,
+    createdAt: new Date(), ...values, id,
+  }), values.id),
+  jobRun: (values: Omit<InsertJobRun, "nextAttemptAt"> & { nextAttemptAt?: Date }) => insert(tables.jobRuns, (id): JobRun => ({
+    userId: 0, triggeredBy: "schedule", status: "pending", attempts: 0, maxAttempts: 3, nextAttemptAt: values.scheduledFor,
+    startedAt: null, finishedAt: null, lastError: null, result: null, createdAt: new Date(), updatedAt: new Date(),
+    ...values, id,
+  }), values.id),
+};
+
+// ==================== USUÁRIOS ====================
+
+const findUser = (predicate: (user: User) => boolean) => copy(tables.users.find(predicate));
+const localOpenId = (email: string) => `local_${email.toLowerCase().replace(/[^a-z0-9]/g, "_")}`;
+
+function countActiveFields(userId: number) {
+  return tables.fields.filter(field => field.userId === userId && field.isActive).length;
+}
+
+// Vínculo que o resolveMembership devolve, criando a organização pessoal quando não há nenhuma
+function resolveMembership(user: User): Membership {
+  const stored = tables.users.find(row => row.id === user.id);
+  const activeOrganizationId = stored?.activeOrganizationId ?? user.activeOrganizationId;
+  const memberships = tables.organizationMembers.filter(member => member.userId === user.id);
+  const active = memberships.find(member => member.organizationId === activeOrganizationId);
+  if (active) return { userId: user.id, organizationId: active.organizationId, role: active.role };
+
+  const [first] = [...memberships].sort((a, b) => time(a.createdAt) - time(b.createdAt));
+  if (first) {
+    update(stored, { activeOrganizationId: first.organizationId });
+    return { userId: user.id, organizationId: first.organizationId, role: first.role };
+  }
+
+  const { id: organizationId } = seed.organization({ name: user.company || user.name || "Minha organização", ownerId: user.id });
+  seed.member({ organizationId, userId: user.id, role: "owner" });
+  update(stored, { activeOrganizationId: organizationId });
+  const owned = [tables.farms, tables.fields, tables.crops, tables.fieldNotes, tables.tasks] as const;
+  for (const rows of owned) {
+    for (const row of rows) {
+      if (row.userId === user.id && row.organizationId == null) row.organizationId = organizationId;
+    }
+  }
+  return { userId: user.id, organizationId, role: "owner" };
+}
+
+// ==================== CAMPOS ====================
+
+function initialBoundaryVersion(fieldId: number, field: InsertField) {
+  if (!field.geometry) return;
+  seed.boundaryVersion({
+    fieldId,
+    userId: field.userId,
+    geometry: field.geometry,
+    areaHectares: field.areaHectares,
+    perimeterMeters: field.perimeterMeters,
+    validFrom: new Date(),
+  });
+}
+
+function createFields(list: InsertField[], maxFields: number): number[] | null {
+  if (countActiveFields(list[0].userId) + list.length > maxFields) return null;
+  return list.map(field => {
+    const { id } = seed.field({ ...field, id: undefined });
+    initialBoundaryVersion(id, field);
+    return id;
+  });
+}
+
+function splitField(parent: Field, children: InsertField[], maxFields: number): number[] | null {
+  const userId = children[0].userId;
+  const released = parent.userId === userId && parent.isActive ? 1 : 0;
+  if (countActiveFields(userId) + children.length - released > maxFields) return null;
+
+  const parentNdvi = tables.ndviData.filter(row => row.fieldId === parent.id);
+  const activeCrops = tables.crops.filter(crop =>
+    crop.fieldId === parent.id && ["planned", "planted", "growing"].includes(crop.status ?? "")
+  );
+  const childIds = children.map(child => {
+    const { id: childId } = seed.field({ ...child, id: undefined });
+    seed.lineage({ userId: parent.userId, parentFieldId: parent.id, childFieldId: childId, operation: "split" });
+    initialBoundaryVersion(childId, child);
+    parentNdvi.forEach(({ id, createdAt, ...row }) => seed.ndvi({ ...row, fieldId: childId }));
+    activeCrops.forEach(({ id, createdAt, updatedAt, ...crop }) =>
+      seed.crop({ ...crop, fieldId: childId, areaHectares: child.areaHectares ?? crop.areaHectares })
+    );
+    return childId;
+  });
+  update(tables.fields.find(field => field.id === parent.id), { isActive: false });
+  return childIds;
+}
+
+function mergeFields(parents: Field[], merged: InsertField): number {
+  const parentIds = parents.map(parent => parent.id);
+  const { id: mergedId } = seed.field({ ...merged, id: undefined });
+  parents.forEach(parent =>
+    seed.lineage({ userId: parent.userId, parentFieldId: parent.id, childFieldId: mergedId, operation: "merge" })
+  );
+  initialBoundaryVersion(mergedId, merged);
+
+  const moved = [tables.crops, tables.fieldNotes, tables.tasks, tables.cropRotationPlans] as const;
+  for (const rows of moved) {
+    for (const row of rows) {
+      if (row.fieldId != null && parentIds.includes(row.fieldId)) row.fieldId = mergedId;
+    }
+  }
+  const series = mergeNdviSeries(
+    parents.map(parent => ({
+      areaHectares: (parent.areaHectares ?? 0) / 100,
+      rows: tables.ndviData.filter(row => row.fieldId === parent.id),
+    })),
+    mergedId
+  );
+  series.forEach(row => seed.ndvi(row));
+  tables.fields.filter(field => parentIds.includes(field.id)).forEach(field => update(field, { isActive: false }));
+  return mergedId;
+}
+
+// ==================== NDVI ====================
+
+const ndviOf = (fieldId: number, predicate: (row: NdviData) => boolean = () => true) =>
+  tables.ndviData
+    .filter(row => row.fieldId === fieldId && predicate(row))
+    .sort((a, b) => time(b.captureDate) - time(a.captureDate));
+
+// ==================== JOBS ====================
+
+function requeueStaleJobRuns(startedBefore: Date, now: Date) {
+  const stale = tables.jobRuns.filter(run => run.status === "running" && time(run.startedAt) <= startedBefore.getTime());
+  stale.filter(run => run.attempts >= run.maxAttempts)
+    .forEach(run => update(run, { status: "failed", finishedAt: now, lastError: "Execução interrompida" }));
+  stale.filter(run => run.status === "running")
+    .forEach(run => update(run, { status: "pending", nextAttemptAt: now, lastError: "Execução interrompida" }));
+}
+
+function getStatsByFarmIds(farmIds: number[]) {
+  const fieldIds = tables.fields.filter(field => field.farmId != null && farmIds.includes(field.farmId) && field.isActive)
+    .map(field => field.id);
+  const onFields = (row: { fieldId: number | null }) => row.fieldId != null && fieldIds.includes(row.fieldId);
+  return {
+    totalFields: fieldIds.length,
+    activeCrops: tables.crops.filter(crop => onFields(crop) && crop.status === "growing").length,
+    pendingTasks: tables.tasks.filter(task => onFields(task) && task.status === "pending").length,
+    unreadAlerts: tables.weatherAlerts.filter(alert => onFields(alert) && !alert.isRead && !alert.isDismissed).length,
+  };
+}
+
+export const memoryDb = {
+  // ==================== USER FUNCTIONS ====================
+  upsertUser: vi.fn(async (user: InsertUser) => {
+    const existing = tables.users.find(row => row.openId === user.openId);
+    if (existing) update(existing, { ...user, id: undefined, lastSignedIn: user.lastSignedIn ?? new Date() });
+    else seed.user(user);
+  }),
+  getUserByEmail: vi.fn(async (email: string) => findUser(user => user.email === email)),
+  getUserByDeviceId: vi.fn(async (deviceId: string) => findUser(user => user.deviceId === deviceId)),
+  createGuestUser: vi.fn(async (deviceId: string) =>
+    copy(seed.user({ openId: `guest_${deviceId}`, deviceId, isGuest: true, name: "Visitante", plan: "free", maxFields: 1 }))
+  ),
+  createUserWithPassword: vi.fn(async (email: string, passwordHash: string, name: string) =>
+    copy(seed.user({
+      openId: localOpenId(email),
+      email: email.toLowerCase(),
+      passwordHash,
+      name,
+      loginMethod: "email",
+      isGuest: false,
+      plan: "free",
+      maxFields: 5,
+    }))
+  ),
+  upgradeGuestToUser: vi.fn(async (guestId: number, email: string, passwordHash: string, name: string) => {
+    const user = tables.users.find(row => row.id === guestId);
+    update(user, {
+      openId: localOpenId(email),
+      email: email.toLowerCase(),
+      passwordHash,
+      name,
+      loginMethod: "email",
+      isGuest: false,
+      maxFields: 5,
+    });
+    return copy(user);
+  }),
+  countUserFields: vi.fn(async (userId: number) => countActiveFields(userId)),
+  updateUserProfile: vi.fn(async (userId: number, data: Partial<InsertUser>) => {
+    update(tables.users.find(user => user.id === userId), data);
+  }),
+
+  // ==================== ORGANIZATION FUNCTIONS ====================
+  resolveMembership: vi.fn(async (user: User): Promise<Membership | null> => resolveMembership(user)),
+  getOrganizationById: vi.fn(async (id: number) => copy(tables.organizations.find(organization => organization.id === id))),
+  getOrganizationMember: vi.fn(async (organizationId: number, userId: number) =>
+    copy(tables.organizationMembers.find(member => member.organizationId === organizationId && member.userId === userId))
+  ),
+  getOrganizationMembers: vi.fn(async (organizationId: number) =>
+    tables.organizationMembers
+      .filter(member => member.organizationId === organizationId)
+      .flatMap(member => {
+        const user = tables.users.find(row => row.id === member.userId);
+        return user
+          ? [{ userId: member.userId, role: member.role, createdAt: member.createdAt, name: user.name, email: user.email }]
+          : [];
+      })
+      .sort((a, b) => byName(a.name, b.name))
+  ),
+  updateOrganizationMemberRole: vi.fn(async (organizationId: number, userId: number, role: OrgRole) => {
+    update(tables.organizationMembers.find(member => member.organizationId === organizationId && member.userId === userId), { role });
+  }),
+  removeOrganizationMember: vi.fn(async (organizationId: number, userId: number) => {
+    const member = tables.organizationMembers.find(row => row.organizationId === organizationId && row.userId === userId);
+    if (member) remove(tables.organizationMembers, member.id);
+    const user = tables.users.find(row => row.id === userId && row.activeOrganizationId === organizationId);
+    if (user) user.activeOrganizationId = null;
+  }),
+
+  // ==================== FARM FUNCTIONS ====================
+  getFarmById: vi.fn(async (id: number) => copy(tables.farms.find(farm => farm.id === id && farm.isActive))),
+  updateFarm: vi.fn(async (id: number, data: Partial<InsertFarm>) => {
+    update(tables.farms.find(farm => farm.id === id), data);
+  }),
+  deleteFarm: vi.fn(async (id: number) => {
+    tables.fields.filter(field => field.farmId === id).forEach(field => { field.farmId = null; });
+    update(tables.farms.find(farm => farm.id === id), { isActive: false });
+  }),
+  getFieldsByFarmId: vi.fn(async (farmId: number) =>
+    copyAll(tables.fields.filter(field => field.farmId === farmId && field.isActive).sort((a, b) => byName(a.name, b.name)))
+  ),
+
+  // ==================== CAR FUNCTIONS ====================
+  getCarRecordByFarmId: vi.fn(async (farmId: number) => copy(tables.carRecords.find(record => record.farmId === farmId))),
+  getCarRecordsByOrganizationId: vi.fn(async (organizationId: number) =>
+    copyAll(tables.carRecords.filter(record =>
+      tables.farms.some(farm => farm.id === record.farmId && farm.organizationId === organizationId && farm.isActive)
+    ))
+  ),
+  saveCarRecord: vi.fn(async (record: InsertCarRecord) => {
+    const { farmId, userId, ...layers } = record;
+    const existing = tables.carRecords.find(row => row.farmId === farmId);
+    if (existing) update(existing, { ...layers, id: undefined });
+    else seed.carRecord({ ...record, id: undefined });
+  }),
+
+  // ==================== FIELD FUNCTIONS ====================
+  createField: vi.fn(async (field: InsertField, maxFields: number) => createFields([field], maxFields)?.[0] ?? null),
+  createFields: vi.fn(async (list: InsertField[], maxFields: number) => createFields(list, maxFields)),
+  getFieldById: vi.fn(async (id: number) => copy(tables.fields.find(field => field.id === id))),
+  getFieldsByUserId: vi.fn(async (userId: number) =>
+    copyAll(tables.fields.filter(field => field.userId === userId && field.isActive)
+      .sort((a, b) => time(b.createdAt) - time(a.createdAt)))
+  ),
+  updateField: vi.fn(async (id: number, data: Partial<InsertField>) => {
+    update(tables.fields.find(field => field.id === id), data);
+  }),
+
+  // ==================== FIELD BOUNDARY VERSION FUNCTIONS ====================
+  getBoundaryVersions: vi.fn(async (fieldId: number) =>
+    copyAll(tables.fieldBoundaryVersions.filter(version => version.fieldId === fieldId)
+      .sort((a, b) => time(a.validFrom) - time(b.validFrom)))
+  ),
+  replaceFieldBoundary: vi.fn(async (
+    fieldId: number,
+    data: Partial<InsertField>,
+    version: InsertFieldBoundaryVersion,
+    initial?: InsertFieldBoundaryVersion
+  ) => {
+    if (initial) seed.boundaryVersion(initial);
+    tables.fieldBoundaryVersions
+      .filter(row => row.fieldId === fieldId && row.validTo == null)
+      .forEach(row => { row.validTo = version.validFrom; });
+    seed.boundaryVersion(version);
+    update(tables.fields.find(field => field.id === fieldId), data);
+  }),
+  correctFieldBoundary: vi.fn(async (
+    fieldId: number,
+    versionId: number,
+    data: Partial<InsertField>,
+    version: Partial<InsertFieldBoundaryVersion>
+  ) => {
+    update(tables.fieldBoundaryVersions.find(row => row.id === versionId), version);
+    update(tables.fields.find(field => field.id === fieldId), data);
+  }),
+
+  // ==================== FIELD SHARE FUNCTIONS ====================
+  createFieldShare: vi.fn(async (share: InsertFieldShare) => seed.fieldShare({ ...share, id: undefined }).id),
+  getFieldShareById: vi.fn(async (id: number) => copy(tables.fieldShares.find(share => share.id === id))),
+  getFieldShareByToken: vi.fn(async (token: string) => copy(tables.fieldShares.find(share => share.token === token))),
+  getFieldSharesForUser: vi.fn(async (fieldId: number, userId: number) =>
+    copyAll(tables.fieldShares.filter(share => share.fieldId === fieldId && share.sharedWithUserId === userId))
+  ),
+  updateFieldShare: vi.fn(async (id: number, data: Partial<InsertFieldShare>) => {
+    update(tables.fieldShares.find(share => share.id === id), data);
+  }),
+  revokeFieldShare: vi.fn(async (id: number) => {
+    tables.fieldShares
+      .filter(share => (share.id === id || share.parentShareId === id) && !share.revokedAt)
+      .forEach(share => { share.revokedAt = new Date(); });
+  }),
+
+  // ==================== CONSULTANT FUNCTIONS ====================
+  grantConsultantAccess: vi.fn(async (data: InsertConsultantGrant) => {
+    const existing = tables.consultantGrants.find(grant => grant.farmId === data.farmId && grant.consultantId === data.consultantId);
+    if (!existing) return seed.consultantGrant({ ...data, id: undefined }).id;
+    update(existing, { permission: data.permission });
+    existing.revokedAt = null;
+    return existing.id;
+  }),
+  getConsultantGrantById: vi.fn(async (id: number) => copy(tables.consultantGrants.find(grant => grant.id === id))),
+  getConsultantGrant: vi.fn(async (farmId: number, consultantId: number) =>
+    copy(tables.consultantGrants.find(grant => grant.farmId === farmId && grant.consultantId === consultantId && !grant.revokedAt))
+  ),
+  getConsultantGrantsByOrganizationId: vi.fn(async (organizationId: number) =>
+    tables.consultantGrants
+      .filter(grant => !grant.revokedAt)
+      .flatMap(grant => {
+        const farm = tables.farms.find(row => row.id === grant.farmId && row.organizationId === organizationId);
+        const consultant = tables.users.find(row => row.id === grant.consultantId);
+        return farm && consultant
+          ? [{ grant: { ...grant }, farmName: farm.name, consultantName: consultant.name, consultantEmail: consultant.email }]
+          : [];
+      })
+      .sort((a, b) => byName(a.consultantName, b.consultantName) || byName(a.farmName, b.farmName))
+  ),
+  getConsultantGrantsByConsultantId: vi.fn(async (consultantId: number) =>
+    tables.consultantGrants
+      .filter(grant => grant.consultantId === consultantId && !grant.revokedAt)
+      .flatMap(grant => {
+        const farm = tables.farms.find(row => row.id === grant.farmId && row.isActive);
+        const producer = tables.users.find(row => row.id === grant.producerId);
+        return farm && producer
+          ? [{ grant: { ...grant }, farm: { ...farm }, producerName: producer.name, producerEmail: producer.email }]
+          : [];
+      })
+      .sort((a, b) => byName(a.producerName, b.producerName) || byName(a.farm.name, b.farm.name))
+  ),
+  revokeConsultantGrant: vi.fn(async (id: number) => {
+    update(tables.consultantGrants.find(grant => grant.id === id), { revokedAt: new Date() });
+  }),
+  createConsultantNote: vi.fn(async (note: InsertConsultantNote) => seed.consultantNote({ ...note, id: undefined }).id),
+  getConsultantNoteById: vi.fn(async (id: number) => copy(tables.consultantNotes.find(note => note.id === id))),
+  getConsultantNotes: vi.fn(async (consultantId: number, producerId: number) =>
+    copyAll(tables.consultantNotes.filter(note => note.consultantId === consultantId && note.producerId === producerId)
+      .sort((a, b) => time(b.createdAt) - time(a.createdAt)))
+  ),
+  updateConsultantNote: vi.fn(async (id: number, data: Partial<InsertConsultantNote>) => {
+    update(tables.consultantNotes.find(note => note.id === id), data);
+  }),
+  deleteConsultantNote: vi.fn(async (id: number) => remove(tables.consultantNotes, id)),
+
+  // ==================== FIELD LINEAGE FUNCTIONS ====================
+  splitField: vi.fn(async (parent: Field, children: InsertField[], maxFields: number) => splitField(parent, children, maxFields)),
+  mergeFields: vi.fn(async (parents: Field[], merged: InsertField) => mergeFields(parents, merged)),
+  getFieldLineage: vi.fn(async (fieldId: number) =>
+    copyAll(tables.fieldLineage.filter(row => row.parentFieldId === fieldId || row.childFieldId === fieldId)
+      .sort((a, b) => time(b.createdAt) - time(a.createdAt)))
+  ),
+  getFieldsByIds: vi.fn(async (ids: number[]) => copyAll(tables.fields.filter(field => ids.includes(field.id)))),
+
+  // ==================== CROP FUNCTIONS ====================
+  getCropsByFieldId: vi.fn(async (fieldId: number) =>
+    copyAll(tables.crops.filter(crop => crop.fieldId === fieldId).sort((a, b) => time(b.plantingDate) - time(a.plantingDate)))
+  ),
+  getCropById: vi.fn(async (id: number) => copy(tables.crops.find(crop => crop.id === id))),
+  updateCrop: vi.fn(async (id: number, data: Partial<InsertCrop>) => {
+    update(tables.crops.find(crop => crop.id === id), data);
+  }),
+  deleteCrop: vi.fn(async (id: number) => remove(tables.crops, id)),
+
+  // ==================== FIELD NOTES FUNCTIONS ====================
+  createFieldNote: vi.fn(async (note: InsertFieldNote) => seed.fieldNote({ ...note, id: undefined }).id),
+  getFieldNotesByFieldId: vi.fn(async (fieldId: number) =>
+    copyAll(tables.fieldNotes.filter(note => note.fieldId === fieldId).sort((a, b) => time(b.createdAt) - time(a.createdAt)))
+  ),
+  getFieldNoteById: vi.fn(async (id: number) => copy(tables.fieldNotes.find(note => note.id === id))),
+  updateFieldNote: vi.fn(async (id: number, data: Partial<InsertFieldNote>) => {
+    update(tables.fieldNotes.find(note => note.id === id), data);
+  }),
+  deleteFieldNote: vi.fn(async (id: number) => remove(tables.fieldNotes, id)),
+
+  // ==================== WEATHER FUNCTIONS ====================
+  createWeatherAlert: vi.fn(async (alert: InsertWeatherAlert) => seed.weatherAlert({ ...alert, id: undefined }).id),
+  getWeatherForecastByFieldId: vi.fn(async (fieldId: number, from: Date) =>
+    copyAll(tables.weatherData
+      .filter(row => row.fieldId === fieldId && row.isForecast && time(row.date) >= from.getTime())
+      .sort((a, b) => time(a.date) - time(b.date)))
+  ),
+  replaceWeatherForecast: vi.fn(async (fieldId: number, from: Date, rows: InsertWeatherData[]) => {
+    tables.weatherData
+      .filter(row => row.fieldId === fieldId && row.isForecast && time(row.date) >= from.getTime())
+      .forEach(row => remove(tables.weatherData, row.id));
+    rows.forEach(row => seed.weather({ ...row, id: undefined }));
+  }),
+  findOverlappingWeatherAlert: vi.fn(async (
+    fieldId: number,
+    alertType: WeatherAlert["alertType"],
+    validFrom: Date,
+    validUntil: Date
+  ) =>
+    copy(tables.weatherAlerts.find(alert =>
+      alert.fieldId === fieldId &&
+      alert.alertType === alertType &&
+      alert.validFrom != null && alert.validFrom <= validUntil &&
+      alert.validUntil != null && alert.validUntil >= validFrom
+    ))
+  ),
+  getWeatherAlertById: vi.fn(async (id: number) => copy(tables.weatherAlerts.find(alert => alert.id === id))),
+  dismissWeatherAlert: vi.fn(async (id: number) => {
+    update(tables.weatherAlerts.find(alert => alert.id === id), { isDismissed: true });
+  }),
+
+  // ==================== NDVI FUNCTIONS ====================
+  getNdviByFieldId: vi.fn(async (fieldId: number, limit: number = 10) => copyAll(ndviOf(fieldId).slice(0, limit))),
+  getLatestNdviByFieldId: vi.fn(async (fieldId: number) => copy(ndviOf(fieldId)[0])),
+  getLatestNdviWithProblemAreas: vi.fn(async (fieldId: number) => copy(ndviOf(fieldId, row => row.problemAreas != null)[0])),
+  getNdviDataWithoutProblemAreas: vi.fn(async (fieldId: number, maxCloudCoverage: number, limit: number) =>
+    copyAll(ndviOf(fieldId, row =>
+      row.problemAreas == null && row.cloudCoverage != null && row.cloudCoverage <= maxCloudCoverage
+    ).slice(0, limit))
+  ),
+  updateNdviProblemAreas: vi.fn(async (id: number, problemAreas: unknown[]) => {
+    update(tables.ndviData.find(row => row.id === id), { problemAreas });
+  }),
+  getNdviByFieldIdSince: vi.fn(async (fieldId: number, since: Date) =>
+    copyAll(ndviOf(fieldId, row => time(row.captureDate) >= since.getTime()))
+  ),
+  getNdviCaptureDates: vi.fn(async (fieldId: number, since: Date) =>
+    ndviOf(fieldId, row => time(row.captureDate) >= since.getTime()).map(row => row.captureDate)
+  ),
+  createNdviDataRows: vi.fn(async (rows: InsertNdviData[]) => {
+    rows.forEach(row => seed.ndvi({ ...row, id: undefined }));
+  }),
+
+  // ==================== CROP ROTATION FUNCTIONS ====================
+  getCropRotationPlanById: vi.fn(async (id: number) => copy(tables.cropRotationPlans.find(plan => plan.id === id))),
+  updateCropRotationPlan: vi.fn(async (id: number, data: Partial<InsertCropRotationPlan>) => {
+    update(tables.cropRotationPlans.find(plan => plan.id === id), data);
+  }),
+
+  // ==================== TASK FUNCTIONS ====================
+  createTask: vi.fn(async (task: InsertTask) => seed.task({ ...task, id: undefined }).id),
+  getTaskById: vi.fn(async (id: number) => copy(tables.tasks.find(task => task.id === id))),
+  getPendingTasksByFieldIds: vi.fn(async (fieldIds: number[]) =>
+    copyAll(tables.tasks
+      .filter(task => task.fieldId != null && fieldIds.includes(task.fieldId) && task.status === "pending")
+      .sort((a, b) => time(a.dueDate) - time(b.dueDate)))
+  ),
+  updateTask: vi.fn(async (id: number, data: Partial<InsertTask>) => {
+    update(tables.tasks.find(task => task.id === id), data);
+  }),
+  deleteTask: vi.fn(async (id: number) => remove(tables.tasks, id)),
+
+  // ==================== NOTIFICATION FUNCTIONS ====================
+  createNotification: vi.fn(async (notification: InsertNotification) =>
+    seed.notification({ ...notification, id: undefined }).id
+  ),
+  getNotificationById: vi.fn(async (id: number) => copy(tables.notifications.find(notification => notification.id === id))),
+  markNotificationAsRead: vi.fn(async (id: number) => {
+    update(tables.notifications.find(notification => notification.id === id), { isRead: true });
+  }),
+
+  // ==================== DASHBOARD STATS ====================
+  getStatsByFarmIds: vi.fn(async (farmIds: number[]) => getStatsByFarmIds(farmIds)),
+
+  // ==================== JOB RUN FUNCTIONS ====================
+  getUserIdsWithActiveFields: vi.fn(async () => Array.from(new Set(tables.fields.filter(field => field.isActive).map(field => field.userId)))),
+  getLatestJobSlot: vi.fn(async (jobName: string) => {
+    const slots = tables.jobRuns
+      .filter(run => run.jobName === jobName && run.triggeredBy === "schedule")
+      .map(run => run.scheduledFor.getTime());
+    return slots.length > 0 ? new Date(Math.max(...slots)) : null;
+  }),
+  // Um horário já agendado para o mesmo usuário é ignorado (chave única do slot)
+  createJobRuns: vi.fn(async (runs: InsertJobRun[]) => {
+    for (const run of runs) {
+      const duplicate = tables.jobRuns.some(row =>
+        row.jobName === run.jobName && row.userId === (run.userId ?? 0) && row.scheduledFor.getTime() === run.scheduledFor.getTime()
+      );
+      if (!duplicate) seed.jobRun({ ...run, id: undefined });
+    }
+  }),
+  getDueJobRuns: vi.fn(async (now: Date, limit: number) =>
+    copyAll(tables.jobRuns
+      .filter(run => run.status === "pending" && run.nextAttemptAt <= now)
+      .sort((a, b) => time(a.nextAttemptAt) - time(b.nextAttemptAt) || a.id - b.id)
+      .slice(0, limit))
+  ),
+  claimJobRun: vi.fn(async (id: number, now: Date) => {
+    const run = tables.jobRuns.find(row => row.id === id && row.status === "pending");
+    if (!run) return false;
+    update(run, { status: "running", attempts: run.attempts + 1, startedAt: now });
+    run.finishedAt = null;
+    return true;
+  }),
+  updateJobRun: vi.fn(async (id: number, data: Partial<InsertJobRun>) => {
+    update(tables.jobRuns.find(run => run.id === id), data);
+  }),
+  requeueStaleJobRuns: vi.fn(async (startedBefore: Date, now: Date) => requeueStaleJobRuns(startedBefore, now)),
+  getJobRuns: vi.fn(async (filter: { jobName?: string; status?: JobRun["status"]; limit: number }) =>
+    copyAll(tables.jobRuns
+      .filter(run => (!filter.jobName || run.jobName === filter.jobName) && (!filter.status || run.status === filter.status))
+      .sort((a, b) => time(b.scheduledFor) - time(a.scheduledFor) || b.id - a.id)
+      .slice(0, filter.limit))
+  ),
+} satisfies Partial<typeof Db>;
@@ -0,0 +1,174 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { PNG } from "pngjs";
+import { ENV } from "./_core/env";
+import { registerNdviRoutes } from "./_core/ndviRoutes";
+import { fakeSatelliteProvider } from "./services/fakeSatellite";
+import {
+  cachedTile,
+  filesystemStore,
+  getTileStore,
+  prefetchFieldTiles,
+  storageStore,
+  tileCacheKey,
+  type TileCacheKey,
+} from "./services/tileCache";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => (id === 7 ? { id: 7, userId: 1, organizationId: 1, name: "Talhão 7", geometry: field } : undefined)),
+}));
+
+// Sessão do usuário 1, dono do campo
+vi.mock("./_core/sdk", () => ({ sdk: { authenticateRequest: vi.fn(async () => ({ id: 1 })) } }));
+
+const field = {
+  type: "Polygon" as const,
+  coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+};
+const key: TileCacheKey = {
+  target: { fieldId: 7, geometry: field },
+  index: "ndvi",
+  date: new Date("2026-10-02T13:30:00Z"),
+  format: "png",
+  tile: { z: 16, x: 24211, y: 36876 },
+};
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function tilePng(): Buffer {
+  const png = new PNG({ width: 4, height: 4 });
+  png.data.fill(200);
+  return PNG.sync.write(png);
+}
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), "tile-cache-test-"));
+});
+
+afterAll(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe("tile cache", () => {
+  it("keys tiles by field, boundary, scene, index, palette and z/x/y", () => {
+    expect(tileCacheKey({ ...key, palette: "onesoil" })).toMatch(/^ndvi-tiles\/7\/[0-9a-f]{12}\/ndvi\/onesoil\/2026-10-02\/16\/24211\/36876\.png$/);
+    // Paleta desconhecida cai na padrão do índice, como no desenho
+    expect(tileCacheKey({ ...key, palette: "nope" })).toBe(tileCacheKey(key));
+
+    const edited = { ...field, coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.01]]] };
+    expect(tileCacheKey({ ...key, target: { fieldId: 7, geometry: edited } })).not.toBe(tileCacheKey(key));
+  });
+
+  it("uses the project storage unless TILE_CACHE_STORE says otherwise", () => {
+    const { forgeApiUrl, forgeApiKey } = ENV;
+    const warn = vi.spyOn(console, "warn").mockImplementation(() => {});
+    Object.assign(ENV, { forgeApiUrl: "", forgeApiKey: "" });
+    expect(getTileStore()).toBeNull(); // nada configurado
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining("Cache de tiles desligado"));
+
+    Object.assign(ENV, { forgeApiUrl: "https://forge.example", forgeApiKey: "key" });
+    expect(getTileStore()).toBe(storageStore);
+    ENV.tileCacheStore = "filesystem";
+    expect(getTileStore()?.name).toBe("filesystem");
+    ENV.tileCacheStore = "off";
+    expect(getTileStore()).toBeNull();
+
+    Object.assign(ENV, { forgeApiUrl, forgeApiKey, tileCacheStore: "" });
+    warn.mockRestore();
+  });
+
+  it("renders a tile once and serves it from disk until it expires", async () => {
+    const store = filesystemStore(path.join(dir, "expiry"));
+    const render = vi.fn(async () => ({ data: tilePng(), contentType: "image/png" }));
+
+    const first = await cachedTile(key, render, store);
+    const second = await cachedTile(key, render, store);
+    expect([first.hit, second.hit]).toEqual([false, true]);
+    expect(second.etag).toBe(first.etag);
+    expect(second.contentType).toBe("image/png");
+    expect(render).toHaveBeenCalledTimes(1);
+
+    // Com mais de 30 dias o tile é desenhado de novo
+    const old = new Date(Date.now() - 31 * DAY_MS);
+    await fs.utimes(path.join(dir, "expiry", tileCacheKey(key)), old, old);
+    expect((await cachedTile(key, render, store)).hit).toBe(false);
+    expect(render).toHaveBeenCalledTimes(2);
+  });
+
+  it("evicts expired tiles and then the oldest beyond the size limit", async () => {
+    const root = path.join(dir, "eviction");
+    const size = tilePng().length;
+    const store = filesystemStore(root, size * 2);
+    const ages = [40, 3, 2, 1]; // dias
+    for (const [y, days] of ages.entries()) {
+      const tileKey = tileCacheKey({ ...key, tile: { z: 16, x: 24211, y } });
+      await store.write(tileKey, tilePng(), "image/png");
+      const modified = new Date(Date.now() - days * DAY_MS);
+      await fs.utimes(path.join(root, tileKey), modified, modified);
+    }
+
+    expect(await store.evict(new Date())).toEqual({ removed: 2, bytes: size * 2 });
+    const left = await Promise.all(ages.map((_, y) => store.read(tileCacheKey({ ...key, tile: { z: 16, x: 24211, y } }), new Date())));
+    expect(left.map(data => data !== null)).toEqual([false, false, true, true]);
+  });
+
+  it("prefetches the tiles covering the field once", async () => {
+    const store = filesystemStore(path.join(dir, "prefetch"));
+    const rendered = await prefetchFieldTiles(fakeSatelliteProvider, { fieldId: 7, geometry: field }, store);
+    expect(rendered).toBeGreaterThan(0);
+    expect(rendered).toBeLessThanOrEqual(64);
+    expect(await prefetchFieldTiles(fakeSatelliteProvider, { fieldId: 7, geometry: field }, store)).toBe(0);
+  });
+});
+
+describe("cached tile endpoint", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    ENV.satelliteProvider = "fake";
+    ENV.tileCacheStore = "filesystem";
+    ENV.tileCacheDir = path.join(dir, "endpoint");
+    const app = express();
+    registerNdviRoutes(app);
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    ENV.satelliteProvider = "";
+    ENV.tileCacheStore = "";
+    ENV.tileCacheDir = "";
+  });
+
+  it("serves repeated tiles from the cache and answers revalidation with 304", async () => {
+    const url = `${baseUrl}/api/ndvi-tiles/7/16/24211/36876.png?date=2026-10-02`;
+    const indexRaster = vi.spyOn(fakeSatelliteProvider, "indexRaster");
+
+    const first = await fetch(url);
+    expect(first.status).toBe(200);
+    expect(first.headers.get("x-tile-cache")).toBe("miss");
+    const etag = first.headers.get("etag")!;
+    expect(etag).toMatch(/^".+"$/);
+
+    const second = await fetch(url);
+    expect(second.headers.get("x-tile-cache")).toBe("hit");
+    expect(second.headers.get("etag")).toBe(etag);
+    expect(Buffer.from(await second.arrayBuffer())).toEqual(Buffer.from(await first.arrayBuffer()));
+
+    // Como o navegador revalida (o fetch do Node mandaria no-cache sem o Cache-Control)
+    const revalidated = await fetch(url, { headers: { "If-None-Match": etag, "Cache-Control": "max-age=0" } });
+    expect(revalidated.status).toBe(304);
+    expect(indexRaster).toHaveBeenCalledTimes(1);
+    indexRaster.mockRestore();
+  });
+});
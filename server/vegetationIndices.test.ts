@@ -0,0 +1,122 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import express from "express";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import { PNG } from "pngjs";
+import { INDEX_PALETTES, VEGETATION_INDICES, isVegetationIndex } from "@shared/vegetationIndices";
+import { ENV } from "./_core/env";
+import { registerNdviRoutes } from "./_core/ndviRoutes";
+import { fakeSatelliteProvider } from "./services/fakeSatellite";
+import { getPalette, paletteColor, withFallback, type SatelliteProvider, type SatelliteTarget } from "./services/satellite";
+
+vi.mock("./db", () => ({
+  resolveMembership: vi.fn(async (user: { id: number }) => ({ userId: user.id, organizationId: 1, role: "owner" })),
+  getFieldById: vi.fn(async (id: number) => (id === 7 ? { id: 7, userId: 1, organizationId: 1, name: "Talhão 7", geometry: square } : undefined)),
+}));
+
+// Sessão do usuário 1, dono do campo
+vi.mock("./_core/sdk", () => ({ sdk: { authenticateRequest: vi.fn(async () => ({ id: 1 })) } }));
+
+const square = {
+  type: "Polygon" as const,
+  coordinates: [[[-47.01, -22.01], [-47.0, -22.01], [-47.0, -22.0], [-47.01, -22.0], [-47.01, -22.01]]],
+};
+const target: SatelliteTarget = { fieldId: 7, geometry: square };
+const period = { from: new Date("2026-08-01T00:00:00Z"), to: new Date("2026-10-18T00:00:00Z") };
+
+function stubProvider(name: string, indices: SatelliteProvider["indices"]): SatelliteProvider {
+  return {
+    ...fakeSatelliteProvider,
+    name,
+    indices,
+    indexStats: vi.fn(async () => []),
+  };
+}
+
+describe("vegetation indices", () => {
+  it("keeps the NDVI colors and gives each index its own palette", () => {
+    const contrast = INDEX_PALETTES.contrast;
+    // NDVI 0,8 já é o topo da escala; -0,2 é o solo exposto
+    expect(paletteColor(0.8, contrast)).toEqual(contrast[contrast.length - 1].color);
+    expect(paletteColor(-0.2, contrast)).toEqual(contrast[0].color);
+    expect(paletteColor(0.3, contrast)).toEqual(paletteColor(0.3, getPalette()));
+
+    expect(getPalette(undefined, "ndmi")).toBe(INDEX_PALETTES.moisture);
+    expect(getPalette(undefined, "ndre")).toBe(INDEX_PALETTES.rededge);
+    expect(getPalette("viridis", "ndmi")).toBe(INDEX_PALETTES.viridis);
+    expect(paletteColor(0.6, INDEX_PALETTES.moisture, "ndmi")).toEqual([1, 102, 94]);
+
+    expect(isVegetationIndex("gndvi")).toBe(true);
+    expect(isVegetationIndex("ndwi")).toBe(false);
+  });
+
+  it("computes every index for the same scenes", async () => {
+    const series = await Promise.all(
+      VEGETATION_INDICES.map(index => fakeSatelliteProvider.indexStats(target, { index, ...period }))
+    );
+    const dates = series.map(points => points.map(point => point.captureDate.getTime()));
+    dates.forEach(indexDates => expect(indexDates).toEqual(dates[0]));
+
+    const [ndvi, ndre, , , ndmi] = series;
+    ndvi.forEach((point, i) => {
+      expect(ndre[i].mean).toBeLessThan(point.mean);
+      expect(ndmi[i].mean).toBeLessThan(ndre[i].mean);
+    });
+  });
+
+  it("sends each index to a provider that calculates it", async () => {
+    const agro = stubProvider("agromonitoring", ["ndvi", "evi"]);
+    const sentinel = stubProvider("sentinel-hub", VEGETATION_INDICES);
+    const provider = withFallback([agro, sentinel]);
+
+    await provider.indexStats(target, { index: "evi", ...period });
+    await provider.indexStats(target, { index: "ndre", ...period });
+    expect(agro.indexStats).toHaveBeenCalledTimes(1);
+    expect(sentinel.indexStats).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(sentinel.indexStats).mock.calls[0][1]).toMatchObject({ index: "ndre" });
+    expect(provider.indices).toEqual(["ndvi", "evi", "ndre", "savi", "ndmi", "gndvi"]);
+
+    await expect(withFallback([agro]).renderImage(target, { index: "ndmi" }))
+      .rejects.toMatchObject({ statusCode: 400, message: "Nenhum provedor de satélite calcula NDMI para o campo" });
+  });
+});
+
+describe("index parameter on the NDVI routes", () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    ENV.satelliteProvider = "fake";
+    const app = express();
+    registerNdviRoutes(app);
+    server = app.listen(0);
+    await new Promise(resolve => server.once("listening", resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+    ENV.satelliteProvider = "";
+  });
+
+  it("renders and summarizes the requested index", async () => {
+    const ndvi = PNG.sync.read(Buffer.from(await (await fetch(`${baseUrl}/api/ndvi-image/7`)).arrayBuffer()));
+    const ndmi = await fetch(`${baseUrl}/api/ndvi-image/7?index=ndmi`);
+    expect(ndmi.status).toBe(200);
+    const ndmiPng = PNG.sync.read(Buffer.from(await ndmi.arrayBuffer()));
+    expect(ndmiPng.data.equals(ndvi.data)).toBe(false);
+
+    const tile = await fetch(`${baseUrl}/api/ndvi-tiles/7/16/24211/36876.png?index=ndre`);
+    expect(tile.status).toBe(200);
+
+    const history = await (await fetch(`${baseUrl}/api/copernicus-ndvi-history/7?days=60&index=savi`)).json();
+    expect(history).toMatchObject({ fieldId: 7, index: "savi" });
+    expect(history.history.length).toBeGreaterThan(0);
+  });
+
+  it("rejects unknown indices", async () => {
+    const response = await fetch(`${baseUrl}/api/ndvi-image/7?index=ndwi`);
+    expect(response.status).toBe(400);
+    expect(await response.text()).toBe("Invalid index");
+  });
+});
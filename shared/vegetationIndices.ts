@@ -0,0 +1,172 @@
+/**
+ * Índices de vegetação calculados das bandas do Sentinel-2 e suas paletas.
+ * Usados pelos provedores de satélite no servidor e pelo seletor de índice do cliente.
+ */
+
+export const VEGETATION_INDICES = ["ndvi", "ndre", "evi", "savi", "ndmi", "gndvi"] as const;
+
+export type VegetationIndex = (typeof VEGETATION_INDICES)[number];
+
+export interface ColorStop {
+  value: number; // posição na paleta, de 0 a 1
+  color: [number, number, number];
+}
+
+export interface VegetationIndexInfo {
+  label: string;
+  name: string;
+  description: string;
+  range: [number, number]; // valores levados ao início e ao fim da paleta
+  palette: string; // paleta padrão
+}
+
+// Cores baseadas no OneSoil: marrom para solo, verde vibrante para vegetação saudável
+export const INDEX_PALETTES: Record<string, ColorStop[]> = {
+  classic: [
+    { value: 0.0, color: [139, 90, 43] },     // Marrom escuro (solo)
+    { value: 0.15, color: [166, 118, 64] },   // Marrom
+    { value: 0.25, color: [194, 158, 89] },   // Bege
+    { value: 0.35, color: [212, 196, 112] },  // Amarelo pálido
+    { value: 0.45, color: [192, 213, 99] },   // Amarelo-verde
+    { value: 0.55, color: [144, 201, 80] },   // Verde claro
+    { value: 0.65, color: [102, 178, 67] },   // Verde médio
+    { value: 0.75, color: [67, 156, 54] },    // Verde
+    { value: 0.85, color: [45, 134, 45] },    // Verde escuro
+    { value: 1.0, color: [34, 110, 34] },     // Verde muito escuro
+  ],
+  contrast: [
+    { value: 0.0, color: [139, 90, 43] },     // Marrom escuro
+    { value: 0.20, color: [176, 137, 75] },   // Marrom claro
+    { value: 0.35, color: [205, 186, 100] },  // Bege/amarelo
+    { value: 0.45, color: [180, 205, 90] },   // Amarelo-verde
+    { value: 0.55, color: [132, 195, 75] },   // Verde lima claro
+    { value: 0.65, color: [95, 175, 62] },    // Verde lima
+    { value: 0.75, color: [65, 155, 50] },    // Verde
+    { value: 0.85, color: [45, 135, 40] },    // Verde escuro
+    { value: 1.0, color: [34, 115, 34] },     // Verde muito escuro
+  ],
+  viridis: [
+    { value: 0.0, color: [68, 1, 84] },
+    { value: 0.25, color: [59, 82, 139] },
+    { value: 0.5, color: [33, 145, 140] },
+    { value: 0.75, color: [94, 201, 98] },
+    { value: 1.0, color: [253, 231, 37] },
+  ],
+  onesoil: [
+    // Paleta EXATA do OneSoil - verde vibrante dominante
+    { value: 0.0, color: [139, 90, 43] },     // #8B5A2B Marrom (solo exposto)
+    { value: 0.15, color: [160, 110, 55] },   // Marrom claro
+    { value: 0.25, color: [185, 150, 75] },   // Bege escuro
+    { value: 0.35, color: [200, 180, 95] },   // Amarelo suave
+    { value: 0.45, color: [185, 200, 95] },   // Amarelo-verde
+    { value: 0.50, color: [155, 205, 85] },   // Verde-amarelo claro
+    { value: 0.55, color: [130, 200, 75] },   // #82C84B Verde lima claro
+    { value: 0.60, color: [110, 190, 68] },   // #6EBE44 Verde lima
+    { value: 0.65, color: [90, 175, 60] },    // #5AAF3C Verde
+    { value: 0.70, color: [75, 165, 52] },    // #4BA534 Verde médio
+    { value: 0.75, color: [60, 150, 48] },    // #3C9630 Verde escuro
+    { value: 0.85, color: [50, 135, 42] },    // Verde mais escuro
+    { value: 1.0, color: [40, 120, 38] },     // #287826 Verde muito escuro
+  ],
+  pasture: [
+    { value: 0.0, color: [139, 90, 43] },
+    { value: 0.3, color: [185, 150, 80] },
+    { value: 0.5, color: [130, 195, 75] },
+    { value: 0.7, color: [75, 165, 55] },
+    { value: 0.9, color: [45, 130, 42] },
+  ],
+  // Vermelho-amarelo-verde: destaca as manchas de menor clorofila no dossel fechado
+  rededge: [
+    { value: 0.0, color: [165, 0, 38] },      // Vermelho escuro
+    { value: 0.25, color: [244, 109, 67] },   // Laranja
+    { value: 0.45, color: [254, 224, 139] },  // Amarelo
+    { value: 0.65, color: [166, 217, 106] },  // Verde claro
+    { value: 0.85, color: [26, 152, 80] },    // Verde
+    { value: 1.0, color: [0, 104, 55] },      // Verde escuro
+  ],
+  // Marrom (estresse hídrico) a azul (dossel bem hidratado)
+  moisture: [
+    { value: 0.0, color: [140, 81, 10] },     // Marrom
+    { value: 0.25, color: [216, 179, 101] },  // Bege
+    { value: 0.45, color: [246, 232, 195] },  // Areia
+    { value: 0.6, color: [199, 234, 229] },   // Ciano claro
+    { value: 0.8, color: [90, 180, 172] },    // Azul-esverdeado
+    { value: 1.0, color: [1, 102, 94] },      // Azul petróleo
+  ],
+};
+
+export const VEGETATION_INDEX_INFO: Record<VegetationIndex, VegetationIndexInfo> = {
+  ndvi: {
+    label: "NDVI",
+    name: "Índice de Vegetação por Diferença Normalizada",
+    description: "Vigor geral da vegetação; satura em lavouras com dossel fechado",
+    range: [-0.2, 0.8],
+    palette: "contrast",
+  },
+  ndre: {
+    label: "NDRE",
+    name: "Índice de Diferença Normalizada da Borda Vermelha",
+    description: "Clorofila e nitrogênio em soja e milho com dossel fechado (banda B05)",
+    range: [0, 0.5],
+    palette: "rededge",
+  },
+  evi: {
+    label: "EVI",
+    name: "Índice de Vegetação Realçado",
+    description: "Vigor em biomassa alta, com correção de atmosfera e solo",
+    range: [-0.1, 0.9],
+    palette: "contrast",
+  },
+  savi: {
+    label: "SAVI",
+    name: "Índice de Vegetação Ajustado ao Solo",
+    description: "Início do ciclo e áreas com muito solo exposto",
+    range: [-0.1, 0.7],
+    palette: "classic",
+  },
+  ndmi: {
+    label: "NDMI",
+    name: "Índice de Umidade por Diferença Normalizada",
+    description: "Água na vegetação e estresse hídrico (banda B11)",
+    range: [-0.4, 0.6],
+    palette: "moisture",
+  },
+  gndvi: {
+    label: "GNDVI",
+    name: "NDVI Verde",
+    description: "Clorofila no meio e no fim do ciclo, menos sujeito à saturação",
+    range: [-0.1, 0.8],
+    palette: "pasture",
+  },
+};
+
+export function isVegetationIndex(value: unknown): value is VegetationIndex {
+  return typeof value === "string" && (VEGETATION_INDICES as readonly string[]).includes(value);
+}
+
+/**
+ * Cor da zona de manejo: da mais fraca (vermelho) à mais forte (verde), espaçadas na paleta rededge
+ */
+export function zoneColor(zone: number, zoneCount: number): string {
+  const stops = INDEX_PALETTES.rededge;
+  const position = zoneCount > 1 ? (zone - 1) / (zoneCount - 1) : 1;
+  const upper = stops.findIndex(stop => stop.value >= position);
+  const high = stops[Math.max(0, upper)];
+  const low = stops[Math.max(0, upper - 1)];
+  const t = high.value === low.value ? 0 : (position - low.value) / (high.value - low.value);
+  const color = low.color.map((channel, i) => Math.round(channel + (high.color[i] - channel) * t));
+  return `rgb(${color.join(", ")})`;
+}
+
+// Mapa de mudança entre duas datas: vermelho onde o índice caiu, verde onde subiu
+export const CHANGE_RANGE = 0.3; // diferença levada aos extremos da paleta
+export const CHANGE_THRESHOLD = 0.05; // até essa diferença, para mais ou para menos, conta como estável
+
+export const CHANGE_PALETTE: ColorStop[] = [
+  { value: 0.0, color: [165, 0, 38] },      // Vermelho escuro (queda forte)
+  { value: 0.25, color: [244, 109, 67] },   // Laranja
+  { value: 0.42, color: [250, 240, 230] },  // Quase branco
+  { value: 0.58, color: [250, 240, 230] },  // (faixa estável)
+  { value: 0.75, color: [102, 189, 99] },   // Verde claro
+  { value: 1.0, color: [0, 104, 55] },      // Verde escuro (ganho forte)
+];